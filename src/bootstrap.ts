@@ -8,6 +8,12 @@ import { AppwriteServiceProvider } from './core/providers/AppwriteServiceProvide
 import { BusinessServiceProvider } from './core/providers/BusinessServiceProvider.js';
 import { config, validateConfig } from './utils/config.js';
 import { logger } from './utils/logger.js';
+import type { NotificationScheduler } from './services/NotificationScheduler.js';
+import type { ReminderScheduler } from './services/ReminderScheduler.js';
+import type { RetentionScheduler } from './services/RetentionScheduler.js';
+import type { JobWorker } from './services/JobWorker.js';
+import type { IWebhookService } from './core/interfaces/IWebhookService.js';
+import type { IIdempotencyService } from './core/interfaces/IIdempotencyService.js';
 
 /**
  * Bootstrap function to initialize all services and dependencies
@@ -30,6 +36,9 @@ export async function bootstrap(): Promise<void> {
     await testServiceConnections();
     logger.info('✅ Service connections tested');
 
+    // Start background workers
+    startBackgroundWorkers();
+
     logger.info('🚀 Bootstrap completed successfully');
   } catch (error) {
     logger.error('❌ Bootstrap failed', { 
@@ -51,7 +60,12 @@ async function registerServices(): Promise<void> {
   // Register all services through providers
   serviceProviderManager.registerAll(container);
 
+  // These register job handlers (and webhooks their event subscribers) when built, so build them now
+  container.resolve(SERVICE_KEYS.WEBHOOK_SERVICE);
+  container.resolve(SERVICE_KEYS.IDEMPOTENCY_SERVICE);
+
   logger.info('Service registration completed', {
+    databaseProvider: config.database.provider,
     registeredServices: container.getRegisteredKeys()
   });
 }
@@ -99,6 +113,56 @@ async function testServiceConnections(): Promise<void> {
   }
 }
 
+/**
+ * Start in-process background workers
+ */
+function startBackgroundWorkers(): void {
+  if (config.notifications.schedulerEnabled) {
+    container.resolve<NotificationScheduler>(SERVICE_KEYS.NOTIFICATION_SCHEDULER).start();
+    container.resolve<ReminderScheduler>(SERVICE_KEYS.REMINDER_SCHEDULER).start();
+    logger.info('✅ Notification and reminder schedulers started');
+  }
+
+  if (config.retention.sweeperEnabled) {
+    container.resolve<RetentionScheduler>(SERVICE_KEYS.RETENTION_SCHEDULER).start();
+    logger.info('✅ Retention scheduler started');
+  }
+
+  if (config.jobs.workerEnabled) {
+    container.resolve<JobWorker>(SERVICE_KEYS.JOB_WORKER).start();
+    logger.info('✅ Job worker started');
+
+    container.resolve<IWebhookService>(SERVICE_KEYS.WEBHOOK_SERVICE).scheduleWeeklyReports().catch(error => {
+      logger.warn('Failed to schedule weekly report webhooks', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+    container.resolve<IIdempotencyService>(SERVICE_KEYS.IDEMPOTENCY_SERVICE).schedulePurge().catch(error => {
+      logger.warn('Failed to schedule idempotency key purge', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+  }
+}
+
+/**
+ * Stop background workers, waiting for in-progress runs to finish
+ */
+async function stopBackgroundWorkers(): Promise<void> {
+  if (container.isRegistered(SERVICE_KEYS.NOTIFICATION_SCHEDULER)) {
+    await container.resolve<NotificationScheduler>(SERVICE_KEYS.NOTIFICATION_SCHEDULER).stop();
+  }
+  if (container.isRegistered(SERVICE_KEYS.REMINDER_SCHEDULER)) {
+    await container.resolve<ReminderScheduler>(SERVICE_KEYS.REMINDER_SCHEDULER).stop();
+  }
+  if (container.isRegistered(SERVICE_KEYS.RETENTION_SCHEDULER)) {
+    await container.resolve<RetentionScheduler>(SERVICE_KEYS.RETENTION_SCHEDULER).stop();
+  }
+  if (container.isRegistered(SERVICE_KEYS.JOB_WORKER)) {
+    await container.resolve<JobWorker>(SERVICE_KEYS.JOB_WORKER).stop();
+  }
+}
+
 /**
  * Cleanup function for graceful shutdown
  * This should be called when the application is shutting down
@@ -107,12 +171,14 @@ export async function cleanup(): Promise<void> {
   try {
     logger.info('🧹 Starting cleanup process...');
 
+    // Stop background jobs before their dependencies go away
+    await stopBackgroundWorkers();
+
     // Clear the service container
     container.clear();
 
     // TODO: Add cleanup for other resources
     // - Close database connections
-    // - Stop background jobs
     // - Clear caches
     // - etc.
 
@@ -11,7 +11,12 @@ import { HTTP_STATUS, SUCCESS_MESSAGES, ERROR_MESSAGES } from '../utils/response
 import { OAuth2ErrorHandler } from '../utils/OAuth2ErrorHandler.js';
 import { z } from 'zod';
 import { verificationStore } from '../utils/verificationStore.js';
+import { checkOutboundUrl } from '../utils/outboundUrls.js';
+import { config } from '../utils/config.js';
+import { ValidationError } from '../utils/BusinessError.js';
 import crypto from 'crypto';
+import type { User } from '../types/index.js';
+import type { DomainAssignmentResult } from '../core/interfaces/ICompanyService.js';
 
 /**
  * Authentication Controller
@@ -32,11 +37,20 @@ export class AuthController extends BaseController {
       const validatedData = this.validateRequestBody(registerSchema, body);
       
       // Register user through service
-      const { user, session } = await this.services.authService.register(validatedData);
+      const { user: registeredUser, session } = await this.services.authService.register(validatedData);
+      
+      // Attach to the company owning the email domain, if any
+      const companyAssignment = await this.assignCompanyByEmailDomain(registeredUser);
+      const user = companyAssignment.user;
+      await this.services.eventBus.publish('user.registered', { user });
       
       // Send emails (non-blocking)
       if (this.services.emailService) {
         try {
+          // Queued, so the welcome email is retried if the email service is down right now
+          await this.services.jobQueue.enqueue('email.welcome', { email: user.email, name: user.name });
+          this.logAction('welcome_email_queued', user, { email: user.email });
+
           // Test email service connection first
           const emailConnected = await this.services.emailService.testConnection();
           if (!emailConnected) {
@@ -44,10 +58,6 @@ export class AuthController extends BaseController {
             // Continue with registration even if email fails
           } else {
 
-          // Send welcome email
-          await this.services.emailService.sendWelcomeEmail(user.email, user.name);
-          this.logAction('welcome_email_sent', user, { email: user.email });
-          
           // Always send custom verification email
           // Generate a secure verification token
           const verificationToken = crypto.randomBytes(32).toString('hex');
@@ -78,7 +88,11 @@ export class AuthController extends BaseController {
       
       set.status = HTTP_STATUS.CREATED;
       return this.success(
-        { user, session }, 
+        { 
+          user, 
+          session,
+          companyAssignment: { status: companyAssignment.status, companyId: companyAssignment.companyId }
+        }, 
         SUCCESS_MESSAGES.REGISTER_SUCCESS, 
         HTTP_STATUS.CREATED
       );
@@ -279,6 +293,13 @@ export class AuthController extends BaseController {
       
       // Validate request body
       const validatedData = this.validateRequestBody(updatePreferencesSchema, body);
+      const webhookUrl = validatedData.notificationSettings?.webhookUrl;
+      if (webhookUrl && await checkOutboundUrl(webhookUrl, {
+        requireHttps: true,
+        allowPrivateHosts: config.webhooks.allowPrivateHosts
+      })) {
+        throw new ValidationError('Webhook URL must be an HTTPS address on a public host', 'INVALID_WEBHOOK_URL');
+      }
       
       // Update preferences through service
       const updatedUser = await this.services.authService.updatePreferences(
@@ -488,16 +509,25 @@ export class AuthController extends BaseController {
       const validatedQuery = this.validateQueryParams(oauth2CallbackSchema, query);
       
       // Process OAuth2 callback through service
-      const { user, session, isNewUser } = await this.services.authService.handleOAuth2Callback(
+      const { user: oauthUser, session, isNewUser } = await this.services.authService.handleOAuth2Callback(
         validatedQuery.userId,
         validatedQuery.secret
       );
       
+      // New OAuth2 users are matched to a company by email domain just like registrations
+      const companyAssignment = isNewUser
+        ? await this.assignCompanyByEmailDomain(oauthUser)
+        : { status: 'not_matched' as const, user: oauthUser };
+      const user = companyAssignment.user;
+      if (isNewUser) {
+        await this.services.eventBus.publish('user.registered', { user });
+      }
+      
       // Send welcome email only for new OAuth2 users (non-blocking)
       if (isNewUser && this.services.emailService) {
         try {
-          await this.services.emailService.sendWelcomeEmail(user.email, user.name);
-          this.logAction('oauth2_welcome_email_sent', user, { email: user.email, isNewUser });
+          await this.services.jobQueue.enqueue('email.welcome', { email: user.email, name: user.name });
+          this.logAction('oauth2_welcome_email_queued', user, { email: user.email, isNewUser });
         } catch (emailError) {
           // Log email error but don't fail OAuth2 authentication
           this.logError(emailError as Error, 'send_oauth2_welcome_email', user);
@@ -512,7 +542,11 @@ export class AuthController extends BaseController {
       });
       
       return this.success(
-        { user, session },
+        {
+          user,
+          session,
+          companyAssignment: { status: companyAssignment.status, companyId: companyAssignment.companyId }
+        },
         SUCCESS_MESSAGES.OAUTH2_AUTHENTICATION_SUCCESS
       );
       
@@ -600,6 +634,18 @@ export class AuthController extends BaseController {
         email: verificationResult.email
       });
       
+      // Companies requiring verified emails only take the user on now
+      try {
+        const companyAssignment = await this.services.companyService.completeDomainAssignment(verificationResult.userId);
+        if (companyAssignment.status !== 'not_matched') {
+          this.logAction('company_domain_assignment', companyAssignment.user, { status: companyAssignment.status });
+        }
+      } catch (assignmentError) {
+        this.logError(assignmentError as Error, 'complete_company_domain_assignment', undefined, {
+          userId: verificationResult.userId
+        });
+      }
+      
       return this.success(
         { 
           verified: true,
@@ -623,4 +669,21 @@ export class AuthController extends BaseController {
       return this.handleBusinessError(error as Error, set);
     }
   }
+
+  /**
+   * Match a new user to a company by email domain
+   * Failures are logged but never block sign-up.
+   */
+  private async assignCompanyByEmailDomain(user: User): Promise<DomainAssignmentResult> {
+    try {
+      const result = await this.services.companyService.assignByEmailDomain(user);
+      if (result.status !== 'not_matched') {
+        this.logAction('company_domain_assignment', result.user, { status: result.status, companyId: result.companyId });
+      }
+      return result;
+    } catch (error) {
+      this.logError(error as Error, 'company_domain_assignment', user);
+      return { status: 'not_matched', user };
+    }
+  }
 }
\ No newline at end of file
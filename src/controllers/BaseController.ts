@@ -11,6 +11,8 @@ import { validateBody, validateQuery, validateParams } from '../utils/validation
 import { OAuth2ErrorHandler } from '../utils/OAuth2ErrorHandler.js';
 import { PermissionError } from '../core/middleware/PermissionGuard.js';
 import { BusinessError, isBusinessError } from '../utils/BusinessError.js';
+import { DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from '../utils/databasePaging.js';
+import { toETag, parseIfMatch } from '../utils/etag.js';
 import type { z } from 'zod';
 
 /**
@@ -315,14 +317,31 @@ export abstract class BaseController {
     });
   }
 
+  /**
+   * Document version the client expects from the If-Match header, for optimistic locking
+   */
+  protected getExpectedVersion(context: any): string | undefined {
+    return parseIfMatch(context.headers?.['if-match']);
+  }
+
+  /**
+   * Send the document version as ETag so the client can return it in If-Match
+   */
+  protected setETag(set: any, document: { $updatedAt?: string }) {
+    if (document.$updatedAt) {
+      set.headers['ETag'] = toETag(document.$updatedAt);
+    }
+  }
+
   /**
    * Parse pagination parameters with defaults
    */
   protected parsePagination(page?: number, limit?: number) {
+    const cappedLimit = Math.min(limit || DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT);
     return {
       page: page || 1,
-      limit: Math.min(limit || 20, 100), // Cap at 100
-      offset: ((page || 1) - 1) * (limit || 20)
+      limit: cappedLimit,
+      offset: ((page || 1) - 1) * cappedLimit
     };
   }
 
@@ -332,7 +351,7 @@ export abstract class BaseController {
   protected parseSort(sortBy?: string, sortOrder?: string) {
     return {
       sortBy: sortBy || 'createdAt',
-      sortOrder: (sortOrder === 'asc' || sortOrder === 'desc') ? sortOrder : 'desc'
+      sortOrder: (sortOrder === 'asc' ? 'asc' : 'desc') as 'asc' | 'desc'
     };
   }
 }
\ No newline at end of file
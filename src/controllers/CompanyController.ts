@@ -1,14 +1,24 @@
 import { BaseController } from './BaseController.js';
-import { HTTP_STATUS } from '../utils/response.js';
+import { HTTP_STATUS, SUCCESS_MESSAGES } from '../utils/response.js';
 import { 
   createCompanySchema,
   updateCompanySchema,
   inviteUserSchema,
   acceptInviteSchema,
   updateUserRoleSchema,
-  companyIdParamSchema
+  companyIdParamSchema,
+  invitationIdParamSchema,
+  invitationQuerySchema,
+  companyAnalyticsQuerySchema,
+  companyListQuerySchema,
+  companyUsersQuerySchema,
+  updateSubscriptionSchema,
+  membershipRequestParamSchema,
+  membershipRequestQuerySchema,
+  retentionRunQuerySchema
 } from '../utils/validation.js';
 import type { User, Company } from '../types/index.js';
+import { platformAnalyticsToCsv } from '../utils/platformAnalytics.js';
 
 /**
  * Company Controller - Handles company management operations
@@ -49,6 +59,7 @@ export class CompanyController extends BaseController {
       };
       
       const company = await this.services.databaseService.create<Company>('companies', companyData);
+      await this.services.eventBus.publish('company.created', { company, createdBy: user.$id });
       
       this.logAction('create_company_success', user, { companyId: company.$id });
       
@@ -70,14 +81,9 @@ export class CompanyController extends BaseController {
       const user = this.getCurrentUser(context);
       await this.requirePermission(user, 'manage_companies');
       
-      const { page = 1, limit = 20 } = query;
+      const filters = this.validateQueryParams(companyListQuerySchema, query || {});
       
-      // Build database queries for listing companies
-      const queries = [
-        { field: '$createdAt', operator: 'greater' as const, value: '2020-01-01T00:00:00.000Z' } // Basic filter
-      ];
-      
-      const result = await this.services.databaseService.list<Company>('companies', queries);
+      const result = await this.services.companyService.listCompanies(filters);
       
       return this.success(result, 'Companies retrieved successfully');
       
@@ -98,7 +104,8 @@ export class CompanyController extends BaseController {
       
       await this.checkCompanyAccess(user, companyId);
       
-      const company = await this.services.databaseService.read<Company>('companies', companyId);
+      const company = await this.services.databaseService.read<Company & { $updatedAt: string }>('companies', companyId);
+      this.setETag(set, company);
       
       return this.success({ company }, 'Company retrieved successfully');
       
@@ -138,7 +145,12 @@ export class CompanyController extends BaseController {
         };
       }
       
-      const company = await this.services.databaseService.update<Company>('companies', companyId, updateData);
+      // Rejected if the company changed since the client read it
+      const company = await this.services.databaseService.update<Company & { $updatedAt: string }>('companies', companyId, updateData, {
+        expectedVersion: this.getExpectedVersion(context)
+      });
+      this.setETag(set, company);
+      await this.services.eventBus.publish('company.updated', { company, updatedBy: user.$id });
       
       this.logAction('update_company_success', user, { companyId });
       
@@ -164,6 +176,7 @@ export class CompanyController extends BaseController {
       this.logAction('delete_company_attempt', user, { companyId });
       
       await this.services.databaseService.delete('companies', companyId);
+      await this.services.eventBus.publish('company.deleted', { companyId, deletedBy: user.$id });
       
       this.logAction('delete_company_success', user, { companyId });
       
@@ -189,10 +202,157 @@ export class CompanyController extends BaseController {
       
       const validatedData = this.validateRequestBody(inviteUserSchema, body);
       
-      // TODO: Implement invite logic when EmailService is ready
       this.logAction('invite_user_attempt', user, { companyId, email: validatedData.email });
       
-      return this.success({ message: 'User invited successfully' });
+      const invitation = await this.services.companyService.inviteUser(companyId, validatedData, user);
+      
+      this.logAction('invite_user_success', user, { companyId, invitationId: invitation.$id });
+      
+      return this.success({ invitation }, SUCCESS_MESSAGES.INVITATION_SENT, HTTP_STATUS.CREATED);
+      
+    } catch (error) {
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * List company invitations
+   */
+  async listInvitations(context: any) {
+    const { params, query, set } = context;
+    
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId } = this.validateQueryParams(companyIdParamSchema, params);
+      
+      await this.checkCompanyAccess(user, companyId);
+      await this.requirePermission(user, 'manage_company_users');
+      
+      const filters = this.validateQueryParams(invitationQuerySchema, query || {});
+      
+      const result = await this.services.companyService.listInvitations(companyId, filters);
+      
+      return this.success(result, 'Invitations retrieved successfully');
+      
+    } catch (error) {
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Revoke a pending invitation
+   */
+  async revokeInvitation(context: any) {
+    const { params, set } = context;
+    
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId, invitationId } = this.validateUrlParams(invitationIdParamSchema, params);
+      
+      await this.checkCompanyAccess(user, companyId);
+      await this.requirePermission(user, 'manage_company_users');
+      
+      await this.services.companyService.revokeInvitation(companyId, invitationId);
+      
+      this.logAction('revoke_invitation_success', user, { companyId, invitationId });
+      
+      return this.success({ revokedId: invitationId }, SUCCESS_MESSAGES.INVITATION_REVOKED);
+      
+    } catch (error) {
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Resend an invitation with a fresh token
+   */
+  async resendInvitation(context: any) {
+    const { params, set } = context;
+    
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId, invitationId } = this.validateUrlParams(invitationIdParamSchema, params);
+      
+      await this.checkCompanyAccess(user, companyId);
+      await this.requirePermission(user, 'manage_company_users');
+      
+      const invitation = await this.services.companyService.resendInvitation(companyId, invitationId, user);
+      
+      this.logAction('resend_invitation_success', user, { companyId, invitationId });
+      
+      return this.success({ invitation }, SUCCESS_MESSAGES.INVITATION_SENT);
+      
+    } catch (error) {
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * List requests to join the company made through its email domain
+   */
+  async listMembershipRequests(context: any) {
+    const { params, query, set } = context;
+    
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId } = this.validateUrlParams(companyIdParamSchema, params);
+      
+      await this.checkCompanyAccess(user, companyId);
+      await this.requirePermission(user, 'manage_company_users');
+      
+      const filters = this.validateQueryParams(membershipRequestQuerySchema, query || {});
+      
+      const result = await this.services.companyService.listMembershipRequests(companyId, filters);
+      
+      return this.success(result, 'Membership requests retrieved successfully');
+      
+    } catch (error) {
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Approve a pending membership request
+   */
+  async approveMembershipRequest(context: any) {
+    const { params, set } = context;
+    
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId, requestId } = this.validateUrlParams(membershipRequestParamSchema, params);
+      
+      await this.checkCompanyAccess(user, companyId);
+      await this.requirePermission(user, 'manage_company_users');
+      
+      const member = await this.services.companyService.approveMembershipRequest(companyId, requestId, user.$id);
+      
+      this.logAction('approve_membership_request_success', user, { companyId, requestId, userId: member.$id });
+      
+      return this.success({ user: member }, 'Membership request approved successfully');
+      
+    } catch (error) {
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Reject a pending membership request
+   */
+  async rejectMembershipRequest(context: any) {
+    const { params, set } = context;
+    
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId, requestId } = this.validateUrlParams(membershipRequestParamSchema, params);
+      
+      await this.checkCompanyAccess(user, companyId);
+      await this.requirePermission(user, 'manage_company_users');
+      
+      await this.services.companyService.rejectMembershipRequest(companyId, requestId, user.$id);
+      
+      this.logAction('reject_membership_request_success', user, { companyId, requestId });
+      
+      return this.success({ rejectedId: requestId }, 'Membership request rejected successfully');
       
     } catch (error) {
       return this.handleBusinessError(error as Error, set);
@@ -211,14 +371,9 @@ export class CompanyController extends BaseController {
       
       await this.checkCompanyAccess(user, companyId);
       
-      const { page = 1, limit = 20 } = query;
-      
-      // Build database queries for company users
-      const queries = [
-        { field: 'companyId', operator: 'equal' as const, value: companyId }
-      ];
+      const filters = this.validateQueryParams(companyUsersQuerySchema, query || {});
       
-      const result = await this.services.databaseService.list<User>('users', queries);
+      const result = await this.services.companyService.getCompanyUsers(companyId, filters);
       
       return this.success(result, 'Company users retrieved successfully');
       
@@ -271,13 +426,7 @@ export class CompanyController extends BaseController {
       await this.checkCompanyAccess(user, companyId);
       await this.requirePermission(user, 'manage_company_users');
       
-      const updateData = {
-        companyId: undefined,
-        role: 'INDIVIDUAL_USER' as const,
-        updatedAt: new Date().toISOString()
-      };
-      
-      await this.services.databaseService.update<User>('users', userId, updateData);
+      await this.services.companyService.removeUser(companyId, userId, user.$id);
       
       this.logAction('remove_user_success', user, { companyId, userId });
       
@@ -288,11 +437,56 @@ export class CompanyController extends BaseController {
     }
   }
 
+  /**
+   * Preview what the retention sweep would purge for a company (dry run)
+   */
+  async previewRetention(context: any) {
+    const { params, set } = context;
+    
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId } = this.validateUrlParams(companyIdParamSchema, params);
+      
+      await this.checkCompanyAccess(user, companyId);
+      await this.requirePermission(user, 'manage_company');
+      
+      const preview = await this.services.retentionService.previewCompany(companyId);
+      
+      return this.success({ preview }, 'Retention preview calculated successfully');
+      
+    } catch (error) {
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * List past retention runs of a company
+   */
+  async listRetentionRuns(context: any) {
+    const { params, query, set } = context;
+    
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId } = this.validateUrlParams(companyIdParamSchema, params);
+      
+      await this.checkCompanyAccess(user, companyId);
+      await this.requirePermission(user, 'manage_company');
+      
+      const page = this.validateQueryParams(retentionRunQuerySchema, query || {});
+      const result = await this.services.retentionService.listRuns(companyId, page);
+      
+      return this.success(result, 'Retention runs retrieved successfully');
+      
+    } catch (error) {
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
   /**
    * Get company analytics
    */
   async getCompanyAnalytics(context: any) {
-    const { params, set } = context;
+    const { params, query, set } = context;
     
     try {
       const user = this.getCurrentUser(context);
@@ -301,14 +495,9 @@ export class CompanyController extends BaseController {
       await this.checkCompanyAccess(user, companyId);
       await this.requirePermission(user, 'view_company_analytics');
       
-      // TODO: Implement analytics when AnalyticsService is ready
-      const analytics = {
-        totalUsers: 0,
-        activeUsers: 0,
-        newUsersThisMonth: 0,
-        journalEntries: 0,
-        moodLogs: 0
-      };
+      const { period, departmentId } = this.validateQueryParams(companyAnalyticsQuerySchema, query);
+      
+      const analytics = await this.services.companyService.getAnalytics(companyId, period, departmentId);
       
       return this.success({ analytics }, 'Company analytics retrieved successfully');
       
@@ -317,23 +506,44 @@ export class CompanyController extends BaseController {
     }
   }
 
+  /**
+   * Change company subscription tier or seat limit (Super admin only)
+   */
+  async updateSubscription(context: any) {
+    const { params, body, set } = context;
+    
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId } = this.validateUrlParams(companyIdParamSchema, params);
+      
+      await this.requirePermission(user, 'manage_companies');
+      
+      const validatedData = this.validateRequestBody(updateSubscriptionSchema, body);
+      
+      const company = await this.services.companyService.updateSubscription(companyId, validatedData, user.$id);
+      
+      this.logAction('update_subscription_success', user, { companyId, tier: validatedData.tier });
+      
+      return this.success({ company }, 'Subscription updated successfully');
+      
+    } catch (error) {
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
   /**
    * Get platform-wide analytics (Super admin only)
    */
   async getPlatformAnalytics(context: any) {
-    const { set } = context;
+    const { query, set } = context;
     
     try {
       const user = this.getCurrentUser(context);
       await this.requirePermission(user, 'view_platform_analytics');
       
-      // TODO: Implement platform analytics when AnalyticsService is ready
-      const analytics = {
-        totalUsers: 0,
-        totalCompanies: 0,
-        activeCompanies: 0,
-        subscriptionDistribution: { free: 0, premium: 0, enterprise: 0 }
-      };
+      const { period } = this.validateQueryParams(companyAnalyticsQuerySchema, query);
+      
+      const analytics = await this.services.companyService.getPlatformAnalytics(period);
       
       return this.success({ analytics }, 'Platform analytics retrieved successfully');
       
@@ -342,6 +552,35 @@ export class CompanyController extends BaseController {
     }
   }
 
+  /**
+   * Export platform-wide analytics as CSV (Super admin only)
+   */
+  async exportPlatformAnalytics(context: any) {
+    const { query, set } = context;
+    
+    try {
+      const user = this.getCurrentUser(context);
+      await this.requirePermission(user, 'view_platform_analytics');
+      
+      const { period } = this.validateQueryParams(companyAnalyticsQuerySchema, query);
+      
+      const analytics = await this.services.companyService.getPlatformAnalytics(period);
+      
+      this.logAction('export_platform_analytics', user, { period });
+      
+      const filename = `platform-analytics-${period}-${new Date().toISOString().slice(0, 10)}.csv`;
+      return new Response(platformAnalyticsToCsv(analytics), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`
+        }
+      });
+      
+    } catch (error) {
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
   /**
    * Accept company invitation
    */
@@ -352,10 +591,13 @@ export class CompanyController extends BaseController {
       const { inviteToken } = params;
       const validatedData = this.validateRequestBody(acceptInviteSchema, body);
       
-      // TODO: Implement invite acceptance when InviteService is ready
-      this.logAction('accept_invite_attempt', undefined, { inviteToken });
+      this.logAction('accept_invite_attempt');
+      
+      const result = await this.services.companyService.acceptInvitation(inviteToken, validatedData);
+      
+      this.logAction('accept_invite_success', result.user, { companyId: result.company.$id, isNewUser: result.isNewUser });
       
-      return this.success({ message: 'Invitation accepted successfully' });
+      return this.success(result, SUCCESS_MESSAGES.INVITATION_ACCEPTED);
       
     } catch (error) {
       return this.handleBusinessError(error as Error, set);
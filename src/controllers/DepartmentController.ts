@@ -0,0 +1,230 @@
+import { BaseController } from './BaseController.js';
+import { HTTP_STATUS } from '../utils/response.js';
+import {
+  companyIdParamSchema,
+  createDepartmentSchema,
+  updateDepartmentSchema,
+  departmentIdParamSchema,
+  departmentMemberParamSchema,
+  addDepartmentMemberSchema
+} from '../utils/validation.js';
+
+/**
+ * Department Controller - Handles departments (teams) inside a company
+ * Company admins manage departments; managers manage membership of their own.
+ */
+export class DepartmentController extends BaseController {
+
+  /**
+   * Create a department
+   */
+  async createDepartment(context: any) {
+    const { params, body, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId } = this.validateUrlParams(companyIdParamSchema, params);
+
+      await this.requireCompanyAccess(user, companyId);
+      await this.requirePermission(user, 'manage_company_users');
+
+      const validatedData = this.validateRequestBody(createDepartmentSchema, body);
+      const department = await this.services.departmentService.createDepartment(companyId, validatedData);
+
+      this.logAction('create_department', user, { companyId, departmentId: department.$id });
+
+      set.status = HTTP_STATUS.CREATED;
+      return this.success({ department }, 'Department created successfully', HTTP_STATUS.CREATED);
+
+    } catch (error) {
+      this.logError(error as Error, 'create_department');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * List the departments of a company
+   */
+  async getDepartments(context: any) {
+    const { params, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId } = this.validateUrlParams(companyIdParamSchema, params);
+
+      await this.requireCompanyAccess(user, companyId);
+
+      const departments = await this.services.departmentService.listDepartments(companyId);
+
+      return this.success({ departments }, 'Departments retrieved successfully');
+
+    } catch (error) {
+      this.logError(error as Error, 'get_departments');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Get a department
+   */
+  async getDepartment(context: any) {
+    const { params, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId, departmentId } = this.validateUrlParams(departmentIdParamSchema, params);
+
+      await this.requireCompanyAccess(user, companyId);
+
+      const department = await this.services.departmentService.getDepartment(companyId, departmentId);
+
+      return this.success({ department }, 'Department retrieved successfully');
+
+    } catch (error) {
+      this.logError(error as Error, 'get_department');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Update a department
+   */
+  async updateDepartment(context: any) {
+    const { params, body, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId, departmentId } = this.validateUrlParams(departmentIdParamSchema, params);
+
+      await this.requireCompanyAccess(user, companyId);
+      await this.requirePermission(user, 'manage_company_users');
+
+      const validatedData = this.validateRequestBody(updateDepartmentSchema, body);
+      const department = await this.services.departmentService.updateDepartment(companyId, departmentId, validatedData);
+
+      this.logAction('update_department', user, { companyId, departmentId });
+
+      return this.success({ department }, 'Department updated successfully');
+
+    } catch (error) {
+      this.logError(error as Error, 'update_department');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Delete a department, its members stay in the company
+   */
+  async deleteDepartment(context: any) {
+    const { params, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId, departmentId } = this.validateUrlParams(departmentIdParamSchema, params);
+
+      await this.requireCompanyAccess(user, companyId);
+      await this.requirePermission(user, 'manage_company_users');
+
+      await this.services.departmentService.deleteDepartment(companyId, departmentId, user.$id);
+
+      this.logAction('delete_department', user, { companyId, departmentId });
+
+      return this.success({ deletedId: departmentId }, 'Department deleted successfully');
+
+    } catch (error) {
+      this.logError(error as Error, 'delete_department');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * List the members of a department
+   */
+  async getMembers(context: any) {
+    const { params, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId, departmentId } = this.validateUrlParams(departmentIdParamSchema, params);
+
+      await this.requireCompanyAccess(user, companyId);
+
+      const members = await this.services.departmentService.listMembers(companyId, departmentId);
+
+      return this.success({
+        members: members.map(member => ({
+          $id: member.$id,
+          name: member.name,
+          email: member.email,
+          role: member.role,
+          isActive: member.isActive
+        }))
+      }, 'Department members retrieved successfully');
+
+    } catch (error) {
+      this.logError(error as Error, 'get_department_members');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Add a company member to a department
+   */
+  async addMember(context: any) {
+    const { params, body, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId, departmentId } = this.validateUrlParams(departmentIdParamSchema, params);
+
+      await this.requireCompanyAccess(user, companyId);
+      await this.requirePermission(user, 'manage_departments');
+      await this.requireResourceAccess(user, 'department', departmentId, 'manage');
+
+      const { userId } = this.validateRequestBody(addDepartmentMemberSchema, body);
+      const member = await this.services.departmentService.addMember(companyId, departmentId, userId, user);
+
+      this.logAction('add_department_member', user, { companyId, departmentId, userId });
+
+      return this.success({
+        member: {
+          $id: member.$id,
+          name: member.name,
+          email: member.email,
+          role: member.role,
+          departmentId: member.departmentId
+        }
+      }, 'Department member added successfully');
+
+    } catch (error) {
+      this.logError(error as Error, 'add_department_member');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Remove a member from a department
+   */
+  async removeMember(context: any) {
+    const { params, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId, departmentId, userId } = this.validateUrlParams(departmentMemberParamSchema, params);
+
+      await this.requireCompanyAccess(user, companyId);
+      await this.requirePermission(user, 'manage_departments');
+      await this.requireResourceAccess(user, 'department', departmentId, 'manage');
+
+      await this.services.departmentService.removeMember(companyId, departmentId, userId, user);
+
+      this.logAction('remove_department_member', user, { companyId, departmentId, userId });
+
+      return this.success({ removedUserId: userId }, 'Department member removed successfully');
+
+    } catch (error) {
+      this.logError(error as Error, 'remove_department_member');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+}
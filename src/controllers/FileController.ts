@@ -0,0 +1,85 @@
+import { BaseController } from './BaseController.js';
+import { HTTP_STATUS } from '../utils/response.js';
+import { fileIdParamSchema, fileUrlQuerySchema, signedFileQuerySchema } from '../utils/validation.js';
+import { userBucketId } from '../utils/attachments.js';
+
+/**
+ * File Controller - Serves private files through short-lived signed links
+ */
+export class FileController extends BaseController {
+
+  /**
+   * Issue a signed link to a file the user may view
+   */
+  async createFileUrl(context: any) {
+    const { params, query, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { fileId } = this.validateUrlParams(fileIdParamSchema, params);
+      const { bucketId = userBucketId(user.$id), rendition } = this.validateQueryParams(fileUrlQuerySchema, query || {});
+
+      this.logAction('create_file_url', user, { bucketId, fileId, rendition });
+
+      await this.requireResourceAccess(user, 'file', `${bucketId}/${fileId}`, 'view');
+
+      const signedUrl = await this.services.fileAccessService.createSignedUrl(bucketId, fileId, { rendition });
+      return this.success(signedUrl);
+
+    } catch (error) {
+      this.logError(error as Error, 'create_file_url');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Stream a file to whoever holds a valid link, honouring Range for seeking in recordings
+   */
+  async serveFile(context: any) {
+    const { params, query, request, set } = context;
+
+    try {
+      const { fileId } = this.validateUrlParams(fileIdParamSchema, params);
+      const { bucketId, expires, signature } = this.validateQueryParams(signedFileQuerySchema, query || {});
+
+      const opened = await this.services.fileAccessService.openSignedFile(
+        { bucketId, fileId, expires },
+        signature,
+        request.headers.get('range')
+      );
+      const { file } = opened;
+
+      if (opened.range === 'unsatisfiable') {
+        return new Response(null, {
+          status: HTTP_STATUS.RANGE_NOT_SATISFIABLE,
+          headers: { 'Content-Range': `bytes */${file.sizeOriginal}` }
+        });
+      }
+
+      // Browsers may keep the file as long as the link is valid, but never in shared caches
+      const maxAge = Math.max(Math.floor((opened.expiresAt.getTime() - Date.now()) / 1000), 0);
+      const headers: Record<string, string> = {
+        'Content-Type': file.mimeType,
+        'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(file.name)}`,
+        'Accept-Ranges': 'bytes',
+        'Cache-Control': `private, max-age=${maxAge}`,
+        'ETag': `"${file.signature}"`,
+        'X-Content-Type-Options': 'nosniff'
+      };
+
+      if (opened.range) {
+        const { start, end } = opened.range;
+        headers['Content-Range'] = `bytes ${start}-${end}/${file.sizeOriginal}`;
+        headers['Content-Length'] = String(end - start + 1);
+        return new Response(opened.stream, { status: HTTP_STATUS.PARTIAL_CONTENT, headers });
+      }
+
+      headers['Content-Length'] = String(file.sizeOriginal);
+      return new Response(opened.stream, { status: HTTP_STATUS.OK, headers });
+
+    } catch (error) {
+      this.logError(error as Error, 'serve_file');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { BaseController } from './BaseController.js';
+import { jobQuerySchema, jobIdParamSchema } from '../utils/validation.js';
+
+/**
+ * Job Controller - Lets super admins inspect and manage the background job queue
+ */
+export class JobController extends BaseController {
+
+  /**
+   * List jobs, filtered by status or type
+   */
+  async listJobs(context: any) {
+    const { query, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      await this.requirePermission(user, 'manage_platform');
+
+      const filters = this.validateQueryParams(jobQuerySchema, query || {});
+
+      const result = await this.services.jobQueue.listJobs(filters);
+
+      return this.success(result, 'Jobs retrieved successfully');
+
+    } catch (error) {
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Get a single job
+   */
+  async getJob(context: any) {
+    const { params, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      await this.requirePermission(user, 'manage_platform');
+
+      const { jobId } = this.validateUrlParams(jobIdParamSchema, params);
+
+      const job = await this.services.jobQueue.getJob(jobId);
+
+      return this.success({ job }, 'Job retrieved successfully');
+
+    } catch (error) {
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Queue a dead or cancelled job again
+   */
+  async retryJob(context: any) {
+    const { params, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      await this.requirePermission(user, 'manage_platform');
+
+      const { jobId } = this.validateUrlParams(jobIdParamSchema, params);
+
+      this.logAction('retry_job', user, { jobId });
+
+      const job = await this.services.jobQueue.retryJob(jobId);
+
+      return this.success({ job }, 'Job queued for retry');
+
+    } catch (error) {
+      this.logError(error as Error, 'retry_job');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Cancel a job that has not started yet
+   */
+  async cancelJob(context: any) {
+    const { params, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      await this.requirePermission(user, 'manage_platform');
+
+      const { jobId } = this.validateUrlParams(jobIdParamSchema, params);
+
+      this.logAction('cancel_job', user, { jobId });
+
+      const job = await this.services.jobQueue.cancelJob(jobId);
+
+      return this.success({ job }, 'Job cancelled successfully');
+
+    } catch (error) {
+      this.logError(error as Error, 'cancel_job');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+}
@@ -3,12 +3,15 @@ import {
   createJournalSchema, 
   updateJournalSchema, 
   journalQuerySchema,
-  idParamSchema 
+  idParamSchema,
+  fileUploadSchema
 } from '../utils/validation.js';
 import { HTTP_STATUS, SUCCESS_MESSAGES, ERROR_MESSAGES } from '../utils/response.js';
 import type { CreateJournalInput, UpdateJournalInput, JournalQueryInput } from '../utils/validation.js';
 import type { JournalEntry, User } from '../types/index.js';
 import type { DatabaseQuery } from '../core/interfaces/IDatabaseService.js';
+import { toListOptions, toPageInfo } from '../utils/databasePaging.js';
+import { journalFileIds } from '../utils/attachments.js';
 
 /**
  * Journal Controller
@@ -32,6 +35,9 @@ export class JournalController extends BaseController {
       
       // Validate request body
       const validatedData = this.validateRequestBody(createJournalSchema, body);
+      if (validatedData.attachments) {
+        await this.services.journalAttachmentService.validateAttachments(user.$id, validatedData.attachments);
+      }
       
       // Create journal entry through database service (flatten for Appwrite)
       const journalData = {
@@ -62,6 +68,8 @@ export class JournalController extends BaseController {
       };
       
       const journalEntry = await this.services.databaseService.create<any>('journals', journalData);
+      this.setETag(set, journalEntry);
+      await this.services.eventBus.publish('journal.created', { journal: journalEntry });
       
       this.logAction('journal_entry_created', user, { 
         entryId: journalEntry.$id 
@@ -101,6 +109,7 @@ export class JournalController extends BaseController {
       const queryParams = this.validateQueryParams(journalQuerySchema as any, query || {}) as JournalQueryInput;
       const { page, limit } = this.parsePagination(queryParams.page, queryParams.limit);
       const { sortBy, sortOrder } = this.parseSort(queryParams.sortBy, queryParams.sortOrder);
+      const pageRequest = { page, limit, sortBy, sortOrder, cursor: queryParams.cursor };
       
       // Build database queries
       const queries: DatabaseQuery[] = [
@@ -126,7 +135,7 @@ export class JournalController extends BaseController {
       }
       
       // Get journal entries through database service
-      const result = await this.services.databaseService.list<any>('journals', queries);
+      const result = await this.services.databaseService.list<any>('journals', queries, toListOptions(pageRequest));
       
       // Transform flattened data to response format
       const transformedEntries = result.documents.map(entry => this.transformJournalToResponse(entry));
@@ -138,13 +147,7 @@ export class JournalController extends BaseController {
       
       return this.success({
         entries: transformedEntries,
-        pagination: {
-          total: result.total,
-          page,
-          limit,
-          hasNext: (page * limit) < result.total,
-          hasPrev: page > 1,
-        }
+        pagination: toPageInfo(result, pageRequest)
       });
       
     } catch (error) {
@@ -172,6 +175,7 @@ export class JournalController extends BaseController {
       
       // Get journal entry through database service
       const journalEntry = await this.services.databaseService.read<any>('journals', id);
+      this.setETag(set, journalEntry);
       
       // Transform flattened data to response format
       const transformedEntry = this.transformJournalToResponse(journalEntry);
@@ -222,8 +226,33 @@ export class JournalController extends BaseController {
         if (validatedData.mood.notes) updateData.moodNotes = validatedData.mood.notes;
       }
       
-      // Update journal entry through database service
-      const updatedEntry = await this.services.databaseService.update<any>('journals', id, updateData);
+      // Newly attached files must belong to the entry's owner, detached ones are deleted afterwards
+      let detachedFiles: string[] = [];
+      let ownerId = user.$id;
+      if (validatedData.attachments) {
+        const currentEntry = await this.services.databaseService.read<any>('journals', id);
+        const currentFiles: string[] = journalFileIds(currentEntry);
+        ownerId = currentEntry.userId;
+        
+        const images = validatedData.attachments.images ?? currentEntry.attachmentImages ?? [];
+        const voiceRecording = validatedData.attachments.voiceRecording ?? currentEntry.attachmentVoiceRecording ?? '';
+        await this.services.journalAttachmentService.validateAttachments(ownerId, {
+          images: images.filter((fileId: string) => !currentFiles.includes(fileId)),
+          voiceRecording: currentFiles.includes(voiceRecording) ? undefined : voiceRecording
+        });
+        
+        updateData.attachmentImages = images;
+        updateData.attachmentVoiceRecording = voiceRecording;
+        detachedFiles = currentFiles.filter(fileId => !images.includes(fileId) && fileId !== voiceRecording);
+      }
+      
+      // Update journal entry through database service, rejected if changed since the client read it
+      const updatedEntry = await this.services.databaseService.update<any>('journals', id, updateData, {
+        expectedVersion: this.getExpectedVersion(context)
+      });
+      this.setETag(set, updatedEntry);
+      await this.services.eventBus.publish('journal.updated', { journal: updatedEntry });
+      await this.services.journalAttachmentService.deleteFiles(ownerId, detachedFiles);
       
       // Transform response back to nested format
       const transformedEntry = this.transformJournalToResponse(updatedEntry);
@@ -258,8 +287,11 @@ export class JournalController extends BaseController {
       // Check resource access permission
       await this.requireResourceAccess(user, 'journal', id, 'delete');
       
-      // Delete journal entry through database service
+      // Delete journal entry through database service, then the files only it referred to
+      const journalEntry = await this.services.databaseService.read<any>('journals', id);
       await this.services.databaseService.delete('journals', id);
+      await this.services.eventBus.publish('journal.deleted', { journalId: id, deletedBy: user.$id });
+      await this.services.journalAttachmentService.deleteFiles(journalEntry.userId, journalFileIds(journalEntry));
       
       this.logAction('journal_entry_deleted', user, { entryId: id });
       
@@ -276,6 +308,63 @@ export class JournalController extends BaseController {
     }
   }
 
+  /**
+   * Upload a photo or voice recording for a journal entry
+   */
+  async uploadAttachment(context: any) {
+    const { body, set } = context;
+    
+    try {
+      const user = this.getCurrentUser(context);
+      
+      // Check permission
+      await this.requirePermission(user, 'create_journal');
+      
+      const { type } = this.validateRequestBody(fileUploadSchema, { type: body?.type });
+      if (!(body?.file instanceof File)) {
+        throw new Error('Validation error: A file is required');
+      }
+      
+      this.logAction('upload_journal_attachment', user, { type, size: body.file.size });
+      
+      await this.services.storageQuotaService.assertCanStore(user, body.file.size);
+      const attachment = await this.services.journalAttachmentService.upload(user.$id, type, body.file);
+      
+      // Photos are stored re-encoded next to their renditions, so count what was actually written
+      const renditions = attachment.renditions ?? [];
+      await this.services.storageQuotaService.recordUpload(user, {
+        total: renditions.reduce((sum, rendition) => sum + rendition.sizeOriginal, attachment.size),
+        file: 1 + renditions.length
+      });
+      
+      // Signed links to the renditions, so the photo can be shown without another request
+      if (attachment.renditions) {
+        await this.requireResourceAccess(user, 'file', `${attachment.bucketId}/${attachment.fileId}`, 'view');
+        attachment.previews = {};
+        for (const rendition of attachment.renditions) {
+          attachment.previews[rendition.name] = await this.services.fileAccessService.createSignedUrl(
+            attachment.bucketId,
+            attachment.fileId,
+            { rendition: rendition.name }
+          );
+        }
+      }
+      
+      this.logAction('journal_attachment_uploaded', user, { fileId: attachment.fileId });
+      
+      set.status = HTTP_STATUS.CREATED;
+      return this.success(
+        { attachment },
+        SUCCESS_MESSAGES.FILE_UPLOADED,
+        HTTP_STATUS.CREATED
+      );
+      
+    } catch (error) {
+      this.logError(error as Error, 'upload_journal_attachment');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
   /**
    * Search journal entries
    */
@@ -353,6 +442,8 @@ export class JournalController extends BaseController {
       // Validate query parameters
       const queryParams = this.validateQueryParams(journalQuerySchema as any, query || {}) as any;
       const { page, limit } = this.parsePagination(queryParams.page, queryParams.limit);
+      const { sortBy, sortOrder } = this.parseSort(queryParams.sortBy, queryParams.sortOrder);
+      const pageRequest = { page, limit, sortBy, sortOrder, cursor: queryParams.cursor };
       
       // Build queries based on user role and permissions
       const queries: DatabaseQuery[] = [];
@@ -378,7 +469,7 @@ export class JournalController extends BaseController {
       }
       
       // Get journal entries through database service
-      const result = await this.services.databaseService.list<any>('journals', queries);
+      const result = await this.services.databaseService.list<any>('journals', queries, toListOptions(pageRequest));
       
       // Transform flattened data to response format
       const transformedEntries = result.documents.map(entry => this.transformJournalToResponse(entry));
@@ -390,13 +481,7 @@ export class JournalController extends BaseController {
       
       return this.success({
         entries: transformedEntries,
-        pagination: {
-          total: result.total,
-          page,
-          limit,
-          hasNext: (page * limit) < result.total,
-          hasPrev: page > 1,
-        }
+        pagination: toPageInfo(result, pageRequest)
       });
       
     } catch (error) {
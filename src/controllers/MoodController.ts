@@ -9,6 +9,7 @@ import { HTTP_STATUS, SUCCESS_MESSAGES, ERROR_MESSAGES } from '../utils/response
 import type { User, MoodEntry, MoodQueryInput } from '../types/index.js';
 import type { MoodLogInput } from '../utils/validation.js';
 import type { DatabaseQuery } from '../core/interfaces/IDatabaseService.js';
+import { toListOptions, toPageInfo } from '../utils/databasePaging.js';
 
 /**
  * Mood Controller
@@ -52,6 +53,8 @@ export class MoodController extends BaseController {
       };
       
       const moodEntry = await this.services.databaseService.create<any>('moods', moodData);
+      this.setETag(set, moodEntry);
+      await this.services.eventBus.publish('mood.logged', { mood: moodEntry });
       
       this.logAction('mood_logged', user, { 
         moodId: moodEntry.$id,
@@ -93,6 +96,7 @@ export class MoodController extends BaseController {
       const queryParams = this.validateQueryParams(moodQuerySchema as any, query || {}) as MoodQueryInput;
       const { page, limit } = this.parsePagination(queryParams.page, queryParams.limit);
       const { sortBy, sortOrder } = this.parseSort(queryParams.sortBy, queryParams.sortOrder);
+      const pageRequest = { page, limit, sortBy, sortOrder, cursor: queryParams.cursor };
       
       // Build database queries
       const queries: DatabaseQuery[] = [
@@ -120,7 +124,7 @@ export class MoodController extends BaseController {
       }
       
       // Get mood history through database service
-      const result = await this.services.databaseService.list<MoodEntry>('moods', queries);
+      const result = await this.services.databaseService.list<MoodEntry>('moods', queries, toListOptions(pageRequest));
       
       this.logAction('mood_history_retrieved', user, { 
         count: result.documents.length,
@@ -132,13 +136,7 @@ export class MoodController extends BaseController {
       
       return this.success({
         moods: transformedMoods,
-        pagination: {
-          total: result.total,
-          page,
-          limit,
-          hasNext: (page * limit) < result.total,
-          hasPrev: page > 1,
-        }
+        pagination: toPageInfo(result, pageRequest)
       });
       
     } catch (error) {
@@ -253,7 +251,12 @@ export class MoodController extends BaseController {
         ...(validatedData.socialInteraction !== undefined && { socialInteraction: validatedData.socialInteraction })
       };
       
-      const updatedMood = await this.services.databaseService.update<any>('moods', id, updateData);
+      // Rejected if the entry changed since the client read it
+      const updatedMood = await this.services.databaseService.update<any>('moods', id, updateData, {
+        expectedVersion: this.getExpectedVersion(context)
+      });
+      this.setETag(set, updatedMood);
+      await this.services.eventBus.publish('mood.updated', { mood: updatedMood });
       
       this.logAction('mood_updated', user, { moodId: id });
       
@@ -290,6 +293,7 @@ export class MoodController extends BaseController {
       
       // Delete mood entry through database service
       await this.services.databaseService.delete('moods', id);
+      await this.services.eventBus.publish('mood.deleted', { moodId: id, deletedBy: user.$id });
       
       this.logAction('mood_deleted', user, { moodId: id });
       
@@ -0,0 +1,124 @@
+import { BaseController } from './BaseController.js';
+import { HTTP_STATUS, SUCCESS_MESSAGES } from '../utils/response.js';
+import { idParamSchema, notificationQuerySchema } from '../utils/validation.js';
+
+/**
+ * Notification Controller - Handles the authenticated user's in-app notifications
+ */
+export class NotificationController extends BaseController {
+
+  /**
+   * List notifications for the current user (newest first)
+   */
+  async getNotifications(context: any) {
+    const { query, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { limit } = this.validateQueryParams(notificationQuerySchema, query || {});
+
+      this.logAction('get_notifications', user, { limit });
+
+      const [notifications, unreadCount] = await Promise.all([
+        this.services.notificationService.getNotificationHistory(user.$id, limit),
+        this.services.notificationService.getUnreadCount(user.$id)
+      ]);
+
+      return this.success(
+        { notifications, unreadCount },
+        'Notifications retrieved successfully'
+      );
+
+    } catch (error) {
+      this.logError(error as Error, 'get_notifications');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Get the unread notification count for the current user
+   */
+  async getUnreadCount(context: any) {
+    const { set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+
+      const unreadCount = await this.services.notificationService.getUnreadCount(user.$id);
+
+      return this.success({ unreadCount }, 'Unread count retrieved successfully');
+
+    } catch (error) {
+      this.logError(error as Error, 'get_unread_count');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Mark a single notification as read
+   */
+  async markAsRead(context: any) {
+    const { params, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { id } = this.validateUrlParams(idParamSchema, params);
+
+      this.logAction('mark_notification_read', user, { notificationId: id });
+
+      await this.requireResourceAccess(user, 'notification', id, 'update');
+      await this.services.notificationService.markAsRead(id);
+
+      return this.success({ id }, SUCCESS_MESSAGES.NOTIFICATION_READ);
+
+    } catch (error) {
+      this.logError(error as Error, 'mark_notification_read');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Mark every notification of the current user as read
+   */
+  async markAllAsRead(context: any) {
+    const { set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+
+      this.logAction('mark_all_notifications_read', user);
+
+      const updated = await this.services.notificationService.markAllAsRead(user.$id);
+
+      return this.success({ updated }, 'All notifications marked as read');
+
+    } catch (error) {
+      this.logError(error as Error, 'mark_all_notifications_read');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Delete a notification
+   */
+  async deleteNotification(context: any) {
+    const { params, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { id } = this.validateUrlParams(idParamSchema, params);
+
+      this.logAction('delete_notification', user, { notificationId: id });
+
+      await this.requireResourceAccess(user, 'notification', id, 'delete');
+      await this.services.notificationService.deleteNotification(id);
+
+      set.status = HTTP_STATUS.OK;
+      return this.success({ deletedId: id }, SUCCESS_MESSAGES.NOTIFICATION_DELETED);
+
+    } catch (error) {
+      this.logError(error as Error, 'delete_notification');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+}
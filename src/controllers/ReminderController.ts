@@ -0,0 +1,146 @@
+import { BaseController } from './BaseController.js';
+import { HTTP_STATUS } from '../utils/response.js';
+import { createReminderSchema, updateReminderSchema, idParamSchema } from '../utils/validation.js';
+import type { ReminderModel } from '../models/ReminderModel.js';
+
+/**
+ * Reminder Controller - Handles mood and journal check-in reminders
+ */
+export class ReminderController extends BaseController {
+
+  /**
+   * Create a reminder for the current user
+   */
+  async createReminder(context: any) {
+    const { body, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+
+      this.logAction('create_reminder', user);
+
+      const validatedData = this.validateRequestBody(createReminderSchema, body);
+      const reminder = await this.services.reminderService.createReminder(user.$id, validatedData);
+
+      set.status = HTTP_STATUS.CREATED;
+      return this.success(
+        this.transformReminderToResponse(reminder),
+        'Reminder created successfully',
+        HTTP_STATUS.CREATED
+      );
+
+    } catch (error) {
+      this.logError(error as Error, 'create_reminder');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * List the current user's reminders
+   */
+  async getReminders(context: any) {
+    const { set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+
+      const reminders = await this.services.reminderService.listReminders(user.$id);
+
+      return this.success(
+        { reminders: reminders.map(reminder => this.transformReminderToResponse(reminder)) },
+        'Reminders retrieved successfully'
+      );
+
+    } catch (error) {
+      this.logError(error as Error, 'get_reminders');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Get a single reminder
+   */
+  async getReminder(context: any) {
+    const { params, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { id } = this.validateUrlParams(idParamSchema, params);
+
+      await this.requireResourceAccess(user, 'reminder', id, 'view');
+
+      const reminder = await this.services.reminderService.getReminder(id);
+
+      return this.success(this.transformReminderToResponse(reminder), 'Reminder retrieved successfully');
+
+    } catch (error) {
+      this.logError(error as Error, 'get_reminder');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Update a reminder
+   */
+  async updateReminder(context: any) {
+    const { params, body, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { id } = this.validateUrlParams(idParamSchema, params);
+
+      this.logAction('update_reminder', user, { reminderId: id });
+
+      await this.requireResourceAccess(user, 'reminder', id, 'update');
+
+      const validatedData = this.validateRequestBody(updateReminderSchema, body);
+      const reminder = await this.services.reminderService.updateReminder(id, validatedData);
+
+      return this.success(this.transformReminderToResponse(reminder), 'Reminder updated successfully');
+
+    } catch (error) {
+      this.logError(error as Error, 'update_reminder');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Delete a reminder
+   */
+  async deleteReminder(context: any) {
+    const { params, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { id } = this.validateUrlParams(idParamSchema, params);
+
+      this.logAction('delete_reminder', user, { reminderId: id });
+
+      await this.requireResourceAccess(user, 'reminder', id, 'delete');
+      await this.services.reminderService.deleteReminder(id);
+
+      return this.success({ deletedId: id }, 'Reminder deleted successfully');
+
+    } catch (error) {
+      this.logError(error as Error, 'delete_reminder');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  private transformReminderToResponse(reminder: ReminderModel) {
+    return {
+      $id: reminder.$id,
+      kind: reminder.kind,
+      time: reminder.time,
+      timezone: reminder.timezone,
+      recurrence: reminder.recurrence,
+      daysOfWeek: reminder.recurrence === 'custom' ? reminder.daysOfWeek : undefined,
+      message: reminder.message,
+      isActive: reminder.isActive,
+      nextRunAt: reminder.isActive ? reminder.nextRunAt : undefined,
+      lastTriggeredAt: reminder.lastTriggeredAt,
+      createdAt: reminder.createdAt,
+      updatedAt: reminder.updatedAt
+    };
+  }
+}
@@ -0,0 +1,27 @@
+import { BaseController } from './BaseController.js';
+
+/**
+ * Storage Controller - Reports attachment storage against the subscription quotas
+ */
+export class StorageController extends BaseController {
+
+  /**
+   * Get the storage used and left for the current user and their company
+   */
+  async getUsage(context: any) {
+    const { set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+
+      this.logAction('get_storage_usage', user);
+
+      const usage = await this.services.storageQuotaService.getUsage(user);
+      return this.success(usage, 'Storage usage retrieved successfully');
+
+    } catch (error) {
+      this.logError(error as Error, 'get_storage_usage');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import { BaseController } from './BaseController.js';
+import { HTTP_STATUS } from '../utils/response.js';
+import {
+  companyIdParamSchema,
+  createWebhookSchema,
+  updateWebhookSchema,
+  webhookIdParamSchema,
+  webhookDeliveryQuerySchema
+} from '../utils/validation.js';
+
+/**
+ * Webhook Controller - Lets company admins connect their own systems to company events
+ */
+export class WebhookController extends BaseController {
+
+  /**
+   * Register a webhook, the signing secret is only returned here
+   */
+  async createWebhook(context: any) {
+    const { params, body, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId } = this.validateUrlParams(companyIdParamSchema, params);
+
+      await this.requireCompanyAccess(user, companyId);
+      await this.requirePermission(user, 'manage_company');
+
+      const validatedData = this.validateRequestBody(createWebhookSchema, body);
+      const result = await this.services.webhookService.createWebhook(companyId, validatedData, user.$id);
+
+      this.logAction('create_webhook', user, { companyId, webhookId: result.webhook.$id });
+
+      set.status = HTTP_STATUS.CREATED;
+      return this.success(result, 'Webhook created successfully. Store the secret now, it will not be shown again', HTTP_STATUS.CREATED);
+
+    } catch (error) {
+      this.logError(error as Error, 'create_webhook');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * List the webhooks of a company
+   */
+  async getWebhooks(context: any) {
+    const { params, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId } = this.validateUrlParams(companyIdParamSchema, params);
+
+      await this.requireCompanyAccess(user, companyId);
+      await this.requirePermission(user, 'manage_company');
+
+      const webhooks = await this.services.webhookService.listWebhooks(companyId);
+
+      return this.success({ webhooks }, 'Webhooks retrieved successfully');
+
+    } catch (error) {
+      this.logError(error as Error, 'get_webhooks');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Get a webhook
+   */
+  async getWebhook(context: any) {
+    const { params, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId, webhookId } = this.validateUrlParams(webhookIdParamSchema, params);
+
+      await this.requireCompanyAccess(user, companyId);
+      await this.requirePermission(user, 'manage_company');
+
+      const webhook = await this.services.webhookService.getWebhook(companyId, webhookId);
+
+      return this.success({ webhook }, 'Webhook retrieved successfully');
+
+    } catch (error) {
+      this.logError(error as Error, 'get_webhook');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Update a webhook
+   */
+  async updateWebhook(context: any) {
+    const { params, body, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId, webhookId } = this.validateUrlParams(webhookIdParamSchema, params);
+
+      await this.requireCompanyAccess(user, companyId);
+      await this.requirePermission(user, 'manage_company');
+
+      const validatedData = this.validateRequestBody(updateWebhookSchema, body);
+      const webhook = await this.services.webhookService.updateWebhook(companyId, webhookId, validatedData);
+
+      this.logAction('update_webhook', user, { companyId, webhookId });
+
+      return this.success({ webhook }, 'Webhook updated successfully');
+
+    } catch (error) {
+      this.logError(error as Error, 'update_webhook');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Delete a webhook and its delivery log
+   */
+  async deleteWebhook(context: any) {
+    const { params, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId, webhookId } = this.validateUrlParams(webhookIdParamSchema, params);
+
+      await this.requireCompanyAccess(user, companyId);
+      await this.requirePermission(user, 'manage_company');
+
+      await this.services.webhookService.deleteWebhook(companyId, webhookId);
+
+      this.logAction('delete_webhook', user, { companyId, webhookId });
+
+      return this.success({ deletedId: webhookId }, 'Webhook deleted successfully');
+
+    } catch (error) {
+      this.logError(error as Error, 'delete_webhook');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * List delivery attempts of a webhook
+   */
+  async getDeliveries(context: any) {
+    const { params, query, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId, webhookId } = this.validateUrlParams(webhookIdParamSchema, params);
+
+      await this.requireCompanyAccess(user, companyId);
+      await this.requirePermission(user, 'manage_company');
+
+      const page = this.validateQueryParams(webhookDeliveryQuerySchema, query || {});
+      const result = await this.services.webhookService.listDeliveries(companyId, webhookId, page);
+
+      return this.success(result, 'Webhook deliveries retrieved successfully');
+
+    } catch (error) {
+      this.logError(error as Error, 'get_webhook_deliveries');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+
+  /**
+   * Send a test event and report how the endpoint responded
+   */
+  async sendTestEvent(context: any) {
+    const { params, set } = context;
+
+    try {
+      const user = this.getCurrentUser(context);
+      const { companyId, webhookId } = this.validateUrlParams(webhookIdParamSchema, params);
+
+      await this.requireCompanyAccess(user, companyId);
+      await this.requirePermission(user, 'manage_company');
+
+      this.logAction('test_webhook', user, { companyId, webhookId });
+
+      const delivery = await this.services.webhookService.sendTestEvent(companyId, webhookId);
+      const message = delivery.status === 'delivered'
+        ? 'Test event delivered successfully'
+        : 'Test event could not be delivered';
+
+      return this.success({ delivery }, message);
+
+    } catch (error) {
+      this.logError(error as Error, 'test_webhook');
+      return this.handleBusinessError(error as Error, set);
+    }
+  }
+}
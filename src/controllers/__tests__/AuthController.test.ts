@@ -0,0 +1,42 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { AuthController } from '../AuthController.js';
+import { InMemoryDatabaseAdapter } from '../../services/database/InMemoryDatabaseAdapter.js';
+import { PermissionService } from '../../core/services/PermissionService.js';
+import type { ServiceContainer } from '../../core/container/ServiceContainer.js';
+import type { IAuthService } from '../../core/interfaces/IAuthService.js';
+import type { User } from '../../types/index.js';
+
+describe('AuthController', () => {
+  let updates: unknown[];
+  let controller: AuthController;
+
+  const user = { $id: 'user-1', role: 'INDIVIDUAL_USER', isActive: true } as unknown as User;
+
+  beforeEach(() => {
+    updates = [];
+    const authService = {
+      getUserById: async () => user,
+      updatePreferences: async (_userId: string, preferences: unknown) => {
+        updates.push(preferences);
+        return user;
+      },
+    } as unknown as IAuthService;
+    controller = new AuthController({
+      authService,
+      permissionService: new PermissionService(new InMemoryDatabaseAdapter([]), authService)
+    } as unknown as ServiceContainer);
+  });
+
+  it('should refuse webhook URLs pointing at a private host', async () => {
+    const set: any = {};
+    const response = await controller.updatePreferences({
+      user,
+      body: { notificationSettings: { webhookUrl: 'https://127.0.0.1/hook' } },
+      set
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ message: 'INVALID_WEBHOOK_URL' });
+    expect(updates).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { NotificationController } from '../NotificationController.js';
+import { NotificationService } from '../../services/NotificationService.js';
+import { InMemoryDatabaseAdapter } from '../../services/database/InMemoryDatabaseAdapter.js';
+import { PermissionService } from '../../core/services/PermissionService.js';
+import { NotificationSchema } from '../../models/NotificationModel.js';
+import type { ServiceContainer } from '../../core/container/ServiceContainer.js';
+import type { IAuthService } from '../../core/interfaces/IAuthService.js';
+import type { User } from '../../types/index.js';
+
+describe('NotificationController', () => {
+  let notificationService: NotificationService;
+  let controller: NotificationController;
+
+  const user = (id: string) => ({ $id: id, role: 'INDIVIDUAL_USER', preferences: { notifications: true } }) as unknown as User;
+
+  beforeEach(() => {
+    const db = new InMemoryDatabaseAdapter([NotificationSchema]);
+    const authService = { getUserById: async (id: string) => user(id) } as unknown as IAuthService;
+    notificationService = new NotificationService(db, authService, [{ name: 'in_app', send: async () => undefined }]);
+    controller = new NotificationController({
+      notificationService,
+      permissionService: new PermissionService(db, authService)
+    } as unknown as ServiceContainer);
+  });
+
+  const body = async (response: Response) => (await response.json()) as any;
+
+  it('should list the inbox with its unread count', async () => {
+    await notificationService.sendNotification({ userId: 'user-1', title: 'First', body: 'Hello' });
+    await notificationService.sendNotification({ userId: 'user-2', title: 'Other', body: 'Hello' });
+
+    const response = await controller.getNotifications({ user: user('user-1'), query: { limit: '10' }, set: {} });
+    const { data } = await body(response);
+
+    expect(response.status).toBe(200);
+    expect(data.unreadCount).toBe(1);
+    expect(data.notifications.map((notification: any) => notification.title)).toEqual(['First']);
+  });
+
+  it('should only let recipients mark their notifications as read', async () => {
+    const id = await notificationService.sendNotification({ userId: 'user-1', title: 'First', body: 'Hello' });
+
+    const set: any = {};
+    const refused = await controller.markAsRead({ user: user('user-2'), params: { id }, set });
+    expect(refused.status).toBe(403);
+    expect(await notificationService.getUnreadCount('user-1')).toBe(1);
+
+    const response = await controller.markAsRead({ user: user('user-1'), params: { id }, set: {} });
+    expect(response.status).toBe(200);
+    expect(await notificationService.getUnreadCount('user-1')).toBe(0);
+  });
+
+  it('should mark all notifications as read and report how many changed', async () => {
+    for (const title of ['First', 'Second', 'Third']) {
+      await notificationService.sendNotification({ userId: 'user-1', title, body: 'Hello' });
+    }
+
+    const response = await controller.markAllAsRead({ user: user('user-1'), set: {} });
+    expect((await body(response)).data.updated).toBe(3);
+
+    const count = await controller.getUnreadCount({ user: user('user-1'), set: {} });
+    expect((await body(count)).data.unreadCount).toBe(0);
+  });
+});
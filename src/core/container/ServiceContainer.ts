@@ -6,6 +6,15 @@ import type { IAIService } from '../interfaces/IAIService.js';
 import type { IEmailService } from '../interfaces/IEmailService.js';
 import type { INotificationService } from '../interfaces/INotificationService.js';
 import type { ICompanyService } from '../interfaces/ICompanyService.js';
+import type { IReminderService } from '../interfaces/IReminderService.js';
+import type { IDepartmentService } from '../interfaces/IDepartmentService.js';
+import type { IRetentionService } from '../interfaces/IRetentionService.js';
+import type { IEventBus } from '../interfaces/IEventBus.js';
+import type { IJobQueue } from '../interfaces/IJobQueue.js';
+import type { IWebhookService } from '../interfaces/IWebhookService.js';
+import type { IJournalAttachmentService } from '../interfaces/IJournalAttachmentService.js';
+import type { IFileAccessService } from '../interfaces/IFileAccessService.js';
+import type { IStorageQuotaService } from '../interfaces/IStorageQuotaService.js';
 
 /**
  * Service container interface for dependency injection
@@ -16,12 +25,21 @@ export interface ServiceContainer {
   databaseService: IDatabaseService;
   storageService: IStorageService;
   permissionService: IPermissionService;
+  eventBus: IEventBus;
   
   // Business services
   aiService: IAIService;
   emailService: IEmailService;
   notificationService: INotificationService;
   companyService: ICompanyService;
+  reminderService: IReminderService;
+  departmentService: IDepartmentService;
+  retentionService: IRetentionService;
+  jobQueue: IJobQueue;
+  webhookService: IWebhookService;
+  journalAttachmentService: IJournalAttachmentService;
+  fileAccessService: IFileAccessService;
+  storageQuotaService: IStorageQuotaService;
 }
 
 /**
@@ -116,16 +134,33 @@ export const SERVICE_KEYS = {
   DATABASE_SERVICE: 'databaseService',
   STORAGE_SERVICE: 'storageService',
   PERMISSION_SERVICE: 'permissionService',
+  EVENT_BUS: 'eventBus',
   
   // Business services
   AI_SERVICE: 'aiService',
   EMAIL_SERVICE: 'emailService',
   NOTIFICATION_SERVICE: 'notificationService',
   COMPANY_SERVICE: 'companyService',
+  REMINDER_SERVICE: 'reminderService',
+  DEPARTMENT_SERVICE: 'departmentService',
+  RETENTION_SERVICE: 'retentionService',
+  JOB_QUEUE: 'jobQueue',
+  WEBHOOK_SERVICE: 'webhookService',
+  JOURNAL_ATTACHMENT_SERVICE: 'journalAttachmentService',
+  FILE_ACCESS_SERVICE: 'fileAccessService',
+  STORAGE_QUOTA_SERVICE: 'storageQuotaService',
+  
+  // Background workers
+  NOTIFICATION_SCHEDULER: 'notificationScheduler',
+  REMINDER_SCHEDULER: 'reminderScheduler',
+  RETENTION_SCHEDULER: 'retentionScheduler',
+  JOB_WORKER: 'jobWorker',
   
   // Middleware and utilities
   PERMISSION_GUARD: 'permissionGuard',
   AUTH_MIDDLEWARE: 'authMiddleware',
+  IDEMPOTENCY_SERVICE: 'idempotencyService',
+  IDEMPOTENCY_MIDDLEWARE: 'idempotencyMiddleware',
 } as const;
 
 /**
@@ -137,10 +172,19 @@ export function getServices(): ServiceContainer {
     databaseService: container.resolve<IDatabaseService>(SERVICE_KEYS.DATABASE_SERVICE),
     storageService: container.resolve<IStorageService>(SERVICE_KEYS.STORAGE_SERVICE),
     permissionService: container.resolve<IPermissionService>(SERVICE_KEYS.PERMISSION_SERVICE),
+    eventBus: container.resolve<IEventBus>(SERVICE_KEYS.EVENT_BUS),
     aiService: container.resolve<IAIService>(SERVICE_KEYS.AI_SERVICE),
     emailService: container.resolve<IEmailService>(SERVICE_KEYS.EMAIL_SERVICE),
     notificationService: container.resolve<INotificationService>(SERVICE_KEYS.NOTIFICATION_SERVICE),
     companyService: container.resolve<ICompanyService>(SERVICE_KEYS.COMPANY_SERVICE),
+    reminderService: container.resolve<IReminderService>(SERVICE_KEYS.REMINDER_SERVICE),
+    departmentService: container.resolve<IDepartmentService>(SERVICE_KEYS.DEPARTMENT_SERVICE),
+    retentionService: container.resolve<IRetentionService>(SERVICE_KEYS.RETENTION_SERVICE),
+    jobQueue: container.resolve<IJobQueue>(SERVICE_KEYS.JOB_QUEUE),
+    webhookService: container.resolve<IWebhookService>(SERVICE_KEYS.WEBHOOK_SERVICE),
+    journalAttachmentService: container.resolve<IJournalAttachmentService>(SERVICE_KEYS.JOURNAL_ATTACHMENT_SERVICE),
+    fileAccessService: container.resolve<IFileAccessService>(SERVICE_KEYS.FILE_ACCESS_SERVICE),
+    storageQuotaService: container.resolve<IStorageQuotaService>(SERVICE_KEYS.STORAGE_QUOTA_SERVICE),
   };
 }
 
@@ -88,7 +88,10 @@ export class Permission {
     return user.companyId === companyId;
   }
 
-  static canManageUser(manager: User, targetUser: User): boolean {
+  /**
+   * Managers only reach users in the departments they manage, passed in by the caller
+   */
+  static canManageUser(manager: User, targetUser: User, managedDepartmentIds: string[] = []): boolean {
     if (!manager.isActive || !targetUser.isActive) return false;
 
     // Super admin can manage anyone
@@ -106,15 +109,15 @@ export class Permission {
       return true;
     }
     
-    // Company manager can manage company users only
+    // Company manager can manage company users in their own departments only
     if (manager.role === 'COMPANY_MANAGER' && targetUser.role === 'COMPANY_USER') {
-      return true;
+      return this.isInManagedDepartment(targetUser, managedDepartmentIds);
     }
     
     return false;
   }
 
-  static canViewUserData(viewer: User, targetUser: User): boolean {
+  static canViewUserData(viewer: User, targetUser: User, managedDepartmentIds: string[] = []): boolean {
     if (!viewer.isActive) return false;
 
     // Users can always view their own data
@@ -127,16 +130,27 @@ export class Permission {
       return true;
     }
     
-    // Company admin and managers can view their company users' data
-    if ((viewer.role === 'COMPANY_ADMIN' || viewer.role === 'COMPANY_MANAGER') && 
+    // Company admin can view their company users' data
+    if (viewer.role === 'COMPANY_ADMIN' && 
         viewer.companyId === targetUser.companyId &&
         this.hasPermission(viewer, 'view_company_data')) {
       return true;
     }
+
+    // Company managers can view data of users in their own departments
+    if (viewer.role === 'COMPANY_MANAGER' &&
+        viewer.companyId === targetUser.companyId &&
+        this.hasPermission(viewer, 'view_company_data')) {
+      return this.isInManagedDepartment(targetUser, managedDepartmentIds);
+    }
     
     return false;
   }
 
+  private static isInManagedDepartment(targetUser: User, managedDepartmentIds: string[]): boolean {
+    return !!targetUser.departmentId && managedDepartmentIds.includes(targetUser.departmentId);
+  }
+
   // Role assignment validation
   static canAssignRole(assigner: User, targetRole: UserRole, targetCompanyId?: string): boolean {
     if (!assigner.isActive) return false;
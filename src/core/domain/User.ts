@@ -82,7 +82,19 @@ export class User {
   }
 
   updatePreferences(preferences: Partial<UserType['preferences']>): void {
-    this.data.preferences = { ...this.data.preferences, ...preferences };
+    const { notificationSettings, ...rest } = preferences;
+    this.data.preferences = { ...this.data.preferences, ...rest };
+
+    // Notification settings are merged per section so partial updates keep other categories
+    if (notificationSettings) {
+      const current = this.data.preferences.notificationSettings;
+      this.data.preferences.notificationSettings = {
+        ...current,
+        ...notificationSettings,
+        categories: { ...current?.categories, ...notificationSettings.categories }
+      };
+    }
+
     this.data.updatedAt = new Date().toISOString();
   }
 
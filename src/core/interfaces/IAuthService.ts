@@ -1,4 +1,4 @@
-import type { User, AuthTokens, LoginRequest, RegisterRequest, OAuth2Session, OAuth2Request, OAuth2CallbackRequest } from '../../types/index.js';
+import type { User, UserRole, AuthTokens, LoginRequest, RegisterRequest, OAuth2Session, OAuth2Request, OAuth2CallbackRequest, NotificationPreferences } from '../../types/index.js';
 
 /**
  * Abstract authentication service interface
@@ -21,6 +21,7 @@ export interface IAuthService {
   updatePreferences(sessionId: string, preferences: {
     theme?: 'light' | 'dark' | 'auto';
     notifications?: boolean;
+    notificationSettings?: NotificationPreferences;
     preferredAIModel?: string;
     language?: string;
   }): Promise<User>;
@@ -45,6 +46,10 @@ export interface IAuthService {
   
   // Admin operations (for permission management)
   getUserById(userId: string): Promise<User>;
+  getUserByEmail(email: string): Promise<User | null>;
+  assignToCompany(userId: string, companyId: string, role: UserRole, assignedBy: string): Promise<User>;
+  removeFromCompany(userId: string, removedBy: string): Promise<User>;
+  setUserDepartment(userId: string, departmentId: string | null, updatedBy: string): Promise<User>;
   updateUserRole(userId: string, role: string, updatedBy: string): Promise<User>;
   updateUserPermissions(userId: string, permissions: string[], updatedBy: string): Promise<User>;
   listUsers(filters?: { role?: string; companyId?: string; active?: boolean }): Promise<User[]>;
@@ -1,4 +1,17 @@
-import type { Company, CreateCompanyRequest, UpdateCompanyRequest, CompanyAnalytics, CompanyUserInvite } from '../../types/index.js';
+import type {
+  Company,
+  CreateCompanyRequest,
+  UpdateCompanyRequest,
+  UpdateSubscriptionRequest,
+  CompanyAnalytics,
+  PlatformAnalytics,
+  CompanyUserInvite,
+  User,
+  AuthTokens
+} from '../../types/index.js';
+import type { InvitationModel, InvitationStatus } from '../../models/InvitationModel.js';
+import type { PageRequest, PageInfo } from '../../utils/databasePaging.js';
+import type { MembershipRequestModel, MembershipRequestStatus } from '../../models/MembershipRequestModel.js';
 
 /**
  * Company service interface for managing company operations
@@ -30,14 +43,55 @@ export interface ICompanyService {
   listCompanies(filters?: CompanyListFilters): Promise<CompanyListResponse>;
 
   /**
-   * Invite user to company
+   * Invite user to company and email them an expiring invite link
    */
-  inviteUser(companyId: string, invite: CompanyUserInvite): Promise<string>;
+  inviteUser(companyId: string, invite: CompanyUserInvite, invitedBy: User): Promise<CompanyInvitation>;
 
   /**
-   * Accept company invitation
+   * Accept company invitation, creating the account or linking an existing one
    */
-  acceptInvitation(token: string, userData: InviteAcceptanceData): Promise<void>;
+  acceptInvitation(token: string, userData: InviteAcceptanceData): Promise<InviteAcceptanceResult>;
+
+  /**
+   * List company invitations, optionally by status
+   */
+  listInvitations(companyId: string, filters?: InvitationListFilters): Promise<InvitationListResponse>;
+
+  /**
+   * Revoke a pending invitation
+   */
+  revokeInvitation(companyId: string, invitationId: string): Promise<void>;
+
+  /**
+   * Issue a fresh token and expiry for a pending or expired invitation and email it again
+   */
+  resendInvitation(companyId: string, invitationId: string, resentBy: User): Promise<CompanyInvitation>;
+
+  /**
+   * Attach a newly registered user to the company owning their email domain,
+   * or hold them until their email is verified or an admin approves them
+   */
+  assignByEmailDomain(user: User): Promise<DomainAssignmentResult>;
+
+  /**
+   * Continue a domain assignment that was waiting for the user to verify their email
+   */
+  completeDomainAssignment(userId: string): Promise<DomainAssignmentResult>;
+
+  /**
+   * List membership requests created by email-domain matching
+   */
+  listMembershipRequests(companyId: string, filters?: MembershipRequestListFilters): Promise<MembershipRequestListResponse>;
+
+  /**
+   * Approve a pending membership request, adding the user as a company user
+   */
+  approveMembershipRequest(companyId: string, requestId: string, reviewedBy: string): Promise<User>;
+
+  /**
+   * Reject a pending membership request
+   */
+  rejectMembershipRequest(companyId: string, requestId: string, reviewedBy: string): Promise<void>;
 
   /**
    * Get company users
@@ -50,14 +104,24 @@ export interface ICompanyService {
   updateUserRole(companyId: string, userId: string, role: string): Promise<void>;
 
   /**
-   * Remove user from company
+   * Remove user from company, freeing their seat
    */
-  removeUser(companyId: string, userId: string): Promise<void>;
+  removeUser(companyId: string, userId: string, removedBy: string): Promise<void>;
 
   /**
-   * Get company analytics
+   * Get company analytics, optionally narrowed to one department
    */
-  getAnalytics(companyId: string, period?: string): Promise<CompanyAnalytics>;
+  getAnalytics(companyId: string, period?: string, departmentId?: string): Promise<CompanyAnalytics>;
+
+  /**
+   * Change a company's subscription tier or seat limit, recording tier history
+   */
+  updateSubscription(companyId: string, update: UpdateSubscriptionRequest, changedBy: string): Promise<Company>;
+
+  /**
+   * Get platform-wide analytics across all companies
+   */
+  getPlatformAnalytics(period?: string): Promise<PlatformAnalytics>;
 
   /**
    * Check if user has access to company
@@ -65,36 +129,60 @@ export interface ICompanyService {
   checkUserAccess(userId: string, companyId: string): Promise<boolean>;
 }
 
-export interface CompanyListFilters {
-  page?: number;
-  limit?: number;
+export interface CompanyListFilters extends PageRequest {
   search?: string;
-  sortBy?: string;
-  sortOrder?: 'asc' | 'desc';
 }
 
-export interface CompanyListResponse {
+export interface CompanyListResponse extends PageInfo {
   companies: Company[];
-  total: number;
-  page: number;
-  limit: number;
 }
 
-export interface UserListFilters {
-  page?: number;
-  limit?: number;
+export interface UserListFilters extends PageRequest {
   role?: string;
   search?: string;
 }
 
-export interface CompanyUsersResponse {
+export interface CompanyUsersResponse extends PageInfo {
   users: any[];
-  total: number;
-  page: number;
-  limit: number;
+}
+
+export interface InvitationListFilters extends PageRequest {
+  status?: InvitationStatus;
+}
+
+export interface InvitationListResponse extends PageInfo {
+  invitations: CompanyInvitation[];
+}
+
+export interface MembershipRequestListFilters extends PageRequest {
+  status?: MembershipRequestStatus;
+}
+
+export interface MembershipRequestListResponse extends PageInfo {
+  requests: MembershipRequestModel[];
 }
 
 export interface InviteAcceptanceData {
   name: string;
   password: string;
-}
\ No newline at end of file
+}
+
+export type DomainAssignmentStatus = 'assigned' | 'awaiting_verification' | 'pending_approval' | 'not_matched';
+
+export interface DomainAssignmentResult {
+  status: DomainAssignmentStatus;
+  user: User;
+  companyId?: string;
+}
+
+export interface InviteAcceptanceResult {
+  user: User;
+  session: AuthTokens;
+  company: Company;
+  isNewUser: boolean;
+}
+
+/**
+ * Invitation as exposed to company admins, without the token hash
+ */
+export type CompanyInvitation = Omit<InvitationModel, 'tokenHash'>;
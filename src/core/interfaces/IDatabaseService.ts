@@ -1,18 +1,21 @@
+import type { CreateInput } from '../../models/BaseModel.js';
+
 /**
  * Abstract database service interface
  * This interface defines all database operations independent of the underlying provider (Appwrite, Firebase, MongoDB, etc.)
  */
 export interface IDatabaseService {
   // Generic CRUD operations
-  create<T>(collection: string, data: Omit<T, '$id' | '$createdAt' | '$updatedAt'>): Promise<T>;
+  create<T>(collection: string, data: CreateInput<T>): Promise<T>;
   read<T>(collection: string, documentId: string): Promise<T>;
-  update<T>(collection: string, documentId: string, data: Partial<T>): Promise<T>;
+  update<T>(collection: string, documentId: string, data: Partial<T>, options?: DatabaseUpdateOptions): Promise<T>;
   delete(collection: string, documentId: string): Promise<void>;
   
   // Query operations
   list<T>(
     collection: string, 
-    queries?: DatabaseQuery[]
+    queries?: DatabaseQuery[],
+    options?: DatabaseListOptions
   ): Promise<DatabaseListResponse<T>>;
   
   search<T>(
@@ -22,7 +25,7 @@ export interface IDatabaseService {
   ): Promise<DatabaseListResponse<T>>;
   
   // Batch operations
-  batchCreate<T>(collection: string, documents: Omit<T, '$id' | '$createdAt' | '$updatedAt'>[]): Promise<T[]>;
+  batchCreate<T>(collection: string, documents: CreateInput<T>[]): Promise<T[]>;
   batchUpdate<T>(collection: string, updates: { documentId: string; data: Partial<T> }[]): Promise<T[]>;
   batchDelete(collection: string, documentIds: string[]): Promise<void>;
   
@@ -38,8 +41,12 @@ export interface IDatabaseService {
   deleteCollection(collectionId: string): Promise<void>;
   listCollections(): Promise<DatabaseCollection[]>;
   
+  // Attribute management
+  createAttribute(collectionId: string, attribute: DatabaseAttributeDefinition): Promise<void>;
+  deleteAttribute(collectionId: string, key: string): Promise<void>;
+  
   // Index management
-  createIndex(collectionId: string, key: string, type: DatabaseIndexType, attributes: string[]): Promise<void>;
+  createIndex(collectionId: string, key: string, type: DatabaseIndexType, attributes: string[], orders?: string[]): Promise<void>;
   deleteIndex(collectionId: string, key: string): Promise<void>;
   listIndexes(collectionId: string): Promise<DatabaseIndex[]>;
 }
@@ -51,6 +58,33 @@ export interface DatabaseQuery {
   value: any;
 }
 
+/**
+ * Paging and ordering for list queries
+ * Cursors are document IDs; results continue after (or end before) that document
+ * in the requested order. `total` in the response ignores limit, offset and cursor.
+ */
+export interface DatabaseListOptions {
+  limit?: number;
+  offset?: number;
+  orderBy?: DatabaseOrder[];
+  cursorAfter?: string;
+  cursorBefore?: string;
+}
+
+export interface DatabaseOrder {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Optimistic locking for updates
+ * `expectedVersion` is the document's `$updatedAt` as last read; when the document
+ * changed since, the update is rejected with a ConflictError instead of overwriting.
+ */
+export interface DatabaseUpdateOptions {
+  expectedVersion?: string;
+}
+
 export interface DatabaseListResponse<T> {
   documents: T[];
   total: number;
@@ -82,6 +116,11 @@ export interface DatabaseAttribute {
   default?: any;
 }
 
+export type DatabaseAttributeDefinition = Omit<DatabaseAttribute, 'status'> & {
+  min?: number;
+  max?: number;
+};
+
 export interface DatabaseIndex {
   key: string;
   type: DatabaseIndexType;
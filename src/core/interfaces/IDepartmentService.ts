@@ -0,0 +1,55 @@
+import type { DepartmentModel } from '../../models/DepartmentModel.js';
+import type { User } from '../../types/index.js';
+
+/**
+ * Department service interface for teams inside a company
+ */
+export interface IDepartmentService {
+  /**
+   * Create a department in a company
+   */
+  createDepartment(companyId: string, data: CreateDepartmentRequest): Promise<DepartmentModel>;
+
+  /**
+   * List the departments of a company
+   */
+  listDepartments(companyId: string): Promise<DepartmentModel[]>;
+
+  /**
+   * Get a department, scoped to its company
+   */
+  getDepartment(companyId: string, departmentId: string): Promise<DepartmentModel>;
+
+  /**
+   * Update a department's name, description or managers
+   */
+  updateDepartment(companyId: string, departmentId: string, data: UpdateDepartmentRequest): Promise<DepartmentModel>;
+
+  /**
+   * Delete a department, detaching its members
+   */
+  deleteDepartment(companyId: string, departmentId: string, deletedBy: string): Promise<void>;
+
+  /**
+   * List the members of a department
+   */
+  listMembers(companyId: string, departmentId: string): Promise<User[]>;
+
+  /**
+   * Move a company member into a department, managers may only add company users without one
+   */
+  addMember(companyId: string, departmentId: string, userId: string, addedBy: User): Promise<User>;
+
+  /**
+   * Remove a member from a department, managers may only remove company users
+   */
+  removeMember(companyId: string, departmentId: string, userId: string, removedBy: User): Promise<void>;
+}
+
+export interface CreateDepartmentRequest {
+  name: string;
+  description?: string;
+  managerIds?: string[];
+}
+
+export type UpdateDepartmentRequest = Partial<CreateDepartmentRequest>;
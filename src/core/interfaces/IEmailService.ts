@@ -5,6 +5,8 @@ export interface IEmailService {
   sendWelcomeEmail(to: string, name: string): Promise<void>;
   sendPasswordResetEmail(to: string, name: string, resetToken: string): Promise<void>;
   sendVerificationEmail(to: string, name: string, verificationToken: string): Promise<void>;
+  sendNotificationEmail(to: string, name: string, title: string, body: string): Promise<void>;
+  sendCompanyInvitationEmail(to: string, companyName: string, inviterName: string, inviteToken: string, expiresAt: string): Promise<void>;
   testConnection(): Promise<boolean>;
 }
 
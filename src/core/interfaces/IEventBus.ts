@@ -0,0 +1,57 @@
+import type { Company, JournalEntry, MoodEntry, User, UserRole } from '../../types/index.js';
+
+/**
+ * Domain events and their payloads, keyed by event name
+ */
+export interface DomainEvents {
+  'journal.created': { journal: JournalEntry };
+  'journal.updated': { journal: JournalEntry };
+  'journal.deleted': { journalId: string; deletedBy: string };
+  'mood.logged': { mood: MoodEntry };
+  'mood.updated': { mood: MoodEntry };
+  'mood.deleted': { moodId: string; deletedBy: string };
+  'user.registered': { user: User };
+  'company.created': { company: Company; createdBy: string };
+  'company.updated': { company: Company; updatedBy: string };
+  'company.deleted': { companyId: string; deletedBy: string };
+  'company.user_joined': { companyId: string; user: User; role: UserRole; addedBy: string };
+  'company.user_removed': { companyId: string; userId: string; removedBy?: string };
+  'company.invitation_accepted': { companyId: string; invitationId: string; user: User; role: UserRole };
+}
+
+export type DomainEventName = keyof DomainEvents;
+
+export interface DomainEvent<K extends DomainEventName = DomainEventName> {
+  name: K;
+  payload: DomainEvents[K];
+  occurredAt: string;
+}
+
+export type DomainEventHandler<K extends DomainEventName> = (event: DomainEvent<K>) => void | Promise<void>;
+
+export interface SubscribeOptions {
+  // `sync` subscribers finish before publish returns, `async` ones run after it
+  mode?: 'sync' | 'async';
+  // Shown in logs when the subscriber fails
+  name?: string;
+}
+
+/**
+ * In-process event bus, lets one subsystem react to changes made by another
+ */
+export interface IEventBus {
+  /**
+   * Deliver an event to its subscribers, a failing subscriber is logged and never fails the publisher
+   */
+  publish<K extends DomainEventName>(name: K, payload: DomainEvents[K]): Promise<void>;
+
+  /**
+   * Subscribe to an event, returns a function that removes the subscription
+   */
+  subscribe<K extends DomainEventName>(name: K, handler: DomainEventHandler<K>, options?: SubscribeOptions): () => void;
+
+  /**
+   * Wait until every async subscriber started so far has finished
+   */
+  drain(): Promise<void>;
+}
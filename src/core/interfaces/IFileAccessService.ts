@@ -0,0 +1,32 @@
+import type { ImageRendition, StorageFile } from './IStorageService.js';
+import type { ByteRange } from '../../utils/httpRange.js';
+import type { SignedFileAccess } from '../../utils/signedUrls.js';
+
+/**
+ * File access service interface, hands out and checks expiring links to private files
+ * Callers decide who may get a link; whoever holds one can read the file until it expires.
+ */
+export interface IFileAccessService {
+  /**
+   * Sign a link to a file or one of its renditions
+   */
+  createSignedUrl(bucketId: string, fileId: string, options?: SignedUrlOptions): Promise<SignedFileUrl>;
+
+  /**
+   * Check a link's signature and open the requested bytes of its file
+   */
+  openSignedFile(access: SignedFileAccess, signature: string, rangeHeader?: string | null): Promise<OpenedFile>;
+}
+
+export interface SignedUrlOptions {
+  rendition?: ImageRendition;
+}
+
+export interface SignedFileUrl {
+  url: string;
+  expiresAt: string;
+}
+
+export type OpenedFile =
+  | { file: StorageFile; expiresAt: Date; range: ByteRange | null; stream: ReadableStream<Uint8Array> }
+  | { file: StorageFile; expiresAt: Date; range: 'unsatisfiable' };
@@ -0,0 +1,40 @@
+/**
+ * Idempotency service interface, remembers the first response per user and Idempotency-Key
+ */
+export interface IIdempotencyService {
+  /**
+   * Claim a key for a request, or get the stored response of an earlier request with it
+   * Throws a ConflictError when the key was used for a different request or is still being processed.
+   */
+  begin(userId: string, key: string, requestHash: string, now?: Date): Promise<IdempotencyClaim>;
+
+  /**
+   * Store the response of a claimed request for replay
+   */
+  complete(recordId: string, response: StoredResponse): Promise<void>;
+
+  /**
+   * Give up a claim without a response worth replaying, so the client can retry
+   */
+  release(recordId: string): Promise<void>;
+
+  /**
+   * Delete keys past their expiry, returns how many were removed
+   */
+  purgeExpired(now?: Date): Promise<number>;
+
+  /**
+   * Queue the next purge, unless one is already queued
+   */
+  schedulePurge(now?: Date): Promise<void>;
+}
+
+export type IdempotencyClaim =
+  | { replay: false; recordId: string }
+  | { replay: true; response: StoredResponse };
+
+export interface StoredResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
@@ -0,0 +1,73 @@
+import type { JobModel, JobStatus } from '../../models/JobModel.js';
+import type { PageRequest, PageInfo } from '../../utils/databasePaging.js';
+
+/**
+ * Job types and their payloads, keyed by job type
+ */
+export interface JobPayloads {
+  'email.welcome': { email: string; name: string };
+  'webhook.deliver': { deliveryId: string };
+  'webhook.weekly_reports': Record<string, never>;
+  'idempotency.purge': Record<string, never>;
+}
+
+export type JobType = keyof JobPayloads;
+
+/**
+ * Runs one job, throwing marks the attempt as failed
+ */
+export type JobHandler<K extends JobType> = (payload: JobPayloads[K], job: JobModel) => Promise<void>;
+
+/**
+ * Job queue interface, persists background work and runs it with retries
+ */
+export interface IJobQueue {
+  /**
+   * Store a job to run at `runAt` (default now)
+   */
+  enqueue<K extends JobType>(type: K, payload: JobPayloads[K], options?: EnqueueOptions): Promise<JobModel>;
+
+  /**
+   * Register the handler for a job type, one handler per type
+   */
+  registerHandler<K extends JobType>(type: K, handler: JobHandler<K>): void;
+
+  /**
+   * Run jobs that are due at the given time, returns the number completed
+   */
+  processDueJobs(now: Date): Promise<number>;
+
+  /**
+   * List jobs, newest first
+   */
+  listJobs(filters?: JobListFilters): Promise<JobListResponse>;
+
+  /**
+   * Get a job by ID
+   */
+  getJob(jobId: string): Promise<JobModel>;
+
+  /**
+   * Queue a dead or cancelled job again with a fresh set of attempts
+   */
+  retryJob(jobId: string): Promise<JobModel>;
+
+  /**
+   * Cancel a job that has not started yet
+   */
+  cancelJob(jobId: string): Promise<JobModel>;
+}
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+export interface JobListFilters extends PageRequest {
+  status?: JobStatus;
+  type?: string;
+}
+
+export interface JobListResponse extends PageInfo {
+  jobs: JobModel[];
+}
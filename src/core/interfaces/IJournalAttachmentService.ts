@@ -0,0 +1,37 @@
+import type { JournalAttachments } from '../../models/JournalModel.js';
+import type { AttachmentKind } from '../../utils/attachments.js';
+import type { ImageRendition, StorageRendition } from './IStorageService.js';
+import type { SignedFileUrl } from './IFileAccessService.js';
+
+/**
+ * Journal attachment service interface, stores photos and voice recordings in the owner's bucket
+ */
+export interface IJournalAttachmentService {
+  /**
+   * Check and store an upload, the returned file ID can then be attached to an entry
+   */
+  upload(userId: string, kind: AttachmentKind, file: File): Promise<AttachmentResponse>;
+
+  /**
+   * Make sure every attached file was uploaded by the user, is of the right kind and not attached to an entry yet
+   */
+  validateAttachments(userId: string, attachments: Partial<JournalAttachments>): Promise<void>;
+
+  /**
+   * Delete files no entry refers to any more, files still attached somewhere and failures are skipped
+   */
+  deleteFiles(userId: string, fileIds: string[]): Promise<void>;
+}
+
+export interface AttachmentResponse {
+  fileId: string;
+  bucketId: string;
+  kind: AttachmentKind;
+  name: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+  // Photos only, previews holds a signed link per rendition for lists and cards
+  renditions?: StorageRendition[];
+  previews?: Partial<Record<ImageRendition, SignedFileUrl>>;
+}
@@ -0,0 +1,52 @@
+import type { IDatabaseService } from './IDatabaseService.js';
+import type { MigrationModel } from '../../models/MigrationModel.js';
+import type { SchemaDiff } from '../../utils/schemaDiff.js';
+
+/**
+ * A versioned schema change, kept in `src/migrations`
+ * `down` must undo `up` so a rolled back migration can be applied again.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up(databaseService: IDatabaseService): Promise<void>;
+  down(databaseService: IDatabaseService): Promise<void>;
+}
+
+/**
+ * Migration service interface, applies and rolls back schema migrations
+ */
+export interface IMigrationService {
+  /**
+   * List applied migrations and the ones still pending
+   */
+  status(): Promise<MigrationStatus>;
+
+  /**
+   * Apply pending migrations in version order, up to and including `to` when given
+   */
+  migrate(options?: { to?: number; dryRun?: boolean }): Promise<MigrationRun>;
+
+  /**
+   * Roll back the most recently applied migrations, one step by default
+   */
+  rollback(options?: { steps?: number; dryRun?: boolean }): Promise<MigrationRun>;
+
+  /**
+   * Compare the declared schemas with the live collections and indexes
+   */
+  diff(): Promise<SchemaDiff>;
+}
+
+export type MigrationSummary = Pick<Migration, 'version' | 'name'>;
+
+export interface MigrationStatus {
+  applied: MigrationModel[];
+  pending: MigrationSummary[];
+}
+
+export interface MigrationRun {
+  direction: 'up' | 'down';
+  dryRun: boolean;
+  migrations: MigrationSummary[];
+}
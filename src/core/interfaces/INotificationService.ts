@@ -1,13 +1,19 @@
-import type { NotificationPayload } from '../../types/index.js';
+import type {
+  NotificationPayload,
+  NotificationCategory,
+  NotificationChannelName,
+  User
+} from '../../types/index.js';
+import type { NotificationType, NotificationStatus } from '../../models/NotificationModel.js';
 
 /**
  * Notification service interface for sending and managing notifications
  */
 export interface INotificationService {
   /**
-   * Send an immediate notification
+   * Send an immediate notification, returns the persisted notification ID
    */
-  sendNotification(payload: NotificationPayload): Promise<void>;
+  sendNotification(payload: NotificationPayload): Promise<string>;
 
   /**
    * Schedule a notification for future delivery
@@ -25,15 +31,41 @@ export interface INotificationService {
   sendBulkNotifications(payloads: NotificationPayload[]): Promise<void>;
 
   /**
-   * Get notification history for a user
+   * Deliver a pending (e.g. scheduled) notification.
+   * Returns false when the notification was cancelled or already dispatched.
+   */
+  dispatchNotification(notificationId: string): Promise<boolean>;
+
+  /**
+   * Get a single notification
+   */
+  getNotification(notificationId: string): Promise<NotificationRecord>;
+
+  /**
+   * Get notification history for a user (newest first)
    */
   getNotificationHistory(userId: string, limit?: number): Promise<NotificationRecord[]>;
 
+  /**
+   * Get the number of unread notifications for a user
+   */
+  getUnreadCount(userId: string): Promise<number>;
+
   /**
    * Mark notification as read
    */
   markAsRead(notificationId: string): Promise<void>;
 
+  /**
+   * Mark all notifications of a user as read, returns the number updated
+   */
+  markAllAsRead(userId: string): Promise<number>;
+
+  /**
+   * Delete a notification
+   */
+  deleteNotification(notificationId: string): Promise<void>;
+
   /**
    * Check if the service is available
    */
@@ -43,10 +75,24 @@ export interface INotificationService {
 export interface NotificationRecord {
   id: string;
   userId: string;
+  type: NotificationType;
+  category?: NotificationCategory;
+  channels: NotificationChannelName[];
   title: string;
   body: string;
   data?: Record<string, any>;
+  status: NotificationStatus;
   isRead: boolean;
-  sentAt: string;
+  scheduledFor?: string;
+  sentAt?: string;
   readAt?: string;
-}
\ No newline at end of file
+  createdAt: string;
+}
+
+/**
+ * A delivery channel a notification fans out to (in-app, email, webhook, ...)
+ */
+export interface INotificationChannel {
+  readonly name: NotificationChannelName;
+  send(notification: NotificationRecord, recipient: User): Promise<void>;
+}
@@ -0,0 +1,49 @@
+import type { ReminderModel, ReminderKind } from '../../models/ReminderModel.js';
+import type { ReminderRecurrence } from '../../utils/reminderSchedule.js';
+
+/**
+ * Reminder service interface for mood and journal check-in reminders
+ */
+export interface IReminderService {
+  /**
+   * Create a reminder for a user
+   */
+  createReminder(userId: string, data: CreateReminderRequest): Promise<ReminderModel>;
+
+  /**
+   * List a user's reminders
+   */
+  listReminders(userId: string): Promise<ReminderModel[]>;
+
+  /**
+   * Get a reminder by ID
+   */
+  getReminder(reminderId: string): Promise<ReminderModel>;
+
+  /**
+   * Update a reminder, recalculating its next run
+   */
+  updateReminder(reminderId: string, data: UpdateReminderRequest): Promise<ReminderModel>;
+
+  /**
+   * Delete a reminder
+   */
+  deleteReminder(reminderId: string): Promise<void>;
+
+  /**
+   * Send notifications for all reminders due at the given time, returns the number sent
+   */
+  processDueReminders(now: Date): Promise<number>;
+}
+
+export interface CreateReminderRequest {
+  kind: ReminderKind;
+  time: string;
+  timezone: string;
+  recurrence: ReminderRecurrence;
+  daysOfWeek?: number[];
+  message?: string;
+  isActive?: boolean;
+}
+
+export type UpdateReminderRequest = Partial<CreateReminderRequest>;
@@ -0,0 +1,30 @@
+import type { RetentionRunModel, CreateRetentionRunInput } from '../../models/RetentionRunModel.js';
+import type { PageRequest, PageInfo } from '../../utils/databasePaging.js';
+
+/**
+ * Retention service interface, enforces how long journals, moods and notifications are kept
+ */
+export interface IRetentionService {
+  /**
+   * Purge expired data for every company and for individual users, returns one run per scope
+   */
+  runSweep(now: Date): Promise<RetentionRunModel[]>;
+
+  /**
+   * Count what a sweep would purge for a company without changing anything
+   */
+  previewCompany(companyId: string, now?: Date): Promise<RetentionSummary>;
+
+  /**
+   * List past retention runs of a company, newest first
+   */
+  listRuns(companyId: string, page?: PageRequest): Promise<RetentionRunListResponse>;
+}
+
+export interface RetentionRunListResponse extends PageInfo {
+  runs: RetentionRunModel[];
+}
+
+export type RetentionSummary = CreateRetentionRunInput & {
+  dryRun: boolean;
+};
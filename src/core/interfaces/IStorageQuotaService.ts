@@ -0,0 +1,36 @@
+import type { SubscriptionTier, User } from '../../types/index.js';
+import type { StorageUsage } from './IStorageService.js';
+
+/**
+ * Storage quota service interface, limits attachment storage by subscription tier
+ * Users have their own quota; members of a company also share the company's quota.
+ */
+export interface IStorageQuotaService {
+  /**
+   * Get the storage used and left for a user, and for their company if they have one
+   */
+  getUsage(user: User): Promise<StorageQuotaUsage>;
+
+  /**
+   * Reject an upload of the given size when it would exceed a quota
+   */
+  assertCanStore(user: User, bytes: number): Promise<void>;
+
+  /**
+   * Account for files just stored, and notify the user when they took them past the warning threshold
+   */
+  recordUpload(user: User, stored: StorageUsage): Promise<void>;
+}
+
+export interface QuotaUsage {
+  tier: SubscriptionTier;
+  limit: number;
+  used: number;
+  remaining: number;
+  files: number;
+}
+
+export interface StorageQuotaUsage {
+  user: QuotaUsage;
+  company?: QuotaUsage & { companyId: string };
+}
@@ -27,6 +27,7 @@ export interface IStorageService {
   ): Promise<Buffer>;
   getFileDownload(bucketId: string, fileId: string): Promise<Buffer>;
   getFileView(bucketId: string, fileId: string): Promise<Buffer>;
+  getFileStream(bucketId: string, fileId: string, range?: StorageByteRange): Promise<ReadableStream<Uint8Array>>;
   
   // File management operations
   updateFile(
@@ -89,6 +90,23 @@ export interface StorageFile {
   $permissions: string[];
   $createdAt: string;
   $updatedAt: string;
+  // Resized copies of an image, filled in by getFile
+  renditions?: StorageRendition[];
+}
+
+export type ImageRendition = 'thumbnail' | 'medium';
+
+export interface StorageRendition {
+  name: ImageRendition;
+  fileId: string;
+  mimeType: string;
+  sizeOriginal: number;
+}
+
+// Inclusive byte positions, like an HTTP Range
+export interface StorageByteRange {
+  start: number;
+  end: number;
 }
 
 export interface StorageFileList {
@@ -134,6 +152,8 @@ export interface FilePreviewOptions {
   rotation?: number;
   background?: string;
   output?: 'jpg' | 'jpeg' | 'png' | 'gif' | 'webp';
+  // Link to a stored rendition instead of resizing on request, other options are then ignored
+  rendition?: ImageRendition;
 }
 
 export interface BucketOptions {
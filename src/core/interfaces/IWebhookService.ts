@@ -0,0 +1,84 @@
+import type { WebhookModel } from '../../models/WebhookModel.js';
+import type { WebhookDeliveryModel } from '../../models/WebhookDeliveryModel.js';
+import type { WebhookEvent, WebhookEventData } from '../../utils/webhooks.js';
+import type { PageRequest, PageInfo } from '../../utils/databasePaging.js';
+
+/**
+ * Webhook service interface, pushes company events to the company's own systems
+ */
+export interface IWebhookService {
+  /**
+   * Register a webhook, the returned secret is not shown again
+   */
+  createWebhook(companyId: string, data: CreateWebhookRequest, createdBy: string): Promise<CreatedWebhook>;
+
+  /**
+   * List the webhooks of a company
+   */
+  listWebhooks(companyId: string): Promise<WebhookResponse[]>;
+
+  /**
+   * Get a webhook, scoped to its company
+   */
+  getWebhook(companyId: string, webhookId: string): Promise<WebhookResponse>;
+
+  /**
+   * Change a webhook's URL, events, description or active state
+   */
+  updateWebhook(companyId: string, webhookId: string, data: UpdateWebhookRequest): Promise<WebhookResponse>;
+
+  /**
+   * Delete a webhook and its delivery log
+   */
+  deleteWebhook(companyId: string, webhookId: string): Promise<void>;
+
+  /**
+   * List deliveries of a webhook, newest first
+   */
+  listDeliveries(companyId: string, webhookId: string, page?: PageRequest): Promise<WebhookDeliveryListResponse>;
+
+  /**
+   * Send a test event right away and return the attempt's outcome
+   */
+  sendTestEvent(companyId: string, webhookId: string): Promise<WebhookDeliveryModel>;
+
+  /**
+   * Queue an event for every active webhook of the company subscribed to it
+   */
+  dispatch<K extends WebhookEvent>(companyId: string, event: K, data: WebhookEventData[K]): Promise<number>;
+
+  /**
+   * Attempt a queued delivery, throws when it failed so the job queue retries it
+   */
+  deliver(deliveryId: string, finalAttempt: boolean): Promise<void>;
+
+  /**
+   * Send last week's analytics to every company subscribed to weekly reports
+   */
+  sendWeeklyReports(): Promise<number>;
+
+  /**
+   * Queue the next weekly report run, unless one is already queued
+   */
+  scheduleWeeklyReports(now?: Date): Promise<void>;
+}
+
+export interface CreateWebhookRequest {
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+  isActive?: boolean;
+}
+
+export type UpdateWebhookRequest = Partial<CreateWebhookRequest>;
+
+export type WebhookResponse = Omit<WebhookModel, 'secret'>;
+
+export interface CreatedWebhook {
+  webhook: WebhookResponse;
+  secret: string;
+}
+
+export interface WebhookDeliveryListResponse extends PageInfo {
+  deliveries: WebhookDeliveryModel[];
+}
@@ -6,4 +6,15 @@ export * from './IPermissionService.js';
 export * from './IAIService.js';
 export * from './IEmailService.js';
 export * from './INotificationService.js';
-export * from './ICompanyService.js';
\ No newline at end of file
+export * from './ICompanyService.js';
+export * from './IReminderService.js';
+export * from './IDepartmentService.js';
+export * from './IRetentionService.js';
+export * from './IMigrationService.js';
+export * from './IEventBus.js';
+export * from './IJobQueue.js';
+export * from './IWebhookService.js';
+export * from './IIdempotencyService.js';
+export * from './IJournalAttachmentService.js';
+export * from './IFileAccessService.js';
+export * from './IStorageQuotaService.js';
@@ -0,0 +1,150 @@
+import type { IIdempotencyService } from '../interfaces/IIdempotencyService.js';
+import type { AuthenticationMiddleware } from './AuthenticationMiddleware.js';
+import { MAX_IDEMPOTENT_RESPONSE_LENGTH } from '../../models/IdempotencyKeyModel.js';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENT_REPLAY_HEADER,
+  isValidIdempotencyKey,
+  fingerprintRequest
+} from '../../utils/idempotency.js';
+import { isBusinessError } from '../../utils/BusinessError.js';
+import { createErrorResponse, HTTP_STATUS } from '../../utils/response.js';
+import { logger } from '../../utils/logger.js';
+
+// Define a context type that includes the properties we need
+interface IdempotencyContext {
+  request: Request;
+  body?: unknown;
+  set: { headers: Record<string, unknown> };
+}
+
+/**
+ * Idempotency middleware for POST routes
+ * A retried request with the same Idempotency-Key gets the first response back
+ * instead of running again. Server errors are not stored, so those retries run.
+ */
+export class IdempotencyMiddleware {
+  private claims = new WeakMap<Request, string>();
+
+  constructor(
+    private idempotencyService: IIdempotencyService,
+    private authMiddleware: AuthenticationMiddleware
+  ) {}
+
+  /**
+   * Claim the key before the handler runs, or answer with the stored response
+   */
+  async beforeHandle(ctx: IdempotencyContext): Promise<Response | undefined> {
+    const { request } = ctx;
+    const key = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+    if (request.method !== 'POST' || key === null) {
+      return undefined;
+    }
+
+    if (!isValidIdempotencyKey(key)) {
+      return createErrorResponse(
+        HTTP_STATUS.BAD_REQUEST,
+        'Idempotency-Key must be 1 to 255 printable ASCII characters',
+        'INVALID_IDEMPOTENCY_KEY'
+      );
+    }
+
+    // Keys belong to a user; sign-in and sign-up requests have none and run as usual
+    const user = await this.authMiddleware.optionalAuth(ctx);
+    if (!user) {
+      return undefined;
+    }
+
+    try {
+      const claim = await this.idempotencyService.begin(
+        user.$id,
+        key,
+        fingerprintRequest(request.method, request.url, ctx.body)
+      );
+
+      if (claim.replay) {
+        return new Response(claim.response.body, {
+          status: claim.response.status,
+          headers: { ...claim.response.headers, [IDEMPOTENT_REPLAY_HEADER]: 'true' }
+        });
+      }
+
+      this.claims.set(request, claim.recordId);
+      return undefined;
+    } catch (error) {
+      if (isBusinessError(error)) {
+        return createErrorResponse(error.statusCode, error.message, error.code);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Store the handler's response for the claimed key
+   */
+  async afterHandle(ctx: IdempotencyContext & { response: unknown }): Promise<void> {
+    const recordId = this.takeClaim(ctx.request);
+    if (!recordId) {
+      return;
+    }
+
+    const { response } = ctx;
+    if (!(response instanceof Response) || response.status >= 500 || response.status === HTTP_STATUS.TOO_MANY_REQUESTS) {
+      await this.idempotencyService.release(recordId);
+      return;
+    }
+
+    const body = await response.clone().text();
+    if (body.length > MAX_IDEMPOTENT_RESPONSE_LENGTH) {
+      await this.idempotencyService.release(recordId);
+      return;
+    }
+
+    try {
+      await this.idempotencyService.complete(recordId, {
+        status: response.status,
+        headers: this.replayableHeaders(response, ctx.set.headers),
+        body
+      });
+    } catch (error) {
+      // The request itself succeeded, so answer it; its retries wait for the processing timeout
+      logger.error('Failed to store idempotent response', {
+        recordId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Free the key of a request that failed with an unhandled error
+   */
+  async onError(request: Request): Promise<void> {
+    const recordId = this.takeClaim(request);
+    if (recordId) {
+      await this.idempotencyService.release(recordId);
+    }
+  }
+
+  private takeClaim(request: Request): string | undefined {
+    const recordId = this.claims.get(request);
+    this.claims.delete(request);
+    return recordId;
+  }
+
+  private replayableHeaders(response: Response, setHeaders: Record<string, unknown>): Record<string, string> {
+    const headers: Record<string, string> = {};
+    const contentType = response.headers.get('content-type');
+    if (contentType) {
+      headers['Content-Type'] = contentType;
+    }
+
+    for (const [name, value] of Object.entries(setHeaders)) {
+      // CORS headers depend on the retry's origin and are added to the replay afresh
+      const lowerName = name.toLowerCase();
+      if ((typeof value === 'string' || typeof value === 'number') && lowerName !== 'set-cookie' && !lowerName.startsWith('access-control-')) {
+        headers[name] = String(value);
+      }
+    }
+    return headers;
+  }
+}
@@ -4,11 +4,14 @@ import type { IDatabaseService, IPermissionService, IAuthService } from '../inte
 
 // Import adapters
 import { AppwriteAuthAdapter } from '../../services/auth/AppwriteAuthAdapter.js';
-import { AppwriteDatabaseAdapter } from '../../services/database/AppwriteDatabaseAdapter.js';
-import { AppwriteStorageAdapter } from '../../services/storage/AppwriteStorageAdapter.js';
+import { createStorageService } from '../../services/storage/createStorageService.js';
+import { createDatabaseService } from '../../services/database/createDatabaseService.js';
+import { CachingDatabaseAdapter } from '../../services/database/CachingDatabaseAdapter.js';
+import { config } from '../../utils/config.js';
 
 // Import core services
 import { PermissionService } from '../services/PermissionService.js';
+import { EventBus } from '../../services/EventBus.js';
 import { PermissionGuard } from '../middleware/PermissionGuard.js';
 import { AuthenticationMiddleware } from '../middleware/AuthenticationMiddleware.js';
 
@@ -24,13 +27,26 @@ export class AppwriteServiceProvider implements ServiceProvider {
   register(container: ServiceRegistry): void {
     // Register core adapters
     container.register(SERVICE_KEYS.AUTH_SERVICE, () => new AppwriteAuthAdapter());
-    container.register(SERVICE_KEYS.DATABASE_SERVICE, () => new AppwriteDatabaseAdapter());
-    container.register(SERVICE_KEYS.STORAGE_SERVICE, () => new AppwriteStorageAdapter());
+    container.register(SERVICE_KEYS.DATABASE_SERVICE, () => {
+      const databaseService = createDatabaseService();
+      if (!config.database.cache.enabled) {
+        return databaseService;
+      }
+      return new CachingDatabaseAdapter(databaseService, {
+        ttlMs: config.database.cache.ttlMs,
+        maxEntries: config.database.cache.maxEntries
+      });
+    });
+    container.register(SERVICE_KEYS.STORAGE_SERVICE, () => createStorageService());
+
+    // Register the in-process event bus shared by controllers and services
+    container.register(SERVICE_KEYS.EVENT_BUS, () => new EventBus());
 
     // Register business logic services that depend on adapters
     container.register(SERVICE_KEYS.PERMISSION_SERVICE, () => {
       const databaseService = container.resolve<IDatabaseService>(SERVICE_KEYS.DATABASE_SERVICE);
-      return new PermissionService(databaseService);
+      const authService = container.resolve<IAuthService>(SERVICE_KEYS.AUTH_SERVICE);
+      return new PermissionService(databaseService, authService);
     });
 
     // Register middleware that depends on services
@@ -1,12 +1,45 @@
 import type { ServiceProvider, ServiceRegistry } from '../container/ServiceContainer.js';
 import { SERVICE_KEYS } from '../container/ServiceContainer.js';
-import type { IDatabaseService } from '../interfaces/index.js';
+import type {
+  IDatabaseService,
+  IStorageService,
+  IAuthService,
+  IEmailService,
+  INotificationService,
+  IReminderService,
+  IRetentionService,
+  IEventBus,
+  IJobQueue,
+  ICompanyService,
+  IWebhookService,
+  IIdempotencyService,
+  IJournalAttachmentService
+} from '../interfaces/index.js';
+import { config } from '../../utils/config.js';
 
 // Import existing business services
 import { GeminiAIService } from '../../services/GeminiAIService.js';
 import { EmailService } from '../../services/EmailService.js';
 import { NotificationService } from '../../services/NotificationService.js';
+import { NotificationScheduler } from '../../services/NotificationScheduler.js';
+import { InAppNotificationChannel } from '../../services/notifications/InAppNotificationChannel.js';
+import { EmailNotificationChannel } from '../../services/notifications/EmailNotificationChannel.js';
+import { WebhookNotificationChannel } from '../../services/notifications/WebhookNotificationChannel.js';
 import { CompanyService } from '../../services/CompanyService.js';
+import { ReminderService } from '../../services/ReminderService.js';
+import { ReminderScheduler } from '../../services/ReminderScheduler.js';
+import { DepartmentService } from '../../services/DepartmentService.js';
+import { RetentionService } from '../../services/RetentionService.js';
+import { RetentionScheduler } from '../../services/RetentionScheduler.js';
+import { JobQueueService } from '../../services/JobQueueService.js';
+import { JobWorker } from '../../services/JobWorker.js';
+import { WebhookService } from '../../services/WebhookService.js';
+import { IdempotencyService } from '../../services/IdempotencyService.js';
+import { JournalAttachmentService } from '../../services/JournalAttachmentService.js';
+import { FileAccessService } from '../../services/FileAccessService.js';
+import { StorageQuotaService } from '../../services/StorageQuotaService.js';
+import { IdempotencyMiddleware } from '../middleware/IdempotencyMiddleware.js';
+import type { AuthenticationMiddleware } from '../middleware/AuthenticationMiddleware.js';
 
 /**
  * Business service provider
@@ -24,13 +57,204 @@ export class BusinessServiceProvider implements ServiceProvider {
     // Register email service
     container.register(SERVICE_KEYS.EMAIL_SERVICE, () => new EmailService());
 
-    // Register notification service
-    container.register(SERVICE_KEYS.NOTIFICATION_SERVICE, () => new NotificationService());
+    // Register notification service with its delivery channels
+    container.register(SERVICE_KEYS.NOTIFICATION_SERVICE, () => {
+      const databaseService = container.resolve<IDatabaseService>(SERVICE_KEYS.DATABASE_SERVICE);
+      const authService = container.resolve<IAuthService>(SERVICE_KEYS.AUTH_SERVICE);
+      const emailService = container.resolve<IEmailService>(SERVICE_KEYS.EMAIL_SERVICE);
+      return new NotificationService(databaseService, authService, [
+        new InAppNotificationChannel(),
+        new EmailNotificationChannel(emailService),
+        new WebhookNotificationChannel({ allowPrivateHosts: config.webhooks.allowPrivateHosts })
+      ]);
+    });
 
-    // Register company service with database dependency
+    // Register scheduled notification worker
+    container.register(SERVICE_KEYS.NOTIFICATION_SCHEDULER, () => {
+      const databaseService = container.resolve<IDatabaseService>(SERVICE_KEYS.DATABASE_SERVICE);
+      const notificationService = container.resolve<INotificationService>(SERVICE_KEYS.NOTIFICATION_SERVICE);
+      return new NotificationScheduler(databaseService, notificationService, {
+        pollIntervalMs: config.notifications.pollIntervalMs,
+        maxAttempts: config.notifications.maxAttempts,
+        retryBaseDelayMs: config.notifications.retryBaseDelayMs
+      });
+    });
+
+    // Register company service with its database, auth and email dependencies
     container.register(SERVICE_KEYS.COMPANY_SERVICE, () => {
       const databaseService = container.resolve<IDatabaseService>(SERVICE_KEYS.DATABASE_SERVICE);
-      return new CompanyService(databaseService);
+      const authService = container.resolve<IAuthService>(SERVICE_KEYS.AUTH_SERVICE);
+      const emailService = container.resolve<IEmailService>(SERVICE_KEYS.EMAIL_SERVICE);
+      const eventBus = container.resolve<IEventBus>(SERVICE_KEYS.EVENT_BUS);
+      return new CompanyService(databaseService, authService, emailService, eventBus);
+    });
+
+    // Register department service for teams inside companies
+    container.register(SERVICE_KEYS.DEPARTMENT_SERVICE, () => {
+      const databaseService = container.resolve<IDatabaseService>(SERVICE_KEYS.DATABASE_SERVICE);
+      const authService = container.resolve<IAuthService>(SERVICE_KEYS.AUTH_SERVICE);
+      return new DepartmentService(databaseService, authService);
+    });
+
+    // Register data retention service and its worker
+    container.register(SERVICE_KEYS.RETENTION_SERVICE, () => {
+      const databaseService = container.resolve<IDatabaseService>(SERVICE_KEYS.DATABASE_SERVICE);
+      const authService = container.resolve<IAuthService>(SERVICE_KEYS.AUTH_SERVICE);
+      const journalAttachmentService = container.resolve<IJournalAttachmentService>(SERVICE_KEYS.JOURNAL_ATTACHMENT_SERVICE);
+      return new RetentionService(databaseService, authService, journalAttachmentService, {
+        individualRetentionDays: config.retention.individualRetentionDays,
+        strategy: config.retention.strategy
+      });
+    });
+
+    container.register(SERVICE_KEYS.RETENTION_SCHEDULER, () => {
+      const retentionService = container.resolve<IRetentionService>(SERVICE_KEYS.RETENTION_SERVICE);
+      return new RetentionScheduler(retentionService, {
+        sweepIntervalMs: config.retention.sweepIntervalMs
+      });
+    });
+
+    // Register the background job queue with its handlers, and its worker
+    container.register(SERVICE_KEYS.JOB_QUEUE, () => {
+      const databaseService = container.resolve<IDatabaseService>(SERVICE_KEYS.DATABASE_SERVICE);
+      const emailService = container.resolve<IEmailService>(SERVICE_KEYS.EMAIL_SERVICE);
+      const jobQueue = new JobQueueService(databaseService, {
+        concurrency: config.jobs.concurrency,
+        maxAttempts: config.jobs.maxAttempts,
+        retryBaseDelayMs: config.jobs.retryBaseDelayMs,
+        lockTimeoutMs: config.jobs.lockTimeoutMs
+      });
+
+      // The email service swallows send errors, so check the connection to get retries during outages
+      jobQueue.registerHandler('email.welcome', async ({ email, name }) => {
+        if (!(await emailService.testConnection())) {
+          throw new Error('Email service is not reachable');
+        }
+        await emailService.sendWelcomeEmail(email, name);
+      });
+
+      return jobQueue;
+    });
+
+    container.register(SERVICE_KEYS.JOB_WORKER, () => {
+      const jobQueue = container.resolve<IJobQueue>(SERVICE_KEYS.JOB_QUEUE);
+      return new JobWorker(jobQueue, { pollIntervalMs: config.jobs.pollIntervalMs });
+    });
+
+    // Register company webhooks, fed by membership events and delivered through the job queue
+    container.register(SERVICE_KEYS.WEBHOOK_SERVICE, () => {
+      const databaseService = container.resolve<IDatabaseService>(SERVICE_KEYS.DATABASE_SERVICE);
+      const jobQueue = container.resolve<IJobQueue>(SERVICE_KEYS.JOB_QUEUE);
+      const eventBus = container.resolve<IEventBus>(SERVICE_KEYS.EVENT_BUS);
+      const companyService = container.resolve<ICompanyService>(SERVICE_KEYS.COMPANY_SERVICE);
+      const webhookService: IWebhookService = new WebhookService(databaseService, jobQueue, companyService, {
+        requireHttps: config.nodeEnv === 'production',
+        allowPrivateHosts: config.webhooks.allowPrivateHosts
+      });
+
+      jobQueue.registerHandler('webhook.deliver', ({ deliveryId }, job) =>
+        webhookService.deliver(deliveryId, job.attempts >= job.maxAttempts)
+      );
+
+      // Each run queues the next one once its reports are out
+      jobQueue.registerHandler('webhook.weekly_reports', async () => {
+        await webhookService.sendWeeklyReports();
+        await webhookService.scheduleWeeklyReports();
+      });
+
+      eventBus.subscribe('company.user_joined', async ({ payload, occurredAt }) => {
+        await webhookService.dispatch(payload.companyId, 'member.joined', {
+          userId: payload.user.$id,
+          email: payload.user.email,
+          role: payload.role,
+          joinedAt: occurredAt
+        });
+      }, { mode: 'async', name: 'webhooks' });
+
+      eventBus.subscribe('company.user_removed', async ({ payload, occurredAt }) => {
+        await webhookService.dispatch(payload.companyId, 'member.removed', {
+          userId: payload.userId,
+          removedAt: occurredAt
+        });
+      }, { mode: 'async', name: 'webhooks' });
+
+      eventBus.subscribe('company.invitation_accepted', async ({ payload, occurredAt }) => {
+        await webhookService.dispatch(payload.companyId, 'invitation.accepted', {
+          invitationId: payload.invitationId,
+          userId: payload.user.$id,
+          email: payload.user.email,
+          role: payload.role,
+          acceptedAt: occurredAt
+        });
+      }, { mode: 'async', name: 'webhooks' });
+
+      return webhookService;
+    });
+
+    // Register idempotency keys for POST routes, expired keys are purged through the job queue
+    container.register(SERVICE_KEYS.IDEMPOTENCY_SERVICE, () => {
+      const databaseService = container.resolve<IDatabaseService>(SERVICE_KEYS.DATABASE_SERVICE);
+      const jobQueue = container.resolve<IJobQueue>(SERVICE_KEYS.JOB_QUEUE);
+      const idempotencyService: IIdempotencyService = new IdempotencyService(databaseService, jobQueue, {
+        ttlMs: config.idempotency.ttlHours * 60 * 60 * 1000
+      });
+
+      jobQueue.registerHandler('idempotency.purge', async () => {
+        await idempotencyService.purgeExpired();
+        await idempotencyService.schedulePurge();
+      });
+
+      return idempotencyService;
+    });
+
+    container.register(SERVICE_KEYS.IDEMPOTENCY_MIDDLEWARE, () => {
+      const idempotencyService = container.resolve<IIdempotencyService>(SERVICE_KEYS.IDEMPOTENCY_SERVICE);
+      const authMiddleware = container.resolve<AuthenticationMiddleware>(SERVICE_KEYS.AUTH_MIDDLEWARE);
+      return new IdempotencyMiddleware(idempotencyService, authMiddleware);
+    });
+
+    // Register journal attachment uploads, stored in a bucket per user
+    container.register(SERVICE_KEYS.JOURNAL_ATTACHMENT_SERVICE, () => {
+      const storageService = container.resolve<IStorageService>(SERVICE_KEYS.STORAGE_SERVICE);
+      const databaseService = container.resolve<IDatabaseService>(SERVICE_KEYS.DATABASE_SERVICE);
+      return new JournalAttachmentService(storageService, databaseService, {
+        maxFileSize: config.upload.maxFileSize,
+        allowedImageTypes: config.upload.allowedImageTypes,
+        allowedAudioTypes: config.upload.allowedAudioTypes
+      });
+    });
+
+    // Register expiring signed links to private files
+    container.register(SERVICE_KEYS.FILE_ACCESS_SERVICE, () => {
+      const storageService = container.resolve<IStorageService>(SERVICE_KEYS.STORAGE_SERVICE);
+      return new FileAccessService(storageService, config.storage.signedUrls);
+    });
+
+    // Register storage quotas by subscription tier, measured from the attachment buckets
+    container.register(SERVICE_KEYS.STORAGE_QUOTA_SERVICE, () => {
+      const databaseService = container.resolve<IDatabaseService>(SERVICE_KEYS.DATABASE_SERVICE);
+      const authService = container.resolve<IAuthService>(SERVICE_KEYS.AUTH_SERVICE);
+      const storageService = container.resolve<IStorageService>(SERVICE_KEYS.STORAGE_SERVICE);
+      const notificationService = container.resolve<INotificationService>(SERVICE_KEYS.NOTIFICATION_SERVICE);
+      const { companyUsageCacheSeconds, ...quotas } = config.storage.quotas;
+      return new StorageQuotaService(databaseService, authService, storageService, notificationService, {
+        ...quotas,
+        companyUsageTtlMs: companyUsageCacheSeconds * 1000
+      });
+    });
+
+    // Register reminder service and its worker
+    container.register(SERVICE_KEYS.REMINDER_SERVICE, () => {
+      const databaseService = container.resolve<IDatabaseService>(SERVICE_KEYS.DATABASE_SERVICE);
+      const notificationService = container.resolve<INotificationService>(SERVICE_KEYS.NOTIFICATION_SERVICE);
+      return new ReminderService(databaseService, notificationService);
+    });
+
+    container.register(SERVICE_KEYS.REMINDER_SCHEDULER, () => {
+      const reminderService = container.resolve<IReminderService>(SERVICE_KEYS.REMINDER_SERVICE);
+      return new ReminderScheduler(reminderService, {
+        pollIntervalMs: config.notifications.pollIntervalMs
+      });
     });
   }
 }
\ No newline at end of file
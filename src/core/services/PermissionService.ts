@@ -1,15 +1,21 @@
 import type { IPermissionService, PermissionRule, PermissionContext, PermissionAuditEntry, PermissionTemplate, InheritedPermission } from '../interfaces/IPermissionService.js';
 import type { IDatabaseService } from '../interfaces/IDatabaseService.js';
+import type { IAuthService } from '../interfaces/IAuthService.js';
+import type { DepartmentModel } from '../../models/DepartmentModel.js';
 import type { User, Permission, UserRole } from '../../types/index.js';
 import { Permission as PermissionDomain } from '../domain/Permission.js';
+import { bucketOwnerId } from '../../utils/attachments.js';
+import { listAllDocuments } from '../../utils/databasePaging.js';
 
 /**
  * Permission service implementation
- * Handles all permission-related business logic
+ * Handles all permission-related business logic.
+ * Users are loaded through the auth service, which is where company and department membership is written.
  */
 export class PermissionService implements IPermissionService {
   constructor(
-    private databaseService: IDatabaseService
+    private databaseService: IDatabaseService,
+    private authService: IAuthService
   ) {}
 
   // Basic permission checking
@@ -58,25 +64,56 @@ export class PermissionService implements IPermissionService {
         return PermissionDomain.canAccessCompany(user, resourceId);
       
       case 'user':
-        const targetUser = await this.databaseService.read<User>('users', resourceId);
+        const targetUser = await this.authService.getUserById(resourceId);
+        const managedDepartmentIds = await this.getManagedDepartmentIds(user);
         if (action === 'view') {
-          return PermissionDomain.canViewUserData(user, targetUser);
+          return PermissionDomain.canViewUserData(user, targetUser, managedDepartmentIds);
         } else if (action === 'manage') {
-          return PermissionDomain.canManageUser(user, targetUser);
+          return PermissionDomain.canManageUser(user, targetUser, managedDepartmentIds);
         }
         break;
       
+      case 'department':
+        const department = await this.databaseService.read<any>('departments', resourceId);
+        if (!PermissionDomain.canAccessCompany(user, department.companyId)) return false;
+        if (action === 'view') return true;
+        // Admins manage every department, managers only the ones they are listed on
+        if (user.role === 'SUPER_ADMIN' || user.role === 'COMPANY_ADMIN') return true;
+        return user.role === 'COMPANY_MANAGER' && (department.managerIds || []).includes(user.$id);
+      
       case 'journal':
         const journal = await this.databaseService.read<any>('journals', resourceId);
         // Users can access their own journals, company admins can access company journals
         if (journal.userId === user.$id) return true;
         if (user.role === 'SUPER_ADMIN') return true;
         if (user.role === 'COMPANY_ADMIN' && user.companyId) {
-          const journalOwner = await this.databaseService.read<User>('users', journal.userId);
+          const journalOwner = await this.authService.getUserById(journal.userId);
           return journalOwner.companyId === user.companyId;
         }
         return false;
       
+      case 'file': {
+        // Files are addressed as "<bucketId>/<fileId>" and follow the rules of the journals they belong to
+        const ownerId = bucketOwnerId(resourceId.split('/')[0] ?? '');
+        if (!ownerId || action !== 'view') return false;
+        if (ownerId === user.$id) return true;
+        if (user.role === 'SUPER_ADMIN') return true;
+        if (user.role === 'COMPANY_ADMIN' && user.companyId) {
+          const fileOwner = await this.authService.getUserById(ownerId);
+          return fileOwner.companyId === user.companyId;
+        }
+        return false;
+      }
+      
+      case 'notification':
+        const notification = await this.databaseService.read<any>('notifications', resourceId);
+        // Notifications are private to their recipient
+        return notification.userId === user.$id;
+      
+      case 'reminder':
+        const reminder = await this.databaseService.read<any>('reminders', resourceId);
+        return reminder.userId === user.$id;
+      
       default:
         return false;
     }
@@ -85,13 +122,31 @@ export class PermissionService implements IPermissionService {
   }
 
   async canManageUser(manager: User, targetUserId: string): Promise<boolean> {
-    const targetUser = await this.databaseService.read<User>('users', targetUserId);
-    return PermissionDomain.canManageUser(manager, targetUser);
+    const targetUser = await this.authService.getUserById(targetUserId);
+    const managedDepartmentIds = await this.getManagedDepartmentIds(manager);
+    return PermissionDomain.canManageUser(manager, targetUser, managedDepartmentIds);
   }
 
   async canViewUserData(viewer: User, targetUserId: string): Promise<boolean> {
-    const targetUser = await this.databaseService.read<User>('users', targetUserId);
-    return PermissionDomain.canViewUserData(viewer, targetUser);
+    const targetUser = await this.authService.getUserById(targetUserId);
+    const managedDepartmentIds = await this.getManagedDepartmentIds(viewer);
+    return PermissionDomain.canViewUserData(viewer, targetUser, managedDepartmentIds);
+  }
+
+  // Departments only scope company managers, other roles skip the lookup
+  private async getManagedDepartmentIds(user: User): Promise<string[]> {
+    if (user.role !== 'COMPANY_MANAGER' || !user.companyId) {
+      return [];
+    }
+
+    const departments = await listAllDocuments<DepartmentModel>(this.databaseService, 'departments', [
+      { field: 'companyId', operator: 'equal', value: user.companyId },
+      { field: 'managerIds', operator: 'contains', value: user.$id }
+    ]);
+    // Managing a department elsewhere gives no say over this company's members
+    return departments
+      .filter(department => department.companyId === user.companyId)
+      .map(department => department.$id);
   }
 
   async canAccessCompany(user: User, companyId: string): Promise<boolean> {
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { PermissionService } from '../PermissionService.js';
+import { InMemoryDatabaseAdapter } from '../../../services/database/InMemoryDatabaseAdapter.js';
+import { DepartmentSchema, type DepartmentModel } from '../../../models/DepartmentModel.js';
+import type { IAuthService } from '../../interfaces/IAuthService.js';
+import type { User, UserRole } from '../../../types/index.js';
+
+describe('PermissionService', () => {
+  let db: InMemoryDatabaseAdapter;
+  let users: Map<string, User>;
+  let service: PermissionService;
+
+  const addUser = (id: string, role: UserRole, companyId: string, departmentId?: string) => {
+    const user = { $id: id, role, companyId, departmentId, permissions: [], isActive: true } as unknown as User;
+    users.set(id, user);
+    return user;
+  };
+
+  const addDepartment = (companyId: string, name: string, managerIds: string[]) =>
+    db.create<DepartmentModel>('departments', {
+      companyId,
+      name,
+      managerIds,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    });
+
+  beforeEach(() => {
+    db = new InMemoryDatabaseAdapter([DepartmentSchema]);
+    users = new Map();
+    // Company and department membership live with the auth provider, not in the users collection
+    const authService = {
+      getUserById: async (id: string) => {
+        const user = users.get(id);
+        if (!user) throw new Error('User not found');
+        return user;
+      }
+    } as unknown as IAuthService;
+    service = new PermissionService(db, authService);
+  });
+
+  it('should let managers view and manage members of their own departments only', async () => {
+    const manager = addUser('manager', 'COMPANY_MANAGER', 'company-1');
+    const sales = await addDepartment('company-1', 'Sales', [manager.$id]);
+    const support = await addDepartment('company-1', 'Support', ['someone-else']);
+    addUser('own-member', 'COMPANY_USER', 'company-1', sales.$id);
+    addUser('other-member', 'COMPANY_USER', 'company-1', support.$id);
+
+    expect(await service.canAccessResource(manager, 'user', 'own-member', 'view')).toBe(true);
+    expect(await service.canViewUserData(manager, 'own-member')).toBe(true);
+    expect(await service.canManageUser(manager, 'own-member')).toBe(true);
+
+    expect(await service.canAccessResource(manager, 'user', 'other-member', 'view')).toBe(false);
+    expect(await service.canViewUserData(manager, 'other-member')).toBe(false);
+    expect(await service.canManageUser(manager, 'other-member')).toBe(false);
+  });
+
+  it('should ignore departments the manager runs in another company', async () => {
+    const manager = addUser('manager', 'COMPANY_MANAGER', 'company-1');
+    const elsewhere = await addDepartment('company-2', 'Sales', [manager.$id]);
+    addUser('outsider', 'COMPANY_USER', 'company-2', elsewhere.$id);
+    addUser('colleague', 'COMPANY_USER', 'company-1', elsewhere.$id);
+
+    expect(await service.canViewUserData(manager, 'outsider')).toBe(false);
+    expect(await service.canViewUserData(manager, 'colleague')).toBe(false);
+  });
+});
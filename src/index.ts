@@ -4,9 +4,11 @@ import { swagger } from '@elysiajs/swagger';
 import { config } from './utils/config.js';
 import { logger } from './utils/logger.js';
 import { bootstrap as initializeServices, cleanup } from './bootstrap.js';
-import { serviceHealthChecker } from './core/container/ServiceContainer.js';
+import { serviceHealthChecker, getService, SERVICE_KEYS } from './core/container/ServiceContainer.js';
+import { CachingDatabaseAdapter } from './services/database/CachingDatabaseAdapter.js';
 import { createErrorResponse, createSuccessResponse, HTTP_STATUS } from './utils/response.js';
 import { PermissionError } from './core/middleware/PermissionGuard.js';
+import type { IdempotencyMiddleware } from './core/middleware/IdempotencyMiddleware.js';
 
 // Import routes
 import { authRoutes } from './routes/auth.js';
@@ -14,6 +16,15 @@ import { journalRoutes } from './routes/journal.js';
 import { moodRoutes } from './routes/mood.js';
 import { aiRoutes } from './routes/ai.js';
 import { companyRoutes } from './routes/company.js';
+import { notificationRoutes } from './routes/notifications.js';
+import { reminderRoutes } from './routes/reminders.js';
+import { departmentRoutes } from './routes/departments.js';
+import { jobRoutes } from './routes/jobs.js';
+import { webhookRoutes } from './routes/webhooks.js';
+import { fileRoutes } from './routes/files.js';
+import { storageRoutes } from './routes/storage.js';
+
+const idempotencyMiddleware = () => getService<IdempotencyMiddleware>(SERVICE_KEYS.IDEMPOTENCY_MIDDLEWARE);
 
 async function startServer() {
   try {
@@ -27,7 +38,8 @@ async function startServer() {
           origin: config.cors.allowedOrigins,
           credentials: true,
           methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-          allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+          allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'If-Match', 'Idempotency-Key', 'Range'],
+          exposeHeaders: ['ETag', 'Idempotent-Replayed', 'Accept-Ranges', 'Content-Range', 'Content-Length'],
         })
       )
       .use(
@@ -79,6 +91,12 @@ async function startServer() {
                 Authentication endpoints are rate-limited based on user role to prevent abuse.
                 Higher roles have higher rate limits.
                 
+                ## Idempotency
+                
+                Authenticated POST requests accept an \`Idempotency-Key\` header. A retry with the same key
+                within 24 hours gets the first response back, marked with \`Idempotent-Replayed: true\`,
+                instead of running again. Reusing a key with a different body returns 409.
+                
                 ## Error Handling
                 
                 All endpoints return consistent error responses:
@@ -114,6 +132,30 @@ async function startServer() {
                 name: 'Company',
                 description: 'Company management endpoints for administrators'
               },
+              {
+                name: 'Departments',
+                description: 'Departments (teams) inside a company and their members'
+              },
+              {
+                name: 'Notifications',
+                description: 'In-app notification inbox for the authenticated user'
+              },
+              {
+                name: 'Reminders',
+                description: 'Mood and journal check-in reminders'
+              },
+              {
+                name: 'Webhooks',
+                description: 'Signed HTTP callbacks for company membership events'
+              },
+              {
+                name: 'Files',
+                description: 'Expiring signed links to private journal media'
+              },
+              {
+                name: 'Storage',
+                description: 'Attachment storage usage and quotas by subscription tier'
+              },
               {
                 name: 'Admin',
                 description: 'Administrative endpoints requiring elevated permissions'
@@ -309,8 +351,10 @@ async function startServer() {
         })
       )
       // Global error handler with permission error support
-      .onError(({ error, code, set }) => {
+      .onError(async ({ error, code, set, request }) => {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+        await idempotencyMiddleware().onError(request);
         
         // Handle permission errors specifically
         if (error instanceof PermissionError) {
@@ -352,10 +396,14 @@ async function startServer() {
             );
         }
       })
+      // Replay responses to POST requests retried with the same Idempotency-Key
+      .onBeforeHandle(context => idempotencyMiddleware().beforeHandle(context))
+      .onAfterHandle(context => idempotencyMiddleware().afterHandle(context))
       // Health check endpoint with service health checking
       .get('/health', async () => {
         try {
           const healthSummary = await serviceHealthChecker.getHealthSummary();
+          const databaseService = getService<unknown>(SERVICE_KEYS.DATABASE_SERVICE);
           
           const health = {
             status: healthSummary.unhealthyServices === 0 ? 'ok' : 'degraded',
@@ -367,6 +415,7 @@ async function startServer() {
               unhealthy: healthSummary.unhealthyServices,
               details: healthSummary.details
             },
+            ...(databaseService instanceof CachingDatabaseAdapter && { databaseCache: databaseService.getStats() }),
           };
 
           const status = healthSummary.unhealthyServices === 0 ? HTTP_STATUS.OK : HTTP_STATUS.SERVICE_UNAVAILABLE;
@@ -401,6 +450,13 @@ async function startServer() {
             mood: '/api/v1/mood',
             ai: '/api/v1/ai',
             company: '/api/v1/company',
+            departments: '/api/v1/companies/:companyId/departments',
+            webhooks: '/api/v1/companies/:companyId/webhooks',
+            files: '/api/v1/files',
+            storage: '/api/v1/storage',
+            notifications: '/api/v1/notifications',
+            reminders: '/api/v1/reminders',
+            jobs: '/api/v1/admin/jobs',
           },
         });
       })
@@ -410,6 +466,13 @@ async function startServer() {
       .group('/api/v1/mood', (app) => app.use(moodRoutes))
       .group('/api/v1/ai', (app) => app.use(aiRoutes))
       .group('/api/v1', (app) => app.use(companyRoutes))
+      .group('/api/v1', (app) => app.use(departmentRoutes))
+      .group('/api/v1', (app) => app.use(webhookRoutes))
+      .group('/api/v1', (app) => app.use(fileRoutes))
+      .group('/api/v1', (app) => app.use(storageRoutes))
+      .group('/api/v1', (app) => app.use(notificationRoutes))
+      .group('/api/v1', (app) => app.use(reminderRoutes))
+      .group('/api/v1', (app) => app.use(jobRoutes))
       
       // Catch-all 404 handler
       .all('*', ({ set }) => {
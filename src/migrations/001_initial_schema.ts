@@ -0,0 +1,52 @@
+import type { Migration } from '../core/interfaces/IMigrationService.js';
+import {
+  UserSchema,
+  CompanySchema,
+  JournalSchema,
+  MoodSchema,
+  NotificationSchema,
+  ReminderSchema,
+  InvitationSchema,
+  SubscriptionChangeSchema,
+  MembershipRequestSchema,
+  DepartmentSchema,
+  RetentionRunSchema
+} from '../models/index.js';
+import { createCollectionFromSchema, dropCollection } from './helpers.js';
+
+// Collections that existed before migrations were introduced
+const BASELINE_SCHEMAS = [
+  UserSchema,
+  CompanySchema,
+  JournalSchema,
+  MoodSchema,
+  NotificationSchema,
+  ReminderSchema,
+  InvitationSchema,
+  SubscriptionChangeSchema,
+  MembershipRequestSchema,
+  DepartmentSchema,
+  RetentionRunSchema
+];
+
+/**
+ * Baseline: every collection as set up by `setup-database.ts`
+ * Existing collections, attributes and indexes are left alone, so this also
+ * records databases created before migrations existed.
+ */
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial_schema',
+
+  async up(databaseService) {
+    for (const schema of BASELINE_SCHEMAS) {
+      await createCollectionFromSchema(databaseService, schema);
+    }
+  },
+
+  async down(databaseService) {
+    for (const schema of [...BASELINE_SCHEMAS].reverse()) {
+      await dropCollection(databaseService, schema.name);
+    }
+  }
+};
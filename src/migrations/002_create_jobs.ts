@@ -0,0 +1,19 @@
+import type { Migration } from '../core/interfaces/IMigrationService.js';
+import { JobSchema } from '../models/index.js';
+import { createCollectionFromSchema, dropCollection } from './helpers.js';
+
+/**
+ * Persistent background jobs
+ */
+export const createJobs: Migration = {
+  version: 2,
+  name: 'create_jobs',
+
+  async up(databaseService) {
+    await createCollectionFromSchema(databaseService, JobSchema);
+  },
+
+  async down(databaseService) {
+    await dropCollection(databaseService, JobSchema.name);
+  }
+};
@@ -0,0 +1,21 @@
+import type { Migration } from '../core/interfaces/IMigrationService.js';
+import { WebhookSchema, WebhookDeliverySchema } from '../models/index.js';
+import { createCollectionFromSchema, dropCollection } from './helpers.js';
+
+/**
+ * Company webhook subscriptions and their delivery log
+ */
+export const createWebhooks: Migration = {
+  version: 3,
+  name: 'create_webhooks',
+
+  async up(databaseService) {
+    await createCollectionFromSchema(databaseService, WebhookSchema);
+    await createCollectionFromSchema(databaseService, WebhookDeliverySchema);
+  },
+
+  async down(databaseService) {
+    await dropCollection(databaseService, WebhookDeliverySchema.name);
+    await dropCollection(databaseService, WebhookSchema.name);
+  }
+};
@@ -0,0 +1,19 @@
+import type { Migration } from '../core/interfaces/IMigrationService.js';
+import { IdempotencyKeySchema } from '../models/index.js';
+import { createCollectionFromSchema, dropCollection } from './helpers.js';
+
+/**
+ * Stored responses for requests sent with an Idempotency-Key header
+ */
+export const createIdempotencyKeys: Migration = {
+  version: 4,
+  name: 'create_idempotency_keys',
+
+  async up(databaseService) {
+    await createCollectionFromSchema(databaseService, IdempotencyKeySchema);
+  },
+
+  async down(databaseService) {
+    await dropCollection(databaseService, IdempotencyKeySchema.name);
+  }
+};
@@ -0,0 +1,115 @@
+import type {
+  IDatabaseService,
+  DatabaseAttributeDefinition,
+  DatabaseIndexType
+} from '../core/interfaces/IDatabaseService.js';
+import type { CollectionSchema } from '../models/BaseModel.js';
+
+// Appwrite builds attributes in the background; indexes on them fail until they are available
+const ATTRIBUTE_POLL_INTERVAL_MS = 1000;
+const ATTRIBUTE_POLL_ATTEMPTS = 60;
+
+/**
+ * Create a collection with its attributes and indexes, skipping whatever already exists
+ * Skipping keeps the baseline migration safe on databases set up by `setup-database.ts`.
+ */
+export async function createCollectionFromSchema(
+  databaseService: IDatabaseService,
+  schema: CollectionSchema
+): Promise<void> {
+  const collections = await databaseService.listCollections();
+  if (!collections.some(collection => collection.$id === schema.name)) {
+    await databaseService.createCollection(schema.name, schema.name);
+  }
+
+  for (const attribute of schema.attributes ?? []) {
+    await addAttribute(databaseService, schema.name, attribute as DatabaseAttributeDefinition);
+  }
+
+  for (const index of schema.indexes ?? []) {
+    await addIndex(databaseService, schema.name, index);
+  }
+}
+
+/**
+ * Delete a collection and everything in it, if it exists
+ */
+export async function dropCollection(databaseService: IDatabaseService, collectionId: string): Promise<void> {
+  const collections = await databaseService.listCollections();
+  if (collections.some(collection => collection.$id === collectionId)) {
+    await databaseService.deleteCollection(collectionId);
+  }
+}
+
+/**
+ * Add an attribute unless it exists, and wait until it can be used
+ */
+export async function addAttribute(
+  databaseService: IDatabaseService,
+  collectionId: string,
+  attribute: DatabaseAttributeDefinition
+): Promise<void> {
+  if (!(await findAttributeStatus(databaseService, collectionId, attribute.key))) {
+    await databaseService.createAttribute(collectionId, attribute);
+  }
+
+  for (let attempt = 0; attempt < ATTRIBUTE_POLL_ATTEMPTS; attempt++) {
+    const status = await findAttributeStatus(databaseService, collectionId, attribute.key);
+    if (status === 'available') {
+      return;
+    }
+    if (status === 'failed') {
+      throw new Error(`Attribute ${collectionId}.${attribute.key} failed to build`);
+    }
+    await new Promise(resolve => setTimeout(resolve, ATTRIBUTE_POLL_INTERVAL_MS));
+  }
+
+  throw new Error(`Attribute ${collectionId}.${attribute.key} is still not available`);
+}
+
+/**
+ * Remove an attribute and its values, if it exists
+ */
+export async function removeAttribute(
+  databaseService: IDatabaseService,
+  collectionId: string,
+  key: string
+): Promise<void> {
+  if (await findAttributeStatus(databaseService, collectionId, key)) {
+    await databaseService.deleteAttribute(collectionId, key);
+  }
+}
+
+/**
+ * Add an index unless one with the same key exists
+ */
+export async function addIndex(
+  databaseService: IDatabaseService,
+  collectionId: string,
+  index: NonNullable<CollectionSchema['indexes']>[number]
+): Promise<void> {
+  const indexes = await databaseService.listIndexes(collectionId);
+  if (!indexes.some(existing => existing.key === index.key)) {
+    await databaseService.createIndex(collectionId, index.key, index.type as DatabaseIndexType, index.attributes, index.orders);
+  }
+}
+
+/**
+ * Remove an index, if it exists
+ */
+export async function removeIndex(databaseService: IDatabaseService, collectionId: string, key: string): Promise<void> {
+  const indexes = await databaseService.listIndexes(collectionId);
+  if (indexes.some(index => index.key === key)) {
+    await databaseService.deleteIndex(collectionId, key);
+  }
+}
+
+async function findAttributeStatus(
+  databaseService: IDatabaseService,
+  collectionId: string,
+  key: string
+): Promise<string | undefined> {
+  const collections = await databaseService.listCollections();
+  const collection = collections.find(candidate => candidate.$id === collectionId);
+  return collection?.attributes.find(attribute => attribute.key === key)?.status;
+}
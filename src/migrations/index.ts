@@ -0,0 +1,17 @@
+/**
+ * Schema migrations, in version order
+ * Add a file named `<version>_<name>.ts` exporting a `Migration` and list it here;
+ * never change a migration that has been applied anywhere, add a new one instead.
+ */
+import type { Migration } from '../core/interfaces/IMigrationService.js';
+import { initialSchema } from './001_initial_schema.js';
+import { createJobs } from './002_create_jobs.js';
+import { createWebhooks } from './003_create_webhooks.js';
+import { createIdempotencyKeys } from './004_create_idempotency_keys.js';
+
+export const AllMigrations: Migration[] = [
+  initialSchema,
+  createJobs,
+  createWebhooks,
+  createIdempotencyKeys
+];
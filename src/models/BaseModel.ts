@@ -21,6 +21,24 @@ export type CreateInput<T> = Omit<T, keyof BaseModel>;
  */
 export type UpdateInput<T> = Partial<Omit<T, keyof BaseModel>>;
 
+/**
+ * Collection schema as declared by each model
+ */
+export interface CollectionSchema {
+  name: string;
+  attributes?: Array<{
+    key: string;
+    type: string;
+    required: boolean;
+    array?: boolean;
+    size?: number;
+    min?: number;
+    max?: number;
+    default?: any;
+  }>;
+  indexes?: Array<{ key: string; type: string; attributes: string[]; orders?: string[] }>;
+}
+
 /**
  * Query options for database operations
  */
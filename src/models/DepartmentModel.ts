@@ -0,0 +1,43 @@
+import type { BaseModel, CreateInput, UpdateInput } from './BaseModel.js';
+
+/**
+ * Department (team) model interface
+ * Members reference their department through `User.departmentId`.
+ */
+export interface DepartmentModel extends BaseModel {
+  companyId: string;
+  name: string;
+  description?: string;
+  managerIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Department creation input
+ */
+export type CreateDepartmentInput = CreateInput<DepartmentModel>;
+
+/**
+ * Department update input
+ */
+export type UpdateDepartmentInput = UpdateInput<DepartmentModel>;
+
+/**
+ * Appwrite collection schema for departments
+ */
+export const DepartmentSchema = {
+  name: 'departments',
+  attributes: [
+    { key: 'companyId', type: 'string', size: 36, required: true },
+    { key: 'name', type: 'string', size: 100, required: true },
+    { key: 'description', type: 'string', size: 500, required: false },
+    { key: 'managerIds', type: 'string', size: 36, array: true, required: false },
+    { key: 'createdAt', type: 'datetime', required: true },
+    { key: 'updatedAt', type: 'datetime', required: true }
+  ],
+  indexes: [
+    { key: 'company_index', type: 'key', attributes: ['companyId'] },
+    { key: 'company_name_unique', type: 'unique', attributes: ['companyId', 'name'] }
+  ]
+};
@@ -0,0 +1,53 @@
+import type { BaseModel, CreateInput } from './BaseModel.js';
+
+/**
+ * Idempotency key status
+ * `processing` keys belong to a request that has not answered yet.
+ */
+export type IdempotencyKeyStatus = 'processing' | 'completed';
+
+/**
+ * Idempotency key model interface
+ * The first response to a user's request with a given Idempotency-Key, replayed to retries.
+ */
+export interface IdempotencyKeyModel extends BaseModel {
+  userId: string;
+  key: string;
+  requestHash: string; // Method, path and body of the first request
+  status: IdempotencyKeyStatus;
+  responseStatus?: number | null;
+  responseHeaders?: string | null; // JSON-encoded
+  responseBody?: string | null;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Idempotency key creation input
+ */
+export type CreateIdempotencyKeyInput = CreateInput<IdempotencyKeyModel>;
+
+// Larger responses are not stored, their retries run the request again
+export const MAX_IDEMPOTENT_RESPONSE_LENGTH = 65535;
+
+/**
+ * Appwrite collection schema for idempotency keys
+ */
+export const IdempotencyKeySchema = {
+  name: 'idempotency_keys',
+  attributes: [
+    { key: 'userId', type: 'string', size: 36, required: true },
+    { key: 'key', type: 'string', size: 255, required: true },
+    { key: 'requestHash', type: 'string', size: 64, required: true },
+    { key: 'status', type: 'string', size: 20, required: true },
+    { key: 'responseStatus', type: 'integer', required: false },
+    { key: 'responseHeaders', type: 'string', size: 2000, required: false },
+    { key: 'responseBody', type: 'string', size: MAX_IDEMPOTENT_RESPONSE_LENGTH, required: false },
+    { key: 'createdAt', type: 'datetime', required: true },
+    { key: 'expiresAt', type: 'datetime', required: true }
+  ],
+  indexes: [
+    { key: 'user_key_unique', type: 'unique', attributes: ['userId', 'key'] },
+    { key: 'expires_at_index', type: 'key', attributes: ['expiresAt'] }
+  ]
+};
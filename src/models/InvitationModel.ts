@@ -0,0 +1,62 @@
+import type { BaseModel, CreateInput, UpdateInput } from './BaseModel.js';
+import type { CompanyUserInvite } from '../types/index.js';
+
+/**
+ * Lifecycle of a company invitation
+ */
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+/**
+ * Company invitation model interface
+ * Only a hash of the invite token is stored; the token itself is emailed to the invitee.
+ */
+export interface InvitationModel extends BaseModel {
+  companyId: string;
+  email: string;
+  name?: string;
+  role: CompanyUserInvite['role'];
+  invitedBy: string;
+  tokenHash: string;
+  status: InvitationStatus;
+  expiresAt: string;
+  acceptedAt?: string;
+  acceptedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Invitation creation input
+ */
+export type CreateInvitationInput = CreateInput<InvitationModel>;
+
+/**
+ * Invitation update input
+ */
+export type UpdateInvitationInput = UpdateInput<InvitationModel>;
+
+/**
+ * Appwrite collection schema for company invitations
+ */
+export const InvitationSchema = {
+  name: 'invitations',
+  attributes: [
+    { key: 'companyId', type: 'string', size: 36, required: true },
+    { key: 'email', type: 'string', size: 255, required: true },
+    { key: 'name', type: 'string', size: 100, required: false },
+    { key: 'role', type: 'string', size: 50, required: true },
+    { key: 'invitedBy', type: 'string', size: 36, required: true },
+    { key: 'tokenHash', type: 'string', size: 64, required: true },
+    { key: 'status', type: 'string', size: 20, required: true },
+    { key: 'expiresAt', type: 'datetime', required: true },
+    { key: 'acceptedAt', type: 'datetime', required: false },
+    { key: 'acceptedBy', type: 'string', size: 36, required: false },
+    { key: 'createdAt', type: 'datetime', required: true },
+    { key: 'updatedAt', type: 'datetime', required: true }
+  ],
+  indexes: [
+    { key: 'tokenHash_unique', type: 'unique', attributes: ['tokenHash'] },
+    { key: 'company_status', type: 'key', attributes: ['companyId', 'status'] },
+    { key: 'email_index', type: 'key', attributes: ['email'] }
+  ]
+};
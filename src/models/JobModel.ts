@@ -0,0 +1,51 @@
+import type { BaseModel, CreateInput } from './BaseModel.js';
+
+/**
+ * Job status
+ * `dead` jobs ran out of attempts and wait for a super admin to retry or drop them.
+ */
+export type JobStatus = 'pending' | 'running' | 'completed' | 'dead' | 'cancelled';
+
+/**
+ * Job model interface
+ * A unit of background work; the queue keeps all state here so jobs survive restarts.
+ */
+export interface JobModel extends BaseModel {
+  type: string;
+  payload: string; // JSON-encoded job payload
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  // A running job whose lock expired is picked up again, its worker is assumed gone
+  lockedUntil?: string | null;
+  lastError?: string | null;
+  completedAt?: string | null;
+}
+
+/**
+ * Job creation input
+ */
+export type CreateJobInput = CreateInput<JobModel>;
+
+/**
+ * Appwrite collection schema for background jobs
+ */
+export const JobSchema = {
+  name: 'jobs',
+  attributes: [
+    { key: 'type', type: 'string', size: 100, required: true },
+    { key: 'payload', type: 'string', size: 10000, required: true },
+    { key: 'status', type: 'string', size: 20, required: true },
+    { key: 'attempts', type: 'integer', required: true, min: 0 },
+    { key: 'maxAttempts', type: 'integer', required: true, min: 1 },
+    { key: 'runAt', type: 'datetime', required: true },
+    { key: 'lockedUntil', type: 'datetime', required: false },
+    { key: 'lastError', type: 'string', size: 1000, required: false },
+    { key: 'completedAt', type: 'datetime', required: false }
+  ],
+  indexes: [
+    { key: 'status_run_at_index', type: 'key', attributes: ['status', 'runAt'] },
+    { key: 'type_index', type: 'key', attributes: ['type'] }
+  ]
+};
@@ -0,0 +1,62 @@
+import type { BaseModel, CreateInput, UpdateInput } from './BaseModel.js';
+
+/**
+ * Lifecycle of a request to join a company through its email domain
+ * - awaiting_verification: the company requires a verified email before joining
+ * - pending: waiting for a company admin to approve or reject
+ */
+export type MembershipRequestStatus = 'awaiting_verification' | 'pending' | 'approved' | 'rejected';
+
+/**
+ * Why a request could not be approved automatically
+ */
+export type MembershipRequestReason = 'self_registration_disabled' | 'user_limit_reached';
+
+/**
+ * Company membership request model interface
+ */
+export interface MembershipRequestModel extends BaseModel {
+  companyId: string;
+  userId: string;
+  email: string;
+  name: string;
+  status: MembershipRequestStatus;
+  reason?: MembershipRequestReason;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Membership request creation input
+ */
+export type CreateMembershipRequestInput = CreateInput<MembershipRequestModel>;
+
+/**
+ * Membership request update input
+ */
+export type UpdateMembershipRequestInput = UpdateInput<MembershipRequestModel>;
+
+/**
+ * Appwrite collection schema for company membership requests
+ */
+export const MembershipRequestSchema = {
+  name: 'membership_requests',
+  attributes: [
+    { key: 'companyId', type: 'string', size: 36, required: true },
+    { key: 'userId', type: 'string', size: 36, required: true },
+    { key: 'email', type: 'string', size: 255, required: true },
+    { key: 'name', type: 'string', size: 100, required: true },
+    { key: 'status', type: 'string', size: 30, required: true },
+    { key: 'reason', type: 'string', size: 50, required: false },
+    { key: 'reviewedBy', type: 'string', size: 36, required: false },
+    { key: 'reviewedAt', type: 'datetime', required: false },
+    { key: 'createdAt', type: 'datetime', required: true },
+    { key: 'updatedAt', type: 'datetime', required: true }
+  ],
+  indexes: [
+    { key: 'company_status', type: 'key', attributes: ['companyId', 'status'] },
+    { key: 'user_status', type: 'key', attributes: ['userId', 'status'] }
+  ]
+};
@@ -0,0 +1,31 @@
+import type { BaseModel, CreateInput } from './BaseModel.js';
+
+/**
+ * Migration model interface
+ * One document per applied migration; removed again when the migration is rolled back.
+ */
+export interface MigrationModel extends BaseModel {
+  version: number;
+  name: string;
+  appliedAt: string;
+}
+
+/**
+ * Migration creation input
+ */
+export type CreateMigrationInput = CreateInput<MigrationModel>;
+
+/**
+ * Appwrite collection schema for applied migrations
+ */
+export const MigrationSchema = {
+  name: 'migrations',
+  attributes: [
+    { key: 'version', type: 'integer', required: true, min: 1 },
+    { key: 'name', type: 'string', size: 100, required: true },
+    { key: 'appliedAt', type: 'datetime', required: true }
+  ],
+  indexes: [
+    { key: 'version_unique', type: 'unique', attributes: ['version'] }
+  ]
+};
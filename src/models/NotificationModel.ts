@@ -1,4 +1,5 @@
 import type { BaseModel, CreateInput, UpdateInput } from './BaseModel.js';
+import type { NotificationCategory, NotificationChannelName } from '../types/index.js';
 
 /**
  * Notification types
@@ -16,14 +17,18 @@ export type NotificationStatus = 'pending' | 'sent' | 'delivered' | 'failed';
 export interface NotificationModel extends BaseModel {
   userId: string;
   type: NotificationType;
+  category?: NotificationCategory;
+  channels?: NotificationChannelName[];
   title: string;
   body: string;
-  data?: Record<string, any>;
+  data?: string; // JSON-encoded payload data
   status: NotificationStatus;
   scheduledFor?: string;
   sentAt?: string;
   readAt?: string;
   isRead: boolean;
+  attempts?: number;
+  lastError?: string;
 }
 
 /**
@@ -56,6 +61,20 @@ export const NotificationSchema = {
       required: true,
       array: false
     },
+    {
+      key: 'category',
+      type: 'string',
+      size: 30,
+      required: false,
+      array: false
+    },
+    {
+      key: 'channels',
+      type: 'string',
+      size: 20,
+      required: false,
+      array: true
+    },
     {
       key: 'title',
       type: 'string',
@@ -104,6 +123,18 @@ export const NotificationSchema = {
       type: 'boolean',
       required: true,
       default: false
+    },
+    {
+      key: 'attempts',
+      type: 'integer',
+      required: false,
+      default: 0
+    },
+    {
+      key: 'lastError',
+      type: 'string',
+      size: 500,
+      required: false
     }
   ],
   indexes: [
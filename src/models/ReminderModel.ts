@@ -0,0 +1,60 @@
+import type { BaseModel, CreateInput, UpdateInput } from './BaseModel.js';
+import type { ReminderRecurrence } from '../utils/reminderSchedule.js';
+
+/**
+ * What a reminder nudges the user to do
+ */
+export type ReminderKind = 'mood' | 'journal';
+
+/**
+ * Check-in reminder model interface
+ */
+export interface ReminderModel extends BaseModel {
+  userId: string;
+  kind: ReminderKind;
+  time: string; // HH:mm, local to timezone
+  timezone: string;
+  recurrence: ReminderRecurrence;
+  daysOfWeek?: number[];
+  message?: string;
+  isActive: boolean;
+  nextRunAt?: string;
+  lastTriggeredAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Reminder creation input
+ */
+export type CreateReminderInput = CreateInput<ReminderModel>;
+
+/**
+ * Reminder update input
+ */
+export type UpdateReminderInput = UpdateInput<ReminderModel>;
+
+/**
+ * Appwrite collection schema for reminders
+ */
+export const ReminderSchema = {
+  name: 'reminders',
+  attributes: [
+    { key: 'userId', type: 'string', size: 36, required: true },
+    { key: 'kind', type: 'string', size: 20, required: true },
+    { key: 'time', type: 'string', size: 5, required: true },
+    { key: 'timezone', type: 'string', size: 64, required: true },
+    { key: 'recurrence', type: 'string', size: 20, required: true },
+    { key: 'daysOfWeek', type: 'integer', array: true, required: false, min: 0, max: 6 },
+    { key: 'message', type: 'string', size: 200, required: false },
+    { key: 'isActive', type: 'boolean', required: true },
+    { key: 'nextRunAt', type: 'datetime', required: false },
+    { key: 'lastTriggeredAt', type: 'datetime', required: false },
+    { key: 'createdAt', type: 'datetime', required: true },
+    { key: 'updatedAt', type: 'datetime', required: true }
+  ],
+  indexes: [
+    { key: 'userId_index', type: 'key', attributes: ['userId'] },
+    { key: 'due_reminders', type: 'key', attributes: ['isActive', 'nextRunAt'], orders: ['ASC', 'ASC'] }
+  ]
+};
@@ -0,0 +1,54 @@
+import type { BaseModel, CreateInput } from './BaseModel.js';
+import type { RetentionStrategy } from '../types/index.js';
+
+/**
+ * Retention scope, a company or the individual users without one
+ */
+export type RetentionScope = 'company' | 'individual';
+
+/**
+ * Retention run model interface
+ * Summary of one purge, kept as an audit trail of what was removed and when.
+ */
+export interface RetentionRunModel extends BaseModel {
+  scope: RetentionScope;
+  companyId?: string;
+  retentionDays: number;
+  cutoff: string;
+  strategy: RetentionStrategy;
+  journals: number;
+  moods: number;
+  notifications: number;
+  triggeredBy: string;
+  startedAt: string;
+  completedAt: string;
+}
+
+/**
+ * Retention run creation input
+ */
+export type CreateRetentionRunInput = CreateInput<RetentionRunModel>;
+
+/**
+ * Appwrite collection schema for retention runs
+ */
+export const RetentionRunSchema = {
+  name: 'retention_runs',
+  attributes: [
+    { key: 'scope', type: 'string', size: 20, required: true },
+    { key: 'companyId', type: 'string', size: 36, required: false },
+    { key: 'retentionDays', type: 'integer', required: true, min: 1 },
+    { key: 'cutoff', type: 'datetime', required: true },
+    { key: 'strategy', type: 'string', size: 20, required: true },
+    { key: 'journals', type: 'integer', required: true, min: 0 },
+    { key: 'moods', type: 'integer', required: true, min: 0 },
+    { key: 'notifications', type: 'integer', required: true, min: 0 },
+    { key: 'triggeredBy', type: 'string', size: 36, required: true },
+    { key: 'startedAt', type: 'datetime', required: true },
+    { key: 'completedAt', type: 'datetime', required: true }
+  ],
+  indexes: [
+    { key: 'company_index', type: 'key', attributes: ['companyId'] },
+    { key: 'completed_at_index', type: 'key', attributes: ['completedAt'], orders: ['DESC'] }
+  ]
+};
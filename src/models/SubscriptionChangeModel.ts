@@ -0,0 +1,37 @@
+import type { BaseModel, CreateInput } from './BaseModel.js';
+import type { SubscriptionTier } from '../types/index.js';
+
+/**
+ * Subscription change model interface
+ * Append-only history of company tier changes, used for revenue and tier analytics.
+ */
+export interface SubscriptionChangeModel extends BaseModel {
+  companyId: string;
+  fromTier: SubscriptionTier;
+  toTier: SubscriptionTier;
+  changedBy: string;
+  changedAt: string;
+}
+
+/**
+ * Subscription change creation input
+ */
+export type CreateSubscriptionChangeInput = CreateInput<SubscriptionChangeModel>;
+
+/**
+ * Appwrite collection schema for subscription changes
+ */
+export const SubscriptionChangeSchema = {
+  name: 'subscription_changes',
+  attributes: [
+    { key: 'companyId', type: 'string', size: 36, required: true },
+    { key: 'fromTier', type: 'string', size: 20, required: true },
+    { key: 'toTier', type: 'string', size: 20, required: true },
+    { key: 'changedBy', type: 'string', size: 36, required: true },
+    { key: 'changedAt', type: 'datetime', required: true }
+  ],
+  indexes: [
+    { key: 'company_index', type: 'key', attributes: ['companyId'] },
+    { key: 'changed_at_index', type: 'key', attributes: ['changedAt'], orders: ['ASC'] }
+  ]
+};
@@ -34,6 +34,7 @@ export interface UserModel extends BaseModel {
   // Role and Company Association
   role: UserRole;
   companyId?: string;
+  departmentId?: string;
   permissions: Permission[];
   
   // Subscription
@@ -0,0 +1,53 @@
+import type { BaseModel, CreateInput } from './BaseModel.js';
+
+/**
+ * Webhook delivery status
+ * `retrying` deliveries failed at least once and have attempts left.
+ */
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'failed';
+
+/**
+ * Webhook delivery model interface
+ * One document per event sent to a webhook, updated after every attempt.
+ */
+export interface WebhookDeliveryModel extends BaseModel {
+  webhookId: string;
+  companyId: string;
+  event: string;
+  payload: string; // Signed JSON body, exactly as sent
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number | null;
+  lastError?: string | null;
+  lastAttemptAt?: string | null;
+  deliveredAt?: string | null;
+  createdAt: string;
+}
+
+/**
+ * Webhook delivery creation input
+ */
+export type CreateWebhookDeliveryInput = CreateInput<WebhookDeliveryModel>;
+
+/**
+ * Appwrite collection schema for webhook deliveries
+ */
+export const WebhookDeliverySchema = {
+  name: 'webhook_deliveries',
+  attributes: [
+    { key: 'webhookId', type: 'string', size: 36, required: true },
+    { key: 'companyId', type: 'string', size: 36, required: true },
+    { key: 'event', type: 'string', size: 50, required: true },
+    { key: 'payload', type: 'string', size: 10000, required: true },
+    { key: 'status', type: 'string', size: 20, required: true },
+    { key: 'attempts', type: 'integer', required: true, min: 0 },
+    { key: 'responseStatus', type: 'integer', required: false },
+    { key: 'lastError', type: 'string', size: 1000, required: false },
+    { key: 'lastAttemptAt', type: 'datetime', required: false },
+    { key: 'deliveredAt', type: 'datetime', required: false },
+    { key: 'createdAt', type: 'datetime', required: true }
+  ],
+  indexes: [
+    { key: 'webhook_created_index', type: 'key', attributes: ['webhookId', 'createdAt'], orders: ['ASC', 'DESC'] }
+  ]
+};
@@ -0,0 +1,43 @@
+import type { BaseModel, CreateInput } from './BaseModel.js';
+
+/**
+ * Company webhook subscription model interface
+ * `secret` signs every delivery; it is only shown to the company once, on creation.
+ */
+export interface WebhookModel extends BaseModel {
+  companyId: string;
+  url: string;
+  secret: string;
+  events: string[];
+  description?: string;
+  isActive: boolean;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Webhook creation input
+ */
+export type CreateWebhookInput = CreateInput<WebhookModel>;
+
+/**
+ * Appwrite collection schema for company webhooks
+ */
+export const WebhookSchema = {
+  name: 'webhooks',
+  attributes: [
+    { key: 'companyId', type: 'string', size: 36, required: true },
+    { key: 'url', type: 'string', size: 2000, required: true },
+    { key: 'secret', type: 'string', size: 100, required: true },
+    { key: 'events', type: 'string', size: 50, array: true, required: true },
+    { key: 'description', type: 'string', size: 500, required: false },
+    { key: 'isActive', type: 'boolean', required: true },
+    { key: 'createdBy', type: 'string', size: 36, required: true },
+    { key: 'createdAt', type: 'datetime', required: true },
+    { key: 'updatedAt', type: 'datetime', required: true }
+  ],
+  indexes: [
+    { key: 'company_index', type: 'key', attributes: ['companyId'] }
+  ]
+};
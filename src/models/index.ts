@@ -21,19 +21,72 @@ export * from './MoodModel.js';
 // Notification model
 export * from './NotificationModel.js';
 
+// Reminder model
+export * from './ReminderModel.js';
+
+// Invitation model
+export * from './InvitationModel.js';
+
+// Subscription change model
+export * from './SubscriptionChangeModel.js';
+
+// Membership request model
+export * from './MembershipRequestModel.js';
+
+// Department model
+export * from './DepartmentModel.js';
+
+// Retention run model
+export * from './RetentionRunModel.js';
+
+// Migration model
+export * from './MigrationModel.js';
+
+// Job model
+export * from './JobModel.js';
+
+// Webhook models
+export * from './WebhookModel.js';
+export * from './WebhookDeliveryModel.js';
+
+// Idempotency key model
+export * from './IdempotencyKeyModel.js';
+
 // Collection schemas array for easy iteration
 import { UserSchema } from './UserModel.js';
 import { CompanySchema } from './CompanyModel.js';
 import { JournalSchema } from './JournalModel.js';
 import { MoodSchema } from './MoodModel.js';
 import { NotificationSchema } from './NotificationModel.js';
+import { ReminderSchema } from './ReminderModel.js';
+import { InvitationSchema } from './InvitationModel.js';
+import { SubscriptionChangeSchema } from './SubscriptionChangeModel.js';
+import { MembershipRequestSchema } from './MembershipRequestModel.js';
+import { DepartmentSchema } from './DepartmentModel.js';
+import { RetentionRunSchema } from './RetentionRunModel.js';
+import { MigrationSchema } from './MigrationModel.js';
+import { JobSchema } from './JobModel.js';
+import { WebhookSchema } from './WebhookModel.js';
+import { WebhookDeliverySchema } from './WebhookDeliveryModel.js';
+import { IdempotencyKeySchema } from './IdempotencyKeyModel.js';
 
 export const AllSchemas = [
   UserSchema,
   CompanySchema,
   JournalSchema,
   MoodSchema,
-  NotificationSchema
+  NotificationSchema,
+  ReminderSchema,
+  InvitationSchema,
+  SubscriptionChangeSchema,
+  MembershipRequestSchema,
+  DepartmentSchema,
+  RetentionRunSchema,
+  MigrationSchema,
+  JobSchema,
+  WebhookSchema,
+  WebhookDeliverySchema,
+  IdempotencyKeySchema
 ];
 
 // Schema map for easy access
@@ -42,5 +95,16 @@ export const SchemaMap = {
   companies: CompanySchema,
   journals: JournalSchema,
   moods: MoodSchema,
-  notifications: NotificationSchema
+  notifications: NotificationSchema,
+  reminders: ReminderSchema,
+  invitations: InvitationSchema,
+  subscription_changes: SubscriptionChangeSchema,
+  membership_requests: MembershipRequestSchema,
+  departments: DepartmentSchema,
+  retention_runs: RetentionRunSchema,
+  migrations: MigrationSchema,
+  jobs: JobSchema,
+  webhooks: WebhookSchema,
+  webhook_deliveries: WebhookDeliverySchema,
+  idempotency_keys: IdempotencyKeySchema
 } as const;
\ No newline at end of file
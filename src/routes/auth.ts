@@ -156,13 +156,27 @@ export const authRoutes = new Elysia()
     body: t.Object({
       theme: t.Optional(t.Union([t.Literal('light'), t.Literal('dark'), t.Literal('auto')])),
       notifications: t.Optional(t.Boolean()),
+      notificationSettings: t.Optional(t.Object({
+        categories: t.Optional(t.Object({
+          reminders: t.Optional(t.Array(t.Union([t.Literal('in_app'), t.Literal('email'), t.Literal('webhook')]))),
+          insights: t.Optional(t.Array(t.Union([t.Literal('in_app'), t.Literal('email'), t.Literal('webhook')]))),
+          company_announcements: t.Optional(t.Array(t.Union([t.Literal('in_app'), t.Literal('email'), t.Literal('webhook')]))),
+        })),
+        webhookUrl: t.Optional(t.String({ format: 'uri' })),
+        quietHours: t.Optional(t.Object({
+          enabled: t.Boolean(),
+          start: t.String({ pattern: '^([01]\\d|2[0-3]):[0-5]\\d$' }),
+          end: t.String({ pattern: '^([01]\\d|2[0-3]):[0-5]\\d$' }),
+          timezone: t.String({ minLength: 1 }),
+        })),
+      })),
       preferredAIModel: t.Optional(t.String({ maxLength: 50 })),
       language: t.Optional(t.String({ maxLength: 10 })),
     }),
     detail: {
       tags: ['Auth'],
       summary: 'Update user preferences',
-      description: 'Updates the authenticated user\'s preferences',
+      description: 'Updates the authenticated user\'s preferences, including per-category notification channels, webhook URL and quiet hours',
       security: [{ bearerAuth: [] }],
     },
   })
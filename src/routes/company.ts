@@ -46,8 +46,12 @@ export const companyRoutes = new Elysia({
     return await controller.listCompanies(context);
   }), {
     query: t.Object({
-      page: t.Optional(t.Number({ minimum: 1 })),
-      limit: t.Optional(t.Number({ minimum: 1, maximum: 100 }))
+      page: t.Optional(t.Numeric({ minimum: 1 })),
+      limit: t.Optional(t.Numeric({ minimum: 1, maximum: 100 })),
+      cursor: t.Optional(t.String({ maxLength: 36 })),
+      search: t.Optional(t.String({ maxLength: 100 })),
+      sortBy: t.Optional(t.Union([t.Literal('createdAt'), t.Literal('name')])),
+      sortOrder: t.Optional(t.Union([t.Literal('asc'), t.Literal('desc')]))
     }),
     detail: {
       tags: ['Companies'],
@@ -86,6 +90,64 @@ export const companyRoutes = new Elysia({
     return await controller.inviteUser(context);
   }))
   
+  .get('/:companyId/invitations', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+    const controller = new CompanyController(services);
+    return await controller.listInvitations(context);
+  }))
+  
+  .delete('/:companyId/invitations/:invitationId', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+    const controller = new CompanyController(services);
+    return await controller.revokeInvitation(context);
+  }))
+  
+  .post('/:companyId/invitations/:invitationId/resend', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+    const controller = new CompanyController(services);
+    return await controller.resendInvitation(context);
+  }))
+  
+  // Membership requests from email-domain sign-ups
+  .get('/:companyId/membership-requests', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+    const controller = new CompanyController(services);
+    return await controller.listMembershipRequests(context);
+  }))
+  
+  .post('/:companyId/membership-requests/:requestId/approve', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+    const controller = new CompanyController(services);
+    return await controller.approveMembershipRequest(context);
+  }))
+  
+  .post('/:companyId/membership-requests/:requestId/reject', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+    const controller = new CompanyController(services);
+    return await controller.rejectMembershipRequest(context);
+  }))
+  
+  // Data retention (dry run and purge history)
+  .get('/:companyId/retention/preview', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+    const controller = new CompanyController(services);
+    return await controller.previewRetention(context);
+  }))
+  
+  .get('/:companyId/retention/runs', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+    const controller = new CompanyController(services);
+    return await controller.listRetentionRuns(context);
+  }))
+  
   .get('/:companyId/users', withServices(async (services, context) => {
     const user = await authMiddleware().requireAuth(context);
     context.user = user;
@@ -123,6 +185,21 @@ export const companyRoutes = new Elysia({
     return await controller.getPlatformAnalytics(context);
   }))
   
+  .get('/platform/analytics/export', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuthWithAnyRole(context, ['SUPER_ADMIN']);
+    context.user = user;
+    const controller = new CompanyController(services);
+    return await controller.exportPlatformAnalytics(context);
+  }))
+  
+  // Subscription management (Super admin only)
+  .patch('/:companyId/subscription', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuthWithAnyRole(context, ['SUPER_ADMIN']);
+    context.user = user;
+    const controller = new CompanyController(services);
+    return await controller.updateSubscription(context);
+  }))
+  
   // Public invite acceptance route (no auth required)
   .post('/invite/:inviteToken/accept', withServices(async (services, context) => {
     const controller = new CompanyController(services);
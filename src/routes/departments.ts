@@ -0,0 +1,166 @@
+import { Elysia, t } from 'elysia';
+import { withServices, getService, SERVICE_KEYS } from '../core/container/ServiceContainer.js';
+import { AuthenticationMiddleware } from '../core/middleware/AuthenticationMiddleware.js';
+import { DepartmentController } from '../controllers/DepartmentController.js';
+
+// Get authentication middleware from container
+const authMiddleware = () => getService<AuthenticationMiddleware>(SERVICE_KEYS.AUTH_MIDDLEWARE);
+
+const departmentBody = {
+  name: t.String({ minLength: 1, maxLength: 100 }),
+  description: t.Optional(t.String({ maxLength: 500 })),
+  managerIds: t.Optional(t.Array(t.String({ minLength: 1 }), {
+    maxItems: 20,
+    description: 'Company members who manage this department'
+  })),
+};
+
+const departmentParams = t.Object({
+  companyId: t.String({ minLength: 1 }),
+  departmentId: t.String({ minLength: 1 }),
+});
+
+export const departmentRoutes = new Elysia({ prefix: '/companies/:companyId/departments' })
+
+  // Create a department
+  .post('/', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+
+    const controller = new DepartmentController(services);
+    return await controller.createDepartment(context);
+  }), {
+    body: t.Object(departmentBody),
+    detail: {
+      tags: ['Departments'],
+      summary: 'Create department',
+      description: 'Creates a department in the company. Requires company admin privileges.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // List departments
+  .get('/', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+
+    const controller = new DepartmentController(services);
+    return await controller.getDepartments(context);
+  }), {
+    detail: {
+      tags: ['Departments'],
+      summary: 'List departments',
+      description: 'Lists all departments of the company.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // Get a department
+  .get('/:departmentId', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+
+    const controller = new DepartmentController(services);
+    return await controller.getDepartment(context);
+  }), {
+    params: departmentParams,
+    detail: {
+      tags: ['Departments'],
+      summary: 'Get department by ID',
+      description: 'Retrieves a single department of the company.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // Update a department
+  .put('/:departmentId', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+
+    const controller = new DepartmentController(services);
+    return await controller.updateDepartment(context);
+  }), {
+    params: departmentParams,
+    body: t.Partial(t.Object(departmentBody)),
+    detail: {
+      tags: ['Departments'],
+      summary: 'Update department',
+      description: 'Updates the name, description or managers of a department. Requires company admin privileges.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // Delete a department
+  .delete('/:departmentId', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+
+    const controller = new DepartmentController(services);
+    return await controller.deleteDepartment(context);
+  }), {
+    params: departmentParams,
+    detail: {
+      tags: ['Departments'],
+      summary: 'Delete department',
+      description: 'Deletes a department. Its members stay in the company without a department.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // List department members
+  .get('/:departmentId/members', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+
+    const controller = new DepartmentController(services);
+    return await controller.getMembers(context);
+  }), {
+    params: departmentParams,
+    detail: {
+      tags: ['Departments'],
+      summary: 'List department members',
+      description: 'Lists the company members assigned to a department.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // Add a department member
+  .post('/:departmentId/members', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+
+    const controller = new DepartmentController(services);
+    return await controller.addMember(context);
+  }), {
+    params: departmentParams,
+    body: t.Object({
+      userId: t.String({ minLength: 1 }),
+    }),
+    detail: {
+      tags: ['Departments'],
+      summary: 'Add department member',
+      description: 'Moves a company member into the department. Allowed for company admins and managers of the department.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // Remove a department member
+  .delete('/:departmentId/members/:userId', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+
+    const controller = new DepartmentController(services);
+    return await controller.removeMember(context);
+  }), {
+    params: t.Object({
+      companyId: t.String({ minLength: 1 }),
+      departmentId: t.String({ minLength: 1 }),
+      userId: t.String({ minLength: 1 }),
+    }),
+    detail: {
+      tags: ['Departments'],
+      summary: 'Remove department member',
+      description: 'Removes a member from the department. Allowed for company admins and managers of the department.',
+      security: [{ bearerAuth: [] }],
+    },
+  });
@@ -0,0 +1,52 @@
+import { Elysia, t } from 'elysia';
+import { withServices, getService, SERVICE_KEYS } from '../core/container/ServiceContainer.js';
+import { AuthenticationMiddleware } from '../core/middleware/AuthenticationMiddleware.js';
+import { FileController } from '../controllers/FileController.js';
+
+// Get authentication middleware from container
+const authMiddleware = () => getService<AuthenticationMiddleware>(SERVICE_KEYS.AUTH_MIDDLEWARE);
+
+const fileParams = t.Object({
+  fileId: t.String({ minLength: 1, maxLength: 64 }),
+});
+
+export const fileRoutes = new Elysia({ prefix: '/files' })
+
+  // Issue a signed link to a private file
+  .get('/:fileId/url', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+
+    const controller = new FileController(services);
+    return await controller.createFileUrl(context);
+  }), {
+    params: fileParams,
+    query: t.Object({
+      bucketId: t.Optional(t.String({ minLength: 1, maxLength: 64, description: 'Defaults to your own bucket' })),
+      rendition: t.Optional(t.Union([t.Literal('thumbnail'), t.Literal('medium')])),
+    }),
+    detail: {
+      tags: ['Files'],
+      summary: 'Get signed file URL',
+      description: 'Returns a link to a file, or to its thumbnail or medium rendition, that works without authentication until expiresAt. Only issued when you may view the file: your own journal attachments, or those of your company members for company admins.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // Stream a file through a signed link
+  .get('/:fileId', withServices(async (services, context) => {
+    const controller = new FileController(services);
+    return await controller.serveFile(context);
+  }), {
+    params: fileParams,
+    query: t.Object({
+      bucketId: t.String({ minLength: 1, maxLength: 64 }),
+      expires: t.Numeric(),
+      signature: t.String({ minLength: 1, maxLength: 128 }),
+    }),
+    detail: {
+      tags: ['Files'],
+      summary: 'Download file',
+      description: 'Streams a file for a link from the signed URL endpoint. Supports single Range requests (206 Partial Content) so recordings can be seeked. Expired or tampered links get 403.',
+    },
+  });
@@ -0,0 +1,88 @@
+import { Elysia, t } from 'elysia';
+import { withServices, getService, SERVICE_KEYS } from '../core/container/ServiceContainer.js';
+import { AuthenticationMiddleware } from '../core/middleware/AuthenticationMiddleware.js';
+import { JobController } from '../controllers/JobController.js';
+
+// Get authentication middleware from container
+const authMiddleware = () => getService<AuthenticationMiddleware>(SERVICE_KEYS.AUTH_MIDDLEWARE);
+
+export const jobRoutes = new Elysia({ prefix: '/admin/jobs' })
+
+  // List jobs (Super admin only)
+  .get('/', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuthWithAnyRole(context, ['SUPER_ADMIN']);
+    context.user = user;
+
+    const controller = new JobController(services);
+    return await controller.listJobs(context);
+  }), {
+    query: t.Object({
+      page: t.Optional(t.Numeric({ minimum: 1 })),
+      limit: t.Optional(t.Numeric({ minimum: 1, maximum: 100 })),
+      cursor: t.Optional(t.String({ maxLength: 36 })),
+      status: t.Optional(t.Union([
+        t.Literal('pending'),
+        t.Literal('running'),
+        t.Literal('completed'),
+        t.Literal('dead'),
+        t.Literal('cancelled')
+      ])),
+      type: t.Optional(t.String({ maxLength: 100 })),
+      sortBy: t.Optional(t.Union([t.Literal('createdAt'), t.Literal('runAt')])),
+      sortOrder: t.Optional(t.Union([t.Literal('asc'), t.Literal('desc')]))
+    }),
+    detail: {
+      tags: ['Admin'],
+      summary: 'List background jobs',
+      description: 'Lists queued, running, completed, dead and cancelled background jobs (Super admin only)',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // Get a job (Super admin only)
+  .get('/:jobId', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuthWithAnyRole(context, ['SUPER_ADMIN']);
+    context.user = user;
+
+    const controller = new JobController(services);
+    return await controller.getJob(context);
+  }), {
+    detail: {
+      tags: ['Admin'],
+      summary: 'Get background job',
+      description: 'Retrieves a job with its attempts and last error (Super admin only)',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // Retry a dead or cancelled job (Super admin only)
+  .post('/:jobId/retry', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuthWithAnyRole(context, ['SUPER_ADMIN']);
+    context.user = user;
+
+    const controller = new JobController(services);
+    return await controller.retryJob(context);
+  }), {
+    detail: {
+      tags: ['Admin'],
+      summary: 'Retry background job',
+      description: 'Queues a dead or cancelled job again with a fresh set of attempts. Other jobs are rejected with 409 (Super admin only)',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // Cancel a pending job (Super admin only)
+  .post('/:jobId/cancel', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuthWithAnyRole(context, ['SUPER_ADMIN']);
+    context.user = user;
+
+    const controller = new JobController(services);
+    return await controller.cancelJob(context);
+  }), {
+    detail: {
+      tags: ['Admin'],
+      summary: 'Cancel background job',
+      description: 'Cancels a job that has not started yet. Running and finished jobs are rejected with 409 (Super admin only)',
+      security: [{ bearerAuth: [] }],
+    },
+  });
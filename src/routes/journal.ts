@@ -70,6 +70,7 @@ export const journalRoutes = new Elysia({ prefix: '/journal' })
         t.Literal('title')
       ])),
       sortOrder: t.Optional(t.Union([t.Literal('asc'), t.Literal('desc')])),
+      cursor: t.Optional(t.String({ maxLength: 36 })), // Entry ID to continue after (infinite scroll)
       search: t.Optional(t.String({ maxLength: 100 })),
       tags: t.Optional(t.String()), // Comma-separated tags
       dateFrom: t.Optional(t.String()),
@@ -83,6 +84,27 @@ export const journalRoutes = new Elysia({ prefix: '/journal' })
     },
   })
 
+  // Upload a photo or voice recording to attach to an entry
+  .post('/attachments', withServices(async (services, context) => {
+    // Require authentication and 'create_journal' permission
+    const user = await authMiddleware().requireAuthWithPermission(context, 'create_journal');
+    context.user = user;
+    
+    const controller = new JournalController(services);
+    return await controller.uploadAttachment(context);
+  }), {
+    body: t.Object({
+      file: t.File(),
+      type: t.Union([t.Literal('image'), t.Literal('audio')]),
+    }),
+    detail: {
+      tags: ['Journal'],
+      summary: 'Upload journal attachment',
+      description: 'Uploads an image or voice recording as multipart/form-data. The type is checked from the file content against the allowed image or audio types and the size limit. Photos are stored upright as WebP without EXIF or GPS metadata, with thumbnail and medium renditions; previews holds signed links to them. Files are private to their owner; pass the returned fileId in attachments.images or attachments.voiceRecording when creating or updating an entry. Uploads beyond your storage quota, or your company quota, get 413; you are notified when you pass 80% of your quota. Requires create_journal permission.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
   // Search journal entries
   .get('/search', withServices(async (services, context) => {
     // Require authentication and 'view_own_data' permission
@@ -165,11 +187,15 @@ export const journalRoutes = new Elysia({ prefix: '/journal' })
         notes: t.Optional(t.String({ maxLength: 500 })),
       })),
       tags: t.Optional(t.Array(t.String({ maxLength: 50 }), { maxItems: 20 })),
+      attachments: t.Optional(t.Object({
+        images: t.Optional(t.Array(t.String({ minLength: 1 }), { maxItems: 10 })),
+        voiceRecording: t.Optional(t.String()),
+      })),
     }),
     detail: {
       tags: ['Journal'],
       summary: 'Update journal entry',
-      description: 'Updates a specific journal entry by its ID. Users can only update their own entries.',
+      description: 'Updates a specific journal entry by its ID. Users can only update their own entries. Send the entry ETag in If-Match to get 409 instead of overwriting a newer version.',
       security: [{ bearerAuth: [] }],
     },
   })
@@ -212,6 +238,7 @@ export const journalRoutes = new Elysia({ prefix: '/journal' })
         t.Literal('title')
       ])),
       sortOrder: t.Optional(t.Union([t.Literal('asc'), t.Literal('desc')])),
+      cursor: t.Optional(t.String({ maxLength: 36 })), // Entry ID to continue after (infinite scroll)
       userId: t.Optional(t.String()), // Filter by specific user
       companyId: t.Optional(t.String()), // Filter by company (super admin only)
       dateFrom: t.Optional(t.String()),
@@ -70,6 +70,7 @@ export const moodRoutes = new Elysia({ prefix: '/mood' })
         t.Literal('asc'), 
         t.Literal('desc')
       ], { default: 'desc' })),
+      cursor: t.Optional(t.String({ maxLength: 36 })), // Mood ID to continue after (infinite scroll)
       dateFrom: t.Optional(t.String()),
       dateTo: t.Optional(t.String()),
       mood: t.Optional(t.String()), // Filter by specific mood
@@ -148,7 +149,7 @@ export const moodRoutes = new Elysia({ prefix: '/mood' })
     detail: {
       tags: ['Mood'],
       summary: 'Update mood entry',
-      description: 'Updates a specific mood entry by its ID. Users can only update their own entries.',
+      description: 'Updates a specific mood entry by its ID. Users can only update their own entries. Send the entry ETag in If-Match to get 409 instead of overwriting a newer version.',
       security: [{ bearerAuth: [] }],
     },
   })
@@ -0,0 +1,98 @@
+import { Elysia, t } from 'elysia';
+import { withServices, getService, SERVICE_KEYS } from '../core/container/ServiceContainer.js';
+import { AuthenticationMiddleware } from '../core/middleware/AuthenticationMiddleware.js';
+import { NotificationController } from '../controllers/NotificationController.js';
+
+// Get authentication middleware from container
+const authMiddleware = () => getService<AuthenticationMiddleware>(SERVICE_KEYS.AUTH_MIDDLEWARE);
+
+export const notificationRoutes = new Elysia({ prefix: '/notifications' })
+
+  // List notifications
+  .get('/', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuthWithPermission(context, 'view_own_data');
+    context.user = user;
+
+    const controller = new NotificationController(services);
+    return await controller.getNotifications(context);
+  }), {
+    query: t.Optional(t.Object({
+      limit: t.Optional(t.Numeric({ minimum: 1, maximum: 100, default: 50 })),
+    })),
+    detail: {
+      tags: ['Notifications'],
+      summary: 'List notifications',
+      description: 'Retrieves the authenticated user\'s delivered notifications, newest first, along with the unread count.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // Unread notification count
+  .get('/unread-count', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuthWithPermission(context, 'view_own_data');
+    context.user = user;
+
+    const controller = new NotificationController(services);
+    return await controller.getUnreadCount(context);
+  }), {
+    detail: {
+      tags: ['Notifications'],
+      summary: 'Get unread count',
+      description: 'Returns the number of unread notifications for the authenticated user.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // Mark all notifications as read
+  .post('/read-all', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuthWithPermission(context, 'view_own_data');
+    context.user = user;
+
+    const controller = new NotificationController(services);
+    return await controller.markAllAsRead(context);
+  }), {
+    detail: {
+      tags: ['Notifications'],
+      summary: 'Mark all notifications as read',
+      description: 'Marks every unread notification of the authenticated user as read.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // Mark a notification as read
+  .post('/:id/read', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuthWithPermission(context, 'view_own_data');
+    context.user = user;
+
+    const controller = new NotificationController(services);
+    return await controller.markAsRead(context);
+  }), {
+    params: t.Object({
+      id: t.String({ minLength: 1 }),
+    }),
+    detail: {
+      tags: ['Notifications'],
+      summary: 'Mark notification as read',
+      description: 'Marks a single notification as read. Users can only update their own notifications.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // Delete a notification
+  .delete('/:id', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuthWithPermission(context, 'view_own_data');
+    context.user = user;
+
+    const controller = new NotificationController(services);
+    return await controller.deleteNotification(context);
+  }), {
+    params: t.Object({
+      id: t.String({ minLength: 1 }),
+    }),
+    detail: {
+      tags: ['Notifications'],
+      summary: 'Delete notification',
+      description: 'Deletes a single notification. Users can only delete their own notifications.',
+      security: [{ bearerAuth: [] }],
+    },
+  });
@@ -0,0 +1,120 @@
+import { Elysia, t } from 'elysia';
+import { withServices, getService, SERVICE_KEYS } from '../core/container/ServiceContainer.js';
+import { AuthenticationMiddleware } from '../core/middleware/AuthenticationMiddleware.js';
+import { ReminderController } from '../controllers/ReminderController.js';
+
+// Get authentication middleware from container
+const authMiddleware = () => getService<AuthenticationMiddleware>(SERVICE_KEYS.AUTH_MIDDLEWARE);
+
+const reminderBody = {
+  kind: t.Union([t.Literal('mood'), t.Literal('journal')]),
+  time: t.String({ pattern: '^([01]\\d|2[0-3]):[0-5]\\d$', description: 'Local time in HH:mm' }),
+  timezone: t.String({ minLength: 1, description: 'IANA timezone, e.g. Europe/Berlin' }),
+  recurrence: t.Union([
+    t.Literal('daily'),
+    t.Literal('weekdays'),
+    t.Literal('weekends'),
+    t.Literal('custom')
+  ]),
+  daysOfWeek: t.Optional(t.Array(t.Number({ minimum: 0, maximum: 6 }), {
+    minItems: 1,
+    maxItems: 7,
+    description: 'Days for custom recurrence, 0 = Sunday'
+  })),
+  message: t.Optional(t.String({ maxLength: 200 })),
+  isActive: t.Optional(t.Boolean()),
+};
+
+export const reminderRoutes = new Elysia({ prefix: '/reminders' })
+
+  // Create a reminder
+  .post('/', withServices(async (services, context) => {
+    // Reminders nudge users to journal or log moods, so they share the journaling permission
+    const user = await authMiddleware().requireAuthWithPermission(context, 'create_journal');
+    context.user = user;
+
+    const controller = new ReminderController(services);
+    return await controller.createReminder(context);
+  }), {
+    body: t.Object(reminderBody),
+    detail: {
+      tags: ['Reminders'],
+      summary: 'Create reminder',
+      description: 'Creates a mood or journal check-in reminder. Reminders are skipped on days the user already checked in.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // List reminders
+  .get('/', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuthWithPermission(context, 'create_journal');
+    context.user = user;
+
+    const controller = new ReminderController(services);
+    return await controller.getReminders(context);
+  }), {
+    detail: {
+      tags: ['Reminders'],
+      summary: 'List reminders',
+      description: 'Retrieves all reminders of the authenticated user.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // Get a reminder
+  .get('/:id', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuthWithPermission(context, 'create_journal');
+    context.user = user;
+
+    const controller = new ReminderController(services);
+    return await controller.getReminder(context);
+  }), {
+    params: t.Object({
+      id: t.String({ minLength: 1 }),
+    }),
+    detail: {
+      tags: ['Reminders'],
+      summary: 'Get reminder by ID',
+      description: 'Retrieves a single reminder. Users can only access their own reminders.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // Update a reminder
+  .put('/:id', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuthWithPermission(context, 'create_journal');
+    context.user = user;
+
+    const controller = new ReminderController(services);
+    return await controller.updateReminder(context);
+  }), {
+    params: t.Object({
+      id: t.String({ minLength: 1 }),
+    }),
+    body: t.Partial(t.Object(reminderBody)),
+    detail: {
+      tags: ['Reminders'],
+      summary: 'Update reminder',
+      description: 'Updates a reminder and recalculates its next run. Users can only update their own reminders.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // Delete a reminder
+  .delete('/:id', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuthWithPermission(context, 'create_journal');
+    context.user = user;
+
+    const controller = new ReminderController(services);
+    return await controller.deleteReminder(context);
+  }), {
+    params: t.Object({
+      id: t.String({ minLength: 1 }),
+    }),
+    detail: {
+      tags: ['Reminders'],
+      summary: 'Delete reminder',
+      description: 'Deletes a reminder. Users can only delete their own reminders.',
+      security: [{ bearerAuth: [] }],
+    },
+  });
@@ -0,0 +1,25 @@
+import { Elysia } from 'elysia';
+import { withServices, getService, SERVICE_KEYS } from '../core/container/ServiceContainer.js';
+import { AuthenticationMiddleware } from '../core/middleware/AuthenticationMiddleware.js';
+import { StorageController } from '../controllers/StorageController.js';
+
+// Get authentication middleware from container
+const authMiddleware = () => getService<AuthenticationMiddleware>(SERVICE_KEYS.AUTH_MIDDLEWARE);
+
+export const storageRoutes = new Elysia({ prefix: '/storage' })
+
+  // Storage used and left on the current plan
+  .get('/usage', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+
+    const controller = new StorageController(services);
+    return await controller.getUsage(context);
+  }), {
+    detail: {
+      tags: ['Storage'],
+      summary: 'Get storage usage',
+      description: 'Returns the bytes and files used, the quota and the bytes remaining for your subscription tier. Company members also get the quota shared by their company, which depends on the company tier. Uploads that would exceed either quota are rejected.',
+      security: [{ bearerAuth: [] }],
+    },
+  });
@@ -0,0 +1,152 @@
+import { Elysia, t } from 'elysia';
+import { withServices, getService, SERVICE_KEYS } from '../core/container/ServiceContainer.js';
+import { AuthenticationMiddleware } from '../core/middleware/AuthenticationMiddleware.js';
+import { WebhookController } from '../controllers/WebhookController.js';
+
+// Get authentication middleware from container
+const authMiddleware = () => getService<AuthenticationMiddleware>(SERVICE_KEYS.AUTH_MIDDLEWARE);
+
+const webhookEvents = t.Array(t.Union([
+  t.Literal('member.joined'),
+  t.Literal('member.removed'),
+  t.Literal('invitation.accepted'),
+  t.Literal('report.weekly_ready')
+]), { minItems: 1 });
+
+const webhookBody = {
+  url: t.String({ format: 'uri', maxLength: 2000, description: 'HTTPS endpoint that receives the events' }),
+  events: webhookEvents,
+  description: t.Optional(t.String({ maxLength: 500 })),
+  isActive: t.Optional(t.Boolean()),
+};
+
+const webhookParams = t.Object({
+  companyId: t.String({ minLength: 1 }),
+  webhookId: t.String({ minLength: 1 }),
+});
+
+export const webhookRoutes = new Elysia({ prefix: '/companies/:companyId/webhooks' })
+
+  // Create a webhook
+  .post('/', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+
+    const controller = new WebhookController(services);
+    return await controller.createWebhook(context);
+  }), {
+    body: t.Object(webhookBody),
+    detail: {
+      tags: ['Webhooks'],
+      summary: 'Create webhook',
+      description: 'Subscribes an endpoint to company events. The response holds the signing secret, which is not shown again. Deliveries are signed with HMAC-SHA256 over "<timestamp>.<body>" in the X-MindSpace-Signature header. Payloads never include journal or mood content. Requires company admin privileges.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // List webhooks
+  .get('/', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+
+    const controller = new WebhookController(services);
+    return await controller.getWebhooks(context);
+  }), {
+    detail: {
+      tags: ['Webhooks'],
+      summary: 'List webhooks',
+      description: 'Lists the webhooks of the company. Requires company admin privileges.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // Get a webhook
+  .get('/:webhookId', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+
+    const controller = new WebhookController(services);
+    return await controller.getWebhook(context);
+  }), {
+    params: webhookParams,
+    detail: {
+      tags: ['Webhooks'],
+      summary: 'Get webhook by ID',
+      description: 'Retrieves a single webhook of the company. Requires company admin privileges.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // Update a webhook
+  .put('/:webhookId', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+
+    const controller = new WebhookController(services);
+    return await controller.updateWebhook(context);
+  }), {
+    params: webhookParams,
+    body: t.Partial(t.Object(webhookBody)),
+    detail: {
+      tags: ['Webhooks'],
+      summary: 'Update webhook',
+      description: 'Changes the URL, events, description or active state of a webhook. Requires company admin privileges.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // Delete a webhook
+  .delete('/:webhookId', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+
+    const controller = new WebhookController(services);
+    return await controller.deleteWebhook(context);
+  }), {
+    params: webhookParams,
+    detail: {
+      tags: ['Webhooks'],
+      summary: 'Delete webhook',
+      description: 'Deletes a webhook and its delivery log. Queued deliveries are dropped. Requires company admin privileges.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // List webhook deliveries
+  .get('/:webhookId/deliveries', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+
+    const controller = new WebhookController(services);
+    return await controller.getDeliveries(context);
+  }), {
+    params: webhookParams,
+    query: t.Object({
+      page: t.Optional(t.Numeric({ minimum: 1 })),
+      limit: t.Optional(t.Numeric({ minimum: 1, maximum: 100 })),
+      cursor: t.Optional(t.String({ maxLength: 36 }))
+    }),
+    detail: {
+      tags: ['Webhooks'],
+      summary: 'List webhook deliveries',
+      description: 'Lists delivery attempts of a webhook, newest first, with response status and last error. Failed deliveries are retried with exponential backoff. Requires company admin privileges.',
+      security: [{ bearerAuth: [] }],
+    },
+  })
+
+  // Send a test event
+  .post('/:webhookId/test', withServices(async (services, context) => {
+    const user = await authMiddleware().requireAuth(context);
+    context.user = user;
+
+    const controller = new WebhookController(services);
+    return await controller.sendTestEvent(context);
+  }), {
+    params: webhookParams,
+    detail: {
+      tags: ['Webhooks'],
+      summary: 'Send test event',
+      description: 'Sends a signed "webhook.test" event right away and returns the delivery with the endpoint\'s response status. Test events are not retried. Requires company admin privileges.',
+      security: [{ bearerAuth: [] }],
+    },
+  });
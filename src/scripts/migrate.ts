@@ -0,0 +1,131 @@
+#!/usr/bin/env bun
+
+/**
+ * Schema Migration Script
+ * Applies, rolls back and inspects versioned migrations from src/migrations
+ *
+ * Usage:
+ *   bun run migrate                 Apply all pending migrations
+ *   bun run migrate up --to 3       Apply pending migrations up to version 3
+ *   bun run migrate down --steps 2  Roll back the last two migrations
+ *   bun run migrate status          List applied and pending migrations
+ *   bun run migrate diff            Compare model schemas with the live database
+ *
+ * `up` and `down` accept --dry-run to only print what would run.
+ */
+
+import { parseArgs } from 'util';
+import { MigrationService } from '../services/MigrationService.js';
+import { createDatabaseService } from '../services/database/createDatabaseService.js';
+import { AllMigrations } from '../migrations/index.js';
+import { AllSchemas } from '../models/index.js';
+import { config } from '../utils/config.js';
+import { isSchemaInSync, type SchemaDiff } from '../utils/schemaDiff.js';
+import type { MigrationRun } from '../core/interfaces/IMigrationService.js';
+
+const COMMANDS = ['up', 'down', 'status', 'diff'] as const;
+type Command = typeof COMMANDS[number];
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args: Bun.argv.slice(2),
+    options: {
+      'dry-run': { type: 'boolean', default: false },
+      to: { type: 'string' },
+      steps: { type: 'string' }
+    },
+    allowPositionals: true
+  });
+
+  const command = (positionals[0] ?? 'up') as Command;
+  if (!COMMANDS.includes(command)) {
+    throw new Error(`Unknown command "${command}", expected one of: ${COMMANDS.join(', ')}`);
+  }
+
+  const migrations = new MigrationService(createDatabaseService(), AllMigrations, AllSchemas);
+  const dryRun = values['dry-run'] ?? false;
+  console.log(`🗄️  Database provider: ${config.database.provider}\n`);
+
+  switch (command) {
+    case 'up': {
+      const run = await migrations.migrate({ to: parseNumber(values.to, '--to'), dryRun });
+      printRun(run);
+      if (dryRun) {
+        printDiff(await migrations.diff());
+      }
+      break;
+    }
+    case 'down':
+      printRun(await migrations.rollback({ steps: parseNumber(values.steps, '--steps'), dryRun }));
+      break;
+    case 'status': {
+      const status = await migrations.status();
+      console.log('📋 Applied migrations:');
+      status.applied.forEach(migration => console.log(`   ✅ ${migration.version} ${migration.name} (${migration.appliedAt})`));
+      console.log('\n⏳ Pending migrations:');
+      status.pending.forEach(migration => console.log(`   • ${migration.version} ${migration.name}`));
+      if (status.pending.length === 0) {
+        console.log('   none');
+      }
+      break;
+    }
+    case 'diff': {
+      const diff = await migrations.diff();
+      printDiff(diff);
+      if (!isSchemaInSync(diff)) {
+        process.exitCode = 1;
+      }
+      break;
+    }
+  }
+}
+
+function parseNumber(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${flag} must be a positive whole number`);
+  }
+  return parsed;
+}
+
+function printRun(run: MigrationRun): void {
+  const verb = run.direction === 'up' ? 'apply' : 'roll back';
+  if (run.migrations.length === 0) {
+    console.log(`✅ Nothing to ${verb}`);
+    return;
+  }
+
+  console.log(run.dryRun ? `🔍 Would ${verb}:` : `✅ Done, ${run.direction === 'up' ? 'applied' : 'rolled back'}:`);
+  run.migrations.forEach(migration => console.log(`   • ${migration.version} ${migration.name}`));
+}
+
+function printDiff(diff: SchemaDiff): void {
+  console.log('\n📐 Schema diff (models vs database):');
+
+  const lines = [
+    ...diff.missingCollections.map(name => `   + collection ${name}`),
+    ...diff.missingAttributes.map(change => `   + attribute ${change.collection}.${change.key}`),
+    ...diff.missingIndexes.map(change => `   + index ${change.collection}.${change.key}`),
+    ...diff.changedAttributes.map(change =>
+      `   ~ attribute ${change.collection}.${change.key}: ${change.actual} -> ${change.expected}`),
+    ...diff.changedIndexes.map(change =>
+      `   ~ index ${change.collection}.${change.key}: ${change.actual} -> ${change.expected}`),
+    ...diff.extraCollections.map(name => `   - collection ${name} (not in models)`),
+    ...diff.extraAttributes.map(change => `   - attribute ${change.collection}.${change.key} (not in models)`),
+    ...diff.extraIndexes.map(change => `   - index ${change.collection}.${change.key} (not in models)`)
+  ];
+
+  console.log(lines.length > 0 ? lines.join('\n') : '   in sync');
+}
+
+// Run migrations if called directly
+if (import.meta.main) {
+  main().catch(error => {
+    console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -159,7 +159,8 @@ class DatabaseSetup {
             attribute.required,
             attribute.min,
             attribute.max,
-            attribute.default || null
+            attribute.default || null,
+            attribute.array || false
           );
           break;
 
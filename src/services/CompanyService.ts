@@ -1,20 +1,73 @@
+import { createHash, randomBytes } from 'crypto';
 import type { 
   ICompanyService, 
   CompanyListFilters, 
   CompanyListResponse,
   UserListFilters,
   CompanyUsersResponse,
-  InviteAcceptanceData
+  InviteAcceptanceData,
+  InviteAcceptanceResult,
+  CompanyInvitation,
+  DomainAssignmentResult,
+  InvitationListFilters,
+  InvitationListResponse,
+  MembershipRequestListFilters,
+  MembershipRequestListResponse
 } from '../core/interfaces/ICompanyService.js';
 import type { IDatabaseService, DatabaseQuery } from '../core/interfaces/IDatabaseService.js';
-import type { Company, CreateCompanyRequest, UpdateCompanyRequest, CompanyAnalytics, CompanyUserInvite, User } from '../types/index.js';
+import type { IAuthService } from '../core/interfaces/IAuthService.js';
+import type { IEmailService } from '../core/interfaces/IEmailService.js';
+import type { IEventBus } from '../core/interfaces/IEventBus.js';
+import type {
+  Company,
+  CreateCompanyRequest,
+  UpdateCompanyRequest,
+  UpdateSubscriptionRequest,
+  CompanyAnalytics,
+  PlatformAnalytics,
+  CompanyUserInvite,
+  User,
+  UserRole
+} from '../types/index.js';
+import type { BaseModel } from '../models/BaseModel.js';
+import type { InvitationModel, InvitationStatus, CreateInvitationInput } from '../models/InvitationModel.js';
+import type { MoodModel } from '../models/MoodModel.js';
+import type { JournalModel } from '../models/JournalModel.js';
+import type { DepartmentModel } from '../models/DepartmentModel.js';
+import type { SubscriptionChangeModel, CreateSubscriptionChangeInput } from '../models/SubscriptionChangeModel.js';
+import type {
+  MembershipRequestModel,
+  MembershipRequestStatus,
+  MembershipRequestReason,
+  CreateMembershipRequestInput
+} from '../models/MembershipRequestModel.js';
+import { BusinessError, ConflictError, NotFoundError } from '../utils/BusinessError.js';
+import { config } from '../utils/config.js';
+import { getAnalyticsRange, buildCompanyAnalytics } from '../utils/companyAnalytics.js';
+import { buildPlatformAnalytics } from '../utils/platformAnalytics.js';
+import { listAllDocuments, toListOptions, toPageInfo } from '../utils/databasePaging.js';
 import { logger } from '../utils/logger.js';
 
+// Companies as stored, with the version seat and subscription changes are checked against
+type StoredCompany = Company & Pick<BaseModel, '$updatedAt'>;
+
+// Concurrent company updates rarely collide more than once, a few attempts are plenty
+const COMPANY_UPDATE_ATTEMPTS = 5;
+
 /**
  * Company service implementation
  */
 export class CompanyService implements ICompanyService {
-  constructor(private databaseService: IDatabaseService) {}
+  private readonly invitations = 'invitations';
+  private readonly subscriptionChanges = 'subscription_changes';
+  private readonly membershipRequests = 'membership_requests';
+
+  constructor(
+    private databaseService: IDatabaseService,
+    private authService: IAuthService,
+    private emailService: IEmailService,
+    private eventBus: IEventBus
+  ) {}
 
   async createCompany(data: CreateCompanyRequest): Promise<Company> {
     try {
@@ -124,13 +177,11 @@ export class CompanyService implements ICompanyService {
         queries.push({ field: 'name', operator: 'contains', value: filters.search });
       }
 
-      const result = await this.databaseService.list<Company>('companies', queries);
+      const result = await this.databaseService.list<Company>('companies', queries, toListOptions(filters));
       
       return {
         companies: result.documents,
-        total: result.total,
-        page: filters.page || 1,
-        limit: filters.limit || 20
+        ...toPageInfo(result, filters)
       };
     } catch (error) {
       logger.error('Failed to list companies', {
@@ -140,7 +191,7 @@ export class CompanyService implements ICompanyService {
     }
   }
 
-  async inviteUser(companyId: string, invite: CompanyUserInvite): Promise<string> {
+  async inviteUser(companyId: string, invite: CompanyUserInvite, invitedBy: User): Promise<CompanyInvitation> {
     try {
       logger.info('Inviting user to company', { 
         companyId, 
@@ -148,14 +199,47 @@ export class CompanyService implements ICompanyService {
         role: invite.role 
       });
 
-      // TODO: Implement actual invite functionality
-      // Generate invite token
+      const company = await this.databaseService.read<Company>('companies', companyId);
+      this.ensureSeatAvailable(company);
+
+      const email = invite.email.toLowerCase();
+      const pending = await this.databaseService.count(this.invitations, [
+        { field: 'companyId', operator: 'equal', value: companyId },
+        { field: 'email', operator: 'equal', value: email },
+        { field: 'status', operator: 'equal', value: 'pending' }
+      ]);
+      if (pending > 0) {
+        throw new ConflictError('A pending invitation already exists for this email', 'INVITATION_EXISTS');
+      }
+
       const inviteToken = this.generateInviteToken();
+      const now = new Date().toISOString();
+      const invitationData: CreateInvitationInput = {
+        companyId,
+        email,
+        name: invite.name,
+        role: invite.role,
+        invitedBy: invitedBy.$id,
+        tokenHash: this.hashInviteToken(inviteToken),
+        status: 'pending',
+        expiresAt: this.getInvitationExpiry(),
+        createdAt: now,
+        updatedAt: now
+      };
+
+      const invitation = await this.databaseService.create<InvitationModel>(this.invitations, invitationData);
+
+      // A failed email leaves the invitation pending so it can be resent
+      await this.emailService.sendCompanyInvitationEmail(
+        email,
+        company.name,
+        invitedBy.name,
+        inviteToken,
+        invitation.expiresAt
+      );
       
-      // TODO: Send invite email
-      
-      logger.info('User invited successfully', { companyId, email: invite.email });
-      return inviteToken;
+      logger.info('User invited successfully', { companyId, email, invitationId: invitation.$id });
+      return this.toCompanyInvitation(invitation);
     } catch (error) {
       logger.error('Failed to invite user', {
         companyId,
@@ -166,16 +250,277 @@ export class CompanyService implements ICompanyService {
     }
   }
 
-  async acceptInvitation(token: string, userData: InviteAcceptanceData): Promise<void> {
+  async acceptInvitation(token: string, userData: InviteAcceptanceData): Promise<InviteAcceptanceResult> {
+    const invitation = await this.findInvitationByToken(token);
+
     try {
-      logger.info('Accepting company invitation', { token });
+      logger.info('Accepting company invitation', { invitationId: invitation.$id, companyId: invitation.companyId });
+
+      if (invitation.status !== 'pending') {
+        throw new ConflictError(`Invitation has already been ${invitation.status}`, 'INVITATION_NOT_PENDING');
+      }
+
+      if (new Date(invitation.expiresAt).getTime() <= Date.now()) {
+        await this.setInvitationStatus(invitation.$id, 'expired');
+        throw new BusinessError('Invitation has expired', 410, 'INVITATION_EXPIRED');
+      }
 
-      // TODO: Implement actual invitation acceptance
+      const company = await this.databaseService.read<Company>('companies', invitation.companyId);
+      this.ensureSeatAvailable(company);
+
+      // Existing accounts prove ownership with their password before being linked
+      const existingUser = await this.authService.getUserByEmail(invitation.email);
+      if (existingUser?.companyId) {
+        throw new ConflictError('This account already belongs to a company', 'USER_HAS_COMPANY');
+      }
+
+      const { user, session } = existingUser
+        ? await this.authService.login({ email: invitation.email, password: userData.password })
+        : await this.authService.register({ email: invitation.email, password: userData.password, name: userData.name });
+
+      const { user: member, company: updatedCompany } = await this.addMember(
+        company,
+        user.$id,
+        invitation.role,
+        invitation.invitedBy
+      );
+
+      const now = new Date().toISOString();
+      await this.databaseService.update<InvitationModel>(this.invitations, invitation.$id, {
+        status: 'accepted',
+        acceptedAt: now,
+        acceptedBy: member.$id,
+        updatedAt: now
+      });
+
+      await this.eventBus.publish('company.invitation_accepted', {
+        companyId: invitation.companyId,
+        invitationId: invitation.$id,
+        user: member,
+        role: invitation.role
+      });
       
-      logger.info('Invitation accepted successfully', { token });
+      logger.info('Invitation accepted successfully', {
+        invitationId: invitation.$id,
+        companyId: invitation.companyId,
+        userId: member.$id,
+        isNewUser: !existingUser
+      });
+
+      return { user: member, session, company: updatedCompany, isNewUser: !existingUser };
     } catch (error) {
       logger.error('Failed to accept invitation', {
-        token,
+        invitationId: invitation.$id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async listInvitations(companyId: string, filters: InvitationListFilters = {}): Promise<InvitationListResponse> {
+    try {
+      const queries: DatabaseQuery[] = [
+        { field: 'companyId', operator: 'equal', value: companyId }
+      ];
+
+      if (filters.status) {
+        queries.push({ field: 'status', operator: 'equal', value: filters.status });
+      }
+
+      const result = await this.databaseService.list<InvitationModel>(this.invitations, queries, toListOptions(filters));
+      return {
+        invitations: result.documents.map(invitation => this.toCompanyInvitation(invitation)),
+        ...toPageInfo(result, filters)
+      };
+    } catch (error) {
+      logger.error('Failed to list invitations', {
+        companyId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async revokeInvitation(companyId: string, invitationId: string): Promise<void> {
+    try {
+      logger.info('Revoking company invitation', { companyId, invitationId });
+
+      const invitation = await this.getCompanyInvitation(companyId, invitationId);
+      if (invitation.status !== 'pending') {
+        throw new ConflictError(`Only pending invitations can be revoked, this one is ${invitation.status}`);
+      }
+
+      await this.setInvitationStatus(invitationId, 'revoked');
+      
+      logger.info('Invitation revoked successfully', { companyId, invitationId });
+    } catch (error) {
+      logger.error('Failed to revoke invitation', {
+        companyId,
+        invitationId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async resendInvitation(companyId: string, invitationId: string, resentBy: User): Promise<CompanyInvitation> {
+    try {
+      logger.info('Resending company invitation', { companyId, invitationId });
+
+      const invitation = await this.getCompanyInvitation(companyId, invitationId);
+      if (invitation.status !== 'pending' && invitation.status !== 'expired') {
+        throw new ConflictError(`Only pending or expired invitations can be resent, this one is ${invitation.status}`);
+      }
+
+      const company = await this.databaseService.read<Company>('companies', companyId);
+      this.ensureSeatAvailable(company);
+
+      // Rotating the token invalidates the link from the previous email
+      const inviteToken = this.generateInviteToken();
+      const updated = await this.databaseService.update<InvitationModel>(this.invitations, invitationId, {
+        tokenHash: this.hashInviteToken(inviteToken),
+        status: 'pending',
+        expiresAt: this.getInvitationExpiry(),
+        updatedAt: new Date().toISOString()
+      });
+
+      await this.emailService.sendCompanyInvitationEmail(
+        updated.email,
+        company.name,
+        resentBy.name,
+        inviteToken,
+        updated.expiresAt
+      );
+      
+      logger.info('Invitation resent successfully', { companyId, invitationId });
+      return this.toCompanyInvitation(updated);
+    } catch (error) {
+      logger.error('Failed to resend invitation', {
+        companyId,
+        invitationId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async assignByEmailDomain(user: User): Promise<DomainAssignmentResult> {
+    try {
+      const company = user.companyId ? null : await this.findCompanyByEmail(user.email);
+      if (!company) {
+        return { status: 'not_matched', user };
+      }
+
+      logger.info('Matched user to company by email domain', { userId: user.$id, companyId: company.$id });
+
+      if (company.settings.requireEmailVerification && !user.emailVerified) {
+        await this.createMembershipRequest(company, user, 'awaiting_verification');
+        return { status: 'awaiting_verification', user, companyId: company.$id };
+      }
+
+      return await this.joinOrRequestApproval(company, user);
+    } catch (error) {
+      logger.error('Failed to assign user by email domain', {
+        userId: user.$id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async completeDomainAssignment(userId: string): Promise<DomainAssignmentResult> {
+    try {
+      const result = await this.databaseService.list<MembershipRequestModel>(this.membershipRequests, [
+        { field: 'userId', operator: 'equal', value: userId },
+        { field: 'status', operator: 'equal', value: 'awaiting_verification' }
+      ]);
+
+      const request = result.documents[0];
+      const user = await this.authService.getUserById(userId);
+      if (!request || user.companyId) {
+        return { status: 'not_matched', user };
+      }
+
+      const company = await this.databaseService.read<Company>('companies', request.companyId);
+      return await this.joinOrRequestApproval(company, user, request);
+    } catch (error) {
+      logger.error('Failed to complete domain assignment', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async listMembershipRequests(
+    companyId: string,
+    filters: MembershipRequestListFilters = {}
+  ): Promise<MembershipRequestListResponse> {
+    try {
+      const queries: DatabaseQuery[] = [
+        { field: 'companyId', operator: 'equal', value: companyId }
+      ];
+
+      if (filters.status) {
+        queries.push({ field: 'status', operator: 'equal', value: filters.status });
+      }
+
+      const result = await this.databaseService.list<MembershipRequestModel>(
+        this.membershipRequests,
+        queries,
+        toListOptions(filters)
+      );
+      return {
+        requests: result.documents,
+        ...toPageInfo(result, filters)
+      };
+    } catch (error) {
+      logger.error('Failed to list membership requests', {
+        companyId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async approveMembershipRequest(companyId: string, requestId: string, reviewedBy: string): Promise<User> {
+    try {
+      logger.info('Approving membership request', { companyId, requestId });
+
+      const request = await this.getPendingMembershipRequest(companyId, requestId);
+      const user = await this.authService.getUserById(request.userId);
+      if (user.companyId) {
+        throw new ConflictError('This account already belongs to a company', 'USER_HAS_COMPANY');
+      }
+
+      const company = await this.databaseService.read<Company>('companies', companyId);
+      const { user: member } = await this.addMember(company, request.userId, 'COMPANY_USER', reviewedBy);
+      await this.reviewMembershipRequest(requestId, 'approved', reviewedBy);
+
+      logger.info('Membership request approved', { companyId, requestId, userId: member.$id });
+      return member;
+    } catch (error) {
+      logger.error('Failed to approve membership request', {
+        companyId,
+        requestId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async rejectMembershipRequest(companyId: string, requestId: string, reviewedBy: string): Promise<void> {
+    try {
+      logger.info('Rejecting membership request', { companyId, requestId });
+
+      await this.getPendingMembershipRequest(companyId, requestId);
+      await this.reviewMembershipRequest(requestId, 'rejected', reviewedBy);
+
+      logger.info('Membership request rejected', { companyId, requestId });
+    } catch (error) {
+      logger.error('Failed to reject membership request', {
+        companyId,
+        requestId,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
       throw error;
@@ -196,13 +541,11 @@ export class CompanyService implements ICompanyService {
         queries.push({ field: 'name', operator: 'contains', value: filters.search });
       }
 
-      const result = await this.databaseService.list<User>('users', queries);
+      const result = await this.databaseService.list<User>('users', queries, toListOptions(filters));
       
       return {
         users: result.documents,
-        total: result.total,
-        page: filters.page || 1,
-        limit: filters.limit || 20
+        ...toPageInfo(result, filters)
       };
     } catch (error) {
       logger.error('Failed to get company users', {
@@ -234,15 +577,19 @@ export class CompanyService implements ICompanyService {
     }
   }
 
-  async removeUser(companyId: string, userId: string): Promise<void> {
+  async removeUser(companyId: string, userId: string, removedBy: string): Promise<void> {
     try {
-      logger.info('Removing user from company', { companyId, userId });
+      logger.info('Removing user from company', { companyId, userId, removedBy });
 
-      await this.databaseService.update<User>('users', userId, {
-        companyId: undefined,
-        role: 'INDIVIDUAL_USER',
-        updatedAt: new Date().toISOString()
-      });
+      const company = await this.databaseService.read<Company>('companies', companyId);
+      const user = await this.authService.getUserById(userId);
+      if (user.companyId !== companyId) {
+        throw new NotFoundError('User not found in this company');
+      }
+
+      await this.authService.removeFromCompany(userId, removedBy);
+      await this.changeSeatCount(company, -1);
+      await this.eventBus.publish('company.user_removed', { companyId, userId, removedBy });
       
       logger.info('User removed from company successfully', { companyId, userId });
     } catch (error) {
@@ -255,26 +602,41 @@ export class CompanyService implements ICompanyService {
     }
   }
 
-  async getAnalytics(companyId: string, period: string = '30d'): Promise<CompanyAnalytics> {
+  async getAnalytics(companyId: string, period: string = '30d', departmentId?: string): Promise<CompanyAnalytics> {
     try {
-      logger.info('Getting company analytics', { companyId, period });
-
-      // TODO: Implement actual analytics calculation
-      const analytics: CompanyAnalytics = {
-        totalUsers: 0,
-        activeUsers: 0,
-        newUsersThisMonth: 0,
-        journalEntries: 0,
-        moodLogs: 0,
-        subscriptionTier: 'free',
-        usageMetrics: {
-          dailyActiveUsers: [],
-          weeklyJournalEntries: [],
-          monthlyMoodLogs: []
+      logger.info('Getting company analytics', { companyId, period, departmentId });
+
+      const range = getAnalyticsRange(period);
+      const company = await this.databaseService.read<Company>('companies', companyId);
+      let members = await this.authService.listUsers({ companyId });
+
+      // The group size threshold then applies to the department on its own
+      if (departmentId) {
+        const department = await this.databaseService.read<DepartmentModel>('departments', departmentId);
+        if (department.companyId !== companyId) {
+          throw new NotFoundError('Department not found');
         }
-      };
+        members = members.filter(member => member.departmentId === departmentId);
+      }
+
+      const userIds = members.map(member => member.$id);
+
+      const [moods, journals] = await Promise.all([
+        this.listActivity<MoodModel>('moods', userIds, { field: 'timestamp', operator: 'greaterEqual', value: range.start.toISOString() }),
+        this.listActivity<JournalModel>('journals', userIds, { field: '$createdAt', operator: 'greaterEqual', value: range.start.toISOString() })
+      ]);
+
+      const analytics = buildCompanyAnalytics({
+        period,
+        range,
+        users: members.map(member => ({ id: member.$id, createdAt: member.createdAt, lastLogin: member.lastLogin })),
+        moods: moods.map(mood => ({ userId: mood.userId, timestamp: mood.timestamp })),
+        journals: journals.map(journal => ({ userId: journal.userId, timestamp: journal.$createdAt })),
+        subscriptionTier: company.subscription.tier,
+        minGroupSize: config.analytics.minGroupSize
+      });
       
-      return analytics;
+      return departmentId ? { ...analytics, departmentId } : analytics;
     } catch (error) {
       logger.error('Failed to get company analytics', {
         companyId,
@@ -284,6 +646,108 @@ export class CompanyService implements ICompanyService {
     }
   }
 
+  async updateSubscription(companyId: string, update: UpdateSubscriptionRequest, changedBy: string): Promise<Company> {
+    try {
+      logger.info('Updating company subscription', { companyId, tier: update.tier });
+
+      // The user limit is checked against the seats taken at the version being written,
+      // so a join landing in between makes us check again instead of being overwritten
+      let company = await this.databaseService.read<StoredCompany>('companies', companyId);
+      let updated: Company;
+      const now = new Date().toISOString();
+      for (let attempt = 1; ; attempt++) {
+        const maxUsers = update.maxUsers ?? company.subscription.maxUsers;
+        if (maxUsers < company.subscription.currentUsers) {
+          throw new ConflictError('Company already has more users than the new limit allows', 'COMPANY_USER_LIMIT_REACHED');
+        }
+
+        try {
+          updated = await this.databaseService.update<Company>('companies', companyId, {
+            subscription: {
+              ...company.subscription,
+              tier: update.tier,
+              maxUsers,
+              validUntil: update.validUntil ?? company.subscription.validUntil
+            },
+            updatedAt: now
+          }, { expectedVersion: company.$updatedAt });
+          break;
+        } catch (error) {
+          if (!(error instanceof ConflictError && error.code === 'VERSION_CONFLICT') || attempt >= COMPANY_UPDATE_ATTEMPTS) {
+            throw error;
+          }
+          company = await this.databaseService.read<StoredCompany>('companies', companyId);
+        }
+      }
+
+      // Tier history drives revenue and tier-change analytics
+      if (update.tier !== company.subscription.tier) {
+        const changeData: CreateSubscriptionChangeInput = {
+          companyId,
+          fromTier: company.subscription.tier,
+          toTier: update.tier,
+          changedBy,
+          changedAt: now
+        };
+        await this.databaseService.create<SubscriptionChangeModel>(this.subscriptionChanges, changeData);
+      }
+
+      logger.info('Company subscription updated successfully', { companyId, tier: update.tier });
+      return updated;
+    } catch (error) {
+      logger.error('Failed to update company subscription', {
+        companyId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async getPlatformAnalytics(period: string = '30d'): Promise<PlatformAnalytics> {
+    try {
+      logger.info('Getting platform analytics', { period });
+
+      const range = getAnalyticsRange(period);
+      const since = range.start.toISOString();
+
+      const [companies, users, moods, journals, tierChanges] = await Promise.all([
+        listAllDocuments<Company & Pick<BaseModel, '$createdAt'>>(this.databaseService, 'companies', []),
+        this.authService.listUsers(),
+        listAllDocuments<MoodModel>(this.databaseService, 'moods', [{ field: 'timestamp', operator: 'greaterEqual', value: since }]),
+        listAllDocuments<JournalModel>(this.databaseService, 'journals', [{ field: '$createdAt', operator: 'greaterEqual', value: since }]),
+        listAllDocuments<SubscriptionChangeModel>(this.databaseService, this.subscriptionChanges, [])
+      ]);
+
+      return buildPlatformAnalytics({
+        period,
+        range,
+        companies: companies.map(company => ({
+          id: company.$id,
+          tier: company.subscription.tier,
+          createdAt: company.createdAt || company.$createdAt
+        })),
+        users: users.map(user => ({
+          id: user.$id,
+          companyId: user.companyId,
+          createdAt: user.createdAt,
+          lastLogin: user.lastLogin
+        })),
+        activity: [
+          ...moods.map(mood => ({ userId: mood.userId, timestamp: mood.timestamp })),
+          ...journals.map(journal => ({ userId: journal.userId, timestamp: journal.$createdAt }))
+        ],
+        tierChanges,
+        monthlyPrices: config.billing.monthlyPrices
+      });
+    } catch (error) {
+      logger.error('Failed to get platform analytics', {
+        period,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
   async checkUserAccess(userId: string, companyId: string): Promise<boolean> {
     try {
       const user = await this.databaseService.read<User>('users', userId);
@@ -298,7 +762,225 @@ export class CompanyService implements ICompanyService {
     }
   }
 
+  /**
+   * Load all activity documents of the given users matching the filter
+   * Appwrite caps the values of an `equal` query, so ids are queried in chunks.
+   */
+  private async listActivity<T extends BaseModel>(collection: string, userIds: string[], filter: DatabaseQuery): Promise<T[]> {
+    const documents: T[] = [];
+
+    for (let i = 0; i < userIds.length; i += 100) {
+      documents.push(...await listAllDocuments<T>(this.databaseService, collection, [
+        { field: 'userId', operator: 'equal', value: userIds.slice(i, i + 100) },
+        filter
+      ]));
+    }
+
+    return documents;
+  }
+
+  /**
+   * Add the user straight away when the company allows it, otherwise queue them for approval
+   */
+  private async joinOrRequestApproval(
+    company: Company,
+    user: User,
+    existingRequest?: MembershipRequestModel
+  ): Promise<DomainAssignmentResult> {
+    const reason: MembershipRequestReason | undefined = !company.settings.allowSelfRegistration
+      ? 'self_registration_disabled'
+      : company.subscription.currentUsers >= company.subscription.maxUsers
+        ? 'user_limit_reached'
+        : undefined;
+
+    if (reason) {
+      if (existingRequest) {
+        await this.databaseService.update<MembershipRequestModel>(this.membershipRequests, existingRequest.$id, {
+          status: 'pending',
+          reason,
+          updatedAt: new Date().toISOString()
+        });
+      } else {
+        await this.createMembershipRequest(company, user, 'pending', reason);
+      }
+
+      logger.info('User is waiting for company approval', { userId: user.$id, companyId: company.$id, reason });
+      return { status: 'pending_approval', user, companyId: company.$id };
+    }
+
+    const { user: member } = await this.addMember(company, user.$id, 'COMPANY_USER', 'system');
+    if (existingRequest) {
+      await this.reviewMembershipRequest(existingRequest.$id, 'approved', 'system');
+    }
+
+    logger.info('User joined company by email domain', { userId: user.$id, companyId: company.$id });
+    return { status: 'assigned', user: member, companyId: company.$id };
+  }
+
+  private async findCompanyByEmail(email: string): Promise<Company | null> {
+    const domain = email.split('@')[1]?.toLowerCase();
+    if (!domain) {
+      return null;
+    }
+
+    const result = await this.databaseService.list<Company>('companies', [
+      { field: 'domain', operator: 'equal', value: domain }
+    ]);
+    return result.documents[0] ?? null;
+  }
+
+  private async createMembershipRequest(
+    company: Company,
+    user: User,
+    status: MembershipRequestStatus,
+    reason?: MembershipRequestReason
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const requestData: CreateMembershipRequestInput = {
+      companyId: company.$id,
+      userId: user.$id,
+      email: user.email,
+      name: user.name,
+      status,
+      reason,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.databaseService.create<MembershipRequestModel>(this.membershipRequests, requestData);
+  }
+
+  private async getPendingMembershipRequest(companyId: string, requestId: string): Promise<MembershipRequestModel> {
+    const request = await this.databaseService.read<MembershipRequestModel>(this.membershipRequests, requestId);
+    if (request.companyId !== companyId) {
+      throw new NotFoundError('Membership request not found');
+    }
+    if (request.status !== 'pending') {
+      throw new ConflictError(`Membership request is ${request.status.replace('_', ' ')}, not pending`);
+    }
+    return request;
+  }
+
+  private async reviewMembershipRequest(requestId: string, status: 'approved' | 'rejected', reviewedBy: string): Promise<void> {
+    const now = new Date().toISOString();
+    await this.databaseService.update<MembershipRequestModel>(this.membershipRequests, requestId, {
+      status,
+      reviewedBy,
+      reviewedAt: now,
+      updatedAt: now
+    });
+  }
+
+  /**
+   * Attach a user to a company and take up one of its seats
+   * The seat is taken first, so two people joining at once cannot both get the last one.
+   */
+  private async addMember(
+    company: Company,
+    userId: string,
+    role: UserRole,
+    assignedBy: string
+  ): Promise<{ user: User; company: Company }> {
+    const updatedCompany = await this.changeSeatCount(company, 1);
+
+    let user: User;
+    try {
+      user = await this.authService.assignToCompany(userId, company.$id, role, assignedBy);
+    } catch (error) {
+      await this.changeSeatCount(updatedCompany, -1).catch(releaseError => {
+        logger.error('Failed to release company seat', {
+          companyId: company.$id,
+          error: releaseError instanceof Error ? releaseError.message : 'Unknown error'
+        });
+      });
+      throw error;
+    }
+
+    await this.eventBus.publish('company.user_joined', { companyId: company.$id, user, role, addedBy: assignedBy });
+
+    return { user, company: updatedCompany };
+  }
+
+  /**
+   * Take or free seats against the version the company was read at,
+   * reading it again when another update got in between
+   */
+  private async changeSeatCount(company: Company, delta: number): Promise<Company> {
+    let current = company as StoredCompany;
+
+    for (let attempt = 1; ; attempt++) {
+      if (delta > 0) {
+        this.ensureSeatAvailable(current);
+      }
+
+      try {
+        return await this.databaseService.update<Company>('companies', current.$id, {
+          subscription: {
+            ...current.subscription,
+            currentUsers: Math.max(current.subscription.currentUsers + delta, 0)
+          },
+          updatedAt: new Date().toISOString()
+        }, { expectedVersion: current.$updatedAt });
+      } catch (error) {
+        if (!(error instanceof ConflictError && error.code === 'VERSION_CONFLICT') || attempt >= COMPANY_UPDATE_ATTEMPTS) {
+          throw error;
+        }
+        current = await this.databaseService.read<StoredCompany>('companies', current.$id);
+      }
+    }
+  }
+
+  private async findInvitationByToken(token: string): Promise<InvitationModel> {
+    // Token hashes are unique, so one document is all there can be
+    const result = await this.databaseService.list<InvitationModel>(this.invitations, [
+      { field: 'tokenHash', operator: 'equal', value: this.hashInviteToken(token) }
+    ], { limit: 1 });
+
+    const invitation = result.documents[0];
+    if (!invitation) {
+      throw new NotFoundError('Invitation not found');
+    }
+    return invitation;
+  }
+
+  private async getCompanyInvitation(companyId: string, invitationId: string): Promise<InvitationModel> {
+    const invitation = await this.databaseService.read<InvitationModel>(this.invitations, invitationId);
+    if (invitation.companyId !== companyId) {
+      throw new NotFoundError('Invitation not found');
+    }
+    return invitation;
+  }
+
+  private async setInvitationStatus(invitationId: string, status: InvitationStatus): Promise<void> {
+    await this.databaseService.update<InvitationModel>(this.invitations, invitationId, {
+      status,
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  private ensureSeatAvailable(company: Company): void {
+    if (company.subscription.currentUsers >= company.subscription.maxUsers) {
+      throw new ConflictError('Company has reached its user limit', 'COMPANY_USER_LIMIT_REACHED');
+    }
+  }
+
+  private toCompanyInvitation(invitation: InvitationModel): CompanyInvitation {
+    const { tokenHash, ...rest } = invitation;
+    return rest;
+  }
+
+  private getInvitationExpiry(): string {
+    return new Date(Date.now() + config.app.invitationExpiryHours * 60 * 60 * 1000).toISOString();
+  }
+
   private generateInviteToken(): string {
-    return `invite_${Date.now()}_${Math.random().toString(36).substr(2, 16)}`;
+    return randomBytes(32).toString('hex');
+  }
+
+  /**
+   * Only the hash is persisted, so a leaked database cannot be used to accept invitations
+   */
+  private hashInviteToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
   }
 }
\ No newline at end of file
@@ -0,0 +1,231 @@
+import type {
+  IDepartmentService,
+  CreateDepartmentRequest,
+  UpdateDepartmentRequest
+} from '../core/interfaces/IDepartmentService.js';
+import type { IDatabaseService } from '../core/interfaces/IDatabaseService.js';
+import type { IAuthService } from '../core/interfaces/IAuthService.js';
+import type { DepartmentModel, CreateDepartmentInput } from '../models/DepartmentModel.js';
+import type { User } from '../types/index.js';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../utils/BusinessError.js';
+import { listAllDocuments } from '../utils/databasePaging.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Department service implementation
+ * Membership lives on the user (`departmentId`), so a user belongs to at most
+ * one department; managers are listed on the department itself.
+ * Managers see and manage their department's members, so only admins may move
+ * anyone else than a company user without a department into one.
+ */
+export class DepartmentService implements IDepartmentService {
+  private readonly collection = 'departments';
+
+  constructor(
+    private databaseService: IDatabaseService,
+    private authService: IAuthService
+  ) {}
+
+  async createDepartment(companyId: string, data: CreateDepartmentRequest): Promise<DepartmentModel> {
+    try {
+      logger.info('Creating department', { companyId, name: data.name });
+
+      await this.ensureNameAvailable(companyId, data.name);
+      const managerIds = await this.validateManagers(companyId, data.managerIds ?? []);
+
+      const now = new Date().toISOString();
+      const departmentData: CreateDepartmentInput = {
+        companyId,
+        name: data.name,
+        description: data.description,
+        managerIds,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      const department = await this.databaseService.create<DepartmentModel>(this.collection, departmentData);
+
+      logger.info('Department created successfully', { companyId, departmentId: department.$id });
+      return department;
+    } catch (error) {
+      logger.error('Failed to create department', {
+        companyId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async listDepartments(companyId: string): Promise<DepartmentModel[]> {
+    return await listAllDocuments<DepartmentModel>(this.databaseService, this.collection, [
+      { field: 'companyId', operator: 'equal', value: companyId }
+    ]);
+  }
+
+  async getDepartment(companyId: string, departmentId: string): Promise<DepartmentModel> {
+    const department = await this.databaseService.read<DepartmentModel>(this.collection, departmentId);
+    if (department.companyId !== companyId) {
+      throw new NotFoundError('Department not found');
+    }
+    return department;
+  }
+
+  async updateDepartment(companyId: string, departmentId: string, data: UpdateDepartmentRequest): Promise<DepartmentModel> {
+    try {
+      logger.info('Updating department', { companyId, departmentId });
+
+      const department = await this.getDepartment(companyId, departmentId);
+      if (data.name !== undefined && data.name !== department.name) {
+        await this.ensureNameAvailable(companyId, data.name);
+      }
+
+      const updates: Partial<DepartmentModel> = {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.description !== undefined && { description: data.description }),
+        updatedAt: new Date().toISOString()
+      };
+      if (data.managerIds !== undefined) {
+        updates.managerIds = await this.validateManagers(companyId, data.managerIds);
+      }
+
+      const updated = await this.databaseService.update<DepartmentModel>(this.collection, departmentId, updates);
+
+      logger.info('Department updated successfully', { companyId, departmentId });
+      return updated;
+    } catch (error) {
+      logger.error('Failed to update department', {
+        companyId,
+        departmentId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async deleteDepartment(companyId: string, departmentId: string, deletedBy: string): Promise<void> {
+    try {
+      logger.info('Deleting department', { companyId, departmentId });
+
+      await this.getDepartment(companyId, departmentId);
+
+      // Detach members first so nobody is left pointing at a missing department
+      const members = await this.listMembers(companyId, departmentId);
+      for (const member of members) {
+        await this.authService.setUserDepartment(member.$id, null, deletedBy);
+      }
+
+      await this.databaseService.delete(this.collection, departmentId);
+
+      logger.info('Department deleted successfully', { companyId, departmentId, detachedMembers: members.length });
+    } catch (error) {
+      logger.error('Failed to delete department', {
+        companyId,
+        departmentId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async listMembers(companyId: string, departmentId: string): Promise<User[]> {
+    await this.getDepartment(companyId, departmentId);
+
+    const users = await this.authService.listUsers({ companyId });
+    return users.filter(user => user.departmentId === departmentId);
+  }
+
+  async addMember(companyId: string, departmentId: string, userId: string, addedBy: User): Promise<User> {
+    try {
+      logger.info('Adding department member', { companyId, departmentId, userId });
+
+      await this.getDepartment(companyId, departmentId);
+      const user = await this.getCompanyMember(companyId, userId);
+      if (user.departmentId === departmentId) {
+        throw new ConflictError('User is already a member of this department', 'ALREADY_DEPARTMENT_MEMBER');
+      }
+      if (!this.isAdmin(addedBy) && (user.role !== 'COMPANY_USER' || user.departmentId)) {
+        throw new AuthorizationError(
+          'Managers can only add company users who are not in a department yet',
+          'DEPARTMENT_MEMBER_NOT_ASSIGNABLE'
+        );
+      }
+
+      const updated = await this.authService.setUserDepartment(userId, departmentId, addedBy.$id);
+
+      logger.info('Department member added successfully', { companyId, departmentId, userId });
+      return updated;
+    } catch (error) {
+      logger.error('Failed to add department member', {
+        companyId,
+        departmentId,
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async removeMember(companyId: string, departmentId: string, userId: string, removedBy: User): Promise<void> {
+    try {
+      logger.info('Removing department member', { companyId, departmentId, userId });
+
+      await this.getDepartment(companyId, departmentId);
+      const user = await this.getCompanyMember(companyId, userId);
+      if (user.departmentId !== departmentId) {
+        throw new NotFoundError('User is not a member of this department');
+      }
+      if (!this.isAdmin(removedBy) && user.role !== 'COMPANY_USER') {
+        throw new AuthorizationError('Managers can only remove company users', 'DEPARTMENT_MEMBER_NOT_ASSIGNABLE');
+      }
+
+      await this.authService.setUserDepartment(userId, null, removedBy.$id);
+
+      logger.info('Department member removed successfully', { companyId, departmentId, userId });
+    } catch (error) {
+      logger.error('Failed to remove department member', {
+        companyId,
+        departmentId,
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  private async ensureNameAvailable(companyId: string, name: string): Promise<void> {
+    const existing = await this.databaseService.count(this.collection, [
+      { field: 'companyId', operator: 'equal', value: companyId },
+      { field: 'name', operator: 'equal', value: name }
+    ]);
+    if (existing > 0) {
+      throw new ConflictError('A department with this name already exists', 'DEPARTMENT_EXISTS');
+    }
+  }
+
+  private async validateManagers(companyId: string, managerIds: string[]): Promise<string[]> {
+    const uniqueIds = [...new Set(managerIds)];
+    if (uniqueIds.length === 0) {
+      return uniqueIds;
+    }
+
+    const members = new Set((await this.authService.listUsers({ companyId })).map(user => user.$id));
+    const outsiders = uniqueIds.filter(id => !members.has(id));
+    if (outsiders.length > 0) {
+      throw new ValidationError('Department managers must be members of the company', 'INVALID_DEPARTMENT_MANAGER');
+    }
+
+    return uniqueIds;
+  }
+
+  private isAdmin(user: User): boolean {
+    return user.role === 'COMPANY_ADMIN' || user.role === 'SUPER_ADMIN';
+  }
+
+  private async getCompanyMember(companyId: string, userId: string): Promise<User> {
+    const user = await this.authService.getUserById(userId);
+    if (user.companyId !== companyId) {
+      throw new NotFoundError('User not found in this company');
+    }
+    return user;
+  }
+}
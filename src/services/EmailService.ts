@@ -100,6 +100,58 @@ export class EmailService implements IEmailService {
     }
   }
 
+  async sendNotificationEmail(to: string, name: string, title: string, body: string): Promise<void> {
+    try {
+      const mailOptions = {
+        from: `"MindSpace" <${config.email.from}>`,
+        to,
+        subject: title,
+        html: this.getNotificationEmailTemplate(name, title, body),
+      };
+
+      await this.transporter.sendMail(mailOptions);
+      
+      logger.info('Notification email sent successfully', {
+        to,
+        subject: mailOptions.subject
+      });
+    } catch (error) {
+      logger.error('Failed to send notification email', {
+        to,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw new Error('Failed to send notification email');
+    }
+  }
+
+  async sendCompanyInvitationEmail(to: string, companyName: string, inviterName: string, inviteToken: string, expiresAt: string): Promise<void> {
+    try {
+      const inviteUrl = `${config.app.frontendUrl}/invite/${inviteToken}`;
+      
+      const mailOptions = {
+        from: `"MindSpace" <${config.email.from}>`,
+        to,
+        subject: `You're invited to join ${companyName} on MindSpace 🤝`,
+        html: this.getCompanyInvitationEmailTemplate(companyName, inviterName, inviteUrl, expiresAt),
+      };
+
+      await this.transporter.sendMail(mailOptions);
+      
+      logger.info('Company invitation email sent successfully', {
+        to,
+        companyName,
+        subject: mailOptions.subject
+      });
+    } catch (error) {
+      logger.error('Failed to send company invitation email', {
+        to,
+        companyName,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw new Error('Failed to send company invitation email');
+    }
+  }
+
   private getWelcomeEmailTemplate(name: string): string {
     return `
       <!DOCTYPE html>
@@ -273,6 +325,97 @@ export class EmailService implements IEmailService {
     `;
   }
 
+  private getNotificationEmailTemplate(name: string, title: string, body: string): string {
+    return `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${escapeHtml(title)}</title>
+        <style>
+          body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #667eea; color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px; }
+          .button { display: inline-block; background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>${escapeHtml(title)}</h1>
+          <p>Hi ${escapeHtml(name)}</p>
+        </div>
+        
+        <div class="content">
+          <p>${escapeHtml(body)}</p>
+          
+          <a href="${config.app.frontendUrl}" class="button">Open MindSpace</a>
+        </div>
+        
+        <div class="footer">
+          <p>You can change which emails you receive in your notification preferences.</p>
+          <p>© 2025 MindSpace. Your mental wellness, our priority.</p>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private getCompanyInvitationEmailTemplate(companyName: string, inviterName: string, inviteUrl: string, expiresAt: string): string {
+    const expiryDate = new Date(expiresAt).toUTCString();
+
+    return `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Join ${escapeHtml(companyName)} on MindSpace</title>
+        <style>
+          body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px; }
+          .button { display: inline-block; background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .info { background: #d1ecf1; border: 1px solid #bee5eb; padding: 15px; border-radius: 5px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>🤝 You're Invited!</h1>
+          <p>${escapeHtml(inviterName)} invited you to join ${escapeHtml(companyName)} on MindSpace</p>
+        </div>
+        
+        <div class="content">
+          <p>${escapeHtml(companyName)} uses MindSpace to support the mental wellness of its team. Accept the invitation to set up your account and get started:</p>
+          
+          <a href="${inviteUrl}" class="button">Accept Invitation</a>
+          
+          <div class="info">
+            <strong>ℹ️ Good to know:</strong>
+            <ul>
+              <li>This invitation expires on ${expiryDate}</li>
+              <li>Already have a MindSpace account? Sign in with it to join the company</li>
+              <li>Your journal entries stay private to you</li>
+            </ul>
+          </div>
+          
+          <p>If the button doesn't work, you can copy and paste this link into your browser:</p>
+          <p style="word-break: break-all; background: #e9ecef; padding: 10px; border-radius: 5px;">${inviteUrl}</p>
+          
+          <p>If you weren't expecting this invitation, you can safely ignore this email.</p>
+        </div>
+        
+        <div class="footer">
+          <p>Need help? Contact our support team.</p>
+          <p>© 2025 MindSpace. Your mental wellness, our priority.</p>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
   async testConnection(): Promise<boolean> {
     try {
       await this.transporter.verify();
@@ -285,4 +428,19 @@ export class EmailService implements IEmailService {
       return false;
     }
   }
-}
\ No newline at end of file
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+/**
+ * Escape text for HTML, notification titles and bodies can carry user input
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]!);
+}
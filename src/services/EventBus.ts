@@ -0,0 +1,73 @@
+import type {
+  IEventBus,
+  DomainEvent,
+  DomainEventName,
+  DomainEvents,
+  DomainEventHandler,
+  SubscribeOptions
+} from '../core/interfaces/IEventBus.js';
+import { logger } from '../utils/logger.js';
+
+interface Subscriber {
+  handler: DomainEventHandler<any>;
+  mode: 'sync' | 'async';
+  name: string;
+}
+
+/**
+ * Event bus implementation
+ * Sync subscribers run one after another in subscription order; async subscribers
+ * are started on the next tick so they never hold up the request that published.
+ */
+export class EventBus implements IEventBus {
+  private subscribers = new Map<DomainEventName, Subscriber[]>();
+  private pending = new Set<Promise<void>>();
+
+  async publish<K extends DomainEventName>(name: K, payload: DomainEvents[K]): Promise<void> {
+    const event: DomainEvent<K> = { name, payload, occurredAt: new Date().toISOString() };
+
+    // Copied so subscribing or unsubscribing from a handler does not affect this delivery
+    for (const subscriber of [...(this.subscribers.get(name) ?? [])]) {
+      if (subscriber.mode === 'sync') {
+        await this.deliver(subscriber, event);
+        continue;
+      }
+
+      const delivery = new Promise<void>(resolve => setImmediate(resolve))
+        .then(() => this.deliver(subscriber, event))
+        .finally(() => this.pending.delete(delivery));
+      this.pending.add(delivery);
+    }
+  }
+
+  subscribe<K extends DomainEventName>(name: K, handler: DomainEventHandler<K>, options: SubscribeOptions = {}): () => void {
+    const subscriber: Subscriber = {
+      handler,
+      mode: options.mode ?? 'sync',
+      name: options.name ?? (handler.name || 'anonymous')
+    };
+    this.subscribers.set(name, [...(this.subscribers.get(name) ?? []), subscriber]);
+
+    return () => {
+      this.subscribers.set(name, (this.subscribers.get(name) ?? []).filter(candidate => candidate !== subscriber));
+    };
+  }
+
+  async drain(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all([...this.pending]);
+    }
+  }
+
+  private async deliver(subscriber: Subscriber, event: DomainEvent): Promise<void> {
+    try {
+      await subscriber.handler(event);
+    } catch (error) {
+      logger.error('Event subscriber failed', {
+        event: event.name,
+        subscriber: subscriber.name,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import type {
+  IFileAccessService,
+  SignedUrlOptions,
+  SignedFileUrl,
+  OpenedFile
+} from '../core/interfaces/IFileAccessService.js';
+import type { IStorageService, StorageFile } from '../core/interfaces/IStorageService.js';
+import { buildSignedFileUrl, verifyFileAccess, type SignedFileAccess } from '../utils/signedUrls.js';
+import { parseRangeHeader } from '../utils/httpRange.js';
+import { AuthorizationError, NotFoundError } from '../utils/BusinessError.js';
+import { ERROR_MESSAGES } from '../utils/response.js';
+import { logger } from '../utils/logger.js';
+
+export interface FileAccessServiceOptions {
+  secret: string;
+  // URL of the file route, the file ID is appended to it
+  baseUrl: string;
+  ttlSeconds: number;
+}
+
+/**
+ * File access service implementation
+ * Links carry bucket, file and expiry under an HMAC, so the file route needs no session
+ * and audio players can fetch ranges without sending credentials.
+ */
+export class FileAccessService implements IFileAccessService {
+  constructor(
+    private storageService: IStorageService,
+    private options: FileAccessServiceOptions
+  ) {}
+
+  async createSignedUrl(
+    bucketId: string,
+    fileId: string,
+    options: SignedUrlOptions = {},
+    now: Date = new Date()
+  ): Promise<SignedFileUrl> {
+    const file = await this.findFile(bucketId, fileId);
+
+    let targetId = file.$id;
+    if (options.rendition) {
+      const rendition = file.renditions?.find(candidate => candidate.name === options.rendition);
+      if (!rendition) {
+        throw new NotFoundError(`File has no ${options.rendition} rendition`, 'RENDITION_NOT_FOUND');
+      }
+      targetId = rendition.fileId;
+    }
+
+    const expires = Math.floor(now.getTime() / 1000) + this.options.ttlSeconds;
+    return {
+      url: buildSignedFileUrl(this.options.baseUrl, this.options.secret, { bucketId, fileId: targetId, expires }),
+      expiresAt: new Date(expires * 1000).toISOString()
+    };
+  }
+
+  async openSignedFile(
+    access: SignedFileAccess,
+    signature: string,
+    rangeHeader?: string | null,
+    now: Date = new Date()
+  ): Promise<OpenedFile> {
+    const check = verifyFileAccess(this.options.secret, access, signature, now);
+    if (check === 'expired') {
+      throw new AuthorizationError('This link has expired, request a new one', 'SIGNED_URL_EXPIRED');
+    }
+    if (check === 'invalid') {
+      logger.warn('Rejected file link with an invalid signature', { bucketId: access.bucketId, fileId: access.fileId });
+      throw new AuthorizationError('Invalid file link signature', 'INVALID_SIGNATURE');
+    }
+
+    const file = await this.findFile(access.bucketId, access.fileId);
+    const expiresAt = new Date(access.expires * 1000);
+    const range = parseRangeHeader(rangeHeader, file.sizeOriginal);
+    if (range === 'unsatisfiable') {
+      return { file, expiresAt, range };
+    }
+
+    const stream = await this.storageService.getFileStream(access.bucketId, access.fileId, range ?? undefined);
+    return { file, expiresAt, range, stream };
+  }
+
+  private async findFile(bucketId: string, fileId: string): Promise<StorageFile> {
+    try {
+      return await this.storageService.getFile(bucketId, fileId);
+    } catch (error) {
+      if (error instanceof Error && (error.message.includes('not found') || error.message.includes('Invalid file'))) {
+        throw new NotFoundError(ERROR_MESSAGES.FILE_NOT_FOUND, 'FILE_NOT_FOUND');
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import type {
+  IIdempotencyService,
+  IdempotencyClaim,
+  StoredResponse
+} from '../core/interfaces/IIdempotencyService.js';
+import type { IDatabaseService } from '../core/interfaces/IDatabaseService.js';
+import type { IJobQueue } from '../core/interfaces/IJobQueue.js';
+import type { IdempotencyKeyModel, CreateIdempotencyKeyInput } from '../models/IdempotencyKeyModel.js';
+import { listAllDocuments } from '../utils/databasePaging.js';
+import { ConflictError } from '../utils/BusinessError.js';
+import { logger } from '../utils/logger.js';
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface IdempotencyServiceOptions {
+  ttlMs: number;
+  // A request still processing after this long is assumed to have died with its server
+  processingTimeoutMs: number;
+}
+
+/**
+ * Idempotency service implementation
+ * A unique index on user and key makes claiming atomic, so concurrent retries
+ * of the same request cannot both run it.
+ */
+export class IdempotencyService implements IIdempotencyService {
+  private readonly collection = 'idempotency_keys';
+  private readonly options: IdempotencyServiceOptions;
+
+  constructor(
+    private databaseService: IDatabaseService,
+    private jobQueue: IJobQueue,
+    options: Partial<IdempotencyServiceOptions> = {}
+  ) {
+    this.options = { ttlMs: 24 * 60 * 60 * 1000, processingTimeoutMs: 2 * 60 * 1000, ...options };
+  }
+
+  async begin(userId: string, key: string, requestHash: string, now: Date = new Date()): Promise<IdempotencyClaim> {
+    try {
+      const keyData: CreateIdempotencyKeyInput = {
+        userId,
+        key,
+        requestHash,
+        status: 'processing',
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + this.options.ttlMs).toISOString()
+      };
+      const record = await this.databaseService.create<IdempotencyKeyModel>(this.collection, keyData);
+      return { replay: false, recordId: record.$id };
+    } catch (error) {
+      if (!(error instanceof Error && error.message.includes('already exists'))) {
+        throw error;
+      }
+    }
+
+    const existing = await this.find(userId, key);
+    if (!existing) {
+      // Purged between our insert and our read, the client can simply retry
+      throw new ConflictError('A request with this idempotency key is still being processed', 'IDEMPOTENCY_REQUEST_IN_PROGRESS');
+    }
+
+    const expired = new Date(existing.expiresAt).getTime() <= now.getTime();
+    const abandoned = existing.status === 'processing'
+      && new Date(existing.createdAt).getTime() + this.options.processingTimeoutMs <= now.getTime();
+    if (expired || abandoned) {
+      return await this.takeOver(existing, requestHash, now);
+    }
+
+    if (existing.requestHash !== requestHash) {
+      throw new ConflictError('Idempotency key was already used for a different request', 'IDEMPOTENCY_KEY_REUSED');
+    }
+    if (existing.status === 'processing') {
+      throw new ConflictError('A request with this idempotency key is still being processed', 'IDEMPOTENCY_REQUEST_IN_PROGRESS');
+    }
+
+    logger.info('Replaying idempotent response', { userId, recordId: existing.$id });
+    return {
+      replay: true,
+      response: {
+        status: existing.responseStatus ?? 200,
+        headers: existing.responseHeaders ? JSON.parse(existing.responseHeaders) : {},
+        body: existing.responseBody ?? ''
+      }
+    };
+  }
+
+  async complete(recordId: string, response: StoredResponse): Promise<void> {
+    await this.databaseService.update<IdempotencyKeyModel>(this.collection, recordId, {
+      status: 'completed',
+      responseStatus: response.status,
+      responseHeaders: JSON.stringify(response.headers),
+      responseBody: response.body
+    });
+  }
+
+  async release(recordId: string): Promise<void> {
+    try {
+      await this.databaseService.delete(this.collection, recordId);
+    } catch (error) {
+      // Left behind, the key frees itself once its processing timeout passes
+      logger.warn('Failed to release idempotency key', {
+        recordId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    try {
+      const expired = await listAllDocuments<IdempotencyKeyModel>(this.databaseService, this.collection, [
+        { field: 'expiresAt', operator: 'lessEqual', value: now.toISOString() }
+      ]);
+      if (expired.length > 0) {
+        await this.databaseService.batchDelete(this.collection, expired.map(record => record.$id));
+      }
+
+      logger.info('Expired idempotency keys purged', { purged: expired.length });
+      return expired.length;
+    } catch (error) {
+      logger.error('Failed to purge idempotency keys', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async schedulePurge(now: Date = new Date()): Promise<void> {
+    const { jobs } = await this.jobQueue.listJobs({ type: 'idempotency.purge', status: 'pending', limit: 1 });
+    if (jobs.length > 0) {
+      return;
+    }
+
+    await this.jobQueue.enqueue('idempotency.purge', {}, { runAt: new Date(now.getTime() + PURGE_INTERVAL_MS) });
+  }
+
+  /**
+   * Reuse an expired or abandoned key for a new request
+   * The version check makes sure only one of several concurrent retries gets it.
+   */
+  private async takeOver(existing: IdempotencyKeyModel, requestHash: string, now: Date): Promise<IdempotencyClaim> {
+    try {
+      await this.databaseService.update<IdempotencyKeyModel>(this.collection, existing.$id, {
+        requestHash,
+        status: 'processing',
+        responseStatus: null,
+        responseHeaders: null,
+        responseBody: null,
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + this.options.ttlMs).toISOString()
+      }, { expectedVersion: existing.$updatedAt });
+      return { replay: false, recordId: existing.$id };
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        throw new ConflictError('A request with this idempotency key is still being processed', 'IDEMPOTENCY_REQUEST_IN_PROGRESS');
+      }
+      throw error;
+    }
+  }
+
+  private async find(userId: string, key: string): Promise<IdempotencyKeyModel | null> {
+    const result = await this.databaseService.list<IdempotencyKeyModel>(this.collection, [
+      { field: 'userId', operator: 'equal', value: userId },
+      { field: 'key', operator: 'equal', value: key }
+    ], { limit: 1 });
+    return result.documents[0] ?? null;
+  }
+}
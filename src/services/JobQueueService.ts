@@ -0,0 +1,322 @@
+import type {
+  IJobQueue,
+  JobType,
+  JobPayloads,
+  JobHandler,
+  EnqueueOptions,
+  JobListFilters,
+  JobListResponse
+} from '../core/interfaces/IJobQueue.js';
+import type { IDatabaseService, DatabaseQuery } from '../core/interfaces/IDatabaseService.js';
+import type { JobModel, CreateJobInput } from '../models/JobModel.js';
+import { ConflictError } from '../utils/BusinessError.js';
+import { toListOptions, toPageInfo } from '../utils/databasePaging.js';
+import { logger } from '../utils/logger.js';
+
+export interface JobQueueOptions {
+  maxAttempts: number;
+  retryBaseDelayMs: number;
+  // How long a running job is locked before another worker may pick it up
+  lockTimeoutMs: number;
+  // Jobs run at the same time by one processDueJobs call
+  concurrency: number;
+  batchSize: number;
+}
+
+const DEFAULT_OPTIONS: JobQueueOptions = {
+  maxAttempts: 5,
+  retryBaseDelayMs: 30000,
+  lockTimeoutMs: 5 * 60 * 1000,
+  concurrency: 4,
+  batchSize: 50
+};
+
+// Matches the size of the lastError attribute
+const MAX_ERROR_LENGTH = 1000;
+
+/**
+ * Job queue implementation
+ * Jobs are claimed with an optimistic lock on their version. The SQLite and in-memory
+ * databases check it atomically, Appwrite only right before writing, so two workers on
+ * Appwrite can rarely claim the same job. A job also runs again when its worker dies or
+ * outlives its lock, so handlers must be idempotent. Only the worker holding the latest
+ * claim records the outcome.
+ */
+export class JobQueueService implements IJobQueue {
+  private readonly collection = 'jobs';
+  private readonly options: JobQueueOptions;
+  private handlers = new Map<string, JobHandler<any>>();
+
+  constructor(
+    private databaseService: IDatabaseService,
+    options: Partial<JobQueueOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async enqueue<K extends JobType>(type: K, payload: JobPayloads[K], options: EnqueueOptions = {}): Promise<JobModel> {
+    try {
+      const jobData: CreateJobInput = {
+        type,
+        payload: JSON.stringify(payload),
+        status: 'pending',
+        attempts: 0,
+        maxAttempts: options.maxAttempts ?? this.options.maxAttempts,
+        runAt: (options.runAt ?? new Date()).toISOString()
+      };
+
+      const job = await this.databaseService.create<JobModel>(this.collection, jobData);
+
+      logger.info('Job enqueued', { jobId: job.$id, type, runAt: job.runAt });
+      return job;
+    } catch (error) {
+      logger.error('Failed to enqueue job', {
+        type,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  registerHandler<K extends JobType>(type: K, handler: JobHandler<K>): void {
+    if (this.handlers.has(type)) {
+      throw new Error(`A handler for job type ${type} is already registered`);
+    }
+    this.handlers.set(type, handler);
+  }
+
+  async processDueJobs(now: Date): Promise<number> {
+    const due = await this.findDueJobs(now);
+    let completed = 0;
+    let next = 0;
+
+    // Each lane takes the next due job until none are left
+    const runLane = async (): Promise<void> => {
+      for (let job = due[next++]; job; job = due[next++]) {
+        try {
+          if (await this.runJob(job, now)) {
+            completed++;
+          }
+        } catch (error) {
+          logger.error('Failed to run job', {
+            jobId: job.$id,
+            type: job.type,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this.options.concurrency, due.length) }, runLane));
+
+    if (due.length > 0) {
+      logger.info('Job queue run completed', { due: due.length, completed });
+    }
+
+    return completed;
+  }
+
+  async listJobs(filters: JobListFilters = {}): Promise<JobListResponse> {
+    try {
+      const queries: DatabaseQuery[] = [];
+
+      if (filters.status) {
+        queries.push({ field: 'status', operator: 'equal', value: filters.status });
+      }
+      if (filters.type) {
+        queries.push({ field: 'type', operator: 'equal', value: filters.type });
+      }
+
+      const result = await this.databaseService.list<JobModel>(this.collection, queries, toListOptions(filters));
+
+      return {
+        jobs: result.documents,
+        ...toPageInfo(result, filters)
+      };
+    } catch (error) {
+      logger.error('Failed to list jobs', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async getJob(jobId: string): Promise<JobModel> {
+    return await this.databaseService.read<JobModel>(this.collection, jobId);
+  }
+
+  async retryJob(jobId: string): Promise<JobModel> {
+    try {
+      logger.info('Retrying job', { jobId });
+
+      const job = await this.databaseService.read<JobModel>(this.collection, jobId);
+      if (job.status !== 'dead' && job.status !== 'cancelled') {
+        throw new ConflictError(`Only dead or cancelled jobs can be retried, this job is ${job.status}`, 'JOB_NOT_RETRYABLE');
+      }
+
+      return await this.databaseService.update<JobModel>(this.collection, jobId, {
+        status: 'pending',
+        attempts: 0,
+        runAt: new Date().toISOString(),
+        lockedUntil: null,
+        completedAt: null
+      }, { expectedVersion: job.$updatedAt });
+    } catch (error) {
+      logger.error('Failed to retry job', {
+        jobId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async cancelJob(jobId: string): Promise<JobModel> {
+    try {
+      logger.info('Cancelling job', { jobId });
+
+      const job = await this.databaseService.read<JobModel>(this.collection, jobId);
+      if (job.status !== 'pending') {
+        throw new ConflictError(`Only pending jobs can be cancelled, this job is ${job.status}`, 'JOB_NOT_CANCELLABLE');
+      }
+
+      // The version check loses against a worker that claimed the job in the meantime
+      return await this.databaseService.update<JobModel>(this.collection, jobId, {
+        status: 'cancelled'
+      }, { expectedVersion: job.$updatedAt });
+    } catch (error) {
+      logger.error('Failed to cancel job', {
+        jobId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Pending jobs whose time has come, plus running jobs whose worker let the lock expire
+   */
+  private async findDueJobs(now: Date): Promise<JobModel[]> {
+    const timestamp = now.toISOString();
+    const options = { limit: this.options.batchSize, orderBy: [{ field: 'runAt', direction: 'asc' as const }] };
+
+    const [pending, abandoned] = await Promise.all([
+      this.databaseService.list<JobModel>(this.collection, [
+        { field: 'status', operator: 'equal', value: 'pending' },
+        { field: 'runAt', operator: 'lessEqual', value: timestamp }
+      ], options),
+      this.databaseService.list<JobModel>(this.collection, [
+        { field: 'status', operator: 'equal', value: 'running' },
+        { field: 'lockedUntil', operator: 'lessEqual', value: timestamp }
+      ], options)
+    ]);
+
+    return [...abandoned.documents, ...pending.documents].slice(0, this.options.batchSize);
+  }
+
+  private async runJob(job: JobModel, now: Date): Promise<boolean> {
+    const claimed = await this.claim(job, now);
+    if (!claimed) {
+      return false;
+    }
+
+    try {
+      const handler = this.handlers.get(claimed.type);
+      if (!handler) {
+        throw new Error(`No handler registered for job type ${claimed.type}`);
+      }
+      await handler(JSON.parse(claimed.payload), claimed);
+    } catch (error) {
+      await this.recordFailure(claimed, now, error instanceof Error ? error.message : 'Unknown error');
+      return false;
+    }
+
+    return await this.finish(claimed, {
+      status: 'completed',
+      completedAt: now.toISOString(),
+      lockedUntil: null
+    });
+  }
+
+  /**
+   * Mark a job as running, returns null when another worker got to it first
+   */
+  private async claim(job: JobModel, now: Date): Promise<JobModel | null> {
+    try {
+      return await this.databaseService.update<JobModel>(this.collection, job.$id, {
+        status: 'running',
+        attempts: job.attempts + 1,
+        lockedUntil: new Date(now.getTime() + this.options.lockTimeoutMs).toISOString()
+      }, { expectedVersion: job.$updatedAt });
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record the outcome of a run, returns false when another worker claimed the job since
+   */
+  private async finish(claimed: JobModel, outcome: Partial<JobModel>): Promise<boolean> {
+    try {
+      await this.databaseService.update<JobModel>(this.collection, claimed.$id, outcome, {
+        expectedVersion: claimed.$updatedAt
+      });
+      return true;
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        logger.warn('Job was claimed by another worker before it finished', {
+          jobId: claimed.$id,
+          type: claimed.type,
+          status: outcome.status
+        });
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async recordFailure(job: JobModel, now: Date, message: string): Promise<void> {
+    const lastError = message.slice(0, MAX_ERROR_LENGTH);
+
+    if (job.attempts >= job.maxAttempts) {
+      logger.error('Job failed permanently, moved to dead letter', {
+        jobId: job.$id,
+        type: job.type,
+        attempts: job.attempts,
+        error: lastError
+      });
+
+      await this.finish(job, {
+        status: 'dead',
+        lockedUntil: null,
+        lastError
+      });
+      return;
+    }
+
+    const retryAt = new Date(now.getTime() + this.getRetryDelay(job.attempts));
+    logger.warn('Job failed, retrying later', {
+      jobId: job.$id,
+      type: job.type,
+      attempts: job.attempts,
+      retryAt: retryAt.toISOString(),
+      error: lastError
+    });
+
+    await this.finish(job, {
+      status: 'pending',
+      runAt: retryAt.toISOString(),
+      lockedUntil: null,
+      lastError
+    });
+  }
+
+  /**
+   * Exponential backoff: base, 2x base, 4x base, ...
+   */
+  private getRetryDelay(attempts: number): number {
+    return this.options.retryBaseDelayMs * Math.pow(2, attempts - 1);
+  }
+}
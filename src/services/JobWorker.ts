@@ -0,0 +1,71 @@
+import type { IJobQueue } from '../core/interfaces/IJobQueue.js';
+import { systemClock, type SchedulerClock } from './NotificationScheduler.js';
+import { logger } from '../utils/logger.js';
+
+export interface JobWorkerOptions {
+  pollIntervalMs: number;
+  clock: SchedulerClock;
+}
+
+/**
+ * In-process worker that runs due jobs from the job queue
+ * Concurrency is limited by the queue, and ticks never overlap, so one process
+ * never runs more jobs at once than the queue allows.
+ */
+export class JobWorker {
+  private readonly options: JobWorkerOptions;
+  private timer: unknown = null;
+  private inFlight: Promise<number> | null = null;
+
+  constructor(
+    private jobQueue: IJobQueue,
+    options: Partial<JobWorkerOptions> = {}
+  ) {
+    this.options = { pollIntervalMs: 5000, clock: systemClock, ...options };
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = this.options.clock.setInterval(() => {
+      this.tick().catch(error => {
+        logger.error('Job worker tick failed', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }, this.options.pollIntervalMs);
+
+    logger.info('Job worker started', { pollIntervalMs: this.options.pollIntervalMs });
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      this.options.clock.clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Job worker stopped');
+    }
+
+    // Let running jobs finish so they are not left locked until the lock times out
+    if (this.inFlight) {
+      await this.inFlight.catch(() => undefined);
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Run all due jobs, overlapping ticks share the run already in progress
+   */
+  async tick(): Promise<number> {
+    if (!this.inFlight) {
+      this.inFlight = this.jobQueue.processDueJobs(this.options.clock.now()).finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+}
@@ -0,0 +1,276 @@
+import { randomBytes } from 'crypto';
+import type {
+  IJournalAttachmentService,
+  AttachmentResponse
+} from '../core/interfaces/IJournalAttachmentService.js';
+import type { IStorageService, StorageFile } from '../core/interfaces/IStorageService.js';
+import type { IDatabaseService } from '../core/interfaces/IDatabaseService.js';
+import type { JournalAttachments } from '../models/JournalModel.js';
+import {
+  detectMimeType,
+  isRenditionFileId,
+  isStorageFileId,
+  ownerOnlyPermissions,
+  renditionFileId,
+  userBucketId,
+  type AttachmentKind
+} from '../utils/attachments.js';
+import { processImage, type ProcessedUpload } from '../utils/imageProcessing.js';
+import { PayloadTooLargeError, UnsupportedMediaTypeError, ValidationError } from '../utils/BusinessError.js';
+import { ERROR_MESSAGES } from '../utils/response.js';
+import { logger } from '../utils/logger.js';
+
+export interface JournalAttachmentServiceOptions {
+  maxFileSize: number;
+  allowedImageTypes: string[];
+  allowedAudioTypes: string[];
+}
+
+/**
+ * Journal attachment service implementation
+ * Files go to a bucket per user with file-level security, readable only by their owner.
+ * Photos are stored as WebP without their metadata, next to smaller renditions for lists.
+ * A file belongs to one entry at most, so deleting an entry never takes another entry's files.
+ */
+export class JournalAttachmentService implements IJournalAttachmentService {
+  private knownBuckets = new Set<string>();
+
+  constructor(
+    private storageService: IStorageService,
+    private databaseService: IDatabaseService,
+    private options: JournalAttachmentServiceOptions
+  ) {}
+
+  async upload(userId: string, kind: AttachmentKind, file: File): Promise<AttachmentResponse> {
+    try {
+      logger.info('Uploading journal attachment', { userId, kind, size: file.size });
+
+      if (file.size === 0) {
+        throw new ValidationError('File is empty', 'EMPTY_FILE');
+      }
+      if (file.size > this.options.maxFileSize) {
+        throw new PayloadTooLargeError(
+          `${ERROR_MESSAGES.FILE_TOO_LARGE} of ${this.options.maxFileSize} bytes`,
+          'FILE_TOO_LARGE'
+        );
+      }
+
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const mimeType = detectMimeType(bytes.subarray(0, 16));
+      if (!mimeType || !this.allowedTypes(kind).includes(mimeType)) {
+        throw new UnsupportedMediaTypeError(
+          `${ERROR_MESSAGES.INVALID_FILE_TYPE}, ${kind} uploads must be one of: ${this.allowedTypes(kind).join(', ')}`,
+          'INVALID_FILE_TYPE'
+        );
+      }
+
+      const bucketId = await this.ensureBucket(userId);
+      const fileId = randomBytes(10).toString('hex');
+      const name = file.name || fileId;
+
+      if (kind === 'image') {
+        return await this.storeImage(userId, bucketId, fileId, name, await this.processImage(bytes));
+      }
+
+      const stored = await this.storageService.uploadFile(
+        bucketId,
+        fileId,
+        new File([bytes], name, { type: mimeType }),
+        ownerOnlyPermissions(userId)
+      );
+
+      logger.info('Journal attachment uploaded', { userId, kind, fileId: stored.$id, mimeType });
+      return this.toResponse(stored, kind);
+    } catch (error) {
+      logger.error('Failed to upload journal attachment', {
+        userId,
+        kind,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async validateAttachments(userId: string, attachments: Partial<JournalAttachments>): Promise<void> {
+    const expected: Array<[string, AttachmentKind]> = [
+      ...(attachments.images ?? []).map(fileId => [fileId, 'image'] as [string, AttachmentKind]),
+      ...(attachments.voiceRecording ? [[attachments.voiceRecording, 'audio'] as [string, AttachmentKind]] : [])
+    ];
+
+    for (const [index, [fileId, kind]] of expected.entries()) {
+      // Renditions go with their original and cannot be attached on their own
+      const file = isStorageFileId(fileId) && !isRenditionFileId(fileId) ? await this.findFile(userId, fileId) : null;
+      if (!file) {
+        throw new ValidationError(`Attachment ${fileId} was not found, upload it first`, 'INVALID_ATTACHMENT');
+      }
+      if (!file.mimeType.startsWith(`${kind}/`)) {
+        throw new ValidationError(`Attachment ${fileId} is not ${kind === 'image' ? 'an image' : 'an audio recording'}`, 'INVALID_ATTACHMENT');
+      }
+      if (expected.findIndex(([otherId]) => otherId === fileId) !== index || await this.isAttached(userId, fileId)) {
+        throw new ValidationError(`Attachment ${fileId} is already attached to an entry`, 'ATTACHMENT_IN_USE');
+      }
+    }
+  }
+
+  async deleteFiles(userId: string, fileIds: string[]): Promise<void> {
+    const bucketId = userBucketId(userId);
+
+    for (const fileId of fileIds.filter(isStorageFileId)) {
+      try {
+        // Entries saved before files were limited to one entry may still share them
+        if (await this.isAttached(userId, fileId)) {
+          logger.info('Journal attachment kept, another entry still refers to it', { userId, fileId });
+          continue;
+        }
+
+        const file = await this.storageService.getFile(bucketId, fileId);
+        for (const rendition of file.renditions ?? []) {
+          await this.storageService.deleteFile(bucketId, rendition.fileId);
+        }
+        await this.storageService.deleteFile(bucketId, fileId);
+      } catch (error) {
+        logger.warn('Failed to delete journal attachment', {
+          userId,
+          fileId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  private async processImage(bytes: Uint8Array): Promise<ProcessedUpload> {
+    try {
+      return await processImage(bytes);
+    } catch (error) {
+      logger.warn('Failed to process journal photo', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw new UnsupportedMediaTypeError(`${ERROR_MESSAGES.INVALID_FILE_TYPE}, the image could not be read`, 'INVALID_FILE_TYPE');
+    }
+  }
+
+  /**
+   * Store a processed photo and its renditions, all or nothing
+   */
+  private async storeImage(
+    userId: string,
+    bucketId: string,
+    fileId: string,
+    name: string,
+    processed: ProcessedUpload
+  ): Promise<AttachmentResponse> {
+    const webpName = `${name.replace(/\.[^.]*$/, '') || fileId}.webp`;
+    const permissions = ownerOnlyPermissions(userId);
+    const uploaded: string[] = [];
+
+    try {
+      const stored = await this.storageService.uploadFile(
+        bucketId,
+        fileId,
+        new File([processed.original.data], webpName, { type: 'image/webp' }),
+        permissions
+      );
+      uploaded.push(fileId);
+
+      const renditions: StorageFile['renditions'] = [];
+      for (const rendition of processed.renditions) {
+        const renditionId = renditionFileId(fileId, rendition.name);
+        const storedRendition = await this.storageService.uploadFile(
+          bucketId,
+          renditionId,
+          new File([rendition.data], webpName, { type: 'image/webp' }),
+          permissions
+        );
+        uploaded.push(renditionId);
+        renditions.push({
+          name: rendition.name,
+          fileId: renditionId,
+          mimeType: storedRendition.mimeType,
+          sizeOriginal: storedRendition.sizeOriginal
+        });
+      }
+
+      logger.info('Journal attachment uploaded', { userId, kind: 'image', fileId, renditions: renditions.length });
+      return this.toResponse({ ...stored, renditions }, 'image');
+    } catch (error) {
+      for (const uploadedId of uploaded) {
+        await this.storageService.deleteFile(bucketId, uploadedId).catch(() => undefined);
+      }
+      throw error;
+    }
+  }
+
+  private toResponse(file: StorageFile, kind: AttachmentKind): AttachmentResponse {
+    return {
+      fileId: file.$id,
+      bucketId: file.bucketId,
+      kind,
+      name: file.name,
+      mimeType: file.mimeType,
+      size: file.sizeOriginal,
+      createdAt: file.$createdAt,
+      ...(file.renditions && { renditions: file.renditions })
+    };
+  }
+
+  private allowedTypes(kind: AttachmentKind): string[] {
+    return kind === 'image' ? this.options.allowedImageTypes : this.options.allowedAudioTypes;
+  }
+
+  /**
+   * Whether any of the user's entries refers to the file
+   */
+  private async isAttached(userId: string, fileId: string): Promise<boolean> {
+    const [asImage, asRecording] = await Promise.all([
+      this.databaseService.count('journals', [
+        { field: 'userId', operator: 'equal', value: userId },
+        { field: 'attachmentImages', operator: 'contains', value: [fileId] }
+      ]),
+      this.databaseService.count('journals', [
+        { field: 'userId', operator: 'equal', value: userId },
+        { field: 'attachmentVoiceRecording', operator: 'equal', value: fileId }
+      ])
+    ]);
+    return asImage + asRecording > 0;
+  }
+
+  private async findFile(userId: string, fileId: string): Promise<StorageFile | null> {
+    try {
+      return await this.storageService.getFile(userBucketId(userId), fileId);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Create the user's bucket on their first upload
+   */
+  private async ensureBucket(userId: string): Promise<string> {
+    const bucketId = userBucketId(userId);
+    if (this.knownBuckets.has(bucketId)) {
+      return bucketId;
+    }
+
+    try {
+      await this.storageService.getBucket(bucketId);
+    } catch {
+      try {
+        await this.storageService.createBucket(bucketId, `Journal attachments of ${userId}`, [], {
+          fileSecurity: true,
+          maximumFileSize: this.options.maxFileSize,
+          encryption: true,
+          antivirus: true
+        });
+        logger.info('Attachment bucket created', { userId, bucketId });
+      } catch (error) {
+        // Another upload of the same user may have created it first
+        if (!(error instanceof Error && error.message.includes('already exists'))) {
+          throw error;
+        }
+      }
+    }
+
+    this.knownBuckets.add(bucketId);
+    return bucketId;
+  }
+}
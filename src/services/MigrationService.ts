@@ -0,0 +1,136 @@
+import type {
+  IMigrationService,
+  Migration,
+  MigrationRun,
+  MigrationStatus,
+  MigrationSummary
+} from '../core/interfaces/IMigrationService.js';
+import type { IDatabaseService } from '../core/interfaces/IDatabaseService.js';
+import type { CollectionSchema } from '../models/BaseModel.js';
+import { MigrationSchema, type MigrationModel } from '../models/MigrationModel.js';
+import { createCollectionFromSchema } from '../migrations/helpers.js';
+import { listAllDocuments } from '../utils/databasePaging.js';
+import { diffSchemas, type SchemaDiff } from '../utils/schemaDiff.js';
+import { ValidationError } from '../utils/BusinessError.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Migration service implementation
+ * Applied versions are tracked in the `migrations` collection; a migration is
+ * recorded only after its `up` succeeded, so a failed one is retried next run.
+ */
+export class MigrationService implements IMigrationService {
+  private readonly collection = MigrationSchema.name;
+  private migrations: Migration[];
+
+  constructor(
+    private databaseService: IDatabaseService,
+    migrations: Migration[],
+    private schemas: CollectionSchema[]
+  ) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+
+    const versions = this.migrations.map(migration => migration.version);
+    const duplicate = versions.find((version, index) => versions.indexOf(version) !== index);
+    if (duplicate !== undefined) {
+      throw new Error(`Duplicate migration version: ${duplicate}`);
+    }
+  }
+
+  async status(): Promise<MigrationStatus> {
+    const applied = await this.listApplied();
+    const appliedVersions = new Set(applied.map(migration => migration.version));
+
+    return {
+      applied,
+      pending: this.migrations.filter(migration => !appliedVersions.has(migration.version)).map(summarize)
+    };
+  }
+
+  async migrate(options: { to?: number; dryRun?: boolean } = {}): Promise<MigrationRun> {
+    const { to, dryRun = false } = options;
+    const { pending } = await this.status();
+    const selected = this.migrations.filter(migration =>
+      pending.some(candidate => candidate.version === migration.version) && (to === undefined || migration.version <= to)
+    );
+
+    if (!dryRun && selected.length > 0) {
+      await createCollectionFromSchema(this.databaseService, MigrationSchema);
+
+      for (const migration of selected) {
+        await this.run(migration, 'up');
+        await this.databaseService.create<MigrationModel>(this.collection, {
+          version: migration.version,
+          name: migration.name,
+          appliedAt: new Date().toISOString()
+        });
+      }
+    }
+
+    return { direction: 'up', dryRun, migrations: selected.map(summarize) };
+  }
+
+  async rollback(options: { steps?: number; dryRun?: boolean } = {}): Promise<MigrationRun> {
+    const { steps = 1, dryRun = false } = options;
+    const applied = (await this.listApplied()).reverse().slice(0, steps);
+
+    const selected = applied.map(record => {
+      const migration = this.migrations.find(candidate => candidate.version === record.version);
+      if (!migration) {
+        throw new ValidationError(
+          `Migration ${record.version} (${record.name}) is applied but its file is missing`,
+          'UNKNOWN_MIGRATION'
+        );
+      }
+      return { migration, record };
+    });
+
+    if (!dryRun) {
+      for (const { migration, record } of selected) {
+        await this.run(migration, 'down');
+        await this.databaseService.delete(this.collection, record.$id);
+      }
+    }
+
+    return { direction: 'down', dryRun, migrations: selected.map(({ migration }) => summarize(migration)) };
+  }
+
+  async diff(): Promise<SchemaDiff> {
+    const collections = await this.databaseService.listCollections();
+    const live = await Promise.all(collections.map(async collection => ({
+      ...collection,
+      indexes: await this.databaseService.listIndexes(collection.$id)
+    })));
+
+    return diffSchemas(this.schemas, live);
+  }
+
+  private async run(migration: Migration, direction: 'up' | 'down'): Promise<void> {
+    logger.info(direction === 'up' ? 'Applying migration' : 'Rolling back migration', summarize(migration));
+
+    try {
+      await migration[direction](this.databaseService);
+    } catch (error) {
+      logger.error(direction === 'up' ? 'Failed to apply migration' : 'Failed to roll back migration', {
+        ...summarize(migration),
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  // Nothing is applied while the tracking collection does not exist yet
+  private async listApplied(): Promise<MigrationModel[]> {
+    const collections = await this.databaseService.listCollections();
+    if (!collections.some(collection => collection.$id === this.collection)) {
+      return [];
+    }
+
+    const applied = await listAllDocuments<MigrationModel>(this.databaseService, this.collection, []);
+    return applied.sort((a, b) => a.version - b.version);
+  }
+}
+
+function summarize(migration: Migration): MigrationSummary {
+  return { version: migration.version, name: migration.name };
+}
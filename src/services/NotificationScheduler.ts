@@ -0,0 +1,173 @@
+import type { IDatabaseService } from '../core/interfaces/IDatabaseService.js';
+import type { INotificationService } from '../core/interfaces/INotificationService.js';
+import type { NotificationModel } from '../models/NotificationModel.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Time source used by the scheduler, injectable so tests can drive it
+ */
+export interface SchedulerClock {
+  now(): Date;
+  setInterval(callback: () => void, ms: number): unknown;
+  clearInterval(handle: unknown): void;
+}
+
+export const systemClock: SchedulerClock = {
+  now: () => new Date(),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: (handle) => clearInterval(handle as ReturnType<typeof setInterval>),
+};
+
+export interface NotificationSchedulerOptions {
+  pollIntervalMs: number;
+  maxAttempts: number;
+  retryBaseDelayMs: number;
+  batchSize: number;
+  clock: SchedulerClock;
+}
+
+const DEFAULT_OPTIONS: NotificationSchedulerOptions = {
+  pollIntervalMs: 30000,
+  maxAttempts: 5,
+  retryBaseDelayMs: 60000,
+  batchSize: 50,
+  clock: systemClock,
+};
+
+/**
+ * In-process worker that dispatches scheduled notifications
+ * All state (due time, attempts, last error) lives in the notifications collection,
+ * so pending work survives restarts and cancelled notifications are simply gone.
+ */
+export class NotificationScheduler {
+  private readonly collection = 'notifications';
+  private readonly options: NotificationSchedulerOptions;
+  private timer: unknown = null;
+  private inFlight: Promise<number> | null = null;
+
+  constructor(
+    private databaseService: IDatabaseService,
+    private notificationService: INotificationService,
+    options: Partial<NotificationSchedulerOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = this.options.clock.setInterval(() => {
+      this.tick().catch(error => {
+        logger.error('Notification scheduler tick failed', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }, this.options.pollIntervalMs);
+
+    logger.info('Notification scheduler started', { pollIntervalMs: this.options.pollIntervalMs });
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      this.options.clock.clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Notification scheduler stopped');
+    }
+
+    // Let an in-progress run finish so no notification is left half-dispatched
+    if (this.inFlight) {
+      await this.inFlight.catch(() => undefined);
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Dispatch all notifications that are due, returns the number delivered.
+   * Overlapping calls share the run that is already in progress.
+   */
+  async tick(): Promise<number> {
+    if (!this.inFlight) {
+      this.inFlight = this.processDueNotifications().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async processDueNotifications(): Promise<number> {
+    const now = this.options.clock.now();
+
+    // Oldest first, anything beyond the batch is picked up by the next tick
+    const result = await this.databaseService.list<NotificationModel>(this.collection, [
+      { field: 'status', operator: 'equal', value: 'pending' },
+      { field: 'scheduledFor', operator: 'lessEqual', value: now.toISOString() }
+    ], { limit: this.options.batchSize, orderBy: [{ field: 'scheduledFor', direction: 'asc' }] });
+
+    const due = result.documents;
+
+    let delivered = 0;
+    for (const notification of due) {
+      if (await this.processNotification(notification, now)) {
+        delivered++;
+      }
+    }
+
+    if (due.length > 0) {
+      logger.info('Notification scheduler run completed', { due: due.length, delivered });
+    }
+
+    return delivered;
+  }
+
+  private async processNotification(notification: NotificationModel, now: Date): Promise<boolean> {
+    try {
+      return await this.notificationService.dispatchNotification(notification.$id);
+    } catch (error) {
+      const attempts = (notification.attempts ?? 0) + 1;
+      const lastError = error instanceof Error ? error.message : 'Unknown error';
+
+      if (attempts >= this.options.maxAttempts) {
+        logger.error('Scheduled notification failed permanently', {
+          notificationId: notification.$id,
+          attempts,
+          error: lastError
+        });
+
+        await this.databaseService.update<NotificationModel>(this.collection, notification.$id, {
+          status: 'failed',
+          attempts,
+          lastError
+        });
+        return false;
+      }
+
+      const retryAt = new Date(now.getTime() + this.getRetryDelay(attempts));
+      logger.warn('Scheduled notification failed, retrying later', {
+        notificationId: notification.$id,
+        attempts,
+        retryAt: retryAt.toISOString(),
+        error: lastError
+      });
+
+      await this.databaseService.update<NotificationModel>(this.collection, notification.$id, {
+        status: 'pending',
+        scheduledFor: retryAt.toISOString(),
+        attempts,
+        lastError
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Exponential backoff: base, 2x base, 4x base, ...
+   */
+  private getRetryDelay(attempts: number): number {
+    return this.options.retryBaseDelayMs * Math.pow(2, attempts - 1);
+  }
+}
@@ -1,14 +1,40 @@
-import type { INotificationService, NotificationRecord } from '../core/interfaces/INotificationService.js';
-import type { NotificationPayload } from '../types/index.js';
+import type {
+  INotificationService,
+  INotificationChannel,
+  NotificationRecord
+} from '../core/interfaces/INotificationService.js';
+import type { IDatabaseService, DatabaseQuery } from '../core/interfaces/IDatabaseService.js';
+import type { IAuthService } from '../core/interfaces/IAuthService.js';
+import type { NotificationModel, CreateNotificationInput } from '../models/NotificationModel.js';
+import type { NotificationPayload, User } from '../types/index.js';
+import { ConflictError, ValidationError } from '../utils/BusinessError.js';
+import {
+  resolveNotificationChannels,
+  isWithinQuietHours,
+  getQuietHoursEnd
+} from '../utils/notificationPreferences.js';
+import { listAllDocuments } from '../utils/databasePaging.js';
 import { logger } from '../utils/logger.js';
 
+// Matches the size of the `data` attribute in NotificationSchema
+const MAX_DATA_LENGTH = 1000;
+
 /**
- * Basic notification service implementation
- * TODO: Implement with actual notification provider (Firebase, AWS SNS, etc.)
+ * Notification service backed by the notifications collection
+ * Every notification is persisted first and then moves through
+ * pending -> sent -> delivered (or failed) as it is fanned out to the
+ * channels the recipient has enabled for its category.
  */
 export class NotificationService implements INotificationService {
-  
-  async sendNotification(payload: NotificationPayload): Promise<void> {
+  private readonly collection = 'notifications';
+
+  constructor(
+    private databaseService: IDatabaseService,
+    private authService: IAuthService,
+    private channels: INotificationChannel[] = []
+  ) {}
+
+  async sendNotification(payload: NotificationPayload): Promise<string> {
     try {
       logger.info('Sending notification', {
         userId: payload.userId,
@@ -16,11 +42,33 @@ export class NotificationService implements INotificationService {
         type: 'immediate'
       });
 
-      // TODO: Implement actual notification sending
-      // For now, just log the notification
-      await this.simulateNotificationSend(payload);
-      
-      logger.info('Notification sent successfully', { userId: payload.userId });
+      const recipient = await this.authService.getUserById(payload.userId);
+      const quietHours = recipient.preferences?.notificationSettings?.quietHours;
+      const now = new Date();
+
+      if (isWithinQuietHours(quietHours, now)) {
+        // Held back until quiet hours end, the scheduler delivers it from there
+        const deferredUntil = getQuietHoursEnd(quietHours!, now).toISOString();
+        const notification = await this.createNotification(payload, deferredUntil);
+
+        logger.info('Notification deferred until quiet hours end', {
+          userId: payload.userId,
+          notificationId: notification.$id,
+          deferredUntil
+        });
+        return notification.$id;
+      }
+
+      const notification = await this.createNotification(payload);
+      try {
+        await this.deliver(notification, recipient);
+      } catch (error) {
+        await this.markFailed(notification.$id, error);
+        throw error;
+      }
+
+      logger.info('Notification sent successfully', { userId: payload.userId, notificationId: notification.$id });
+      return notification.$id;
     } catch (error) {
       logger.error('Failed to send notification', {
         userId: payload.userId,
@@ -32,18 +80,15 @@ export class NotificationService implements INotificationService {
 
   async scheduleNotification(payload: NotificationPayload, scheduledFor: Date): Promise<string> {
     try {
-      const notificationId = this.generateNotificationId();
-      
       logger.info('Scheduling notification', {
-        notificationId,
         userId: payload.userId,
         scheduledFor: scheduledFor.toISOString()
       });
 
-      // TODO: Implement actual notification scheduling
-      // For now, just simulate scheduling
-      
-      return notificationId;
+      const notification = await this.createNotification(payload, scheduledFor.toISOString());
+
+      logger.info('Notification scheduled successfully', { notificationId: notification.$id });
+      return notification.$id;
     } catch (error) {
       logger.error('Failed to schedule notification', {
         userId: payload.userId,
@@ -56,10 +101,14 @@ export class NotificationService implements INotificationService {
   async cancelNotification(notificationId: string): Promise<void> {
     try {
       logger.info('Cancelling notification', { notificationId });
-      
-      // TODO: Implement actual notification cancellation
-      // For now, just log the cancellation
-      
+
+      const notification = await this.databaseService.read<NotificationModel>(this.collection, notificationId);
+      if (notification.status !== 'pending') {
+        throw new ConflictError(`Notification has already been ${notification.status} and cannot be cancelled`);
+      }
+
+      await this.databaseService.delete(this.collection, notificationId);
+
       logger.info('Notification cancelled successfully', { notificationId });
     } catch (error) {
       logger.error('Failed to cancel notification', {
@@ -73,10 +122,10 @@ export class NotificationService implements INotificationService {
   async sendBulkNotifications(payloads: NotificationPayload[]): Promise<void> {
     try {
       logger.info('Sending bulk notifications', { count: payloads.length });
-      
+
       // Send notifications in parallel
       await Promise.all(payloads.map(payload => this.sendNotification(payload)));
-      
+
       logger.info('Bulk notifications sent successfully', { count: payloads.length });
     } catch (error) {
       logger.error('Failed to send bulk notifications', {
@@ -87,13 +136,49 @@ export class NotificationService implements INotificationService {
     }
   }
 
+  async getNotification(notificationId: string): Promise<NotificationRecord> {
+    const notification = await this.databaseService.read<NotificationModel>(this.collection, notificationId);
+    return this.toRecord(notification);
+  }
+
+  async dispatchNotification(notificationId: string): Promise<boolean> {
+    const exists = await this.databaseService.exists(this.collection, notificationId);
+    if (!exists) {
+      // Cancelled while waiting to be dispatched
+      return false;
+    }
+
+    const notification = await this.databaseService.read<NotificationModel>(this.collection, notificationId);
+    if (notification.status !== 'pending') {
+      return false;
+    }
+
+    const recipient = await this.authService.getUserById(notification.userId);
+    const quietHours = recipient.preferences?.notificationSettings?.quietHours;
+    const now = new Date();
+
+    if (isWithinQuietHours(quietHours, now)) {
+      await this.databaseService.update<NotificationModel>(this.collection, notificationId, {
+        scheduledFor: getQuietHoursEnd(quietHours!, now).toISOString()
+      });
+      return false;
+    }
+
+    await this.deliver(notification, recipient);
+    logger.info('Scheduled notification dispatched', { notificationId, userId: notification.userId });
+    return true;
+  }
+
   async getNotificationHistory(userId: string, limit: number = 50): Promise<NotificationRecord[]> {
     try {
       logger.info('Getting notification history', { userId, limit });
-      
-      // TODO: Implement actual notification history retrieval
-      // For now, return empty array
-      return [];
+
+      const result = await this.databaseService.list<NotificationModel>(this.collection, this.inboxQueries(userId), {
+        limit,
+        orderBy: [{ field: '$createdAt', direction: 'desc' }]
+      });
+
+      return result.documents.map(notification => this.toRecord(notification));
     } catch (error) {
       logger.error('Failed to get notification history', {
         userId,
@@ -103,12 +188,19 @@ export class NotificationService implements INotificationService {
     }
   }
 
+  async getUnreadCount(userId: string): Promise<number> {
+    return await this.databaseService.count(this.collection, this.unreadQueries(userId));
+  }
+
   async markAsRead(notificationId: string): Promise<void> {
     try {
       logger.info('Marking notification as read', { notificationId });
-      
-      // TODO: Implement actual mark as read functionality
-      
+
+      await this.databaseService.update<NotificationModel>(this.collection, notificationId, {
+        isRead: true,
+        readAt: new Date().toISOString()
+      });
+
       logger.info('Notification marked as read', { notificationId });
     } catch (error) {
       logger.error('Failed to mark notification as read', {
@@ -119,9 +211,48 @@ export class NotificationService implements INotificationService {
     }
   }
 
+  async markAllAsRead(userId: string): Promise<number> {
+    try {
+      logger.info('Marking all notifications as read', { userId });
+
+      const unread = await listAllDocuments<NotificationModel>(this.databaseService, this.collection, this.unreadQueries(userId));
+      if (unread.length === 0) {
+        return 0;
+      }
+
+      const readAt = new Date().toISOString();
+      await this.databaseService.batchUpdate<NotificationModel>(
+        this.collection,
+        unread.map(notification => ({ documentId: notification.$id, data: { isRead: true, readAt } }))
+      );
+
+      logger.info('All notifications marked as read', { userId, count: unread.length });
+      return unread.length;
+    } catch (error) {
+      logger.error('Failed to mark all notifications as read', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async deleteNotification(notificationId: string): Promise<void> {
+    try {
+      logger.info('Deleting notification', { notificationId });
+      await this.databaseService.delete(this.collection, notificationId);
+    } catch (error) {
+      logger.error('Failed to delete notification', {
+        notificationId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
   async isAvailable(): Promise<boolean> {
     try {
-      // TODO: Implement actual service health check
+      await this.databaseService.count(this.collection);
       return true;
     } catch (error) {
       logger.error('Notification service health check failed', {
@@ -131,20 +262,120 @@ export class NotificationService implements INotificationService {
     }
   }
 
-  private async simulateNotificationSend(payload: NotificationPayload): Promise<void> {
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 100));
-    
-    // Log the notification details
-    logger.debug('Notification simulation', {
-      to: payload.userId,
+  /**
+   * Persist a notification in the pending state
+   */
+  private async createNotification(payload: NotificationPayload, scheduledFor?: string): Promise<NotificationModel> {
+    const data = payload.data ? JSON.stringify(payload.data) : undefined;
+    if (data && data.length > MAX_DATA_LENGTH) {
+      throw new ValidationError(`Notification data must not exceed ${MAX_DATA_LENGTH} characters when serialized`);
+    }
+
+    const notificationData: CreateNotificationInput = {
+      userId: payload.userId,
+      type: payload.type || 'info',
+      category: payload.category,
       title: payload.title,
       body: payload.body,
-      data: payload.data
+      data,
+      status: 'pending',
+      scheduledFor: scheduledFor ?? payload.scheduledFor,
+      isRead: false
+    };
+
+    return await this.databaseService.create<NotificationModel>(this.collection, notificationData);
+  }
+
+  /**
+   * Move a pending notification through sent -> delivered.
+   * Channels are resolved at delivery time so scheduled notifications honour
+   * the latest preferences; delivery only fails when every channel fails.
+   */
+  private async deliver(notification: NotificationModel, recipient: User): Promise<void> {
+    const channels = resolveNotificationChannels(recipient.preferences, notification.category);
+
+    await this.databaseService.update<NotificationModel>(this.collection, notification.$id, {
+      status: 'sent',
+      sentAt: new Date().toISOString(),
+      channels
+    });
+
+    const record = this.toRecord({ ...notification, channels });
+    const failures: string[] = [];
+
+    for (const channelName of channels) {
+      const channel = this.channels.find(candidate => candidate.name === channelName);
+      if (!channel) {
+        logger.warn('No notification channel registered', { channel: channelName });
+        continue;
+      }
+
+      try {
+        await channel.send(record, recipient);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        failures.push(`${channelName}: ${message}`);
+        logger.warn('Notification channel delivery failed', {
+          notificationId: notification.$id,
+          channel: channelName,
+          error: message
+        });
+      }
+    }
+
+    if (channels.length > 0 && failures.length === channels.length) {
+      throw new Error(`Notification delivery failed on all channels (${failures.join('; ')})`);
+    }
+
+    await this.databaseService.update<NotificationModel>(this.collection, notification.$id, {
+      status: 'delivered'
+    });
+  }
+
+  private async markFailed(notificationId: string, error: unknown): Promise<void> {
+    await this.databaseService.update<NotificationModel>(this.collection, notificationId, {
+      status: 'failed',
+      lastError: error instanceof Error ? error.message : 'Unknown error'
+    }).catch(updateError => {
+      logger.error('Failed to mark notification as failed', {
+        notificationId,
+        error: updateError instanceof Error ? updateError.message : 'Unknown error'
+      });
     });
   }
 
-  private generateNotificationId(): string {
-    return `notif_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  /**
+   * Only dispatched notifications that went out in-app belong in the inbox,
+   * scheduled ones stay hidden until they have been dispatched
+   */
+  private inboxQueries(userId: string): DatabaseQuery[] {
+    return [
+      { field: 'userId', operator: 'equal', value: userId },
+      { field: 'status', operator: 'notEqual', value: 'pending' },
+      { field: 'channels', operator: 'contains', value: 'in_app' }
+    ];
+  }
+
+  private unreadQueries(userId: string): DatabaseQuery[] {
+    return [...this.inboxQueries(userId), { field: 'isRead', operator: 'equal', value: false }];
+  }
+
+  private toRecord(notification: NotificationModel): NotificationRecord {
+    return {
+      id: notification.$id,
+      userId: notification.userId,
+      type: notification.type,
+      category: notification.category,
+      channels: notification.channels ?? [],
+      title: notification.title,
+      body: notification.body,
+      data: notification.data ? JSON.parse(notification.data) : undefined,
+      status: notification.status,
+      isRead: notification.isRead,
+      scheduledFor: notification.scheduledFor,
+      sentAt: notification.sentAt,
+      readAt: notification.readAt,
+      createdAt: notification.$createdAt
+    };
   }
-}
\ No newline at end of file
+}
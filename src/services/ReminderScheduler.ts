@@ -0,0 +1,69 @@
+import type { IReminderService } from '../core/interfaces/IReminderService.js';
+import { systemClock, type SchedulerClock } from './NotificationScheduler.js';
+import { logger } from '../utils/logger.js';
+
+export interface ReminderSchedulerOptions {
+  pollIntervalMs: number;
+  clock: SchedulerClock;
+}
+
+/**
+ * In-process worker that fires due check-in reminders
+ * Next run times are stored on the reminders themselves, so restarts lose nothing.
+ */
+export class ReminderScheduler {
+  private readonly options: ReminderSchedulerOptions;
+  private timer: unknown = null;
+  private inFlight: Promise<number> | null = null;
+
+  constructor(
+    private reminderService: IReminderService,
+    options: Partial<ReminderSchedulerOptions> = {}
+  ) {
+    this.options = { pollIntervalMs: 60000, clock: systemClock, ...options };
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = this.options.clock.setInterval(() => {
+      this.tick().catch(error => {
+        logger.error('Reminder scheduler tick failed', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }, this.options.pollIntervalMs);
+
+    logger.info('Reminder scheduler started', { pollIntervalMs: this.options.pollIntervalMs });
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      this.options.clock.clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Reminder scheduler stopped');
+    }
+
+    if (this.inFlight) {
+      await this.inFlight.catch(() => undefined);
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Fire all due reminders, returns the number of notifications sent
+   */
+  async tick(): Promise<number> {
+    if (!this.inFlight) {
+      this.inFlight = this.reminderService.processDueReminders(this.options.clock.now()).finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+}
@@ -0,0 +1,186 @@
+import type {
+  IReminderService,
+  CreateReminderRequest,
+  UpdateReminderRequest
+} from '../core/interfaces/IReminderService.js';
+import type { IDatabaseService } from '../core/interfaces/IDatabaseService.js';
+import type { INotificationService } from '../core/interfaces/INotificationService.js';
+import type { ReminderModel, CreateReminderInput } from '../models/ReminderModel.js';
+import { getNextOccurrence, getStartOfLocalDay } from '../utils/reminderSchedule.js';
+import { ValidationError } from '../utils/BusinessError.js';
+import { listAllDocuments } from '../utils/databasePaging.js';
+import { logger } from '../utils/logger.js';
+
+const REMINDER_CONTENT = {
+  mood: {
+    title: 'Time for a mood check-in',
+    body: 'How are you feeling right now? Take a moment to log your mood.'
+  },
+  journal: {
+    title: 'Time to journal',
+    body: 'A few minutes of writing can help you reflect on your day.'
+  }
+} as const;
+
+/**
+ * Reminder service implementation
+ * Reminders store their next run as an absolute instant so the worker only
+ * needs an indexed range query; it is recalculated after every run or edit.
+ */
+export class ReminderService implements IReminderService {
+  private readonly collection = 'reminders';
+
+  constructor(
+    private databaseService: IDatabaseService,
+    private notificationService: INotificationService
+  ) {}
+
+  async createReminder(userId: string, data: CreateReminderRequest): Promise<ReminderModel> {
+    try {
+      logger.info('Creating reminder', { userId, kind: data.kind, recurrence: data.recurrence });
+
+      const now = new Date();
+      const isActive = data.isActive ?? true;
+      const reminderData: CreateReminderInput = {
+        userId,
+        kind: data.kind,
+        time: data.time,
+        timezone: data.timezone,
+        recurrence: data.recurrence,
+        daysOfWeek: data.recurrence === 'custom' ? data.daysOfWeek : undefined,
+        message: data.message,
+        isActive,
+        nextRunAt: isActive ? this.calculateNextRun(data, now) : undefined,
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString()
+      };
+
+      const reminder = await this.databaseService.create<ReminderModel>(this.collection, reminderData);
+
+      logger.info('Reminder created successfully', { reminderId: reminder.$id, nextRunAt: reminder.nextRunAt });
+      return reminder;
+    } catch (error) {
+      logger.error('Failed to create reminder', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async listReminders(userId: string): Promise<ReminderModel[]> {
+    return await listAllDocuments<ReminderModel>(this.databaseService, this.collection, [
+      { field: 'userId', operator: 'equal', value: userId }
+    ]);
+  }
+
+  async getReminder(reminderId: string): Promise<ReminderModel> {
+    return await this.databaseService.read<ReminderModel>(this.collection, reminderId);
+  }
+
+  async updateReminder(reminderId: string, data: UpdateReminderRequest): Promise<ReminderModel> {
+    try {
+      logger.info('Updating reminder', { reminderId });
+
+      const existing = await this.databaseService.read<ReminderModel>(this.collection, reminderId);
+      const merged = { ...existing, ...data };
+      const now = new Date();
+
+      return await this.databaseService.update<ReminderModel>(this.collection, reminderId, {
+        ...data,
+        daysOfWeek: merged.recurrence === 'custom' ? merged.daysOfWeek : [],
+        nextRunAt: merged.isActive ? this.calculateNextRun(merged, now) : undefined,
+        updatedAt: now.toISOString()
+      });
+    } catch (error) {
+      logger.error('Failed to update reminder', {
+        reminderId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async deleteReminder(reminderId: string): Promise<void> {
+    try {
+      logger.info('Deleting reminder', { reminderId });
+      await this.databaseService.delete(this.collection, reminderId);
+    } catch (error) {
+      logger.error('Failed to delete reminder', {
+        reminderId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async processDueReminders(now: Date): Promise<number> {
+    const due = await listAllDocuments<ReminderModel>(this.databaseService, this.collection, [
+      { field: 'isActive', operator: 'equal', value: true },
+      { field: 'nextRunAt', operator: 'lessEqual', value: now.toISOString() }
+    ]);
+
+    let sent = 0;
+    for (const reminder of due) {
+      try {
+        if (await this.hasCheckedInToday(reminder, now)) {
+          logger.info('Skipping reminder, user already checked in today', {
+            reminderId: reminder.$id,
+            userId: reminder.userId
+          });
+        } else {
+          const content = REMINDER_CONTENT[reminder.kind];
+          await this.notificationService.sendNotification({
+            userId: reminder.userId,
+            type: 'reminder',
+            category: 'reminders',
+            title: content.title,
+            body: reminder.message || content.body,
+            data: { reminderId: reminder.$id, kind: reminder.kind }
+          });
+          sent++;
+        }
+      } catch (error) {
+        logger.error('Failed to send reminder', {
+          reminderId: reminder.$id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+
+      // Always move on to the next occurrence so a failing reminder is not retried every poll
+      await this.databaseService.update<ReminderModel>(this.collection, reminder.$id, {
+        lastTriggeredAt: now.toISOString(),
+        nextRunAt: this.calculateNextRun(reminder, now)
+      });
+    }
+
+    return sent;
+  }
+
+  /**
+   * Whether the user already logged what the reminder asks for during their local day
+   */
+  private async hasCheckedInToday(reminder: ReminderModel, now: Date): Promise<boolean> {
+    const startOfDay = getStartOfLocalDay(now, reminder.timezone).toISOString();
+
+    const count = reminder.kind === 'mood'
+      ? await this.databaseService.count('moods', [
+          { field: 'userId', operator: 'equal', value: reminder.userId },
+          { field: 'timestamp', operator: 'greaterEqual', value: startOfDay }
+        ])
+      : await this.databaseService.count('journals', [
+          { field: 'userId', operator: 'equal', value: reminder.userId },
+          { field: '$createdAt', operator: 'greaterEqual', value: startOfDay }
+        ]);
+
+    return count > 0;
+  }
+
+  private calculateNextRun(rule: CreateReminderRequest, after: Date): string {
+    const next = getNextOccurrence(rule, after);
+    if (!next) {
+      throw new ValidationError('Reminder recurrence does not match any day of the week');
+    }
+    return next.toISOString();
+  }
+}
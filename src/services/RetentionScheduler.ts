@@ -0,0 +1,70 @@
+import type { IRetentionService } from '../core/interfaces/IRetentionService.js';
+import type { RetentionRunModel } from '../models/RetentionRunModel.js';
+import { systemClock, type SchedulerClock } from './NotificationScheduler.js';
+import { logger } from '../utils/logger.js';
+
+export interface RetentionSchedulerOptions {
+  sweepIntervalMs: number;
+  clock: SchedulerClock;
+}
+
+/**
+ * In-process worker that periodically purges data past its retention window
+ * Sweeps only look at document age, so a missed run is caught up by the next one.
+ */
+export class RetentionScheduler {
+  private readonly options: RetentionSchedulerOptions;
+  private timer: unknown = null;
+  private inFlight: Promise<RetentionRunModel[]> | null = null;
+
+  constructor(
+    private retentionService: IRetentionService,
+    options: Partial<RetentionSchedulerOptions> = {}
+  ) {
+    this.options = { sweepIntervalMs: 24 * 60 * 60 * 1000, clock: systemClock, ...options };
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = this.options.clock.setInterval(() => {
+      this.tick().catch(error => {
+        logger.error('Retention scheduler tick failed', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }, this.options.sweepIntervalMs);
+
+    logger.info('Retention scheduler started', { sweepIntervalMs: this.options.sweepIntervalMs });
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      this.options.clock.clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Retention scheduler stopped');
+    }
+
+    if (this.inFlight) {
+      await this.inFlight.catch(() => undefined);
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Run one sweep, overlapping ticks share the sweep already in progress
+   */
+  async tick(): Promise<RetentionRunModel[]> {
+    if (!this.inFlight) {
+      this.inFlight = this.retentionService.runSweep(this.options.clock.now()).finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+}
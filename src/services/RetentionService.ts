@@ -0,0 +1,239 @@
+import type { IRetentionService, RetentionRunListResponse, RetentionSummary } from '../core/interfaces/IRetentionService.js';
+import type { IDatabaseService, DatabaseQuery } from '../core/interfaces/IDatabaseService.js';
+import type { IAuthService } from '../core/interfaces/IAuthService.js';
+import type { IJournalAttachmentService } from '../core/interfaces/IJournalAttachmentService.js';
+import type { BaseModel } from '../models/BaseModel.js';
+import type { RetentionRunModel, RetentionScope } from '../models/RetentionRunModel.js';
+import type { Company, RetentionStrategy } from '../types/index.js';
+import { journalFileIds, type JournalFileFields } from '../utils/attachments.js';
+import { listAllDocuments, toListOptions, toPageInfo, type PageRequest } from '../utils/databasePaging.js';
+import { logger } from '../utils/logger.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USER_CHUNK_SIZE = 100;
+const ANONYMIZED_USER_ID = 'anonymized';
+const REMOVED_TEXT = '[removed]';
+
+export interface RetentionServiceOptions {
+  individualRetentionDays: number;
+  strategy: RetentionStrategy;
+}
+
+interface RetentionTarget {
+  scope: RetentionScope;
+  companyId?: string;
+  retentionDays: number;
+  userIds: string[];
+}
+
+type RetainedDocument = BaseModel & JournalFileFields & { userId: string };
+
+interface RetentionCollection {
+  name: 'journals' | 'moods' | 'notifications';
+  dateField: string;
+  // Fields overwritten when anonymizing, notifications are always deleted
+  anonymized?: Record<string, unknown>;
+}
+
+const RETENTION_COLLECTIONS: RetentionCollection[] = [
+  {
+    name: 'journals',
+    dateField: '$createdAt',
+    anonymized: {
+      userId: ANONYMIZED_USER_ID,
+      title: REMOVED_TEXT,
+      content: REMOVED_TEXT,
+      moodTriggers: [],
+      moodNotes: null,
+      tags: [],
+      attachmentImages: [],
+      attachmentVoiceRecording: null
+    }
+  },
+  {
+    name: 'moods',
+    dateField: 'timestamp',
+    anonymized: {
+      userId: ANONYMIZED_USER_ID,
+      triggers: [],
+      notes: null,
+      location: null,
+      activities: []
+    }
+  },
+  {
+    name: 'notifications',
+    dateField: '$createdAt'
+  }
+];
+
+/**
+ * Retention service implementation
+ * Each company's `dataRetentionDays` applies to its members; users without a
+ * company use the platform default. Anonymized documents lose their owner and
+ * free text but keep mood scores, so they drop out of every per-user query.
+ * Either way the attachments of purged journal entries are deleted from storage.
+ */
+export class RetentionService implements IRetentionService {
+  private readonly collection = 'retention_runs';
+
+  constructor(
+    private databaseService: IDatabaseService,
+    private authService: IAuthService,
+    private journalAttachmentService: IJournalAttachmentService,
+    private options: RetentionServiceOptions
+  ) {}
+
+  async runSweep(now: Date): Promise<RetentionRunModel[]> {
+    logger.info('Starting retention sweep', { strategy: this.options.strategy });
+
+    const [companies, users] = await Promise.all([
+      listAllDocuments<Company & Pick<BaseModel, '$createdAt'>>(this.databaseService, 'companies', []),
+      this.authService.listUsers()
+    ]);
+
+    const targets: RetentionTarget[] = companies.map(company => ({
+      scope: 'company',
+      companyId: company.$id,
+      retentionDays: company.settings.dataRetentionDays,
+      userIds: users.filter(user => user.companyId === company.$id).map(user => user.$id)
+    }));
+    targets.push({
+      scope: 'individual',
+      retentionDays: this.options.individualRetentionDays,
+      userIds: users.filter(user => !user.companyId).map(user => user.$id)
+    });
+
+    const runs: RetentionRunModel[] = [];
+    for (const target of targets) {
+      // One failing company must not keep the others from being purged
+      try {
+        const summary = await this.sweep(target, now, false);
+        const { dryRun: _dryRun, ...runData } = summary;
+        runs.push(await this.databaseService.create<RetentionRunModel>(this.collection, runData));
+      } catch (error) {
+        logger.error('Failed to apply retention', {
+          scope: target.scope,
+          companyId: target.companyId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    logger.info('Retention sweep completed', {
+      runs: runs.length,
+      journals: runs.reduce((sum, run) => sum + run.journals, 0),
+      moods: runs.reduce((sum, run) => sum + run.moods, 0),
+      notifications: runs.reduce((sum, run) => sum + run.notifications, 0)
+    });
+    return runs;
+  }
+
+  async previewCompany(companyId: string, now: Date = new Date()): Promise<RetentionSummary> {
+    try {
+      const company = await this.databaseService.read<Company>('companies', companyId);
+      const members = await this.authService.listUsers({ companyId });
+
+      return await this.sweep({
+        scope: 'company',
+        companyId,
+        retentionDays: company.settings.dataRetentionDays,
+        userIds: members.map(member => member.$id)
+      }, now, true);
+    } catch (error) {
+      logger.error('Failed to preview retention', {
+        companyId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async listRuns(companyId: string, page: PageRequest = {}): Promise<RetentionRunListResponse> {
+    const request = { ...page, sortBy: 'completedAt', sortOrder: 'desc' as const };
+    const result = await this.databaseService.list<RetentionRunModel>(this.collection, [
+      { field: 'companyId', operator: 'equal', value: companyId }
+    ], toListOptions(request));
+
+    return {
+      runs: result.documents,
+      ...toPageInfo(result, request)
+    };
+  }
+
+  private async sweep(target: RetentionTarget, now: Date, dryRun: boolean): Promise<RetentionSummary> {
+    const startedAt = new Date().toISOString();
+    const cutoff = new Date(now.getTime() - target.retentionDays * DAY_MS).toISOString();
+    const counts = { journals: 0, moods: 0, notifications: 0 };
+
+    for (const collection of RETENTION_COLLECTIONS) {
+      counts[collection.name] = await this.purgeCollection(collection, target.userIds, cutoff, dryRun);
+    }
+
+    logger.info(dryRun ? 'Retention preview calculated' : 'Retention applied', {
+      scope: target.scope,
+      companyId: target.companyId,
+      cutoff,
+      ...counts
+    });
+
+    return {
+      scope: target.scope,
+      companyId: target.companyId,
+      retentionDays: target.retentionDays,
+      cutoff,
+      strategy: this.options.strategy,
+      ...counts,
+      triggeredBy: 'system',
+      startedAt,
+      completedAt: new Date().toISOString(),
+      dryRun
+    };
+  }
+
+  /**
+   * Delete or anonymize documents older than the cutoff, returns how many were affected
+   * Handled documents no longer match the queries, so the first page is fetched until empty.
+   */
+  private async purgeCollection(
+    collection: RetentionCollection,
+    userIds: string[],
+    cutoff: string,
+    dryRun: boolean
+  ): Promise<number> {
+    let affected = 0;
+
+    for (let i = 0; i < userIds.length; i += USER_CHUNK_SIZE) {
+      const queries: DatabaseQuery[] = [
+        { field: 'userId', operator: 'equal', value: userIds.slice(i, i + USER_CHUNK_SIZE) },
+        { field: collection.dateField, operator: 'less', value: cutoff }
+      ];
+
+      if (dryRun) {
+        affected += await this.databaseService.count(collection.name, queries);
+        continue;
+      }
+
+      for (;;) {
+        const page = await this.databaseService.list<RetainedDocument>(collection.name, queries);
+        if (page.documents.length === 0) {
+          break;
+        }
+
+        for (const document of page.documents) {
+          if (this.options.strategy === 'anonymize' && collection.anonymized) {
+            await this.databaseService.update(collection.name, document.$id, collection.anonymized);
+          } else {
+            await this.databaseService.delete(collection.name, document.$id);
+          }
+          if (collection.name === 'journals') {
+            await this.journalAttachmentService.deleteFiles(document.userId, journalFileIds(document));
+          }
+        }
+        affected += page.documents.length;
+      }
+    }
+
+    return affected;
+  }
+}
@@ -0,0 +1,177 @@
+import type {
+  IStorageQuotaService,
+  QuotaUsage,
+  StorageQuotaUsage
+} from '../core/interfaces/IStorageQuotaService.js';
+import type { IDatabaseService } from '../core/interfaces/IDatabaseService.js';
+import type { IAuthService } from '../core/interfaces/IAuthService.js';
+import type { IStorageService, StorageUsage } from '../core/interfaces/IStorageService.js';
+import type { INotificationService } from '../core/interfaces/INotificationService.js';
+import type { Company, SubscriptionTier, User } from '../types/index.js';
+import { userBucketId } from '../utils/attachments.js';
+import { PayloadTooLargeError } from '../utils/BusinessError.js';
+import { logger } from '../utils/logger.js';
+
+export interface StorageQuotaServiceOptions {
+  // Bytes allowed per tier
+  user: Record<SubscriptionTier, number>;
+  company: Record<SubscriptionTier, number>;
+  // Share of a quota, between 0 and 1, after which the user is warned
+  warningThreshold: number;
+  // How long a company's measured usage is reused before its members' buckets are listed again
+  companyUsageTtlMs: number;
+}
+
+interface CachedUsage {
+  usage: StorageUsage;
+  expiresAt: number;
+}
+
+const TIER_LEVELS: Record<SubscriptionTier, number> = { free: 1, premium: 2, enterprise: 3 };
+
+/**
+ * Storage quota service implementation
+ * Usage is measured from the per-user attachment buckets, so it always matches what is stored.
+ * Measuring a company lists every member's bucket, so its total is cached and kept current by
+ * recorded uploads; deletions show up once the cached total expires.
+ * A company plan also lifts its members' own quota to at least the company's tier.
+ */
+export class StorageQuotaService implements IStorageQuotaService {
+  private companyUsage = new Map<string, CachedUsage>();
+
+  constructor(
+    private databaseService: IDatabaseService,
+    private authService: IAuthService,
+    private storageService: IStorageService,
+    private notificationService: INotificationService,
+    private options: StorageQuotaServiceOptions
+  ) {}
+
+  async getUsage(user: User): Promise<StorageQuotaUsage> {
+    try {
+      const company = user.companyId
+        ? await this.databaseService.read<Company>('companies', user.companyId)
+        : null;
+
+      const userTier = company && TIER_LEVELS[company.subscription.tier] > TIER_LEVELS[user.subscription.tier]
+        ? company.subscription.tier
+        : user.subscription.tier;
+      const usage: StorageQuotaUsage = {
+        user: this.toQuotaUsage(userTier, this.options.user[userTier], await this.getUserUsage(user.$id))
+      };
+
+      if (company) {
+        usage.company = {
+          companyId: company.$id,
+          ...this.toQuotaUsage(
+            company.subscription.tier,
+            this.options.company[company.subscription.tier],
+            await this.getCompanyUsage(company.$id)
+          )
+        };
+      }
+
+      return usage;
+    } catch (error) {
+      logger.error('Failed to get storage usage', {
+        userId: user.$id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async assertCanStore(user: User, bytes: number): Promise<void> {
+    const usage = await this.getUsage(user);
+
+    if (bytes > usage.user.remaining) {
+      throw new PayloadTooLargeError(
+        `Storage quota exceeded, ${usage.user.remaining} of ${usage.user.limit} bytes left on the ${usage.user.tier} plan`,
+        'STORAGE_QUOTA_EXCEEDED'
+      );
+    }
+    if (usage.company && bytes > usage.company.remaining) {
+      throw new PayloadTooLargeError(
+        `Company storage quota exceeded, ${usage.company.remaining} of ${usage.company.limit} bytes left on the ${usage.company.tier} plan`,
+        'COMPANY_STORAGE_QUOTA_EXCEEDED'
+      );
+    }
+  }
+
+  async recordUpload(user: User, stored: StorageUsage): Promise<void> {
+    const cached = user.companyId ? this.companyUsage.get(user.companyId) : undefined;
+    if (cached) {
+      cached.usage = { total: cached.usage.total + stored.total, file: cached.usage.file + stored.file };
+    }
+
+    // The upload already succeeded, so a failed warning is logged rather than surfaced
+    try {
+      const { user: usage } = await this.getUsage(user);
+      const threshold = usage.limit * this.options.warningThreshold;
+
+      if (usage.used < threshold || usage.used - stored.total >= threshold) {
+        return;
+      }
+
+      const percentUsed = Math.min(Math.round((usage.used / usage.limit) * 100), 100);
+      await this.notificationService.sendNotification({
+        userId: user.$id,
+        type: 'warning',
+        title: 'Storage almost full',
+        body: `You have used ${percentUsed}% of your storage. Delete old attachments or upgrade your plan to keep adding photos and recordings.`,
+        data: { kind: 'storage_quota', tier: usage.tier, used: usage.used, limit: usage.limit }
+      });
+
+      logger.info('Storage quota warning sent', { userId: user.$id, used: usage.used, limit: usage.limit });
+    } catch (error) {
+      logger.warn('Failed to send storage quota warning', {
+        userId: user.$id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private async getCompanyUsage(companyId: string): Promise<StorageUsage> {
+    const cached = this.companyUsage.get(companyId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.usage;
+    }
+
+    // Membership is written by the auth service, the users collection does not know every member
+    const members = await this.authService.listUsers({ companyId });
+
+    const usage: StorageUsage = { total: 0, file: 0 };
+    for (const member of members) {
+      const memberUsage = await this.getUserUsage(member.$id);
+      usage.total += memberUsage.total;
+      usage.file += memberUsage.file;
+    }
+
+    this.companyUsage.set(companyId, { usage, expiresAt: Date.now() + this.options.companyUsageTtlMs });
+    return usage;
+  }
+
+  /**
+   * Users get their bucket on the first upload, until then they use nothing
+   */
+  private async getUserUsage(userId: string): Promise<StorageUsage> {
+    try {
+      return await this.storageService.getBucketUsage(userBucketId(userId));
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('not found')) {
+        return { total: 0, file: 0 };
+      }
+      throw error;
+    }
+  }
+
+  private toQuotaUsage(tier: SubscriptionTier, limit: number, usage: StorageUsage): QuotaUsage {
+    return {
+      tier,
+      limit,
+      used: usage.total,
+      remaining: Math.max(limit - usage.total, 0),
+      files: usage.file
+    };
+  }
+}
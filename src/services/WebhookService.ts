@@ -0,0 +1,388 @@
+import { randomBytes, randomUUID } from 'crypto';
+import type {
+  IWebhookService,
+  CreateWebhookRequest,
+  UpdateWebhookRequest,
+  WebhookResponse,
+  CreatedWebhook,
+  WebhookDeliveryListResponse
+} from '../core/interfaces/IWebhookService.js';
+import type { IDatabaseService } from '../core/interfaces/IDatabaseService.js';
+import type { IJobQueue } from '../core/interfaces/IJobQueue.js';
+import type { ICompanyService } from '../core/interfaces/ICompanyService.js';
+import type { WebhookModel, CreateWebhookInput } from '../models/WebhookModel.js';
+import type { WebhookDeliveryModel, CreateWebhookDeliveryInput } from '../models/WebhookDeliveryModel.js';
+import {
+  WEBHOOK_TEST_EVENT,
+  serializeWebhookEnvelope,
+  signWebhookPayload,
+  nextWeeklyReportAt,
+  type WebhookEvent,
+  type WebhookEventData
+} from '../utils/webhooks.js';
+import { listAllDocuments, toListOptions, toPageInfo, type PageRequest } from '../utils/databasePaging.js';
+import { getAnalyticsRange } from '../utils/companyAnalytics.js';
+import { checkOutboundUrl, type OutboundUrlOptions } from '../utils/outboundUrls.js';
+import { NotFoundError, ValidationError } from '../utils/BusinessError.js';
+import { logger } from '../utils/logger.js';
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+const WEEKLY_REPORT_PERIOD = '7d';
+
+// Matches the size of the lastError attribute
+const MAX_ERROR_LENGTH = 1000;
+
+export type WebhookServiceOptions = OutboundUrlOptions;
+
+/**
+ * Webhook service implementation
+ * Events are queued as deliveries and sent by the job queue, which retries
+ * failures with backoff; every attempt updates the delivery's log entry.
+ */
+export class WebhookService implements IWebhookService {
+  private readonly webhooks = 'webhooks';
+  private readonly deliveries = 'webhook_deliveries';
+
+  constructor(
+    private databaseService: IDatabaseService,
+    private jobQueue: IJobQueue,
+    private companyService: ICompanyService,
+    private options: WebhookServiceOptions = { requireHttps: true, allowPrivateHosts: false }
+  ) {}
+
+  async createWebhook(companyId: string, data: CreateWebhookRequest, createdBy: string): Promise<CreatedWebhook> {
+    try {
+      logger.info('Creating webhook', { companyId, events: data.events });
+
+      await this.validateUrl(data.url);
+
+      const now = new Date().toISOString();
+      const secret = `whsec_${randomBytes(24).toString('hex')}`;
+      const webhookData: CreateWebhookInput = {
+        companyId,
+        url: data.url,
+        secret,
+        events: data.events,
+        description: data.description,
+        isActive: data.isActive ?? true,
+        createdBy,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      const webhook = await this.databaseService.create<WebhookModel>(this.webhooks, webhookData);
+
+      logger.info('Webhook created successfully', { companyId, webhookId: webhook.$id });
+      return { webhook: withoutSecret(webhook), secret };
+    } catch (error) {
+      logger.error('Failed to create webhook', {
+        companyId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async listWebhooks(companyId: string): Promise<WebhookResponse[]> {
+    const webhooks = await this.listCompanyWebhooks(companyId);
+    return webhooks.map(withoutSecret);
+  }
+
+  async getWebhook(companyId: string, webhookId: string): Promise<WebhookResponse> {
+    return withoutSecret(await this.readWebhook(companyId, webhookId));
+  }
+
+  async updateWebhook(companyId: string, webhookId: string, data: UpdateWebhookRequest): Promise<WebhookResponse> {
+    try {
+      logger.info('Updating webhook', { companyId, webhookId });
+
+      await this.readWebhook(companyId, webhookId);
+      if (data.url !== undefined) {
+        await this.validateUrl(data.url);
+      }
+
+      const webhook = await this.databaseService.update<WebhookModel>(this.webhooks, webhookId, {
+        ...data,
+        updatedAt: new Date().toISOString()
+      });
+
+      logger.info('Webhook updated successfully', { companyId, webhookId });
+      return withoutSecret(webhook);
+    } catch (error) {
+      logger.error('Failed to update webhook', {
+        companyId,
+        webhookId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async deleteWebhook(companyId: string, webhookId: string): Promise<void> {
+    try {
+      logger.info('Deleting webhook', { companyId, webhookId });
+
+      await this.readWebhook(companyId, webhookId);
+
+      // Queued deliveries of a deleted webhook find their log entry gone and are dropped
+      const deliveries = await listAllDocuments<WebhookDeliveryModel>(this.databaseService, this.deliveries, [
+        { field: 'webhookId', operator: 'equal', value: webhookId }
+      ]);
+      if (deliveries.length > 0) {
+        await this.databaseService.batchDelete(this.deliveries, deliveries.map(delivery => delivery.$id));
+      }
+      await this.databaseService.delete(this.webhooks, webhookId);
+
+      logger.info('Webhook deleted successfully', { companyId, webhookId, deliveries: deliveries.length });
+    } catch (error) {
+      logger.error('Failed to delete webhook', {
+        companyId,
+        webhookId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async listDeliveries(companyId: string, webhookId: string, page: PageRequest = {}): Promise<WebhookDeliveryListResponse> {
+    await this.readWebhook(companyId, webhookId);
+
+    const request = { ...page, sortBy: 'createdAt', sortOrder: 'desc' as const };
+    const result = await this.databaseService.list<WebhookDeliveryModel>(this.deliveries, [
+      { field: 'webhookId', operator: 'equal', value: webhookId }
+    ], toListOptions(request));
+
+    return {
+      deliveries: result.documents,
+      ...toPageInfo(result, request)
+    };
+  }
+
+  async sendTestEvent(companyId: string, webhookId: string): Promise<WebhookDeliveryModel> {
+    const webhook = await this.readWebhook(companyId, webhookId);
+
+    logger.info('Sending webhook test event', { companyId, webhookId });
+
+    const delivery = await this.createDelivery(webhook, WEBHOOK_TEST_EVENT, {
+      message: 'Test event from MindSpace, your webhook is set up correctly'
+    });
+    return await this.attempt(delivery, webhook, true);
+  }
+
+  async dispatch<K extends WebhookEvent>(companyId: string, event: K, data: WebhookEventData[K]): Promise<number> {
+    try {
+      const webhooks = (await this.listCompanyWebhooks(companyId))
+        .filter(webhook => webhook.isActive && webhook.events.includes(event));
+
+      for (const webhook of webhooks) {
+        const delivery = await this.createDelivery(webhook, event, data);
+        await this.jobQueue.enqueue('webhook.deliver', { deliveryId: delivery.$id });
+      }
+
+      if (webhooks.length > 0) {
+        logger.info('Webhook event queued', { companyId, event, webhooks: webhooks.length });
+      }
+      return webhooks.length;
+    } catch (error) {
+      logger.error('Failed to dispatch webhook event', {
+        companyId,
+        event,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async deliver(deliveryId: string, finalAttempt: boolean): Promise<void> {
+    if (!(await this.databaseService.exists(this.deliveries, deliveryId))) {
+      logger.info('Dropping delivery of a deleted webhook', { deliveryId });
+      return;
+    }
+
+    // Failed deliveries are attempted again when an admin retries their dead job
+    const delivery = await this.databaseService.read<WebhookDeliveryModel>(this.deliveries, deliveryId);
+    if (delivery.status === 'delivered') {
+      return;
+    }
+
+    const webhook = await this.databaseService.read<WebhookModel>(this.webhooks, delivery.webhookId);
+    const result = await this.attempt(delivery, webhook, finalAttempt);
+    if (result.status !== 'delivered') {
+      throw new Error(result.lastError ?? 'Webhook delivery failed');
+    }
+  }
+
+  async sendWeeklyReports(): Promise<number> {
+    const webhooks = await listAllDocuments<WebhookModel>(this.databaseService, this.webhooks, [
+      { field: 'isActive', operator: 'equal', value: true }
+    ]);
+    const companyIds = [...new Set(
+      webhooks.filter(webhook => webhook.events.includes('report.weekly_ready')).map(webhook => webhook.companyId)
+    )];
+
+    let sent = 0;
+    for (const companyId of companyIds) {
+      // One company failing must not hold back everyone else's report
+      try {
+        const range = getAnalyticsRange(WEEKLY_REPORT_PERIOD);
+        const analytics = await this.companyService.getAnalytics(companyId, WEEKLY_REPORT_PERIOD);
+        await this.dispatch(companyId, 'report.weekly_ready', {
+          period: WEEKLY_REPORT_PERIOD,
+          periodStart: range.start.toISOString(),
+          periodEnd: range.end.toISOString(),
+          totalUsers: analytics.totalUsers,
+          activeUsers: analytics.activeUsers,
+          journalEntries: analytics.journalEntries,
+          moodLogs: analytics.moodLogs,
+          suppressed: analytics.privacy.suppressed
+        });
+        sent++;
+      } catch (error) {
+        logger.error('Failed to send weekly report webhook', {
+          companyId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    logger.info('Weekly report webhooks queued', { companies: sent, failed: companyIds.length - sent });
+    return sent;
+  }
+
+  async scheduleWeeklyReports(now: Date = new Date()): Promise<void> {
+    const { jobs } = await this.jobQueue.listJobs({ type: 'webhook.weekly_reports', status: 'pending', limit: 1 });
+    if (jobs.length > 0) {
+      return;
+    }
+
+    const runAt = nextWeeklyReportAt(now);
+    await this.jobQueue.enqueue('webhook.weekly_reports', {}, { runAt });
+    logger.info('Weekly report webhooks scheduled', { runAt: runAt.toISOString() });
+  }
+
+  /**
+   * Send a delivery once and record the outcome on its log entry
+   */
+  private async attempt(delivery: WebhookDeliveryModel, webhook: WebhookModel, finalAttempt: boolean): Promise<WebhookDeliveryModel> {
+    const now = new Date();
+    let responseStatus: number | null = null;
+    let lastError: string | null = null;
+
+    // Checked on every attempt, the host may resolve elsewhere than when the webhook was saved
+    const urlProblem = webhook.isActive ? await checkOutboundUrl(webhook.url, this.options) : null;
+
+    if (!webhook.isActive) {
+      lastError = 'Webhook is disabled';
+    } else if (urlProblem) {
+      lastError = urlProblem === 'private'
+        ? 'Webhook URL resolves to a private address'
+        : `Webhook URL is ${urlProblem}`;
+    } else {
+      try {
+        const timestamp = Math.floor(now.getTime() / 1000);
+        const response = await fetch(webhook.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'MindSpace-Webhooks/1.0',
+            'X-MindSpace-Event': delivery.event,
+            'X-MindSpace-Delivery': delivery.$id,
+            'X-MindSpace-Timestamp': String(timestamp),
+            'X-MindSpace-Signature': signWebhookPayload(webhook.secret, timestamp, delivery.payload)
+          },
+          body: delivery.payload,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+        });
+
+        responseStatus = response.status;
+        if (!response.ok) {
+          lastError = `Webhook responded with status ${response.status}`;
+        }
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
+
+    const delivered = lastError === null;
+    if (!delivered) {
+      logger.warn('Webhook delivery attempt failed', {
+        deliveryId: delivery.$id,
+        webhookId: webhook.$id,
+        attempts: delivery.attempts + 1,
+        finalAttempt,
+        error: lastError
+      });
+    }
+
+    return await this.databaseService.update<WebhookDeliveryModel>(this.deliveries, delivery.$id, {
+      status: delivered ? 'delivered' : finalAttempt ? 'failed' : 'retrying',
+      attempts: delivery.attempts + 1,
+      responseStatus,
+      lastError: lastError?.slice(0, MAX_ERROR_LENGTH) ?? null,
+      lastAttemptAt: now.toISOString(),
+      ...(delivered && { deliveredAt: now.toISOString() })
+    });
+  }
+
+  private async createDelivery<K extends keyof WebhookEventData>(
+    webhook: WebhookModel,
+    event: K,
+    data: WebhookEventData[K]
+  ): Promise<WebhookDeliveryModel> {
+    const now = new Date().toISOString();
+
+    // The envelope ID stays the same across retries, so receivers can drop duplicates
+    const payload = serializeWebhookEnvelope({
+      id: `evt_${randomUUID()}`,
+      event,
+      companyId: webhook.companyId,
+      createdAt: now,
+      data
+    });
+
+    const deliveryData: CreateWebhookDeliveryInput = {
+      webhookId: webhook.$id,
+      companyId: webhook.companyId,
+      event,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      createdAt: now
+    };
+
+    return await this.databaseService.create<WebhookDeliveryModel>(this.deliveries, deliveryData);
+  }
+
+  private async listCompanyWebhooks(companyId: string): Promise<WebhookModel[]> {
+    return await listAllDocuments<WebhookModel>(this.databaseService, this.webhooks, [
+      { field: 'companyId', operator: 'equal', value: companyId }
+    ]);
+  }
+
+  private async readWebhook(companyId: string, webhookId: string): Promise<WebhookModel> {
+    const webhook = await this.databaseService.read<WebhookModel>(this.webhooks, webhookId);
+    if (webhook.companyId !== companyId) {
+      throw new NotFoundError('Webhook not found');
+    }
+    return webhook;
+  }
+
+  private async validateUrl(url: string): Promise<void> {
+    switch (await checkOutboundUrl(url, this.options)) {
+      case 'invalid':
+        throw new ValidationError('Webhook URL must use HTTP or HTTPS', 'WEBHOOK_URL_INVALID');
+      case 'insecure':
+        throw new ValidationError('Webhook URL must use HTTPS', 'WEBHOOK_URL_INSECURE');
+      case 'private':
+        throw new ValidationError('Webhook URL must point to a public host', 'WEBHOOK_URL_PRIVATE');
+      case 'unresolvable':
+        throw new ValidationError('Webhook URL host could not be resolved', 'WEBHOOK_URL_UNRESOLVABLE');
+    }
+  }
+}
+
+function withoutSecret(webhook: WebhookModel): WebhookResponse {
+  const { secret: _secret, ...rest } = webhook;
+  return rest;
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, spyOn } from 'bun:test';
+import { CachingDatabaseAdapter } from '../database/CachingDatabaseAdapter.js';
+import { InMemoryDatabaseAdapter } from '../database/InMemoryDatabaseAdapter.js';
+
+describe('CachingDatabaseAdapter', () => {
+  let inner: InMemoryDatabaseAdapter;
+  let db: CachingDatabaseAdapter;
+  let userId: string;
+
+  beforeEach(async () => {
+    inner = new InMemoryDatabaseAdapter();
+    db = new CachingDatabaseAdapter(inner, { ttlMs: { users: 60_000 }, maxEntries: 2 });
+    userId = (await inner.create<any>('users', { name: 'Ada' })).$id;
+  });
+
+  it('should serve repeated reads from the cache and count hits and misses', async () => {
+    const read = spyOn(inner, 'read');
+
+    await db.read('users', userId);
+    const cached = await db.read<any>('users', userId);
+
+    expect(cached.name).toBe('Ada');
+    expect(read).toHaveBeenCalledTimes(1);
+    expect(db.getStats()).toMatchObject({ hits: 1, misses: 1, size: 1, hitRate: 0.5 });
+  });
+
+  it('should return copies so callers cannot change cached documents', async () => {
+    const first = await db.read<any>('users', userId);
+    first.name = 'Changed';
+
+    expect((await db.read<any>('users', userId)).name).toBe('Ada');
+  });
+
+  it('should not cache collections without a TTL', async () => {
+    const moodId = (await inner.create<any>('moods', { intensity: 3 })).$id;
+    const read = spyOn(inner, 'read');
+
+    await db.read('moods', moodId);
+    await db.read('moods', moodId);
+
+    expect(read).toHaveBeenCalledTimes(2);
+    expect(db.getStats().size).toBe(0);
+  });
+
+  it('should drop cached documents on update and delete', async () => {
+    await db.read('users', userId);
+    await db.update('users', userId, { name: 'Grace' });
+    expect((await db.read<any>('users', userId)).name).toBe('Grace');
+
+    await db.delete('users', userId);
+    await expect(db.read('users', userId)).rejects.toThrow(`Document not found: ${userId}`);
+  });
+
+  it('should drop documents touched by batch writes and transactions', async () => {
+    await db.read('users', userId);
+    await db.transaction([{ type: 'update', collection: 'users', documentId: userId, data: { name: 'Grace' } }]);
+    expect((await db.read<any>('users', userId)).name).toBe('Grace');
+
+    await db.batchUpdate('users', [{ documentId: userId, data: { name: 'Linus' } }]);
+    expect((await db.read<any>('users', userId)).name).toBe('Linus');
+  });
+
+  it('should expire entries after the collection TTL', async () => {
+    const now = Date.now();
+    const clock = spyOn(Date, 'now').mockReturnValue(now);
+
+    await db.read('users', userId);
+    await inner.update('users', userId, { name: 'Grace' });
+    expect((await db.read<any>('users', userId)).name).toBe('Ada');
+
+    clock.mockReturnValue(now + 60_001);
+    expect((await db.read<any>('users', userId)).name).toBe('Grace');
+    clock.mockRestore();
+  });
+
+  it('should evict the least recently used document past the size cap', async () => {
+    const second = (await inner.create<any>('users', { name: 'Grace' })).$id;
+    const third = (await inner.create<any>('users', { name: 'Linus' })).$id;
+
+    await db.read('users', userId);
+    await db.read('users', second);
+    await db.read('users', userId);
+    await db.read('users', third);
+
+    const read = spyOn(inner, 'read');
+    await db.read('users', userId);
+    await db.read('users', second);
+
+    expect(read).toHaveBeenCalledTimes(1);
+    expect(read).toHaveBeenCalledWith('users', second);
+    expect(db.getStats().evictions).toBe(2);
+  });
+});
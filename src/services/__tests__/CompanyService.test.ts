@@ -0,0 +1,276 @@
+import { describe, it, expect, beforeEach, afterEach, setSystemTime, spyOn } from 'bun:test';
+import { CompanyService } from '../CompanyService.js';
+import { InMemoryDatabaseAdapter } from '../database/InMemoryDatabaseAdapter.js';
+import { RecordingEventBus } from './helpers/RecordingEventBus.js';
+import { CompanySchema } from '../../models/CompanyModel.js';
+import { InvitationSchema, type InvitationModel } from '../../models/InvitationModel.js';
+import { MembershipRequestSchema, type MembershipRequestModel } from '../../models/MembershipRequestModel.js';
+import { SubscriptionChangeSchema } from '../../models/SubscriptionChangeModel.js';
+import type { IAuthService } from '../../core/interfaces/IAuthService.js';
+import type { IEmailService } from '../../core/interfaces/IEmailService.js';
+import type { Company, User, UserRole } from '../../types/index.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('CompanyService', () => {
+  let db: InMemoryDatabaseAdapter;
+  let eventBus: RecordingEventBus;
+  let users: Map<string, User>;
+  let passwords: Map<string, string>;
+  let inviteTokens: Map<string, string>;
+  let service: CompanyService;
+  let admin: User;
+
+  beforeEach(() => {
+    db = new InMemoryDatabaseAdapter([CompanySchema, InvitationSchema, MembershipRequestSchema, SubscriptionChangeSchema]);
+    eventBus = new RecordingEventBus();
+    users = new Map();
+    passwords = new Map();
+    inviteTokens = new Map();
+
+    const session = { accessToken: 'access', refreshToken: 'refresh', expiresIn: 900 };
+    // Only the calls made by the service are implemented
+    const authService = {
+      getUserById: async (userId: string) => {
+        const user = users.get(userId);
+        if (!user) throw new Error('User not found');
+        return user;
+      },
+      getUserByEmail: async (email: string) => [...users.values()].find(user => user.email === email) ?? null,
+      register: async ({ email, password, name }: { email: string; password: string; name: string }) => {
+        const user = addUser(email, name);
+        passwords.set(email, password);
+        return { user, session };
+      },
+      login: async ({ email, password }: { email: string; password: string }) => {
+        const user = [...users.values()].find(candidate => candidate.email === email);
+        if (!user || passwords.get(email) !== password) throw new Error('Invalid credentials');
+        return { user, session };
+      },
+      assignToCompany: async (userId: string, companyId: string, role: UserRole) => {
+        const user = { ...users.get(userId)!, companyId, role };
+        users.set(userId, user);
+        return user;
+      },
+      removeFromCompany: async (userId: string) => {
+        const user = { ...users.get(userId)!, companyId: undefined, departmentId: undefined, role: 'INDIVIDUAL_USER' as const };
+        users.set(userId, user);
+        return user;
+      },
+    } as unknown as IAuthService;
+
+    const emailService = {
+      sendCompanyInvitationEmail: async (to: string, _companyName: string, _inviterName: string, token: string) => {
+        inviteTokens.set(to, token);
+      },
+    } as unknown as IEmailService;
+
+    service = new CompanyService(db, authService, emailService, eventBus);
+    admin = addUser('admin@acme.com', 'Admin');
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  const addUser = (email: string, name: string, emailVerified = true): User => {
+    const user = {
+      $id: `user-${users.size + 1}`,
+      email,
+      name,
+      role: 'INDIVIDUAL_USER',
+      emailVerified,
+      subscription: { tier: 'free' }
+    } as unknown as User;
+    users.set(user.$id, user);
+    return user;
+  };
+
+  const createCompany = async (maxUsers = 10, currentUsers = 1, settings: Partial<Company['settings']> = {}) => {
+    const now = new Date().toISOString();
+    return await db.create<Company>('companies', {
+      name: 'Acme',
+      domain: 'acme.com',
+      adminId: admin.$id,
+      settings: { allowSelfRegistration: true, requireEmailVerification: false, dataRetentionDays: 365, ...settings },
+      subscription: { tier: 'premium', maxUsers, currentUsers },
+      createdAt: now,
+      updatedAt: now
+    });
+  };
+
+  const readCompany = (companyId: string) => db.read<Company>('companies', companyId);
+
+  it('should store a pending invitation and email its token, once per address', async () => {
+    const company = await createCompany();
+
+    const invitation = await service.inviteUser(company.$id, { email: 'Grace@Acme.com', role: 'COMPANY_MANAGER' }, admin);
+
+    expect(invitation).toMatchObject({ companyId: company.$id, email: 'grace@acme.com', role: 'COMPANY_MANAGER', status: 'pending' });
+    expect(invitation).not.toHaveProperty('tokenHash');
+    expect(inviteTokens.get('grace@acme.com')).toBeDefined();
+
+    await expect(service.inviteUser(company.$id, { email: 'grace@acme.com', role: 'COMPANY_USER' }, admin))
+      .rejects.toMatchObject({ statusCode: 409, code: 'INVITATION_EXISTS' });
+  });
+
+  it('should create the account on acceptance and take up a seat', async () => {
+    const company = await createCompany();
+    const invitation = await service.inviteUser(company.$id, { email: 'grace@acme.com', role: 'COMPANY_MANAGER' }, admin);
+    const token = inviteTokens.get('grace@acme.com')!;
+
+    const result = await service.acceptInvitation(token, { name: 'Grace', password: 'secret-password' });
+
+    expect(result.isNewUser).toBe(true);
+    expect(result.user).toMatchObject({ email: 'grace@acme.com', companyId: company.$id, role: 'COMPANY_MANAGER' });
+    expect((await readCompany(company.$id)).subscription.currentUsers).toBe(2);
+    expect(await db.read<InvitationModel>('invitations', invitation.$id))
+      .toMatchObject({ status: 'accepted', acceptedBy: result.user.$id });
+    eventBus.expectPublished('company.invitation_accepted', { companyId: company.$id, invitationId: invitation.$id });
+
+    await expect(service.acceptInvitation(token, { name: 'Grace', password: 'secret-password' }))
+      .rejects.toMatchObject({ statusCode: 409, code: 'INVITATION_NOT_PENDING' });
+  });
+
+  it('should only link an existing account after it signs in', async () => {
+    const company = await createCompany();
+    const existing = addUser('ada@acme.com', 'Ada');
+    passwords.set('ada@acme.com', 'ada-password');
+    await service.inviteUser(company.$id, { email: 'ada@acme.com', role: 'COMPANY_USER' }, admin);
+    const token = inviteTokens.get('ada@acme.com')!;
+
+    await expect(service.acceptInvitation(token, { name: 'Ada', password: 'wrong-password' }))
+      .rejects.toThrow('Invalid credentials');
+    expect(users.get(existing.$id)?.companyId).toBeUndefined();
+
+    const result = await service.acceptInvitation(token, { name: 'Ada', password: 'ada-password' });
+    expect(result).toMatchObject({ isNewUser: false, user: { $id: existing.$id, companyId: company.$id } });
+  });
+
+  it('should refuse and mark expired invitations', async () => {
+    const company = await createCompany();
+    const invitation = await service.inviteUser(company.$id, { email: 'grace@acme.com', role: 'COMPANY_USER' }, admin);
+
+    setSystemTime(new Date(Date.now() + 8 * 24 * HOUR_MS));
+
+    await expect(service.acceptInvitation(inviteTokens.get('grace@acme.com')!, { name: 'Grace', password: 'secret-password' }))
+      .rejects.toMatchObject({ statusCode: 410, code: 'INVITATION_EXPIRED' });
+    expect((await db.read<InvitationModel>('invitations', invitation.$id)).status).toBe('expired');
+    expect((await readCompany(company.$id)).subscription.currentUsers).toBe(1);
+  });
+
+  it('should give the last seat to only one of two people joining at once', async () => {
+    const company = await createCompany(2, 1);
+    await service.inviteUser(company.$id, { email: 'grace@acme.com', role: 'COMPANY_USER' }, admin);
+    await service.inviteUser(company.$id, { email: 'ada@acme.com', role: 'COMPANY_USER' }, admin);
+
+    const results = await Promise.allSettled([
+      service.acceptInvitation(inviteTokens.get('grace@acme.com')!, { name: 'Grace', password: 'secret-password' }),
+      service.acceptInvitation(inviteTokens.get('ada@acme.com')!, { name: 'Ada', password: 'secret-password' })
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find(result => result.status === 'rejected'))
+      .toMatchObject({ reason: { statusCode: 409, code: 'COMPANY_USER_LIMIT_REACHED' } });
+    expect((await readCompany(company.$id)).subscription.currentUsers).toBe(2);
+
+    await expect(service.inviteUser(company.$id, { email: 'linus@acme.com', role: 'COMPANY_USER' }, admin))
+      .rejects.toMatchObject({ statusCode: 409, code: 'COMPANY_USER_LIMIT_REACHED' });
+  });
+
+  it('should clear membership and free the seat when a user is removed', async () => {
+    const company = await createCompany(2, 1);
+    await service.inviteUser(company.$id, { email: 'grace@acme.com', role: 'COMPANY_USER' }, admin);
+    const { user } = await service.acceptInvitation(inviteTokens.get('grace@acme.com')!, { name: 'Grace', password: 'secret-password' });
+    expect((await readCompany(company.$id)).subscription.currentUsers).toBe(2);
+
+    await service.removeUser(company.$id, user.$id, admin.$id);
+
+    expect(users.get(user.$id)).toMatchObject({ companyId: undefined, role: 'INDIVIDUAL_USER' });
+    expect((await readCompany(company.$id)).subscription.currentUsers).toBe(1);
+    eventBus.expectPublished('company.user_removed', { companyId: company.$id, userId: user.$id, removedBy: admin.$id });
+
+    await expect(service.removeUser(company.$id, user.$id, admin.$id)).rejects.toMatchObject({ statusCode: 404 });
+    expect((await readCompany(company.$id)).subscription.currentUsers).toBe(1);
+
+    await service.inviteUser(company.$id, { email: 'ada@acme.com', role: 'COMPANY_USER' }, admin);
+    expect(inviteTokens.get('ada@acme.com')).toBeDefined();
+  });
+
+  it('should check a subscription change against seats taken while it was made', async () => {
+    const company = await createCompany(10, 1);
+    // Someone joins right after the subscription update read the company
+    const joinAfterRead = () => {
+      const read = db.read.bind(db);
+      spyOn(db, 'read').mockImplementationOnce(async (collection: string, documentId: string) => {
+        const stale = await read<Company>(collection, documentId);
+        const current = await read<Company>(collection, documentId);
+        await db.update<Company>('companies', documentId, {
+          subscription: { ...current.subscription, currentUsers: current.subscription.currentUsers + 1 }
+        });
+        return stale as any;
+      });
+    };
+
+    joinAfterRead();
+    await expect(service.updateSubscription(company.$id, { tier: 'premium', maxUsers: 1 }, admin.$id))
+      .rejects.toMatchObject({ statusCode: 409, code: 'COMPANY_USER_LIMIT_REACHED' });
+    expect((await readCompany(company.$id)).subscription).toMatchObject({ maxUsers: 10, currentUsers: 2 });
+
+    joinAfterRead();
+    const updated = await service.updateSubscription(company.$id, { tier: 'enterprise', maxUsers: 5 }, admin.$id);
+    expect(updated.subscription).toMatchObject({ tier: 'enterprise', maxUsers: 5, currentUsers: 3 });
+  });
+
+  it('should add new users to the company owning their email domain', async () => {
+    const company = await createCompany();
+
+    const matched = await service.assignByEmailDomain(addUser('grace@ACME.com', 'Grace'));
+    expect(matched).toMatchObject({ status: 'assigned', companyId: company.$id, user: { companyId: company.$id, role: 'COMPANY_USER' } });
+    expect((await readCompany(company.$id)).subscription.currentUsers).toBe(2);
+    eventBus.expectPublished('company.user_joined', { companyId: company.$id, addedBy: 'system' });
+
+    expect(await service.assignByEmailDomain(addUser('ada@example.com', 'Ada'))).toMatchObject({ status: 'not_matched' });
+  });
+
+  it('should hold unverified users until they verify their email', async () => {
+    const company = await createCompany(10, 1, { requireEmailVerification: true });
+    const user = addUser('grace@acme.com', 'Grace', false);
+
+    expect(await service.assignByEmailDomain(user)).toMatchObject({ status: 'awaiting_verification', companyId: company.$id });
+    expect(users.get(user.$id)?.companyId).toBeUndefined();
+
+    users.set(user.$id, { ...user, emailVerified: true });
+    expect(await service.completeDomainAssignment(user.$id)).toMatchObject({ status: 'assigned', companyId: company.$id });
+
+    const { requests } = await service.listMembershipRequests(company.$id);
+    expect(requests).toEqual([expect.objectContaining({ userId: user.$id, status: 'approved', reviewedBy: 'system' })]);
+  });
+
+  it('should let an admin approve or reject users waiting for approval', async () => {
+    const company = await createCompany(10, 1, { allowSelfRegistration: false });
+    const grace = addUser('grace@acme.com', 'Grace');
+    const ada = addUser('ada@acme.com', 'Ada');
+
+    expect(await service.assignByEmailDomain(grace)).toMatchObject({ status: 'pending_approval' });
+    expect(await service.assignByEmailDomain(ada)).toMatchObject({ status: 'pending_approval' });
+
+    const { requests, total } = await service.listMembershipRequests(company.$id, { status: 'pending' });
+    expect(total).toBe(2);
+    expect(requests.every(request => request.reason === 'self_registration_disabled')).toBe(true);
+    const requestOf = (userId: string) => requests.find(request => request.userId === userId)!;
+
+    const member = await service.approveMembershipRequest(company.$id, requestOf(grace.$id).$id, admin.$id);
+    expect(member).toMatchObject({ $id: grace.$id, companyId: company.$id, role: 'COMPANY_USER' });
+    expect(await db.read<MembershipRequestModel>('membership_requests', requestOf(grace.$id).$id))
+      .toMatchObject({ status: 'approved', reviewedBy: admin.$id });
+    await expect(service.approveMembershipRequest(company.$id, requestOf(grace.$id).$id, admin.$id))
+      .rejects.toMatchObject({ statusCode: 409 });
+
+    await service.rejectMembershipRequest(company.$id, requestOf(ada.$id).$id, admin.$id);
+    expect(await db.read<MembershipRequestModel>('membership_requests', requestOf(ada.$id).$id))
+      .toMatchObject({ status: 'rejected', reviewedBy: admin.$id });
+    expect(users.get(ada.$id)?.companyId).toBeUndefined();
+    expect((await readCompany(company.$id)).subscription.currentUsers).toBe(2);
+  });
+});
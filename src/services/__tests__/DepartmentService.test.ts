@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { DepartmentService } from '../DepartmentService.js';
+import { InMemoryDatabaseAdapter } from '../database/InMemoryDatabaseAdapter.js';
+import { DepartmentSchema } from '../../models/DepartmentModel.js';
+import type { IAuthService } from '../../core/interfaces/IAuthService.js';
+import type { User, UserRole } from '../../types/index.js';
+
+describe('DepartmentService', () => {
+  let users: Map<string, User>;
+  let service: DepartmentService;
+
+  beforeEach(() => {
+    users = new Map();
+
+    // Membership lives in the auth service, only the calls made by the service are implemented
+    const authService = {
+      getUserById: async (userId: string) => {
+        const user = users.get(userId);
+        if (!user) throw new Error('User not found');
+        return user;
+      },
+      listUsers: async ({ companyId }: { companyId?: string } = {}) =>
+        [...users.values()].filter(user => user.companyId === companyId),
+      setUserDepartment: async (userId: string, departmentId: string | null) => {
+        const user = { ...users.get(userId)!, departmentId: departmentId ?? undefined };
+        users.set(userId, user);
+        return user;
+      },
+    } as unknown as IAuthService;
+
+    service = new DepartmentService(new InMemoryDatabaseAdapter([DepartmentSchema]), authService);
+  });
+
+  const addUser = (id: string, role: UserRole, departmentId?: string) => {
+    const user = { $id: id, email: `${id}@acme.com`, name: id, role, companyId: 'company-1', departmentId } as unknown as User;
+    users.set(id, user);
+    return user;
+  };
+
+  it('should only let managers take company users without a department', async () => {
+    const manager = addUser('manager', 'COMPANY_MANAGER');
+    const admin = addUser('admin', 'COMPANY_ADMIN');
+    const sales = await service.createDepartment('company-1', { name: 'Sales', managerIds: [manager.$id] });
+    const support = await service.createDepartment('company-1', { name: 'Support' });
+    addUser('newcomer', 'COMPANY_USER');
+    addUser('supporter', 'COMPANY_USER', support.$id);
+
+    await expect(service.addMember('company-1', sales.$id, 'supporter', manager))
+      .rejects.toMatchObject({ statusCode: 403, code: 'DEPARTMENT_MEMBER_NOT_ASSIGNABLE' });
+    await expect(service.addMember('company-1', sales.$id, admin.$id, manager))
+      .rejects.toMatchObject({ statusCode: 403 });
+    expect(users.get('supporter')?.departmentId).toBe(support.$id);
+    expect(users.get(admin.$id)?.departmentId).toBeUndefined();
+
+    expect(await service.addMember('company-1', sales.$id, 'newcomer', manager)).toMatchObject({ departmentId: sales.$id });
+    expect(await service.addMember('company-1', sales.$id, 'supporter', admin)).toMatchObject({ departmentId: sales.$id });
+  });
+
+  it('should only let managers remove company users', async () => {
+    const manager = addUser('manager', 'COMPANY_MANAGER');
+    const admin = addUser('admin', 'COMPANY_ADMIN');
+    const sales = await service.createDepartment('company-1', { name: 'Sales', managerIds: [manager.$id] });
+    addUser('colleague', 'COMPANY_MANAGER', sales.$id);
+    addUser('seller', 'COMPANY_USER', sales.$id);
+
+    await expect(service.removeMember('company-1', sales.$id, 'colleague', manager))
+      .rejects.toMatchObject({ statusCode: 403, code: 'DEPARTMENT_MEMBER_NOT_ASSIGNABLE' });
+
+    await service.removeMember('company-1', sales.$id, 'seller', manager);
+    await service.removeMember('company-1', sales.$id, 'colleague', admin);
+    expect(await service.listMembers('company-1', sales.$id)).toEqual([]);
+  });
+});
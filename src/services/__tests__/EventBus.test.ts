@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { EventBus } from '../EventBus.js';
+import { RecordingEventBus } from './helpers/RecordingEventBus.js';
+
+const deleted = { journalId: 'j1', deletedBy: 'u1' };
+
+describe('EventBus', () => {
+  let bus: EventBus;
+
+  beforeEach(() => {
+    bus = new EventBus();
+  });
+
+  it('should finish sync subscribers in order before publish returns', async () => {
+    const calls: string[] = [];
+    bus.subscribe('journal.deleted', async () => {
+      await Promise.resolve();
+      calls.push('first');
+    });
+    bus.subscribe('journal.deleted', event => {
+      calls.push(`second:${event.payload.journalId}`);
+    });
+
+    await bus.publish('journal.deleted', deleted);
+
+    expect(calls).toEqual(['first', 'second:j1']);
+  });
+
+  it('should run async subscribers after publish returns', async () => {
+    const calls: string[] = [];
+    bus.subscribe('journal.deleted', () => {
+      calls.push('async');
+    }, { mode: 'async' });
+
+    await bus.publish('journal.deleted', deleted);
+    expect(calls).toEqual([]);
+
+    await bus.drain();
+    expect(calls).toEqual(['async']);
+  });
+
+  it('should keep delivering when a subscriber throws', async () => {
+    const calls: string[] = [];
+    bus.subscribe('journal.deleted', () => {
+      throw new Error('boom');
+    });
+    bus.subscribe('journal.deleted', async () => {
+      throw new Error('async boom');
+    }, { mode: 'async' });
+    bus.subscribe('journal.deleted', () => {
+      calls.push('after');
+    });
+
+    await bus.publish('journal.deleted', deleted);
+    await bus.drain();
+
+    expect(calls).toEqual(['after']);
+  });
+
+  it('should only deliver to subscribers of the published event', async () => {
+    const calls: string[] = [];
+    const unsubscribe = bus.subscribe('journal.deleted', () => {
+      calls.push('journal');
+    });
+    bus.subscribe('mood.deleted', () => {
+      calls.push('mood');
+    });
+
+    await bus.publish('mood.deleted', { moodId: 'm1', deletedBy: 'u1' });
+    unsubscribe();
+    await bus.publish('journal.deleted', deleted);
+
+    expect(calls).toEqual(['mood']);
+  });
+
+  it('should record published events for assertions', async () => {
+    const recorder = new RecordingEventBus();
+    const calls: string[] = [];
+    recorder.subscribe('journal.deleted', () => {
+      calls.push('delivered');
+    });
+
+    await recorder.publish('journal.deleted', deleted);
+
+    recorder.expectPublished('journal.deleted', { journalId: 'j1' });
+    recorder.expectNotPublished('mood.deleted');
+    expect(recorder.published('journal.deleted')).toEqual([deleted]);
+    expect(calls).toEqual(['delivered']);
+  });
+});
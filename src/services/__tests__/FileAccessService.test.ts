@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileAccessService } from '../FileAccessService.js';
+import { LocalStorageAdapter } from '../storage/LocalStorageAdapter.js';
+
+describe('FileAccessService', () => {
+  let root: string;
+  let storage: LocalStorageAdapter;
+  let service: FileAccessService;
+  const content = Buffer.from('0123456789');
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mindspace-files-'));
+    storage = new LocalStorageAdapter(root, { publicUrl: 'http://localhost:4000/api/v1/storage' });
+    service = new FileAccessService(storage, {
+      secret: 'test-secret',
+      baseUrl: 'http://localhost:4000/api/v1/files',
+      ttlSeconds: 300
+    });
+
+    await storage.createBucket('user-u1', 'Attachments');
+    await storage.uploadFile('user-u1', 'memo', new File([content], 'memo.ogg', { type: 'audio/ogg' }));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  // Open the file behind a signed URL the way the file route does
+  const open = async (url: string, range?: string, now?: Date) => {
+    const { pathname, searchParams } = new URL(url);
+    return await service.openSignedFile({
+      bucketId: searchParams.get('bucketId')!,
+      fileId: decodeURIComponent(pathname.split('/').pop()!),
+      expires: Number(searchParams.get('expires'))
+    }, searchParams.get('signature')!, range, now);
+  };
+
+  const read = async (opened: Awaited<ReturnType<typeof open>>) =>
+    'stream' in opened ? Buffer.from(await new Response(opened.stream).arrayBuffer()).toString() : null;
+
+  it('should serve a file through its signed URL', async () => {
+    const now = new Date();
+    const { url, expiresAt } = await service.createSignedUrl('user-u1', 'memo', {}, now);
+
+    expect(new Date(expiresAt).getTime() - now.getTime()).toBeGreaterThan(299_000);
+    const opened = await open(url);
+    expect(opened.range).toBeNull();
+    expect(await read(opened)).toBe('0123456789');
+  });
+
+  it('should serve byte ranges', async () => {
+    const { url } = await service.createSignedUrl('user-u1', 'memo');
+
+    const opened = await open(url, 'bytes=2-5');
+    expect(opened.range).toEqual({ start: 2, end: 5 });
+    expect(await read(opened)).toBe('2345');
+
+    expect((await open(url, 'bytes=10-')).range).toBe('unsatisfiable');
+  });
+
+  it('should reject expired and tampered links', async () => {
+    const { url } = await service.createSignedUrl('user-u1', 'memo');
+
+    await expect(open(url, undefined, new Date(Date.now() + 301_000)))
+      .rejects.toMatchObject({ statusCode: 403, code: 'SIGNED_URL_EXPIRED' });
+    await expect(open(url.replace('user-u1', 'user-u2')))
+      .rejects.toMatchObject({ statusCode: 403, code: 'INVALID_SIGNATURE' });
+  });
+
+  it('should not sign links to missing files or renditions', async () => {
+    await expect(service.createSignedUrl('user-u1', 'missing')).rejects.toMatchObject({ statusCode: 404 });
+    await expect(service.createSignedUrl('user-u1', 'memo', { rendition: 'thumbnail' }))
+      .rejects.toMatchObject({ code: 'RENDITION_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { IdempotencyService } from '../IdempotencyService.js';
+import { JobQueueService } from '../JobQueueService.js';
+import { InMemoryDatabaseAdapter } from '../database/InMemoryDatabaseAdapter.js';
+import { JobSchema } from '../../models/JobModel.js';
+import { IdempotencyKeySchema, type IdempotencyKeyModel } from '../../models/IdempotencyKeyModel.js';
+
+const response = { status: 201, headers: { 'Content-Type': 'application/json', ETag: '"v1"' }, body: '{"success":true}' };
+
+describe('IdempotencyService', () => {
+  let db: InMemoryDatabaseAdapter;
+  let queue: JobQueueService;
+  let service: IdempotencyService;
+  const now = new Date('2026-01-05T08:00:00.000Z');
+  const minutesLater = (minutes: number) => new Date(now.getTime() + minutes * 60 * 1000);
+
+  beforeEach(() => {
+    db = new InMemoryDatabaseAdapter([JobSchema, IdempotencyKeySchema]);
+    queue = new JobQueueService(db);
+    service = new IdempotencyService(db, queue, { ttlMs: 60 * 60 * 1000, processingTimeoutMs: 60 * 1000 });
+  });
+
+  it('should replay the first response to a retry with the same request', async () => {
+    const claim = await service.begin('user-1', 'key-1', 'hash-a', now);
+    expect(claim.replay).toBe(false);
+    await service.complete((claim as { recordId: string }).recordId, response);
+
+    expect(await service.begin('user-1', 'key-1', 'hash-a', minutesLater(5))).toEqual({ replay: true, response });
+  });
+
+  it('should scope keys to the user', async () => {
+    await service.begin('user-1', 'key-1', 'hash-a', now);
+
+    expect((await service.begin('user-2', 'key-1', 'hash-a', now)).replay).toBe(false);
+  });
+
+  it('should reject a key reused for a different request', async () => {
+    const claim = await service.begin('user-1', 'key-1', 'hash-a', now);
+    await service.complete((claim as { recordId: string }).recordId, response);
+
+    await expect(service.begin('user-1', 'key-1', 'hash-b', minutesLater(5))).rejects.toThrow('different request');
+  });
+
+  it('should reject retries while the first request is processing, until it is abandoned', async () => {
+    await service.begin('user-1', 'key-1', 'hash-a', now);
+
+    await expect(service.begin('user-1', 'key-1', 'hash-a', minutesLater(0.5))).rejects.toThrow('still being processed');
+    expect((await service.begin('user-1', 'key-1', 'hash-a', minutesLater(2))).replay).toBe(false);
+  });
+
+  it('should let released and expired keys run again', async () => {
+    const claim = await service.begin('user-1', 'key-1', 'hash-a', now);
+    await service.release((claim as { recordId: string }).recordId);
+    const retry = await service.begin('user-1', 'key-1', 'hash-a', now);
+    await service.complete((retry as { recordId: string }).recordId, response);
+
+    expect((await service.begin('user-1', 'key-1', 'hash-b', minutesLater(61))).replay).toBe(false);
+  });
+
+  it('should purge expired keys and schedule the next purge once', async () => {
+    await service.begin('user-1', 'old', 'hash-a', now);
+    await service.begin('user-1', 'new', 'hash-a', minutesLater(30));
+
+    expect(await service.purgeExpired(minutesLater(60))).toBe(1);
+    const remaining = await db.list<IdempotencyKeyModel>('idempotency_keys');
+    expect(remaining.documents.map(record => record.key)).toEqual(['new']);
+
+    await service.schedulePurge(now);
+    await service.schedulePurge(now);
+    const { jobs } = await queue.listJobs({ type: 'idempotency.purge' });
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]!.runAt).toBe(minutesLater(60).toISOString());
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { InMemoryDatabaseAdapter } from '../database/InMemoryDatabaseAdapter.js';
+import type { DatabaseListOptions } from '../../core/interfaces/IDatabaseService.js';
+
+const schemas = [
+  {
+    name: 'departments',
+    attributes: [
+      { key: 'companyId', type: 'string', size: 36, required: true },
+      { key: 'name', type: 'string', size: 100, required: true }
+    ],
+    indexes: [
+      { key: 'company_name_unique', type: 'unique', attributes: ['companyId', 'name'] }
+    ]
+  }
+];
+
+describe('InMemoryDatabaseAdapter', () => {
+  let db: InMemoryDatabaseAdapter;
+
+  beforeEach(async () => {
+    db = new InMemoryDatabaseAdapter(schemas);
+
+    await db.batchCreate('moods', [
+      { userId: 'a', intensity: 3, current: 'sad', timestamp: '2024-01-01T00:00:00.000Z', triggers: ['work'] },
+      { userId: 'b', intensity: 7, current: 'happy', timestamp: '2024-01-05T00:00:00.000Z', triggers: ['family', 'sleep'] },
+      { userId: 'c', intensity: 9, current: 'happy', timestamp: '2024-01-10T00:00:00.000Z', notes: 'Great morning run' }
+    ]);
+  });
+
+  const userIds = async (queries: any[], options?: DatabaseListOptions) =>
+    (await db.list<any>('moods', queries, options)).documents.map(doc => doc.userId);
+
+  describe('CRUD', () => {
+    it('should assign system attributes and return copies', async () => {
+      const created = await db.create<any>('moods', { userId: 'd', intensity: 5 });
+      expect(created.$id).toHaveLength(20);
+      expect(created.$createdAt).toBe(created.$updatedAt);
+
+      created.intensity = 1;
+      expect((await db.read<any>('moods', created.$id)).intensity).toBe(5);
+    });
+
+    it('should update fields without touching system attributes', async () => {
+      const [first] = (await db.list<any>('moods')).documents;
+      const updated = await db.update<any>('moods', first.$id, { intensity: 4, $id: 'hijacked' });
+
+      expect(updated.$id).toBe(first.$id);
+      expect(updated.intensity).toBe(4);
+      expect(updated.userId).toBe('a');
+    });
+
+    it('should reject updates against a stale version', async () => {
+      const [first] = (await db.list<any>('moods')).documents;
+      const updated = await db.update<any>('moods', first.$id, { intensity: 4 }, { expectedVersion: first.$updatedAt });
+      expect(updated.$updatedAt > first.$updatedAt).toBe(true);
+
+      await expect(db.update('moods', first.$id, { intensity: 5 }, { expectedVersion: first.$updatedAt }))
+        .rejects.toThrow('Document was modified since it was read');
+      expect((await db.read<any>('moods', first.$id)).intensity).toBe(4);
+    });
+
+    it('should report missing documents like the Appwrite adapter', async () => {
+      await expect(db.read('moods', 'missing')).rejects.toThrow('Document not found: missing');
+      expect(await db.exists('moods', 'missing')).toBe(false);
+    });
+  });
+
+  describe('queries', () => {
+    it('should support comparison and list operators', async () => {
+      expect(await userIds([{ field: 'userId', operator: 'equal', value: ['a', 'c'] }])).toEqual(['a', 'c']);
+      expect(await userIds([{ field: 'current', operator: 'notEqual', value: 'happy' }])).toEqual(['a']);
+      expect(await userIds([{ field: 'intensity', operator: 'greater', value: 5 }])).toEqual(['b', 'c']);
+      expect(await userIds([{ field: 'intensity', operator: 'lessEqual', value: 7 }])).toEqual(['a', 'b']);
+      expect(await userIds([{ field: 'intensity', operator: 'between', value: [4, 8] }])).toEqual(['b']);
+      expect(await userIds([
+        { field: 'timestamp', operator: 'greaterEqual', value: '2024-01-05T00:00:00.000Z' },
+        { field: 'current', operator: 'equal', value: 'happy' }
+      ])).toEqual(['b', 'c']);
+    });
+
+    it('should support array, text and null operators', async () => {
+      expect(await userIds([{ field: 'triggers', operator: 'contains', value: 'sleep' }])).toEqual(['b']);
+      expect(await userIds([{ field: 'triggers', operator: 'equal', value: 'work' }])).toEqual(['a']);
+      expect(await userIds([{ field: 'notes', operator: 'isNull', value: null }])).toEqual(['a', 'b']);
+      expect(await userIds([{ field: 'notes', operator: 'isNotNull', value: null }])).toEqual(['c']);
+      expect(await userIds([{ field: 'notes', operator: 'startsWith', value: 'Great' }])).toEqual(['c']);
+      expect(await userIds([{ field: 'notes', operator: 'endsWith', value: 'run' }])).toEqual(['c']);
+      expect(await userIds([{ field: 'notes', operator: 'search', value: 'morn' }])).toEqual(['c']);
+      expect(await userIds([{ field: 'notes', operator: 'search', value: 'orning' }])).toEqual([]);
+    });
+
+    it('should cap list pages at 25 but report the full total', async () => {
+      await db.batchCreate('moods', Array.from({ length: 30 }, () => ({ userId: 'bulk' })));
+
+      const result = await db.list('moods', [{ field: 'userId', operator: 'equal', value: 'bulk' }]);
+      expect(result.documents).toHaveLength(25);
+      expect(result.total).toBe(30);
+      expect(await db.count('moods')).toBe(33);
+    });
+
+    it('should order and page with offsets or cursors', async () => {
+      const byIntensity: DatabaseListOptions = { orderBy: [{ field: 'intensity', direction: 'desc' }] };
+      expect(await userIds([], { ...byIntensity, limit: 2 })).toEqual(['c', 'b']);
+      expect(await userIds([], { ...byIntensity, offset: 1 })).toEqual(['b', 'a']);
+
+      const page = await db.list<any>('moods', [], { ...byIntensity, limit: 1, offset: 1 });
+      expect(page.total).toBe(3);
+      const [second] = page.documents;
+      expect(await userIds([], { ...byIntensity, cursorAfter: second.$id })).toEqual(['a']);
+      expect(await userIds([], { ...byIntensity, cursorBefore: second.$id })).toEqual(['c']);
+      await expect(db.list('moods', [], { cursorAfter: 'missing' })).rejects.toThrow('Cursor document not found: missing');
+    });
+
+    it('should search across several fields', async () => {
+      await db.create('journals', { title: 'Holiday', content: 'Sunny beach' });
+      await db.create('journals', { title: 'Work', content: 'Long meeting' });
+
+      const result = await db.search<any>('journals', 'beach', ['title', 'content']);
+      expect(result.documents.map(doc => doc.title)).toEqual(['Holiday']);
+    });
+  });
+
+  describe('indexes and transactions', () => {
+    it('should enforce unique indexes from the schemas', async () => {
+      await db.create('departments', { companyId: 'c1', name: 'Sales' });
+      await db.create('departments', { companyId: 'c2', name: 'Sales' });
+
+      await expect(db.create('departments', { companyId: 'c1', name: 'Sales' })).rejects.toThrow('Resource already exists');
+      expect((await db.listIndexes('departments')).map(index => index.key)).toEqual(['company_name_unique']);
+    });
+
+    it('should refuse a unique index that existing documents already violate', async () => {
+      await expect(db.createIndex('moods', 'current_unique', 'unique', ['current'])).rejects.toThrow('Resource already exists');
+      await db.createIndex('moods', 'user_unique', 'unique', ['userId']);
+      expect((await db.listIndexes('moods')).map(index => index.key)).toEqual(['user_unique']);
+    });
+
+    it('should roll back every operation when a transaction fails', async () => {
+      const [first] = (await db.list<any>('moods')).documents;
+
+      await expect(db.transaction([
+        { type: 'update', collection: 'moods', documentId: first.$id, data: { intensity: 1 } },
+        { type: 'create', collection: 'moods', data: { userId: 'e' } },
+        { type: 'delete', collection: 'moods', documentId: 'missing' }
+      ])).rejects.toThrow('Transaction failed');
+
+      expect((await db.read<any>('moods', first.$id)).intensity).toBe(3);
+      expect(await db.count('moods')).toBe(3);
+    });
+
+    it('should manage collections', async () => {
+      await db.createCollection('audit', 'Audit');
+      await expect(db.createCollection('audit', 'Audit')).rejects.toThrow('Resource already exists');
+      expect((await db.listCollections()).map(collection => collection.$id)).toContain('audit');
+
+      await db.deleteCollection('audit');
+      expect((await db.listCollections()).map(collection => collection.$id)).not.toContain('audit');
+    });
+  });
+});
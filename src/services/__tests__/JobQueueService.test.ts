@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { JobQueueService } from '../JobQueueService.js';
+import { InMemoryDatabaseAdapter } from '../database/InMemoryDatabaseAdapter.js';
+import { JobSchema, type JobModel } from '../../models/JobModel.js';
+
+const payload = { email: 'ada@example.com', name: 'Ada' };
+
+describe('JobQueueService', () => {
+  let db: InMemoryDatabaseAdapter;
+  let queue: JobQueueService;
+  let now: Date;
+
+  beforeEach(() => {
+    db = new InMemoryDatabaseAdapter([JobSchema]);
+    queue = new JobQueueService(db, { maxAttempts: 3, retryBaseDelayMs: 1000, lockTimeoutMs: 60_000, concurrency: 2 });
+    // A little ahead, so jobs enqueued during the test are due
+    now = new Date(Date.now() + 1000);
+  });
+
+  const readJob = (id: string) => db.read<JobModel>('jobs', id);
+
+  it('should run due jobs once and leave future jobs queued', async () => {
+    const received: unknown[] = [];
+    queue.registerHandler('email.welcome', async data => {
+      received.push(data);
+    });
+
+    const due = await queue.enqueue('email.welcome', payload);
+    const later = await queue.enqueue('email.welcome', payload, { runAt: new Date(now.getTime() + 60_000) });
+
+    expect(await queue.processDueJobs(now)).toBe(1);
+    expect(await queue.processDueJobs(now)).toBe(0);
+
+    expect(received).toEqual([payload]);
+    expect(await readJob(due.$id)).toMatchObject({ status: 'completed', attempts: 1, completedAt: now.toISOString() });
+    expect((await readJob(later.$id)).status).toBe('pending');
+  });
+
+  it('should back off exponentially and move exhausted jobs to the dead letter state', async () => {
+    queue.registerHandler('email.welcome', async () => {
+      throw new Error('SMTP down');
+    });
+    const job = await queue.enqueue('email.welcome', payload);
+
+    await queue.processDueJobs(now);
+    expect(await readJob(job.$id)).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      lastError: 'SMTP down',
+      runAt: new Date(now.getTime() + 1000).toISOString()
+    });
+
+    await queue.processDueJobs(new Date(now.getTime() + 1000));
+    expect((await readJob(job.$id)).runAt).toBe(new Date(now.getTime() + 3000).toISOString());
+
+    await queue.processDueJobs(new Date(now.getTime() + 3000));
+    expect(await readJob(job.$id)).toMatchObject({ status: 'dead', attempts: 3, lastError: 'SMTP down' });
+  });
+
+  it('should fail jobs without a registered handler', async () => {
+    const job = await queue.enqueue('email.welcome', payload);
+
+    await queue.processDueJobs(now);
+
+    expect((await readJob(job.$id)).lastError).toBe('No handler registered for job type email.welcome');
+  });
+
+  it('should not run more jobs at once than the concurrency limit', async () => {
+    let running = 0;
+    let peak = 0;
+    queue.registerHandler('email.welcome', async () => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    });
+    for (let i = 0; i < 5; i++) {
+      await queue.enqueue('email.welcome', payload);
+    }
+
+    expect(await queue.processDueJobs(now)).toBe(5);
+    expect(peak).toBe(2);
+  });
+
+  it('should run a job only once when two workers race for it', async () => {
+    const other = new JobQueueService(db);
+    let runs = 0;
+    const handler = async () => {
+      runs++;
+    };
+    queue.registerHandler('email.welcome', handler);
+    other.registerHandler('email.welcome', handler);
+    await queue.enqueue('email.welcome', payload);
+
+    const completed = await Promise.all([queue.processDueJobs(now), other.processDueJobs(now)]);
+
+    expect(runs).toBe(1);
+    expect(completed[0] + completed[1]).toBe(1);
+  });
+
+  it('should pick up running jobs whose lock expired', async () => {
+    queue.registerHandler('email.welcome', async () => undefined);
+    const job = await queue.enqueue('email.welcome', payload);
+    await db.update<JobModel>('jobs', job.$id, {
+      status: 'running',
+      attempts: 1,
+      lockedUntil: new Date(now.getTime() - 1).toISOString()
+    });
+
+    expect(await queue.processDueJobs(now)).toBe(1);
+    expect(await readJob(job.$id)).toMatchObject({ status: 'completed', attempts: 2 });
+  });
+
+  it('should leave a job to the worker that took it over after the lock expired', async () => {
+    const job = await queue.enqueue('email.welcome', payload);
+    queue.registerHandler('email.welcome', async () => {
+      // Another worker claims the job while this one is still running it
+      await db.update<JobModel>('jobs', job.$id, { attempts: 2, lockedUntil: new Date(now.getTime() + 60_000).toISOString() });
+    });
+
+    expect(await queue.processDueJobs(now)).toBe(0);
+    expect(await readJob(job.$id)).toMatchObject({ status: 'running', attempts: 2 });
+  });
+
+  it('should only cancel pending jobs and only retry dead or cancelled ones', async () => {
+    const job = await queue.enqueue('email.welcome', payload);
+
+    await expect(queue.retryJob(job.$id)).rejects.toThrow('Only dead or cancelled jobs can be retried');
+    expect((await queue.cancelJob(job.$id)).status).toBe('cancelled');
+    await expect(queue.cancelJob(job.$id)).rejects.toThrow('Only pending jobs can be cancelled');
+
+    expect(await queue.retryJob(job.$id)).toMatchObject({ status: 'pending', attempts: 0 });
+  });
+
+  it('should list jobs filtered by status', async () => {
+    const job = await queue.enqueue('email.welcome', payload);
+    await queue.enqueue('email.welcome', payload);
+    await queue.cancelJob(job.$id);
+
+    const result = await queue.listJobs({ status: 'cancelled' });
+
+    expect(result.jobs.map(candidate => candidate.$id)).toEqual([job.$id]);
+    expect(result.total).toBe(1);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+import { JournalAttachmentService } from '../JournalAttachmentService.js';
+import { LocalStorageAdapter } from '../storage/LocalStorageAdapter.js';
+import { InMemoryDatabaseAdapter } from '../database/InMemoryDatabaseAdapter.js';
+import { JournalSchema } from '../../models/JournalModel.js';
+
+const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const OGG = [0x4f, 0x67, 0x67, 0x53];
+
+describe('JournalAttachmentService', () => {
+  let root: string;
+  let storage: LocalStorageAdapter;
+  let db: InMemoryDatabaseAdapter;
+  let service: JournalAttachmentService;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mindspace-attachments-'));
+    storage = new LocalStorageAdapter(root, { publicUrl: 'http://localhost:4000/api/v1/storage' });
+    db = new InMemoryDatabaseAdapter([JournalSchema]);
+    service = new JournalAttachmentService(storage, db, {
+      maxFileSize: 100_000,
+      allowedImageTypes: ['image/jpeg', 'image/png'],
+      allowedAudioTypes: ['audio/ogg']
+    });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const file = (signature: number[], name = 'upload', type = 'application/octet-stream', size = 64) =>
+    new File([new Uint8Array([...signature, ...new Array(size - signature.length).fill(0)])], name, { type });
+
+  const photo = async (width = 2000, height = 1000) => new File([
+    await sharp({ create: { width, height, channels: 3, background: '#88aa44' } })
+      .jpeg()
+      .withMetadata({ orientation: 6, exif: { IFD0: { Make: 'PhoneCam' } } })
+      .toBuffer()
+  ], 'sunset.jpg', { type: 'image/jpeg' });
+
+  it('should store uploads in a private bucket of their owner', async () => {
+    const attachment = await service.upload('user-1', 'audio', file(OGG, 'memo.ogg'));
+
+    expect(attachment).toMatchObject({ kind: 'audio', name: 'memo.ogg', mimeType: 'audio/ogg', size: 64 });
+    expect(attachment.renditions).toBeUndefined();
+    expect(await storage.getBucket('user-user-1')).toMatchObject({ fileSecurity: true });
+
+    const stored = await storage.getFile('user-user-1', attachment.fileId);
+    expect(stored.$permissions).toEqual(['read("user:user-1")', 'update("user:user-1")', 'delete("user:user-1")']);
+  });
+
+  it('should store photos upright as WebP without metadata, with renditions', async () => {
+    const attachment = await service.upload('user-1', 'image', await photo());
+
+    expect(attachment).toMatchObject({ bucketId: 'user-user-1', name: 'sunset.webp', mimeType: 'image/webp' });
+    expect(attachment.renditions?.map(rendition => rendition.fileId))
+      .toEqual([`${attachment.fileId}_thumbnail`, `${attachment.fileId}_medium`]);
+
+    const original = await sharp(await storage.getFileDownload('user-user-1', attachment.fileId)).metadata();
+    expect(original).toMatchObject({ format: 'webp', width: 1000, height: 2000 });
+    expect(original.exif).toBeUndefined();
+    expect(original.orientation).toBeUndefined();
+
+    const stored = await storage.getFile('user-user-1', attachment.fileId);
+    expect(stored.renditions?.map(rendition => rendition.name)).toEqual(['thumbnail', 'medium']);
+
+    const thumbnail = await sharp(await storage.getFilePreview('user-user-1', attachment.fileId, { rendition: 'thumbnail' })).metadata();
+    expect(thumbnail).toMatchObject({ format: 'webp', width: 160, height: 320 });
+  });
+
+  it('should judge the type by content rather than the declared type', async () => {
+    await expect(service.upload('user-1', 'image', file([0x3c, 0x73, 0x76, 0x67], 'x.png', 'image/png')))
+      .rejects.toMatchObject({ statusCode: 415, code: 'INVALID_FILE_TYPE' });
+    await expect(service.upload('user-1', 'audio', file(PNG, 'x.ogg', 'audio/ogg')))
+      .rejects.toMatchObject({ statusCode: 415 });
+    // A valid signature in front of garbage is still not an image
+    await expect(service.upload('user-1', 'image', file(PNG, 'broken.png', 'image/png')))
+      .rejects.toMatchObject({ statusCode: 415 });
+  });
+
+  it('should reject files over the size limit', async () => {
+    await expect(service.upload('user-1', 'image', file(PNG, 'big.png', 'image/png', 200_000)))
+      .rejects.toMatchObject({ statusCode: 413, code: 'FILE_TOO_LARGE' });
+  });
+
+  it('should only accept attachments the user uploaded', async () => {
+    const image = await service.upload('user-1', 'image', await photo(40, 40));
+    const recording = await service.upload('user-1', 'audio', file(OGG));
+
+    await service.validateAttachments('user-1', { images: [image.fileId], voiceRecording: recording.fileId });
+    await expect(service.validateAttachments('user-2', { images: [image.fileId] }))
+      .rejects.toMatchObject({ code: 'INVALID_ATTACHMENT' });
+    await expect(service.validateAttachments('user-1', { images: [recording.fileId] }))
+      .rejects.toMatchObject({ code: 'INVALID_ATTACHMENT' });
+    await expect(service.validateAttachments('user-1', { images: [`${image.fileId}_thumbnail`] }))
+      .rejects.toMatchObject({ code: 'INVALID_ATTACHMENT' });
+    await expect(service.validateAttachments('user-1', { images: ['https://cdn.example.com/photo.jpg'] }))
+      .rejects.toMatchObject({ code: 'INVALID_ATTACHMENT' });
+  });
+
+  it('should not attach a file to a second entry', async () => {
+    const image = await service.upload('user-1', 'image', await photo(40, 40));
+    const recording = await service.upload('user-1', 'audio', file(OGG));
+
+    await expect(service.validateAttachments('user-1', { images: [image.fileId, image.fileId] }))
+      .rejects.toMatchObject({ code: 'ATTACHMENT_IN_USE' });
+
+    await db.create('journals', { userId: 'user-1', attachmentImages: [image.fileId], attachmentVoiceRecording: recording.fileId });
+    await expect(service.validateAttachments('user-1', { images: [image.fileId] }))
+      .rejects.toMatchObject({ statusCode: 400, code: 'ATTACHMENT_IN_USE' });
+    await expect(service.validateAttachments('user-1', { voiceRecording: recording.fileId }))
+      .rejects.toMatchObject({ code: 'ATTACHMENT_IN_USE' });
+  });
+
+  it('should keep files another entry still refers to', async () => {
+    const image = await service.upload('user-1', 'image', await photo(40, 40));
+    await db.create('journals', { userId: 'user-1', attachmentImages: [image.fileId] });
+
+    await service.deleteFiles('user-1', [image.fileId]);
+
+    expect(await storage.getFile('user-user-1', image.fileId)).toMatchObject({ $id: image.fileId });
+  });
+
+  it('should delete files with their renditions and skip the ones already gone', async () => {
+    const image = await service.upload('user-1', 'image', await photo(40, 40));
+
+    await service.deleteFiles('user-1', ['missing', 'https://cdn.example.com/photo.jpg', image.fileId]);
+
+    expect(await storage.getBucketUsage('user-user-1')).toEqual({ total: 0, file: 0 });
+  });
+});
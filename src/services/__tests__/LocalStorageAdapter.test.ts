@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+import { LocalStorageAdapter } from '../storage/LocalStorageAdapter.js';
+
+describe('LocalStorageAdapter', () => {
+  let root: string;
+  let storage: LocalStorageAdapter;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mindspace-storage-'));
+    storage = new LocalStorageAdapter(root, { publicUrl: 'http://localhost:4000/api/v1/storage' });
+    await storage.createBucket('photos', 'Photos', [], { maximumFileSize: 100_000 });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const image = (width: number, height: number) =>
+    sharp({ create: { width, height, channels: 3, background: '#3366cc' } }).png().toBuffer();
+
+  it('should store files and read them back', async () => {
+    const content = Buffer.from('hello');
+    const file = await storage.uploadFile('photos', 'note-1', new File([content], 'note.txt', { type: 'text/plain' }), ['read("user:u1")']);
+
+    expect(file).toMatchObject({ $id: 'note-1', bucketId: 'photos', name: 'note.txt', mimeType: 'text/plain', sizeOriginal: 5 });
+    expect(await storage.getFile('photos', 'note-1')).toEqual(file);
+    expect((await storage.getFileDownload('photos', 'note-1')).toString()).toBe('hello');
+
+    const renamed = await storage.updateFile('photos', 'note-1', 'renamed.txt');
+    expect(renamed).toMatchObject({ name: 'renamed.txt', $permissions: ['read("user:u1")'] });
+
+    await storage.deleteFile('photos', 'note-1');
+    await expect(storage.getFile('photos', 'note-1')).rejects.toThrow('not found');
+  });
+
+  it('should detect the type of buffers and enforce bucket limits', async () => {
+    const png = await storage.uploadFile('photos', 'pic', await image(4, 4));
+    expect(png.mimeType).toBe('image/png');
+
+    await expect(storage.uploadFile('photos', 'pic', Buffer.from('again'))).rejects.toThrow('already exists');
+    await expect(storage.uploadFile('photos', 'big', Buffer.alloc(100_001))).rejects.toThrow('File too large');
+    await expect(storage.uploadFile('photos', '../escape', Buffer.from('x'))).rejects.toThrow('Invalid file or parameters');
+    await expect(storage.uploadFile('missing', 'file', Buffer.from('x'))).rejects.toThrow('not found');
+  });
+
+  it('should filter, sort and page listings', async () => {
+    for (const [fileId, size] of [['a', 3], ['b', 1], ['c', 2]] as const) {
+      await storage.uploadFile('photos', fileId, new File([Buffer.alloc(size)], `${fileId}.bin`));
+    }
+
+    const bySize = await storage.listFiles('photos', [{ field: 'sizeOriginal', operator: 'orderDesc', value: null }]);
+    expect(bySize.files.map(file => file.$id)).toEqual(['a', 'c', 'b']);
+
+    const filtered = await storage.listFiles('photos', [
+      { field: 'sizeOriginal', operator: 'greaterEqual', value: 2 },
+      { field: '', operator: 'limit', value: 1 }
+    ]);
+    expect(filtered.total).toBe(2);
+    expect(filtered.files).toHaveLength(1);
+
+    expect(await storage.getBucketUsage('photos')).toEqual({ total: 6, file: 3 });
+  });
+
+  it('should sum usage over all buckets', async () => {
+    await storage.createBucket('voice', 'Voice');
+    await storage.uploadFile('photos', 'a', Buffer.alloc(10));
+    await storage.uploadFile('voice', 'b', Buffer.alloc(5));
+
+    expect(await storage.getTotalUsage()).toEqual({ total: 15, file: 2 });
+    expect((await storage.listBuckets()).buckets.map(bucket => bucket.$id).sort()).toEqual(['photos', 'voice']);
+
+    await storage.deleteBucket('voice');
+    expect(await storage.getTotalUsage()).toEqual({ total: 10, file: 1 });
+  });
+
+  it('should render resized, rotated and re-encoded previews', async () => {
+    await storage.uploadFile('photos', 'pic', await image(200, 100));
+
+    const resized = await sharp(await storage.getFilePreview('photos', 'pic', { width: 50 })).metadata();
+    expect(resized).toMatchObject({ width: 50, height: 25, format: 'png' });
+
+    const cropped = await sharp(await storage.getFilePreview('photos', 'pic', { width: 40, height: 40, output: 'webp', quality: 50 })).metadata();
+    expect(cropped).toMatchObject({ width: 40, height: 40, format: 'webp' });
+
+    const rotated = await sharp(await storage.getFilePreview('photos', 'pic', { rotation: 90, output: 'jpg' })).metadata();
+    expect(rotated).toMatchObject({ width: 100, height: 200, format: 'jpeg' });
+
+    const capped = await sharp(await storage.getFilePreview('photos', 'pic', { width: 100_000, output: 'jpg' })).metadata();
+    expect(capped).toMatchObject({ width: 4000, height: 2000 });
+  });
+
+  it('should refuse previews of files that are not images', async () => {
+    await storage.uploadFile('photos', 'note', new File(['text'], 'note.txt', { type: 'text/plain' }));
+
+    await expect(storage.getFilePreview('photos', 'note')).rejects.toThrow('Unsupported file type');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { MigrationService } from '../MigrationService.js';
+import { InMemoryDatabaseAdapter } from '../database/InMemoryDatabaseAdapter.js';
+import { addAttribute, createCollectionFromSchema, dropCollection, removeAttribute } from '../../migrations/helpers.js';
+import type { Migration } from '../../core/interfaces/IMigrationService.js';
+
+const TagSchema = {
+  name: 'tags',
+  attributes: [{ key: 'label', type: 'string', size: 50, required: true }],
+  indexes: [{ key: 'label_unique', type: 'unique', attributes: ['label'] }]
+};
+
+const createTags: Migration = {
+  version: 1,
+  name: 'create_tags',
+  up: db => createCollectionFromSchema(db, TagSchema),
+  down: db => dropCollection(db, 'tags')
+};
+
+const addTagColor: Migration = {
+  version: 2,
+  name: 'add_tag_color',
+  up: db => addAttribute(db, 'tags', { key: 'color', type: 'string', size: 7, required: false }),
+  down: db => removeAttribute(db, 'tags', 'color')
+};
+
+describe('MigrationService', () => {
+  let db: InMemoryDatabaseAdapter;
+  let service: MigrationService;
+
+  beforeEach(() => {
+    db = new InMemoryDatabaseAdapter();
+    service = new MigrationService(db, [addTagColor, createTags], [TagSchema]);
+  });
+
+  it('should apply pending migrations in version order and record them', async () => {
+    const run = await service.migrate();
+
+    expect(run.migrations.map(migration => migration.version)).toEqual([1, 2]);
+    const [tags] = (await db.listCollections()).filter(collection => collection.$id === 'tags');
+    expect(tags!.attributes.map(attribute => attribute.key)).toEqual(['label', 'color']);
+
+    const status = await service.status();
+    expect(status.applied.map(migration => migration.name)).toEqual(['create_tags', 'add_tag_color']);
+    expect(status.pending).toEqual([]);
+    expect((await service.migrate()).migrations).toEqual([]);
+  });
+
+  it('should stop at the target version and change nothing on a dry run', async () => {
+    const dryRun = await service.migrate({ dryRun: true });
+    expect(dryRun.migrations).toHaveLength(2);
+    expect((await db.listCollections()).map(collection => collection.$id)).not.toContain('migrations');
+
+    await service.migrate({ to: 1 });
+    expect((await service.status()).pending).toEqual([{ version: 2, name: 'add_tag_color' }]);
+  });
+
+  it('should roll back the latest migrations and allow applying them again', async () => {
+    await service.migrate();
+    const run = await service.rollback();
+
+    expect(run.migrations).toEqual([{ version: 2, name: 'add_tag_color' }]);
+    const [tags] = (await db.listCollections()).filter(collection => collection.$id === 'tags');
+    expect(tags!.attributes.map(attribute => attribute.key)).toEqual(['label']);
+
+    await service.migrate();
+    expect((await service.status()).applied).toHaveLength(2);
+  });
+
+  it('should not record a migration whose up step failed', async () => {
+    const broken: Migration = {
+      version: 3,
+      name: 'broken',
+      up: async () => { throw new Error('boom'); },
+      down: async () => {}
+    };
+    service = new MigrationService(db, [createTags, broken], [TagSchema]);
+
+    await expect(service.migrate()).rejects.toThrow('boom');
+    expect((await service.status()).pending).toEqual([{ version: 3, name: 'broken' }]);
+  });
+
+  it('should report drift between declared schemas and the database', async () => {
+    await service.migrate({ to: 1 });
+
+    const diff = await service.diff();
+    expect(diff.missingCollections).toEqual([]);
+    expect(diff.extraCollections).toEqual(['migrations']);
+
+    service = new MigrationService(db, [], [{
+      ...TagSchema,
+      attributes: [...TagSchema.attributes, { key: 'color', type: 'string', size: 7, required: false }]
+    }]);
+    expect((await service.diff()).missingAttributes).toEqual([{ collection: 'tags', key: 'color' }]);
+  });
+});
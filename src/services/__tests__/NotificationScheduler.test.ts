@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { NotificationScheduler, type SchedulerClock } from '../NotificationScheduler.js';
+import type { IDatabaseService } from '../../core/interfaces/IDatabaseService.js';
+import type { INotificationService } from '../../core/interfaces/INotificationService.js';
+
+class FakeClock implements SchedulerClock {
+  current = new Date('2024-01-15T10:00:00.000Z');
+  callbacks = new Map<number, () => void>();
+  private nextHandle = 1;
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  setInterval(callback: () => void): unknown {
+    const handle = this.nextHandle++;
+    this.callbacks.set(handle, callback);
+    return handle;
+  }
+
+  clearInterval(handle: unknown): void {
+    this.callbacks.delete(handle as number);
+  }
+
+  advance(ms: number): void {
+    this.current = new Date(this.current.getTime() + ms);
+  }
+}
+
+describe('NotificationScheduler', () => {
+  let clock: FakeClock;
+  let documents: Map<string, any>;
+  let dispatched: string[];
+  let failuresLeft: number;
+  let scheduler: NotificationScheduler;
+
+  const addNotification = (id: string, scheduledFor: string, status = 'pending') => {
+    documents.set(id, { $id: id, userId: 'user-1', status, scheduledFor, attempts: 0 });
+  };
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    documents = new Map();
+    dispatched = [];
+    failuresLeft = 0;
+
+    // Only the calls made by the scheduler are implemented
+    const databaseService = {
+      list: async (_collection: string, queries: any[], options: { limit: number }) => {
+        const dueBefore = queries.find(query => query.field === 'scheduledFor').value;
+        const items = [...documents.values()]
+          .filter(doc => doc.status === 'pending' && doc.scheduledFor <= dueBefore)
+          .sort((a, b) => a.scheduledFor.localeCompare(b.scheduledFor));
+        return { documents: items.slice(0, options.limit), total: items.length };
+      },
+      update: async (_collection: string, id: string, data: any) => {
+        const updated = { ...documents.get(id), ...data };
+        documents.set(id, updated);
+        return updated;
+      },
+    } as unknown as IDatabaseService;
+
+    const notificationService = {
+      dispatchNotification: async (id: string) => {
+        if (!documents.has(id)) return false;
+        if (failuresLeft > 0) {
+          failuresLeft--;
+          throw new Error('Provider unavailable');
+        }
+        documents.set(id, { ...documents.get(id), status: 'delivered' });
+        dispatched.push(id);
+        return true;
+      },
+    } as unknown as INotificationService;
+
+    scheduler = new NotificationScheduler(databaseService, notificationService, {
+      clock,
+      pollIntervalMs: 1000,
+      maxAttempts: 3,
+      retryBaseDelayMs: 60000,
+      batchSize: 2,
+    });
+  });
+
+  it('should only dispatch notifications that are due', async () => {
+    addNotification('due', '2024-01-15T09:59:00.000Z');
+    addNotification('later', '2024-01-15T11:00:00.000Z');
+
+    expect(await scheduler.tick()).toBe(1);
+    expect(dispatched).toEqual(['due']);
+
+    clock.advance(60 * 60 * 1000);
+    expect(await scheduler.tick()).toBe(1);
+    expect(dispatched).toEqual(['due', 'later']);
+  });
+
+  it('should dispatch the oldest due notifications first, one batch per tick', async () => {
+    addNotification('newest', '2024-01-15T09:30:00.000Z');
+    addNotification('oldest', '2024-01-15T08:00:00.000Z');
+    addNotification('middle', '2024-01-15T09:00:00.000Z');
+
+    expect(await scheduler.tick()).toBe(2);
+    expect(dispatched).toEqual(['oldest', 'middle']);
+
+    expect(await scheduler.tick()).toBe(1);
+    expect(dispatched).toEqual(['oldest', 'middle', 'newest']);
+  });
+
+  it('should skip notifications cancelled before they are due', async () => {
+    addNotification('cancelled', '2024-01-15T09:00:00.000Z');
+    documents.delete('cancelled');
+
+    expect(await scheduler.tick()).toBe(0);
+    expect(dispatched).toEqual([]);
+  });
+
+  it('should retry failed dispatches with exponential backoff', async () => {
+    addNotification('flaky', '2024-01-15T09:59:00.000Z');
+    failuresLeft = 1;
+
+    expect(await scheduler.tick()).toBe(0);
+    expect(documents.get('flaky').status).toBe('pending');
+    expect(documents.get('flaky').attempts).toBe(1);
+    expect(documents.get('flaky').scheduledFor).toBe('2024-01-15T10:01:00.000Z');
+
+    // Not due again until the backoff has elapsed
+    expect(await scheduler.tick()).toBe(0);
+
+    clock.advance(60000);
+    expect(await scheduler.tick()).toBe(1);
+    expect(documents.get('flaky').status).toBe('delivered');
+  });
+
+  it('should mark notifications failed after the maximum attempts', async () => {
+    addNotification('broken', '2024-01-15T09:59:00.000Z');
+    documents.get('broken').attempts = 2;
+    failuresLeft = 1;
+
+    await scheduler.tick();
+
+    expect(documents.get('broken').status).toBe('failed');
+    expect(documents.get('broken').attempts).toBe(3);
+    expect(documents.get('broken').lastError).toBe('Provider unavailable');
+  });
+
+  it('should register and clear its polling interval on start and stop', async () => {
+    scheduler.start();
+    expect(scheduler.isRunning()).toBe(true);
+    expect(clock.callbacks.size).toBe(1);
+
+    await scheduler.stop();
+    expect(scheduler.isRunning()).toBe(false);
+    expect(clock.callbacks.size).toBe(0);
+  });
+});
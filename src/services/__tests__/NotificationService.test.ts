@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach, setSystemTime } from 'bun:test';
+import { NotificationService } from '../NotificationService.js';
+import { InMemoryDatabaseAdapter } from '../database/InMemoryDatabaseAdapter.js';
+import { NotificationSchema } from '../../models/NotificationModel.js';
+import type { IAuthService } from '../../core/interfaces/IAuthService.js';
+import type { INotificationChannel, NotificationRecord } from '../../core/interfaces/INotificationService.js';
+import type { User } from '../../types/index.js';
+
+describe('NotificationService', () => {
+  let db: InMemoryDatabaseAdapter;
+  let delivered: NotificationRecord[];
+  let service: NotificationService;
+  const start = new Date('2024-03-01T09:00:00.000Z').getTime();
+
+  beforeEach(() => {
+    db = new InMemoryDatabaseAdapter([NotificationSchema]);
+    delivered = [];
+    const recipient = {
+      $id: 'user-1',
+      preferences: { notifications: true, notificationSettings: { categories: { insights: ['email'] } } }
+    } as unknown as User;
+    const authService = { getUserById: async () => recipient } as unknown as IAuthService;
+    const inApp: INotificationChannel = { name: 'in_app', send: async record => { delivered.push(record); } };
+    const email: INotificationChannel = { name: 'email', send: async () => undefined };
+
+    service = new NotificationService(db, authService, [inApp, email]);
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  // One notification a minute, so the inbox order is well defined
+  const sendMany = async (count: number) => {
+    for (let i = 0; i < count; i++) {
+      setSystemTime(new Date(start + i * 60_000));
+      await service.sendNotification({ userId: 'user-1', title: `Notification ${i}`, body: 'Hello' });
+    }
+    setSystemTime();
+  };
+
+  it('should list the newest notifications first beyond a single database page', async () => {
+    await sendMany(30);
+
+    const history = await service.getNotificationHistory('user-1', 40);
+    expect(history).toHaveLength(30);
+    expect(history[0]!.title).toBe('Notification 29');
+    expect(history[29]!.title).toBe('Notification 0');
+
+    const latest = await service.getNotificationHistory('user-1', 5);
+    expect(latest.map(notification => notification.title)).toEqual([
+      'Notification 29', 'Notification 28', 'Notification 27', 'Notification 26', 'Notification 25'
+    ]);
+  });
+
+  it('should count and mark every unread notification as read', async () => {
+    await sendMany(30);
+    expect(await service.getUnreadCount('user-1')).toBe(30);
+
+    const [first] = await service.getNotificationHistory('user-1', 1);
+    await service.markAsRead(first!.id);
+    expect(await service.getUnreadCount('user-1')).toBe(29);
+
+    expect(await service.markAllAsRead('user-1')).toBe(29);
+    expect(await service.getUnreadCount('user-1')).toBe(0);
+    expect(await service.markAllAsRead('user-1')).toBe(0);
+  });
+
+  it('should keep scheduled and email-only notifications out of the inbox', async () => {
+    await service.sendNotification({ userId: 'user-1', title: 'Visible', body: 'In app' });
+    await service.sendNotification({ userId: 'user-1', category: 'insights', title: 'Emailed', body: 'By email' });
+    await service.scheduleNotification({ userId: 'user-1', title: 'Later', body: 'Scheduled' }, new Date(Date.now() + 60_000));
+
+    const history = await service.getNotificationHistory('user-1');
+    expect(history.map(notification => notification.title)).toEqual(['Visible']);
+    expect(await service.getUnreadCount('user-1')).toBe(1);
+    expect(delivered.map(notification => notification.title)).toEqual(['Visible']);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { RetentionService } from '../RetentionService.js';
+import type { IDatabaseService } from '../../core/interfaces/IDatabaseService.js';
+import type { IAuthService } from '../../core/interfaces/IAuthService.js';
+import type { IJournalAttachmentService } from '../../core/interfaces/IJournalAttachmentService.js';
+
+const now = new Date('2024-06-01T00:00:00.000Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+describe('RetentionService', () => {
+  let collections: Record<string, Map<string, any>>;
+  let nextId: number;
+  let deletedFiles: Array<{ userId: string; fileIds: string[] }>;
+
+  const addDocument = (collection: string, data: any) => {
+    const id = `${collection}-${nextId++}`;
+    collections[collection]!.set(id, { $id: id, $createdAt: data.$createdAt ?? data.timestamp, ...data });
+  };
+
+  // Supports the `equal` (single value or list) and `less` filters used by the service
+  const matches = (doc: any, queries: any[] = []) => queries.every(query => {
+    if (query.operator === 'equal') {
+      return Array.isArray(query.value) ? query.value.includes(doc[query.field]) : doc[query.field] === query.value;
+    }
+    if (query.operator === 'less') {
+      return doc[query.field] < query.value;
+    }
+    return true;
+  });
+
+  const createService = (strategy: 'delete' | 'anonymize' = 'delete') => {
+    // Only the calls made by the service are implemented
+    const databaseService = {
+      list: async (collection: string, queries: any[]) => {
+        const items = [...collections[collection]!.values()].filter(doc => matches(doc, queries));
+        return { documents: items.slice(0, 25), total: items.length };
+      },
+      count: async (collection: string, queries: any[]) =>
+        [...collections[collection]!.values()].filter(doc => matches(doc, queries)).length,
+      read: async (collection: string, id: string) => collections[collection]!.get(id),
+      create: async (collection: string, data: any) => {
+        addDocument(collection, data);
+        return [...collections[collection]!.values()].pop();
+      },
+      update: async (collection: string, id: string, data: any) => {
+        const updated = { ...collections[collection]!.get(id), ...data };
+        collections[collection]!.set(id, updated);
+        return updated;
+      },
+      delete: async (collection: string, id: string) => {
+        collections[collection]!.delete(id);
+      },
+    } as unknown as IDatabaseService;
+
+    const users = [
+      { $id: 'member', companyId: 'company-1' },
+      { $id: 'individual' },
+    ];
+    const authService = {
+      listUsers: async (filters?: { companyId?: string }) =>
+        users.filter(user => !filters?.companyId || user.companyId === filters.companyId),
+    } as unknown as IAuthService;
+
+    const journalAttachmentService = {
+      deleteFiles: async (userId: string, fileIds: string[]) => {
+        deletedFiles.push({ userId, fileIds });
+      },
+    } as unknown as IJournalAttachmentService;
+
+    return new RetentionService(databaseService, authService, journalAttachmentService, { individualRetentionDays: 90, strategy });
+  };
+
+  beforeEach(() => {
+    nextId = 1;
+    deletedFiles = [];
+    collections = {
+      companies: new Map(),
+      journals: new Map(),
+      moods: new Map(),
+      notifications: new Map(),
+      retention_runs: new Map(),
+    };
+    collections.companies!.set('company-1', {
+      $id: 'company-1',
+      $createdAt: daysAgo(1000),
+      settings: { dataRetentionDays: 30 },
+    });
+
+    addDocument('journals', {
+      userId: 'member',
+      title: 'Old',
+      content: 'Old entry',
+      attachmentImages: ['photo-1'],
+      attachmentVoiceRecording: 'memo-1',
+      $createdAt: daysAgo(45),
+    });
+    addDocument('journals', { userId: 'member', title: 'New', content: 'New entry', $createdAt: daysAgo(10) });
+    addDocument('moods', { userId: 'member', timestamp: daysAgo(31), notes: 'tired' });
+    addDocument('notifications', { userId: 'member', $createdAt: daysAgo(60) });
+    addDocument('journals', { userId: 'individual', title: 'Old', content: 'Kept for 90 days', $createdAt: daysAgo(45) });
+    addDocument('moods', { userId: 'individual', timestamp: daysAgo(120) });
+  });
+
+  it('should count without changing anything on a dry run', async () => {
+    const preview = await createService().previewCompany('company-1', now);
+
+    expect(preview.dryRun).toBe(true);
+    expect(preview.retentionDays).toBe(30);
+    expect(preview.cutoff).toBe(daysAgo(30));
+    expect({ journals: preview.journals, moods: preview.moods, notifications: preview.notifications })
+      .toEqual({ journals: 1, moods: 1, notifications: 1 });
+    expect(collections.journals!.size).toBe(3);
+    expect(collections.retention_runs!.size).toBe(0);
+    expect(deletedFiles).toEqual([]);
+  });
+
+  it('should purge each scope with its own window and record a summary', async () => {
+    const runs = await createService().runSweep(now);
+
+    const companyRun = runs.find(run => run.scope === 'company');
+    const individualRun = runs.find(run => run.scope === 'individual');
+    expect(companyRun).toMatchObject({ companyId: 'company-1', journals: 1, moods: 1, notifications: 1 });
+    expect(individualRun).toMatchObject({ retentionDays: 90, journals: 0, moods: 1, notifications: 0 });
+
+    const remainingJournals = [...collections.journals!.values()].map(doc => doc.title);
+    expect(remainingJournals.sort()).toEqual(['New', 'Old']);
+    expect(collections.moods!.size).toBe(0);
+    expect(collections.notifications!.size).toBe(0);
+    expect(collections.retention_runs!.size).toBe(2);
+    expect(deletedFiles).toEqual([{ userId: 'member', fileIds: ['photo-1', 'memo-1'] }]);
+  });
+
+  it('should strip owner and text when anonymizing but still delete notifications', async () => {
+    await createService('anonymize').runSweep(now);
+
+    const oldJournal = collections.journals!.get('journals-1');
+    expect(oldJournal).toMatchObject({ userId: 'anonymized', title: '[removed]', content: '[removed]', attachmentImages: [] });
+    expect(deletedFiles).toEqual([{ userId: 'member', fileIds: ['photo-1', 'memo-1'] }]);
+    expect(collections.journals!.get('journals-2').userId).toBe('member');
+    expect(collections.moods!.get('moods-3')).toMatchObject({ userId: 'anonymized', notes: null });
+    expect(collections.notifications!.size).toBe(0);
+  });
+});
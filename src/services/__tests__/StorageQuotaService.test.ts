@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StorageQuotaService } from '../StorageQuotaService.js';
+import { InMemoryDatabaseAdapter } from '../database/InMemoryDatabaseAdapter.js';
+import { LocalStorageAdapter } from '../storage/LocalStorageAdapter.js';
+import { CompanySchema } from '../../models/CompanyModel.js';
+import type { IAuthService } from '../../core/interfaces/IAuthService.js';
+import type { INotificationService } from '../../core/interfaces/INotificationService.js';
+import type { Company, NotificationPayload, SubscriptionTier, User } from '../../types/index.js';
+import { userBucketId } from '../../utils/attachments.js';
+
+describe('StorageQuotaService', () => {
+  let root: string;
+  let db: InMemoryDatabaseAdapter;
+  let storage: LocalStorageAdapter;
+  let users: User[];
+  let memberListings: number;
+  let sent: NotificationPayload[];
+  let service: StorageQuotaService;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'mindspace-quota-'));
+    db = new InMemoryDatabaseAdapter([CompanySchema]);
+    storage = new LocalStorageAdapter(root, { publicUrl: 'http://localhost:4000/api/v1/storage' });
+    users = [];
+    memberListings = 0;
+    sent = [];
+    const authService = {
+      listUsers: async ({ companyId }: { companyId?: string } = {}) => {
+        memberListings++;
+        return users.filter(user => user.companyId === companyId);
+      }
+    } as unknown as IAuthService;
+    const notificationService = {
+      sendNotification: async (payload: NotificationPayload) => {
+        sent.push(payload);
+        return `notification-${sent.length}`;
+      }
+    } as unknown as INotificationService;
+
+    service = new StorageQuotaService(db, authService, storage, notificationService, {
+      user: { free: 1000, premium: 5000, enterprise: 20000 },
+      company: { free: 1500, premium: 10000, enterprise: 50000 },
+      warningThreshold: 0.8,
+      companyUsageTtlMs: 60_000
+    });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  // Members only exist in the auth service, like users who joined through an invitation
+  const createUser = (tier: SubscriptionTier, companyId?: string) => {
+    const user = {
+      $id: `user-${users.length + 1}`,
+      email: 'user@example.com',
+      name: 'User',
+      role: companyId ? 'COMPANY_USER' : 'INDIVIDUAL_USER',
+      ...(companyId && { companyId }),
+      subscription: { tier }
+    } as unknown as User;
+    users.push(user);
+    return user;
+  };
+
+  const createCompany = async (tier: SubscriptionTier) =>
+    await db.create<Company>('companies', {
+      name: 'Acme',
+      domain: 'acme.com',
+      adminId: 'admin-1',
+      subscription: { tier, maxUsers: 50, currentUsers: 2 }
+    } as unknown as Omit<Company, '$id' | '$createdAt' | '$updatedAt'>);
+
+  const store = async (user: User, fileId: string, bytes: number) => {
+    const bucketId = userBucketId(user.$id);
+    await storage.getBucket(bucketId).catch(() => storage.createBucket(bucketId, 'Attachments'));
+    await storage.uploadFile(bucketId, fileId, new File([new Uint8Array(bytes)], `${fileId}.ogg`, { type: 'audio/ogg' }));
+  };
+
+  it('should report usage against the tier quota, starting from nothing', async () => {
+    const user = createUser('premium');
+    expect(await service.getUsage(user)).toEqual({
+      user: { tier: 'premium', limit: 5000, used: 0, remaining: 5000, files: 0 }
+    });
+
+    await store(user, 'memo', 1200);
+    expect((await service.getUsage(user)).user).toMatchObject({ used: 1200, remaining: 3800, files: 1 });
+  });
+
+  it('should reject uploads beyond the user quota', async () => {
+    const user = createUser('free');
+    await store(user, 'memo', 900);
+
+    await service.assertCanStore(user, 100);
+    await expect(service.assertCanStore(user, 101))
+      .rejects.toMatchObject({ statusCode: 413, code: 'STORAGE_QUOTA_EXCEEDED' });
+  });
+
+  it('should share the company quota between members and lift their own tier', async () => {
+    const company = await createCompany('premium');
+    const first = createUser('free', company.$id);
+    const second = createUser('free', company.$id);
+    await store(first, 'memo', 4000);
+    await store(second, 'memo', 4500);
+
+    const usage = await service.getUsage(second);
+    expect(usage.user).toMatchObject({ tier: 'premium', limit: 5000, used: 4500 });
+    expect(usage.company).toEqual({
+      companyId: company.$id, tier: 'premium', limit: 10000, used: 8500, remaining: 1500, files: 2
+    });
+
+    await expect(service.assertCanStore(first, 1000)).resolves.toBeUndefined();
+    await expect(service.assertCanStore(first, 1001))
+      .rejects.toMatchObject({ statusCode: 413, code: 'STORAGE_QUOTA_EXCEEDED' });
+
+    const third = createUser('free', company.$id);
+    await store(third, 'memo', 1200);
+    await service.recordUpload(third, { total: 1200, file: 1 });
+    await expect(service.assertCanStore(second, 400))
+      .rejects.toMatchObject({ statusCode: 413, code: 'COMPANY_STORAGE_QUOTA_EXCEEDED' });
+  });
+
+  it('should warn once when an upload crosses the warning threshold', async () => {
+    const user = createUser('free');
+
+    await store(user, 'first', 700);
+    await service.recordUpload(user, { total: 700, file: 1 });
+    expect(sent).toHaveLength(0);
+
+    await store(user, 'second', 150);
+    await service.recordUpload(user, { total: 150, file: 1 });
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({
+      userId: user.$id,
+      type: 'warning',
+      data: { kind: 'storage_quota', used: 850, limit: 1000 }
+    });
+
+    await store(user, 'third', 50);
+    await service.recordUpload(user, { total: 50, file: 1 });
+    expect(sent).toHaveLength(1);
+  });
+
+  it('should reuse the company total between uploads instead of listing every member', async () => {
+    const company = await createCompany('free');
+    const member = createUser('premium', company.$id);
+    await store(member, 'memo', 500);
+
+    await service.assertCanStore(member, 100);
+    expect(memberListings).toBe(1);
+
+    await store(member, 'second', 600);
+    await service.recordUpload(member, { total: 600, file: 1 });
+    await service.assertCanStore(member, 100);
+    await expect(service.assertCanStore(member, 401))
+      .rejects.toMatchObject({ statusCode: 413, code: 'COMPANY_STORAGE_QUOTA_EXCEEDED' });
+    expect(memberListings).toBe(1);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { WebhookNotificationChannel } from '../notifications/WebhookNotificationChannel.js';
+import type { NotificationRecord } from '../../core/interfaces/INotificationService.js';
+import type { User } from '../../types/index.js';
+
+describe('WebhookNotificationChannel', () => {
+  let fetchSpy: ReturnType<typeof spyOn<typeof globalThis, 'fetch'>>;
+  let dns: Record<string, string[]>;
+  let channel: WebhookNotificationChannel;
+
+  const notification = {
+    id: 'notification-1',
+    type: 'info',
+    title: 'Hello',
+    body: 'World',
+    createdAt: '2026-01-05T08:00:00.000Z'
+  } as NotificationRecord;
+  const recipient = (webhookUrl: string) =>
+    ({ $id: 'user-1', preferences: { notificationSettings: { webhookUrl } } }) as unknown as User;
+
+  beforeEach(() => {
+    dns = { 'hooks.example.com': ['93.184.216.34'], 'internal.example.com': ['192.168.0.10'] };
+    channel = new WebhookNotificationChannel({ allowPrivateHosts: false, lookup: async host => dns[host] ?? [] });
+    fetchSpy = spyOn(globalThis, 'fetch').mockImplementation((async () =>
+      new Response(null, { status: 200 })) as unknown as typeof fetch);
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  it('should post to public hosts without following redirects', async () => {
+    await channel.send(notification, recipient('https://hooks.example.com/notify'));
+
+    const [url, init] = fetchSpy.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://hooks.example.com/notify');
+    expect(init.redirect).toBe('manual');
+  });
+
+  it('should refuse hosts in the private network', async () => {
+    for (const url of ['https://internal.example.com/notify', 'https://127.0.0.1/notify', 'https://[::ffff:a9fe:a9fe]/']) {
+      await expect(channel.send(notification, recipient(url))).rejects.toThrow('private address');
+    }
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('should treat redirects as failed deliveries', async () => {
+    fetchSpy.mockImplementation((async () => new Response(null, { status: 302 })) as unknown as typeof fetch);
+
+    await expect(channel.send(notification, recipient('https://hooks.example.com/notify')))
+      .rejects.toThrow('Webhook responded with status 302');
+  });
+});
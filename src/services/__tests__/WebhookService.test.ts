@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { WebhookService } from '../WebhookService.js';
+import { JobQueueService } from '../JobQueueService.js';
+import { InMemoryDatabaseAdapter } from '../database/InMemoryDatabaseAdapter.js';
+import { JobSchema } from '../../models/JobModel.js';
+import { WebhookSchema } from '../../models/WebhookModel.js';
+import { WebhookDeliverySchema, type WebhookDeliveryModel } from '../../models/WebhookDeliveryModel.js';
+import type { ICompanyService } from '../../core/interfaces/ICompanyService.js';
+import type { CompanyAnalytics } from '../../types/index.js';
+import { verifyWebhookSignature } from '../../utils/webhooks.js';
+
+const analytics: CompanyAnalytics = {
+  period: '7d',
+  totalUsers: 12,
+  activeUsers: 9,
+  newUsersThisMonth: null,
+  journalEntries: 31,
+  moodLogs: 54,
+  subscriptionTier: 'enterprise',
+  usageMetrics: { dailyActiveUsers: [], weeklyJournalEntries: [], monthlyMoodLogs: [] },
+  privacy: { minGroupSize: 5, suppressed: false }
+};
+
+describe('WebhookService', () => {
+  let db: InMemoryDatabaseAdapter;
+  let queue: JobQueueService;
+  let service: WebhookService;
+  let fetchSpy: ReturnType<typeof spyOn<typeof globalThis, 'fetch'>>;
+  let responses: number[];
+  let dns: Record<string, string[]>;
+  let now: Date;
+
+  beforeEach(() => {
+    db = new InMemoryDatabaseAdapter([JobSchema, WebhookSchema, WebhookDeliverySchema]);
+    queue = new JobQueueService(db, { maxAttempts: 2, retryBaseDelayMs: 1000 });
+    const companyService = { getAnalytics: async () => analytics } as unknown as ICompanyService;
+    dns = { 'hr.example.com': ['93.184.216.34'] };
+    service = new WebhookService(db, queue, companyService, {
+      requireHttps: true,
+      allowPrivateHosts: false,
+      lookup: async host => dns[host] ?? []
+    });
+    queue.registerHandler('webhook.deliver', ({ deliveryId }, job) =>
+      service.deliver(deliveryId, job.attempts >= job.maxAttempts)
+    );
+
+    responses = [];
+    fetchSpy = spyOn(globalThis, 'fetch').mockImplementation((async () =>
+      new Response(null, { status: responses.shift() ?? 200 })) as unknown as typeof fetch);
+    // A little ahead, so jobs enqueued during the test are due
+    now = new Date(Date.now() + 1000);
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  const createWebhook = (events = ['member.joined' as const]) =>
+    service.createWebhook('company-1', { url: 'https://hr.example.com/hooks', events }, 'admin-1');
+
+  const listDeliveries = async (webhookId: string) =>
+    (await service.listDeliveries('company-1', webhookId)).deliveries;
+
+  it('should return the secret once and keep it out of later reads', async () => {
+    const { webhook, secret } = await createWebhook();
+
+    expect(secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+    expect(webhook).not.toHaveProperty('secret');
+    expect(await service.getWebhook('company-1', webhook.$id)).not.toHaveProperty('secret');
+    expect((await service.listWebhooks('company-1'))[0]).not.toHaveProperty('secret');
+  });
+
+  it('should hide webhooks of other companies', async () => {
+    const { webhook } = await createWebhook();
+
+    await expect(service.getWebhook('company-2', webhook.$id)).rejects.toThrow('Webhook not found');
+    await expect(service.deleteWebhook('company-2', webhook.$id)).rejects.toThrow('Webhook not found');
+  });
+
+  it('should deliver signed events to subscribed active webhooks only', async () => {
+    const { webhook, secret } = await createWebhook();
+    await createWebhook(['member.removed' as any]);
+    const paused = await createWebhook();
+    await service.updateWebhook('company-1', paused.webhook.$id, { isActive: false });
+
+    const queued = await service.dispatch('company-1', 'member.joined', {
+      userId: 'user-1',
+      email: 'ada@example.com',
+      role: 'COMPANY_USER',
+      joinedAt: '2026-01-05T08:00:00.000Z'
+    });
+    expect(queued).toBe(1);
+
+    await queue.processDueJobs(now);
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchSpy.mock.calls[0] as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    expect(url).toBe('https://hr.example.com/hooks');
+    expect(headers['X-MindSpace-Event']).toBe('member.joined');
+    expect(verifyWebhookSignature(
+      secret,
+      Number(headers['X-MindSpace-Timestamp']),
+      init.body as string,
+      headers['X-MindSpace-Signature'] as string
+    )).toBe(true);
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      event: 'member.joined',
+      companyId: 'company-1',
+      data: { userId: 'user-1', email: 'ada@example.com' }
+    });
+
+    const [delivery] = await listDeliveries(webhook.$id);
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 1, responseStatus: 200 });
+  });
+
+  it('should log failed attempts, retry with backoff and give up after the last attempt', async () => {
+    const { webhook } = await createWebhook();
+    responses = [500, 503];
+
+    await service.dispatch('company-1', 'member.joined', {
+      userId: 'user-1',
+      email: 'ada@example.com',
+      role: 'COMPANY_USER',
+      joinedAt: '2026-01-05T08:00:00.000Z'
+    });
+
+    await queue.processDueJobs(now);
+    expect((await listDeliveries(webhook.$id))[0]).toMatchObject({
+      status: 'retrying',
+      attempts: 1,
+      responseStatus: 500,
+      lastError: 'Webhook responded with status 500'
+    });
+
+    await queue.processDueJobs(new Date(now.getTime() + 1000));
+    expect((await listDeliveries(webhook.$id))[0]).toMatchObject({
+      status: 'failed',
+      attempts: 2,
+      responseStatus: 503
+    });
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should refuse URLs that point into the private network', async () => {
+    dns['intranet.example.com'] = ['10.0.0.12'];
+    const urls = [
+      'https://127.0.0.1/hooks',
+      'https://[::ffff:7f00:1]/hooks',
+      'https://169.254.169.254/latest/meta-data',
+      'https://intranet.example.com/hooks'
+    ];
+
+    for (const url of urls) {
+      await expect(service.createWebhook('company-1', { url, events: ['member.joined'] }, 'admin-1'))
+        .rejects.toMatchObject({ statusCode: 400, code: 'WEBHOOK_URL_PRIVATE' });
+    }
+    await expect(service.createWebhook('company-1', { url: 'http://hr.example.com/hooks', events: ['member.joined'] }, 'admin-1'))
+      .rejects.toMatchObject({ code: 'WEBHOOK_URL_INSECURE' });
+  });
+
+  it('should not deliver once the host resolves to a private address', async () => {
+    const { webhook } = await createWebhook();
+    dns['hr.example.com'] = ['127.0.0.1'];
+
+    const delivery = await service.sendTestEvent('company-1', webhook.$id);
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(delivery).toMatchObject({ status: 'failed', lastError: 'Webhook URL resolves to a private address' });
+  });
+
+  it('should send test events right away without queueing them', async () => {
+    const { webhook } = await createWebhook();
+    responses = [404];
+
+    const delivery = await service.sendTestEvent('company-1', webhook.$id);
+
+    expect(delivery).toMatchObject({ event: 'webhook.test', status: 'failed', attempts: 1, responseStatus: 404 });
+    expect((await queue.listJobs()).jobs).toHaveLength(0);
+  });
+
+  it('should drop queued deliveries of a deleted webhook', async () => {
+    const { webhook } = await createWebhook();
+    await service.dispatch('company-1', 'member.joined', {
+      userId: 'user-1',
+      email: 'ada@example.com',
+      role: 'COMPANY_USER',
+      joinedAt: '2026-01-05T08:00:00.000Z'
+    });
+
+    await service.deleteWebhook('company-1', webhook.$id);
+    await queue.processDueJobs(now);
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect((await db.list<WebhookDeliveryModel>('webhook_deliveries')).total).toBe(0);
+    expect((await queue.listJobs({ status: 'completed' })).total).toBe(1);
+  });
+
+  it('should send aggregate weekly reports and schedule the next run once', async () => {
+    const { webhook } = await createWebhook(['report.weekly_ready' as any]);
+
+    expect(await service.sendWeeklyReports()).toBe(1);
+    await queue.processDueJobs(now);
+
+    const [delivery] = await listDeliveries(webhook.$id);
+    expect(JSON.parse(delivery!.payload).data).toMatchObject({
+      period: '7d',
+      totalUsers: 12,
+      activeUsers: 9,
+      journalEntries: 31,
+      moodLogs: 54,
+      suppressed: false
+    });
+
+    await service.scheduleWeeklyReports(new Date('2026-01-07T10:00:00.000Z'));
+    await service.scheduleWeeklyReports(new Date('2026-01-07T10:00:00.000Z'));
+    const { jobs } = await queue.listJobs({ type: 'webhook.weekly_reports' });
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]!.runAt).toBe('2026-01-12T08:00:00.000Z');
+  });
+});
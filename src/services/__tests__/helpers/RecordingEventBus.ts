@@ -0,0 +1,34 @@
+import { expect } from 'bun:test';
+import { EventBus } from '../../EventBus.js';
+import type { DomainEvent, DomainEventName, DomainEvents } from '../../../core/interfaces/IEventBus.js';
+
+/**
+ * Event bus for tests, records every published event and still delivers it to subscribers
+ */
+export class RecordingEventBus extends EventBus {
+  readonly events: DomainEvent[] = [];
+
+  override async publish<K extends DomainEventName>(name: K, payload: DomainEvents[K]): Promise<void> {
+    this.events.push({ name, payload, occurredAt: new Date().toISOString() });
+    await super.publish(name, payload);
+  }
+
+  published<K extends DomainEventName>(name: K): DomainEvents[K][] {
+    return this.events.filter(event => event.name === name).map(event => event.payload as DomainEvents[K]);
+  }
+
+  /**
+   * Assert that an event was published, optionally with a payload containing `expected`
+   */
+  expectPublished<K extends DomainEventName>(name: K, expected?: Partial<DomainEvents[K]>): void {
+    expect(this.published(name)).toContainEqual(expected ? expect.objectContaining(expected) : expect.anything());
+  }
+
+  expectNotPublished(name: DomainEventName): void {
+    expect(this.published(name)).toHaveLength(0);
+  }
+
+  clear(): void {
+    this.events.length = 0;
+  }
+}
@@ -1,12 +1,13 @@
-import { Client, Account, Users, ID, AppwriteException } from 'node-appwrite';
+import { Client, Account, Users, ID, Query, AppwriteException, type Models } from 'node-appwrite';
 import type { IAuthService } from '../../core/interfaces/IAuthService.js';
-import type { User, AuthTokens, LoginRequest, RegisterRequest, OAuth2Session } from '../../types/index.js';
+import type { User, UserRole, AuthTokens, LoginRequest, RegisterRequest, OAuth2Session } from '../../types/index.js';
 import { config } from '../../utils/config.js';
 import { logger } from '../../utils/logger.js';
 import { User as UserDomain } from '../../core/domain/User.js';
 import { Permission as PermissionDomain } from '../../core/domain/Permission.js';
 import { jwtBlacklist } from '../../utils/jwtBlacklist.js';
 import { createTokens, verifyToken, verifyRefreshToken } from '../../utils/jwt.js';
+import { getDefaultUserData } from '../../utils/permissions.js';
 import { 
   AuthenticationError, 
   ConflictError, 
@@ -160,6 +161,7 @@ export class AppwriteAuthAdapter implements IAuthService {
         avatar: userPrefs.avatar,
         role: userPrefs.role || 'INDIVIDUAL_USER',
         companyId: userPrefs.companyId,
+        departmentId: userPrefs.departmentId,
         permissions: userPrefs.permissions || PermissionDomain.getRolePermissions(userPrefs.role || 'INDIVIDUAL_USER'),
         subscription: userPrefs.subscription || { tier: 'free' },
         preferences: userPrefs.preferences || {
@@ -263,6 +265,7 @@ export class AppwriteAuthAdapter implements IAuthService {
         avatar: userPrefs.avatar,
         role: userPrefs.role || 'INDIVIDUAL_USER',
         companyId: userPrefs.companyId,
+        departmentId: userPrefs.departmentId,
         permissions: userPrefs.permissions || PermissionDomain.getRolePermissions(userPrefs.role || 'INDIVIDUAL_USER'),
         subscription: userPrefs.subscription || { tier: 'free' },
         preferences: userPrefs.preferences || {
@@ -673,6 +676,7 @@ export class AppwriteAuthAdapter implements IAuthService {
         avatar: updatedPrefs.avatar,
         role: updatedPrefs.role || 'INDIVIDUAL_USER',
         companyId: updatedPrefs.companyId,
+        departmentId: updatedPrefs.departmentId,
         permissions: updatedPrefs.permissions || PermissionDomain.getRolePermissions(updatedPrefs.role || 'INDIVIDUAL_USER'),
         subscription: updatedPrefs.subscription || { tier: 'free' },
         preferences: updatedPrefs.preferences || {
@@ -798,6 +802,7 @@ export class AppwriteAuthAdapter implements IAuthService {
         avatar: userPrefs.avatar,
         role: userPrefs.role || 'INDIVIDUAL_USER',
         companyId: userPrefs.companyId,
+        departmentId: userPrefs.departmentId,
         permissions: userPrefs.permissions || PermissionDomain.getRolePermissions(userPrefs.role || 'INDIVIDUAL_USER'),
         subscription: userPrefs.subscription || { tier: 'free' },
         preferences: userPrefs.preferences || {
@@ -818,6 +823,87 @@ export class AppwriteAuthAdapter implements IAuthService {
     }
   }
 
+  async getUserByEmail(email: string): Promise<User | null> {
+    try {
+      const result = await this.users.list([Query.equal('email', [email])]);
+      const appwriteUser = result.users[0];
+
+      return appwriteUser ? await this.getUserById(appwriteUser.$id) : null;
+    } catch (error) {
+      logger.error('Failed to get user by email:', error);
+      throw new Error('Failed to get user');
+    }
+  }
+
+  async assignToCompany(userId: string, companyId: string, role: UserRole, assignedBy: string): Promise<User> {
+    try {
+      const appwriteUser = await this.users.get(userId);
+      const userPrefs = appwriteUser.prefs as any;
+
+      // Only take over the company association; keep the user's own preferences and subscription
+      const { role: assignedRole, companyId: assignedCompanyId, permissions } = getDefaultUserData(role, companyId);
+
+      // Departments belong to the previous company, so membership does not carry over
+      await this.users.updatePrefs(userId, {
+        ...userPrefs,
+        role: assignedRole,
+        companyId: assignedCompanyId,
+        departmentId: undefined,
+        permissions
+      });
+
+      logger.info('User assigned to company:', { userId, companyId, role, assignedBy });
+
+      return await this.getUserById(userId);
+    } catch (error) {
+      logger.error('Failed to assign user to company:', error);
+      throw new Error('Failed to assign user to company');
+    }
+  }
+
+  async removeFromCompany(userId: string, removedBy: string): Promise<User> {
+    try {
+      const appwriteUser = await this.users.get(userId);
+      const userPrefs = appwriteUser.prefs as any;
+
+      const { role, permissions } = getDefaultUserData('INDIVIDUAL_USER');
+
+      await this.users.updatePrefs(userId, {
+        ...userPrefs,
+        role,
+        companyId: undefined,
+        departmentId: undefined,
+        permissions
+      });
+
+      logger.info('User removed from company:', { userId, companyId: userPrefs.companyId, removedBy });
+
+      return await this.getUserById(userId);
+    } catch (error) {
+      logger.error('Failed to remove user from company:', error);
+      throw new Error('Failed to remove user from company');
+    }
+  }
+
+  async setUserDepartment(userId: string, departmentId: string | null, updatedBy: string): Promise<User> {
+    try {
+      const appwriteUser = await this.users.get(userId);
+      const userPrefs = appwriteUser.prefs as any;
+
+      await this.users.updatePrefs(userId, {
+        ...userPrefs,
+        departmentId: departmentId ?? undefined
+      });
+
+      logger.info('User department updated:', { userId, departmentId, updatedBy });
+
+      return await this.getUserById(userId);
+    } catch (error) {
+      logger.error('Failed to update user department:', error);
+      throw new Error('Failed to update user department');
+    }
+  }
+
   async updateUserRole(userId: string, role: string, updatedBy: string): Promise<User> {
     try {
       const appwriteUser = await this.users.get(userId);
@@ -876,9 +962,16 @@ export class AppwriteAuthAdapter implements IAuthService {
 
   async listUsers(filters?: { role?: string; companyId?: string; active?: boolean }): Promise<User[]> {
     try {
-      const users = await this.users.list();
+      // Appwrite pages user lists, so keep fetching until every user has been seen
+      const appwriteUsers: Models.User<Models.Preferences>[] = [];
+      let total = Infinity;
+      while (appwriteUsers.length < total) {
+        const page = await this.users.list([Query.limit(100), Query.offset(appwriteUsers.length)]);
+        appwriteUsers.push(...page.users);
+        total = page.users.length > 0 ? page.total : appwriteUsers.length;
+      }
       
-      return users.users
+      return appwriteUsers
         .map(appwriteUser => {
           const userPrefs = appwriteUser.prefs as any;
           return {
@@ -889,6 +982,7 @@ export class AppwriteAuthAdapter implements IAuthService {
             avatar: userPrefs.avatar,
             role: userPrefs.role || 'INDIVIDUAL_USER',
             companyId: userPrefs.companyId,
+            departmentId: userPrefs.departmentId,
             permissions: userPrefs.permissions || PermissionDomain.getRolePermissions(userPrefs.role || 'INDIVIDUAL_USER'),
             subscription: userPrefs.subscription || { tier: 'free' },
             preferences: userPrefs.preferences || {
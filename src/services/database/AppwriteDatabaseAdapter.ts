@@ -3,13 +3,18 @@ import type {
   IDatabaseService, 
   DatabaseQuery, 
   DatabaseListResponse, 
+  DatabaseListOptions, 
   DatabaseOperation, 
+  DatabaseUpdateOptions, 
   DatabaseCollection, 
   DatabaseAttribute, 
+  DatabaseAttributeDefinition, 
   DatabaseIndex, 
   DatabaseIndexType 
 } from '../../core/interfaces/IDatabaseService.js';
+import type { CreateInput } from '../../models/BaseModel.js';
 import { config } from '../../utils/config.js';
+import { ConflictError } from '../../utils/BusinessError.js';
 import { logger } from '../../utils/logger.js';
 
 /**
@@ -29,7 +34,7 @@ export class AppwriteDatabaseAdapter implements IDatabaseService {
     this.databases = new Databases(this.client);
   }
 
-  async create<T>(collection: string, data: Omit<T, '$id' | '$createdAt' | '$updatedAt'>): Promise<T> {
+  async create<T>(collection: string, data: CreateInput<T>): Promise<T> {
     try {
       const collectionId = this.getCollectionId(collection);
       const document = await this.databases.createDocument(
@@ -72,9 +77,26 @@ export class AppwriteDatabaseAdapter implements IDatabaseService {
     }
   }
 
-  async update<T>(collection: string, documentId: string, data: Partial<T>): Promise<T> {
+  /**
+   * Appwrite has no conditional update, so the version is checked on a fresh read
+   * right before writing; this narrows the lost-update window without closing it.
+   */
+  async update<T>(
+    collection: string,
+    documentId: string,
+    data: Partial<T>,
+    options: DatabaseUpdateOptions = {}
+  ): Promise<T> {
     try {
       const collectionId = this.getCollectionId(collection);
+
+      if (options.expectedVersion !== undefined) {
+        const current = await this.databases.getDocument(config.appwrite.databaseId, collectionId, documentId);
+        if (current.$updatedAt !== options.expectedVersion) {
+          throw new ConflictError('Document was modified since it was read', 'VERSION_CONFLICT');
+        }
+      }
+
       const document = await this.databases.updateDocument(
         config.appwrite.databaseId,
         collectionId,
@@ -112,10 +134,13 @@ export class AppwriteDatabaseAdapter implements IDatabaseService {
     }
   }
 
-  async list<T>(collection: string, queries?: DatabaseQuery[]): Promise<DatabaseListResponse<T>> {
+  async list<T>(collection: string, queries?: DatabaseQuery[], options?: DatabaseListOptions): Promise<DatabaseListResponse<T>> {
     try {
       const collectionId = this.getCollectionId(collection);
-      const appwriteQueries = this.buildAppwriteQueries(queries || []);
+      const appwriteQueries = [
+        ...this.buildAppwriteQueries(queries || []),
+        ...this.buildListOptionQueries(options || {})
+      ];
 
       const result = await this.databases.listDocuments(
         config.appwrite.databaseId,
@@ -185,7 +210,7 @@ export class AppwriteDatabaseAdapter implements IDatabaseService {
     }
   }
 
-  async batchCreate<T>(collection: string, documents: Omit<T, '$id' | '$createdAt' | '$updatedAt'>[]): Promise<T[]> {
+  async batchCreate<T>(collection: string, documents: CreateInput<T>[]): Promise<T[]> {
     try {
       const results: T[] = [];
       
@@ -331,7 +356,7 @@ export class AppwriteDatabaseAdapter implements IDatabaseService {
 
   async listCollections(): Promise<DatabaseCollection[]> {
     try {
-      const result = await this.databases.listCollections(config.appwrite.databaseId);
+      const result = await this.databases.listCollections(config.appwrite.databaseId, [Query.limit(100)]);
       
       return result.collections.map(collection => ({
         $id: collection.$id,
@@ -364,7 +389,81 @@ export class AppwriteDatabaseAdapter implements IDatabaseService {
     }
   }
 
-  async createIndex(collectionId: string, key: string, type: DatabaseIndexType, attributes: string[]): Promise<void> {
+  /**
+   * Create an attribute; Appwrite builds it in the background, so its status starts as `processing`
+   */
+  async createAttribute(collectionId: string, attribute: DatabaseAttributeDefinition): Promise<void> {
+    try {
+      const databaseId = config.appwrite.databaseId;
+      const { key, required } = attribute;
+      const array = attribute.array ?? false;
+      // Appwrite rejects defaults on required attributes
+      const xdefault = required ? undefined : attribute.default ?? undefined;
+
+      switch (attribute.type) {
+        case 'string':
+          await this.databases.createStringAttribute(databaseId, collectionId, key, attribute.size ?? 255, required, xdefault, array);
+          break;
+        case 'integer':
+          await this.databases.createIntegerAttribute(databaseId, collectionId, key, required, attribute.min, attribute.max, xdefault, array);
+          break;
+        case 'float':
+          await this.databases.createFloatAttribute(databaseId, collectionId, key, required, attribute.min, attribute.max, xdefault, array);
+          break;
+        case 'boolean':
+          await this.databases.createBooleanAttribute(databaseId, collectionId, key, required, xdefault, array);
+          break;
+        case 'datetime':
+          await this.databases.createDatetimeAttribute(databaseId, collectionId, key, required, xdefault, array);
+          break;
+        case 'email':
+          await this.databases.createEmailAttribute(databaseId, collectionId, key, required, xdefault, array);
+          break;
+        case 'ip':
+          await this.databases.createIpAttribute(databaseId, collectionId, key, required, xdefault, array);
+          break;
+        case 'url':
+          await this.databases.createUrlAttribute(databaseId, collectionId, key, required, xdefault, array);
+          break;
+        default:
+          throw new Error(`Unsupported attribute type: ${attribute.type}`);
+      }
+
+      logger.info('Attribute created:', { collectionId, key, type: attribute.type });
+    } catch (error) {
+      logger.error('Failed to create attribute:', { collectionId, key: attribute.key, error });
+      if (error instanceof AppwriteException) {
+        throw new Error(this.mapAppwriteError(error));
+      }
+      throw error;
+    }
+  }
+
+  async deleteAttribute(collectionId: string, key: string): Promise<void> {
+    try {
+      await this.databases.deleteAttribute(
+        config.appwrite.databaseId,
+        collectionId,
+        key
+      );
+
+      logger.info('Attribute deleted:', { collectionId, key });
+    } catch (error) {
+      logger.error('Failed to delete attribute:', { collectionId, key, error });
+      if (error instanceof AppwriteException) {
+        throw new Error(this.mapAppwriteError(error));
+      }
+      throw error;
+    }
+  }
+
+  async createIndex(
+    collectionId: string,
+    key: string,
+    type: DatabaseIndexType,
+    attributes: string[],
+    orders?: string[]
+  ): Promise<void> {
     try {
       // Convert DatabaseIndexType to IndexType enum
       let indexType: IndexType;
@@ -387,7 +486,8 @@ export class AppwriteDatabaseAdapter implements IDatabaseService {
         collectionId,
         key,
         indexType,
-        attributes
+        attributes,
+        orders
       );
 
       logger.info('Index created:', { collectionId, key, type });
@@ -449,6 +549,17 @@ export class AppwriteDatabaseAdapter implements IDatabaseService {
       journals: config.appwrite.collections.journals,
       moods: config.appwrite.collections.moods,
       notifications: config.appwrite.collections.notifications,
+      reminders: 'reminders',
+      invitations: 'invitations',
+      subscription_changes: 'subscription_changes',
+      membership_requests: 'membership_requests',
+      departments: 'departments',
+      retention_runs: 'retention_runs',
+      migrations: 'migrations',
+      jobs: 'jobs',
+      webhooks: 'webhooks',
+      webhook_deliveries: 'webhook_deliveries',
+      idempotency_keys: 'idempotency_keys',
       permission_rules: 'permission_rules',
       permission_audit: 'permission_audit',
       permission_templates: 'permission_templates'
@@ -495,6 +606,27 @@ export class AppwriteDatabaseAdapter implements IDatabaseService {
     });
   }
 
+  private buildListOptionQueries(options: DatabaseListOptions): string[] {
+    const queries = (options.orderBy || []).map(order =>
+      order.direction === 'asc' ? Query.orderAsc(order.field) : Query.orderDesc(order.field)
+    );
+
+    if (options.limit !== undefined) {
+      queries.push(Query.limit(options.limit));
+    }
+    if (options.offset !== undefined) {
+      queries.push(Query.offset(options.offset));
+    }
+    if (options.cursorAfter) {
+      queries.push(Query.cursorAfter(options.cursorAfter));
+    }
+    if (options.cursorBefore) {
+      queries.push(Query.cursorBefore(options.cursorBefore));
+    }
+
+    return queries;
+  }
+
   private mapAppwriteError(error: AppwriteException): string {
     switch (error.code) {
       case 400:
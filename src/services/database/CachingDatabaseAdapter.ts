@@ -0,0 +1,240 @@
+import type {
+  IDatabaseService,
+  DatabaseQuery,
+  DatabaseListResponse,
+  DatabaseListOptions,
+  DatabaseOperation,
+  DatabaseUpdateOptions,
+  DatabaseCollection,
+  DatabaseAttributeDefinition,
+  DatabaseIndex,
+  DatabaseIndexType
+} from '../../core/interfaces/IDatabaseService.js';
+import type { CreateInput } from '../../models/BaseModel.js';
+
+export interface DatabaseCacheOptions {
+  // Time to live per collection; collections without an entry are not cached
+  ttlMs: Record<string, number>;
+  // Least recently used documents are evicted past this many entries
+  maxEntries: number;
+}
+
+export interface DatabaseCacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  size: number;
+  hitRate: number;
+}
+
+interface CacheEntry {
+  document: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Read-through cache in front of another database service
+ * Only single document reads are cached. Every write through this service drops
+ * the documents it touches, so the cache can only go stale when another process
+ * writes to the same database; the per-collection TTL bounds how long that lasts.
+ */
+export class CachingDatabaseAdapter implements IDatabaseService {
+  // Map iteration order doubles as the LRU order, oldest first
+  private entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  // Bumped on every invalidation so a read that raced a write does not cache the old document
+  private generation = 0;
+
+  constructor(
+    private inner: IDatabaseService,
+    private options: DatabaseCacheOptions
+  ) {}
+
+  getStats(): DatabaseCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      size: this.entries.size,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups
+    };
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.generation++;
+  }
+
+  async create<T>(collection: string, data: CreateInput<T>): Promise<T> {
+    return this.inner.create<T>(collection, data);
+  }
+
+  async read<T>(collection: string, documentId: string): Promise<T> {
+    const ttlMs = this.options.ttlMs[collection];
+    if (ttlMs === undefined) {
+      return this.inner.read<T>(collection, documentId);
+    }
+
+    const key = cacheKey(collection, documentId);
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.hits++;
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      return structuredClone(entry.document) as T;
+    }
+
+    this.misses++;
+    this.entries.delete(key);
+    const generation = this.generation;
+    const document = await this.inner.read<T>(collection, documentId);
+
+    if (generation === this.generation) {
+      this.store(key, { document: structuredClone(document), expiresAt: Date.now() + ttlMs });
+    }
+    return document;
+  }
+
+  async update<T>(collection: string, documentId: string, data: Partial<T>, options?: DatabaseUpdateOptions): Promise<T> {
+    try {
+      return await this.inner.update<T>(collection, documentId, data, options);
+    } finally {
+      this.invalidate(collection, documentId);
+    }
+  }
+
+  async delete(collection: string, documentId: string): Promise<void> {
+    try {
+      await this.inner.delete(collection, documentId);
+    } finally {
+      this.invalidate(collection, documentId);
+    }
+  }
+
+  async list<T>(collection: string, queries?: DatabaseQuery[], options?: DatabaseListOptions): Promise<DatabaseListResponse<T>> {
+    return this.inner.list<T>(collection, queries, options);
+  }
+
+  async search<T>(collection: string, searchTerm: string, searchFields: string[]): Promise<DatabaseListResponse<T>> {
+    return this.inner.search<T>(collection, searchTerm, searchFields);
+  }
+
+  async batchCreate<T>(collection: string, documents: CreateInput<T>[]): Promise<T[]> {
+    return this.inner.batchCreate<T>(collection, documents);
+  }
+
+  async batchUpdate<T>(collection: string, updates: { documentId: string; data: Partial<T> }[]): Promise<T[]> {
+    try {
+      return await this.inner.batchUpdate<T>(collection, updates);
+    } finally {
+      updates.forEach(({ documentId }) => this.invalidate(collection, documentId));
+    }
+  }
+
+  async batchDelete(collection: string, documentIds: string[]): Promise<void> {
+    try {
+      await this.inner.batchDelete(collection, documentIds);
+    } finally {
+      documentIds.forEach(documentId => this.invalidate(collection, documentId));
+    }
+  }
+
+  async count(collection: string, queries?: DatabaseQuery[]): Promise<number> {
+    return this.inner.count(collection, queries);
+  }
+
+  async exists(collection: string, documentId: string): Promise<boolean> {
+    return this.inner.exists(collection, documentId);
+  }
+
+  async transaction<T>(operations: DatabaseOperation[]): Promise<T[]> {
+    try {
+      return await this.inner.transaction<T>(operations);
+    } finally {
+      for (const operation of operations) {
+        if (operation.type !== 'create' && operation.documentId) {
+          this.invalidate(operation.collection, operation.documentId);
+        }
+      }
+    }
+  }
+
+  async createCollection(collectionId: string, name: string): Promise<void> {
+    return this.inner.createCollection(collectionId, name);
+  }
+
+  async deleteCollection(collectionId: string): Promise<void> {
+    try {
+      await this.inner.deleteCollection(collectionId);
+    } finally {
+      this.invalidateCollection(collectionId);
+    }
+  }
+
+  async listCollections(): Promise<DatabaseCollection[]> {
+    return this.inner.listCollections();
+  }
+
+  async createAttribute(collectionId: string, attribute: DatabaseAttributeDefinition): Promise<void> {
+    try {
+      await this.inner.createAttribute(collectionId, attribute);
+    } finally {
+      this.invalidateCollection(collectionId);
+    }
+  }
+
+  async deleteAttribute(collectionId: string, key: string): Promise<void> {
+    try {
+      await this.inner.deleteAttribute(collectionId, key);
+    } finally {
+      this.invalidateCollection(collectionId);
+    }
+  }
+
+  async createIndex(collectionId: string, key: string, type: DatabaseIndexType, attributes: string[], orders?: string[]): Promise<void> {
+    return this.inner.createIndex(collectionId, key, type, attributes, orders);
+  }
+
+  async deleteIndex(collectionId: string, key: string): Promise<void> {
+    return this.inner.deleteIndex(collectionId, key);
+  }
+
+  async listIndexes(collectionId: string): Promise<DatabaseIndex[]> {
+    return this.inner.listIndexes(collectionId);
+  }
+
+  private store(key: string, entry: CacheEntry): void {
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  private invalidate(collection: string, documentId: string): void {
+    if (this.options.ttlMs[collection] === undefined) {
+      return;
+    }
+    this.entries.delete(cacheKey(collection, documentId));
+    this.generation++;
+  }
+
+  private invalidateCollection(collectionId: string): void {
+    const prefix = cacheKey(collectionId, '');
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+    this.generation++;
+  }
+}
+
+function cacheKey(collection: string, documentId: string): string {
+  return `${collection}/${documentId}`;
+}
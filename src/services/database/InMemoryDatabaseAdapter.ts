@@ -0,0 +1,499 @@
+import { randomBytes } from 'crypto';
+import type {
+  IDatabaseService,
+  DatabaseQuery,
+  DatabaseListResponse,
+  DatabaseListOptions,
+  DatabaseOrder,
+  DatabaseOperation,
+  DatabaseUpdateOptions,
+  DatabaseCollection,
+  DatabaseAttribute,
+  DatabaseAttributeDefinition,
+  DatabaseIndex,
+  DatabaseIndexType
+} from '../../core/interfaces/IDatabaseService.js';
+import type { CollectionSchema, CreateInput } from '../../models/BaseModel.js';
+import { ConflictError } from '../../utils/BusinessError.js';
+import { logger } from '../../utils/logger.js';
+
+interface StoredCollection {
+  meta: DatabaseCollection;
+  documents: Map<string, Record<string, any>>;
+}
+
+// Appwrite returns 25 documents per list call unless told otherwise
+const DEFAULT_PAGE_SIZE = 25;
+
+// `$updatedAt` doubles as the document version, so it must change on every update
+function nextVersion(previous: string): string {
+  const now = Date.now();
+  const last = Date.parse(previous);
+  return new Date(now > last ? now : last + 1).toISOString();
+}
+
+/**
+ * In-memory implementation of the database service
+ * Mirrors the behaviour of the Appwrite adapter (error messages, page size,
+ * unique indexes) so the API and tests can run without an Appwrite project.
+ * Data lives in the process and is lost on restart.
+ */
+export class InMemoryDatabaseAdapter implements IDatabaseService {
+  private collections = new Map<string, StoredCollection>();
+
+  constructor(schemas: CollectionSchema[] = []) {
+    for (const schema of schemas) {
+      this.collections.set(schema.name, {
+        meta: {
+          $id: schema.name,
+          name: schema.name,
+          enabled: true,
+          documentSecurity: false,
+          attributes: (schema.attributes ?? []).map(attribute => ({
+            key: attribute.key,
+            type: attribute.type as DatabaseAttribute['type'],
+            status: 'available',
+            required: attribute.required,
+            array: attribute.array ?? false,
+            ...(attribute.size !== undefined && { size: attribute.size }),
+            ...(attribute.default !== undefined && { default: attribute.default })
+          })),
+          indexes: (schema.indexes ?? []).map(index => ({
+            key: index.key,
+            type: index.type as DatabaseIndexType,
+            status: 'available',
+            attributes: index.attributes,
+            orders: index.orders
+          }))
+        },
+        documents: new Map()
+      });
+    }
+  }
+
+  async create<T>(collection: string, data: CreateInput<T>): Promise<T> {
+    const store = this.getCollection(collection);
+    const now = new Date().toISOString();
+    const document = {
+      ...structuredClone(data as Record<string, any>),
+      $id: randomBytes(10).toString('hex'),
+      $collectionId: collection,
+      $createdAt: now,
+      $updatedAt: now
+    };
+
+    this.assertUniqueIndexes(store, document);
+    store.documents.set(document.$id, document);
+
+    logger.debug('Document created:', { collection, documentId: document.$id });
+    return structuredClone(document) as T;
+  }
+
+  async read<T>(collection: string, documentId: string): Promise<T> {
+    const document = this.getCollection(collection).documents.get(documentId);
+    if (!document) {
+      throw new Error(`Document not found: ${documentId}`);
+    }
+    return structuredClone(document) as T;
+  }
+
+  async update<T>(
+    collection: string,
+    documentId: string,
+    data: Partial<T>,
+    options: DatabaseUpdateOptions = {}
+  ): Promise<T> {
+    const store = this.getCollection(collection);
+    const existing = store.documents.get(documentId);
+    if (!existing) {
+      throw new Error('Resource not found');
+    }
+    if (options.expectedVersion !== undefined && options.expectedVersion !== existing.$updatedAt) {
+      throw new ConflictError('Document was modified since it was read', 'VERSION_CONFLICT');
+    }
+
+    // System attributes cannot be overwritten, same as Appwrite
+    const { $id: _id, $createdAt: _createdAt, $updatedAt: _updatedAt, ...changes } = structuredClone(data as Record<string, any>);
+    const document = {
+      ...existing,
+      ...changes,
+      $updatedAt: nextVersion(existing.$updatedAt)
+    };
+
+    this.assertUniqueIndexes(store, document);
+    store.documents.set(documentId, document);
+
+    logger.debug('Document updated:', { collection, documentId });
+    return structuredClone(document) as T;
+  }
+
+  async delete(collection: string, documentId: string): Promise<void> {
+    const store = this.getCollection(collection);
+    if (!store.documents.delete(documentId)) {
+      throw new Error('Resource not found');
+    }
+
+    logger.debug('Document deleted:', { collection, documentId });
+  }
+
+  async list<T>(collection: string, queries?: DatabaseQuery[], options: DatabaseListOptions = {}): Promise<DatabaseListResponse<T>> {
+    const matches = this.filterDocuments(collection, queries || []);
+    const page = this.paginate(this.sortDocuments(matches, options.orderBy || []), options);
+
+    return {
+      documents: page.map(document => structuredClone(document) as T),
+      total: matches.length
+    };
+  }
+
+  async search<T>(
+    collection: string,
+    searchTerm: string,
+    searchFields: string[]
+  ): Promise<DatabaseListResponse<T>> {
+    const fields = searchFields.length > 0 ? searchFields : ['title'];
+    const matches = this.filterDocuments(collection, []).filter(document =>
+      fields.some(field => this.matchesQuery(document, { field, operator: 'search', value: searchTerm }))
+    );
+
+    return {
+      documents: matches.slice(0, DEFAULT_PAGE_SIZE).map(document => structuredClone(document) as T),
+      total: matches.length
+    };
+  }
+
+  async batchCreate<T>(collection: string, documents: CreateInput<T>[]): Promise<T[]> {
+    const results: T[] = [];
+    for (const doc of documents) {
+      results.push(await this.create<T>(collection, doc));
+    }
+
+    logger.debug('Batch create completed:', { collection, count: documents.length });
+    return results;
+  }
+
+  async batchUpdate<T>(collection: string, updates: { documentId: string; data: Partial<T> }[]): Promise<T[]> {
+    const results: T[] = [];
+    for (const update of updates) {
+      results.push(await this.update<T>(collection, update.documentId, update.data));
+    }
+
+    logger.debug('Batch update completed:', { collection, count: updates.length });
+    return results;
+  }
+
+  async batchDelete(collection: string, documentIds: string[]): Promise<void> {
+    for (const documentId of documentIds) {
+      await this.delete(collection, documentId);
+    }
+
+    logger.debug('Batch delete completed:', { collection, count: documentIds.length });
+  }
+
+  async count(collection: string, queries?: DatabaseQuery[]): Promise<number> {
+    return this.filterDocuments(collection, queries || []).length;
+  }
+
+  async exists(collection: string, documentId: string): Promise<boolean> {
+    return this.getCollection(collection).documents.has(documentId);
+  }
+
+  /**
+   * Unlike Appwrite, transactions here are atomic: a failing operation restores every collection
+   */
+  async transaction<T>(operations: DatabaseOperation[]): Promise<T[]> {
+    const snapshot = new Map(
+      [...this.collections].map(([name, store]) => [name, { meta: store.meta, documents: new Map(store.documents) }])
+    );
+    const results: T[] = [];
+
+    try {
+      for (const operation of operations) {
+        switch (operation.type) {
+          case 'create':
+            results.push(await this.create<T>(operation.collection, operation.data));
+            break;
+          case 'update':
+            if (!operation.documentId) throw new Error('Document ID required for update operation');
+            results.push(await this.update<T>(operation.collection, operation.documentId, operation.data));
+            break;
+          case 'delete':
+            if (!operation.documentId) throw new Error('Document ID required for delete operation');
+            await this.delete(operation.collection, operation.documentId);
+            results.push({ success: true } as T);
+            break;
+          default:
+            throw new Error(`Unsupported operation type: ${operation.type}`);
+        }
+      }
+
+      return results;
+    } catch (error) {
+      this.collections = snapshot;
+      logger.error('Transaction failed:', { operations: operations.length, error });
+      throw new Error('Transaction failed: ' + (error as Error).message);
+    }
+  }
+
+  async createCollection(collectionId: string, name: string): Promise<void> {
+    if (this.collections.has(collectionId)) {
+      throw new Error('Resource already exists');
+    }
+
+    this.collections.set(collectionId, {
+      meta: {
+        $id: collectionId,
+        name,
+        enabled: true,
+        documentSecurity: false,
+        attributes: [],
+        indexes: []
+      },
+      documents: new Map()
+    });
+
+    logger.info('Collection created:', { collectionId, name });
+  }
+
+  async deleteCollection(collectionId: string): Promise<void> {
+    if (!this.collections.delete(collectionId)) {
+      throw new Error('Resource not found');
+    }
+
+    logger.info('Collection deleted:', { collectionId });
+  }
+
+  async listCollections(): Promise<DatabaseCollection[]> {
+    return [...this.collections.values()].map(store => structuredClone(store.meta));
+  }
+
+  async createAttribute(collectionId: string, attribute: DatabaseAttributeDefinition): Promise<void> {
+    const store = this.getCollection(collectionId);
+    if (store.meta.attributes.some(existing => existing.key === attribute.key)) {
+      throw new Error('Resource already exists');
+    }
+
+    const { min: _min, max: _max, ...definition } = attribute;
+    store.meta.attributes.push({ ...definition, array: attribute.array ?? false, status: 'available' });
+
+    logger.info('Attribute created:', { collectionId, key: attribute.key, type: attribute.type });
+  }
+
+  /**
+   * Drops the attribute, its values and the indexes using it, like Appwrite does
+   */
+  async deleteAttribute(collectionId: string, key: string): Promise<void> {
+    const store = this.getCollection(collectionId);
+    if (!store.meta.attributes.some(attribute => attribute.key === key)) {
+      throw new Error('Resource not found');
+    }
+
+    store.meta.attributes = store.meta.attributes.filter(attribute => attribute.key !== key);
+    store.meta.indexes = store.meta.indexes.filter(index => !index.attributes.includes(key));
+    for (const document of store.documents.values()) {
+      delete document[key];
+    }
+
+    logger.info('Attribute deleted:', { collectionId, key });
+  }
+
+  async createIndex(
+    collectionId: string,
+    key: string,
+    type: DatabaseIndexType,
+    attributes: string[],
+    orders?: string[]
+  ): Promise<void> {
+    const store = this.getCollection(collectionId);
+    if (store.meta.indexes.some(index => index.key === key)) {
+      throw new Error('Resource already exists');
+    }
+
+    const index: DatabaseIndex = { key, type, status: 'available', attributes, ...(orders && { orders }) };
+    if (type === 'unique') {
+      this.assertUniqueIndex(store, index);
+    }
+    store.meta.indexes.push(index);
+
+    logger.info('Index created:', { collectionId, key, type });
+  }
+
+  async deleteIndex(collectionId: string, key: string): Promise<void> {
+    const store = this.getCollection(collectionId);
+    const before = store.meta.indexes.length;
+    store.meta.indexes = store.meta.indexes.filter(index => index.key !== key);
+    if (store.meta.indexes.length === before) {
+      throw new Error('Resource not found');
+    }
+
+    logger.info('Index deleted:', { collectionId, key });
+  }
+
+  async listIndexes(collectionId: string): Promise<DatabaseIndex[]> {
+    return structuredClone(this.getCollection(collectionId).meta.indexes);
+  }
+
+  /**
+   * Remove every document while keeping collections and indexes, handy between tests
+   */
+  clear(): void {
+    for (const store of this.collections.values()) {
+      store.documents.clear();
+    }
+  }
+
+  // Collections are created on first use so undeclared ones (e.g. permission audit) still work
+  private getCollection(collection: string): StoredCollection {
+    let store = this.collections.get(collection);
+    if (!store) {
+      store = {
+        meta: { $id: collection, name: collection, enabled: true, documentSecurity: false, attributes: [], indexes: [] },
+        documents: new Map()
+      };
+      this.collections.set(collection, store);
+    }
+    return store;
+  }
+
+  // Documents come back in insertion order, like Appwrite's default ordering
+  private filterDocuments(collection: string, queries: DatabaseQuery[]): Record<string, any>[] {
+    return [...this.getCollection(collection).documents.values()].filter(document =>
+      queries.every(query => this.matchesQuery(document, query))
+    );
+  }
+
+  // Stable sort, so documents with equal values keep insertion order
+  private sortDocuments(documents: Record<string, any>[], orderBy: DatabaseOrder[]): Record<string, any>[] {
+    if (orderBy.length === 0) {
+      return documents;
+    }
+
+    return [...documents].sort((a, b) => {
+      for (const order of orderBy) {
+        const result = this.compareValues(a[order.field], b[order.field]);
+        if (result !== 0) {
+          return order.direction === 'asc' ? result : -result;
+        }
+      }
+      return 0;
+    });
+  }
+
+  // Missing values sort first, like NULL in SQL databases
+  private compareValues(a: any, b: any): number {
+    if (a === b) return 0;
+    if (a === undefined || a === null) return -1;
+    if (b === undefined || b === null) return 1;
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  /**
+   * Apply cursor, offset and limit to already ordered documents
+   * A `cursorBefore` page holds the documents right before the cursor, still in order.
+   */
+  private paginate(documents: Record<string, any>[], options: DatabaseListOptions): Record<string, any>[] {
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    const offset = options.offset ?? 0;
+    const cursor = options.cursorAfter || options.cursorBefore;
+
+    if (!cursor) {
+      return documents.slice(offset, offset + limit);
+    }
+
+    const position = documents.findIndex(document => document.$id === cursor);
+    if (position === -1) {
+      throw new Error(`Cursor document not found: ${cursor}`);
+    }
+
+    if (options.cursorAfter) {
+      return documents.slice(position + 1).slice(offset, offset + limit);
+    }
+
+    const end = Math.max(position - offset, 0);
+    return documents.slice(Math.max(end - limit, 0), end);
+  }
+
+  private matchesQuery(document: Record<string, any>, query: DatabaseQuery): boolean {
+    const actual = document[query.field];
+    const expected: any[] = Array.isArray(query.value) ? query.value : [query.value];
+    // Array attributes match when any of their items does
+    const candidates: any[] = Array.isArray(actual) ? actual : [actual];
+
+    switch (query.operator) {
+      case 'equal':
+        return candidates.some(candidate => expected.some(value => candidate === value));
+      case 'notEqual':
+        return candidates.every(candidate => expected.every(value => candidate !== value));
+      case 'less':
+        return this.isComparable(actual, query.value) && actual < query.value;
+      case 'lessEqual':
+        return this.isComparable(actual, query.value) && actual <= query.value;
+      case 'greater':
+        return this.isComparable(actual, query.value) && actual > query.value;
+      case 'greaterEqual':
+        return this.isComparable(actual, query.value) && actual >= query.value;
+      case 'between': {
+        const [min, max] = query.value as [any, any];
+        return this.isComparable(actual, min) && actual >= min && actual <= max;
+      }
+      case 'contains':
+        return Array.isArray(actual)
+          ? actual.some(item => expected.includes(item))
+          : typeof actual === 'string' && expected.some(value => actual.includes(String(value)));
+      case 'search': {
+        // Full-text search matches when any search word starts a word in the field
+        const words = String(query.value).toLowerCase().split(/\s+/).filter(Boolean);
+        const text = candidates.filter(candidate => typeof candidate === 'string').join(' ').toLowerCase();
+        return words.some(word => new RegExp(`(^|\\W)${this.escapeRegExp(word)}`).test(text));
+      }
+      case 'isNull':
+        return actual === null || actual === undefined;
+      case 'isNotNull':
+        return actual !== null && actual !== undefined;
+      case 'startsWith':
+        return typeof actual === 'string' && actual.startsWith(String(query.value));
+      case 'endsWith':
+        return typeof actual === 'string' && actual.endsWith(String(query.value));
+      default:
+        throw new Error(`Unsupported query operator: ${query.operator}`);
+    }
+  }
+
+  private isComparable(actual: unknown, value: unknown): boolean {
+    return actual !== null && actual !== undefined && typeof actual === typeof value;
+  }
+
+  private assertUniqueIndexes(store: StoredCollection, document: Record<string, any>): void {
+    for (const index of store.meta.indexes) {
+      if (index.type === 'unique') {
+        this.assertUniqueIndex(store, index, document);
+      }
+    }
+  }
+
+  private assertUniqueIndex(store: StoredCollection, index: DatabaseIndex, candidate?: Record<string, any>): void {
+    // Like SQL unique indexes, rows with a missing value never collide
+    const keyOf = (document: Record<string, any>) => index.attributes.some(attribute => document[attribute] == null)
+      ? null
+      : JSON.stringify(index.attributes.map(attribute => document[attribute]));
+    const seen = new Set<string>();
+
+    for (const document of store.documents.values()) {
+      const key = keyOf(document);
+      if (key === null || (candidate && document.$id === candidate.$id)) continue;
+      if (!candidate && seen.has(key)) {
+        throw new Error('Resource already exists');
+      }
+      seen.add(key);
+    }
+
+    const candidateKey = candidate ? keyOf(candidate) : null;
+    if (candidateKey !== null && seen.has(candidateKey)) {
+      throw new Error('Resource already exists');
+    }
+  }
+
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -0,0 +1,627 @@
+import { Database, type SQLQueryBindings } from 'bun:sqlite';
+import { randomBytes } from 'crypto';
+import type {
+  IDatabaseService,
+  DatabaseQuery,
+  DatabaseListResponse,
+  DatabaseListOptions,
+  DatabaseOrder,
+  DatabaseOperation,
+  DatabaseUpdateOptions,
+  DatabaseCollection,
+  DatabaseAttribute,
+  DatabaseAttributeDefinition,
+  DatabaseIndex,
+  DatabaseIndexType
+} from '../../core/interfaces/IDatabaseService.js';
+import type { CollectionSchema, CreateInput } from '../../models/BaseModel.js';
+import { ConflictError } from '../../utils/BusinessError.js';
+import { logger } from '../../utils/logger.js';
+
+type Row = { $id: string; $createdAt: string; $updatedAt: string; data: string };
+
+// Appwrite returns 25 documents per list call unless told otherwise
+const DEFAULT_PAGE_SIZE = 25;
+const SYSTEM_FIELDS = new Set(['$id', '$createdAt', '$updatedAt']);
+const IDENTIFIER = /^[A-Za-z0-9_]+$/;
+const META_TABLE = '_collections';
+
+/**
+ * Embedded SQLite implementation of the database service (Bun's built-in driver)
+ * Every collection is a table holding system attributes as columns and the document
+ * as JSON; schema indexes become expression indexes on the JSON attributes, so any
+ * document shape still fits while declared attributes stay indexed.
+ */
+export class SqliteDatabaseAdapter implements IDatabaseService {
+  private db: Database;
+  private collections = new Map<string, DatabaseCollection>();
+
+  constructor(filename: string, schemas: CollectionSchema[] = []) {
+    this.db = new Database(filename, { create: true });
+    this.db.run('PRAGMA journal_mode = WAL');
+    this.db.run(`CREATE TABLE IF NOT EXISTS "${META_TABLE}" (id TEXT PRIMARY KEY, definition TEXT NOT NULL)`);
+
+    for (const row of this.db.query<{ definition: string }, []>(`SELECT definition FROM "${META_TABLE}"`).all()) {
+      const collection = JSON.parse(row.definition) as DatabaseCollection;
+      this.collections.set(collection.$id, collection);
+    }
+
+    this.db.transaction(() => {
+      for (const schema of schemas) {
+        this.applySchema(schema);
+      }
+    })();
+  }
+
+  async create<T>(collection: string, data: CreateInput<T>): Promise<T> {
+    try {
+      const document = this.insertDocument(collection, data as Record<string, any>);
+      logger.debug('Document created:', { collection, documentId: document.$id });
+      return document as T;
+    } catch (error) {
+      logger.error('Failed to create document:', { collection, error });
+      throw this.mapSqliteError(error);
+    }
+  }
+
+  async read<T>(collection: string, documentId: string): Promise<T> {
+    const document = this.findDocument(collection, documentId);
+    if (!document) {
+      throw new Error(`Document not found: ${documentId}`);
+    }
+    return document as T;
+  }
+
+  async update<T>(
+    collection: string,
+    documentId: string,
+    data: Partial<T>,
+    options: DatabaseUpdateOptions = {}
+  ): Promise<T> {
+    try {
+      const document = this.updateDocument(collection, documentId, data as Record<string, any>, options.expectedVersion);
+      logger.debug('Document updated:', { collection, documentId });
+      return document as T;
+    } catch (error) {
+      logger.error('Failed to update document:', { collection, documentId, error });
+      throw this.mapSqliteError(error);
+    }
+  }
+
+  async delete(collection: string, documentId: string): Promise<void> {
+    this.deleteDocument(collection, documentId);
+    logger.debug('Document deleted:', { collection, documentId });
+  }
+
+  async list<T>(collection: string, queries?: DatabaseQuery[], options: DatabaseListOptions = {}): Promise<DatabaseListResponse<T>> {
+    const table = this.ensureTable(collection);
+    const { where, params } = this.buildWhere(collection, queries || []);
+    const orderBy = this.buildOrderBy(options.orderBy || []);
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    const offset = options.offset ?? 0;
+    const cursor = options.cursorAfter || options.cursorBefore;
+
+    let rows: Row[];
+    if (!cursor) {
+      rows = this.db.query<Row, SQLQueryBindings[]>(
+        `SELECT * FROM "${table}" AS t ${where} ORDER BY ${orderBy} LIMIT ? OFFSET ?`
+      ).all(...params, limit, offset);
+    } else {
+      // Number the matching rows in the requested order, then page relative to the cursor row
+      const ordered = `WITH ordered AS (SELECT t.*, ROW_NUMBER() OVER (ORDER BY ${orderBy}) AS position FROM "${table}" AS t ${where})`;
+      const position = this.db.query<{ position: number }, SQLQueryBindings[]>(
+        `${ordered} SELECT position FROM ordered WHERE "$id" = ?`
+      ).get(...params, cursor);
+      if (!position) {
+        throw new Error(`Cursor document not found: ${cursor}`);
+      }
+
+      rows = options.cursorAfter
+        ? this.db.query<Row, SQLQueryBindings[]>(
+          `${ordered} SELECT * FROM ordered WHERE position > ? ORDER BY position LIMIT ? OFFSET ?`
+        ).all(...params, position.position, limit, offset)
+        : this.db.query<Row, SQLQueryBindings[]>(
+          `${ordered} SELECT * FROM ordered WHERE position < ? ORDER BY position DESC LIMIT ? OFFSET ?`
+        ).all(...params, position.position, limit, offset).reverse();
+    }
+
+    return {
+      documents: rows.map(row => this.toDocument(collection, row) as T),
+      total: await this.count(collection, queries)
+    };
+  }
+
+  async search<T>(
+    collection: string,
+    searchTerm: string,
+    searchFields: string[]
+  ): Promise<DatabaseListResponse<T>> {
+    const table = this.ensureTable(collection);
+    const fields = searchFields.length > 0 ? searchFields : ['title'];
+    const conditions = fields.map(field => this.buildCondition(collection, { field, operator: 'search', value: searchTerm }));
+    const where = `WHERE ${conditions.map(condition => `(${condition.sql})`).join(' OR ')}`;
+    const params = conditions.flatMap(condition => condition.params);
+
+    const rows = this.db.query<Row, SQLQueryBindings[]>(
+      `SELECT * FROM "${table}" AS t ${where} ORDER BY rowid LIMIT ${DEFAULT_PAGE_SIZE}`
+    ).all(...params);
+    const total = this.db.query<{ total: number }, SQLQueryBindings[]>(
+      `SELECT COUNT(*) AS total FROM "${table}" AS t ${where}`
+    ).get(...params);
+
+    return {
+      documents: rows.map(row => this.toDocument(collection, row) as T),
+      total: total?.total ?? 0
+    };
+  }
+
+  async batchCreate<T>(collection: string, documents: CreateInput<T>[]): Promise<T[]> {
+    try {
+      const results = this.db.transaction(() =>
+        documents.map(doc => this.insertDocument(collection, doc as Record<string, any>) as T)
+      )();
+
+      logger.debug('Batch create completed:', { collection, count: documents.length });
+      return results;
+    } catch (error) {
+      logger.error('Failed to batch create documents:', { collection, error });
+      throw this.mapSqliteError(error);
+    }
+  }
+
+  async batchUpdate<T>(collection: string, updates: { documentId: string; data: Partial<T> }[]): Promise<T[]> {
+    try {
+      const results = this.db.transaction(() =>
+        updates.map(update => this.updateDocument(collection, update.documentId, update.data as Record<string, any>) as T)
+      )();
+
+      logger.debug('Batch update completed:', { collection, count: updates.length });
+      return results;
+    } catch (error) {
+      logger.error('Failed to batch update documents:', { collection, error });
+      throw this.mapSqliteError(error);
+    }
+  }
+
+  async batchDelete(collection: string, documentIds: string[]): Promise<void> {
+    this.db.transaction(() => {
+      for (const documentId of documentIds) {
+        this.deleteDocument(collection, documentId);
+      }
+    })();
+
+    logger.debug('Batch delete completed:', { collection, count: documentIds.length });
+  }
+
+  async count(collection: string, queries?: DatabaseQuery[]): Promise<number> {
+    const table = this.ensureTable(collection);
+    const { where, params } = this.buildWhere(collection, queries || []);
+
+    const result = this.db.query<{ total: number }, SQLQueryBindings[]>(
+      `SELECT COUNT(*) AS total FROM "${table}" AS t ${where}`
+    ).get(...params);
+    return result?.total ?? 0;
+  }
+
+  async exists(collection: string, documentId: string): Promise<boolean> {
+    return this.findDocument(collection, documentId) !== null;
+  }
+
+  /**
+   * Runs all operations in one SQLite transaction, a failure rolls every one of them back
+   */
+  async transaction<T>(operations: DatabaseOperation[]): Promise<T[]> {
+    try {
+      return this.db.transaction(() => operations.map(operation => {
+        switch (operation.type) {
+          case 'create':
+            return this.insertDocument(operation.collection, operation.data) as T;
+          case 'update':
+            if (!operation.documentId) throw new Error('Document ID required for update operation');
+            return this.updateDocument(operation.collection, operation.documentId, operation.data) as T;
+          case 'delete':
+            if (!operation.documentId) throw new Error('Document ID required for delete operation');
+            this.deleteDocument(operation.collection, operation.documentId);
+            return { success: true } as T;
+          default:
+            throw new Error(`Unsupported operation type: ${operation.type}`);
+        }
+      }))();
+    } catch (error) {
+      logger.error('Transaction failed:', { operations: operations.length, error });
+      throw new Error('Transaction failed: ' + this.mapSqliteError(error).message);
+    }
+  }
+
+  async createCollection(collectionId: string, name: string): Promise<void> {
+    if (this.collections.has(collectionId)) {
+      throw new Error('Resource already exists');
+    }
+
+    this.ensureTable(collectionId, name);
+    logger.info('Collection created:', { collectionId, name });
+  }
+
+  async deleteCollection(collectionId: string): Promise<void> {
+    if (!this.collections.has(collectionId)) {
+      throw new Error('Resource not found');
+    }
+
+    const table = this.tableName(collectionId);
+    this.db.transaction(() => {
+      this.db.run(`DROP TABLE IF EXISTS "${table}"`);
+      this.db.query(`DELETE FROM "${META_TABLE}" WHERE id = ?`).run(collectionId);
+    })();
+    this.collections.delete(collectionId);
+
+    logger.info('Collection deleted:', { collectionId });
+  }
+
+  async listCollections(): Promise<DatabaseCollection[]> {
+    return [...this.collections.values()].map(collection => structuredClone(collection));
+  }
+
+  /**
+   * Attributes are metadata only, documents keep their JSON shape
+   */
+  async createAttribute(collectionId: string, attribute: DatabaseAttributeDefinition): Promise<void> {
+    this.ensureTable(collectionId);
+    const collection = this.collections.get(collectionId)!;
+    if (!IDENTIFIER.test(attribute.key)) {
+      throw new Error(`Invalid field name: ${attribute.key}`);
+    }
+    if (collection.attributes.some(existing => existing.key === attribute.key)) {
+      throw new Error('Resource already exists');
+    }
+
+    const { min: _min, max: _max, ...definition } = attribute;
+    collection.attributes.push({ ...definition, array: attribute.array ?? false, status: 'available' });
+    this.saveCollection(collection);
+
+    logger.info('Attribute created:', { collectionId, key: attribute.key, type: attribute.type });
+  }
+
+  /**
+   * Drops the attribute, its values and the indexes using it, like Appwrite does
+   */
+  async deleteAttribute(collectionId: string, key: string): Promise<void> {
+    const collection = this.collections.get(collectionId);
+    if (!collection || !collection.attributes.some(attribute => attribute.key === key)) {
+      throw new Error('Resource not found');
+    }
+
+    const table = this.tableName(collectionId);
+    this.db.transaction(() => {
+      for (const index of collection.indexes.filter(candidate => candidate.attributes.includes(key))) {
+        this.db.run(`DROP INDEX IF EXISTS "${this.indexName(collectionId, index.key)}"`);
+      }
+      this.db.run(`UPDATE "${table}" SET data = json_remove(data, '$.${key}')`);
+
+      collection.attributes = collection.attributes.filter(attribute => attribute.key !== key);
+      collection.indexes = collection.indexes.filter(index => !index.attributes.includes(key));
+      this.saveCollection(collection);
+    })();
+
+    logger.info('Attribute deleted:', { collectionId, key });
+  }
+
+  async createIndex(
+    collectionId: string,
+    key: string,
+    type: DatabaseIndexType,
+    attributes: string[],
+    orders?: string[]
+  ): Promise<void> {
+    this.ensureTable(collectionId);
+    const collection = this.collections.get(collectionId)!;
+    if (collection.indexes.some(index => index.key === key)) {
+      throw new Error('Resource already exists');
+    }
+
+    try {
+      const index: DatabaseIndex = { key, type, status: 'available', attributes, ...(orders && { orders }) };
+      this.db.transaction(() => {
+        this.createSqlIndex(collectionId, index);
+        collection.indexes.push(index);
+        this.saveCollection(collection);
+      })();
+    } catch (error) {
+      collection.indexes = collection.indexes.filter(index => index.key !== key);
+      logger.error('Failed to create index:', { collectionId, key, type, error });
+      throw this.mapSqliteError(error);
+    }
+
+    logger.info('Index created:', { collectionId, key, type });
+  }
+
+  async deleteIndex(collectionId: string, key: string): Promise<void> {
+    const collection = this.collections.get(collectionId);
+    if (!collection || !collection.indexes.some(index => index.key === key)) {
+      throw new Error('Resource not found');
+    }
+
+    this.db.transaction(() => {
+      this.db.run(`DROP INDEX IF EXISTS "${this.indexName(collectionId, key)}"`);
+      collection.indexes = collection.indexes.filter(index => index.key !== key);
+      this.saveCollection(collection);
+    })();
+
+    logger.info('Index deleted:', { collectionId, key });
+  }
+
+  async listIndexes(collectionId: string): Promise<DatabaseIndex[]> {
+    const collection = this.collections.get(collectionId);
+    if (!collection) {
+      throw new Error('Resource not found');
+    }
+    return structuredClone(collection.indexes);
+  }
+
+  /**
+   * Close the underlying database file
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  private applySchema(schema: CollectionSchema): void {
+    this.ensureTable(schema.name);
+    const collection = this.collections.get(schema.name)!;
+
+    collection.attributes = (schema.attributes ?? []).map(attribute => ({
+      key: attribute.key,
+      type: attribute.type as DatabaseAttribute['type'],
+      status: 'available',
+      required: attribute.required,
+      array: attribute.array ?? false,
+      ...(attribute.size !== undefined && { size: attribute.size }),
+      ...(attribute.default !== undefined && { default: attribute.default })
+    }));
+
+    // Indexes created at runtime are kept, schema indexes are (re)applied
+    for (const schemaIndex of schema.indexes ?? []) {
+      const index: DatabaseIndex = {
+        key: schemaIndex.key,
+        type: schemaIndex.type as DatabaseIndexType,
+        status: 'available',
+        attributes: schemaIndex.attributes,
+        orders: schemaIndex.orders
+      };
+      this.createSqlIndex(schema.name, index);
+      collection.indexes = [...collection.indexes.filter(existing => existing.key !== index.key), index];
+    }
+
+    this.saveCollection(collection);
+  }
+
+  // Collections are created on first use so undeclared ones (e.g. permission audit) still work
+  private ensureTable(collectionId: string, name: string = collectionId): string {
+    const table = this.tableName(collectionId);
+    if (!this.collections.has(collectionId)) {
+      this.db.run(`CREATE TABLE IF NOT EXISTS "${table}" (
+        "$id" TEXT PRIMARY KEY,
+        "$createdAt" TEXT NOT NULL,
+        "$updatedAt" TEXT NOT NULL,
+        data TEXT NOT NULL
+      )`);
+
+      const collection: DatabaseCollection = {
+        $id: collectionId,
+        name,
+        enabled: true,
+        documentSecurity: false,
+        attributes: [],
+        indexes: []
+      };
+      this.collections.set(collectionId, collection);
+      this.saveCollection(collection);
+    }
+    return table;
+  }
+
+  private saveCollection(collection: DatabaseCollection): void {
+    this.db.query(`INSERT OR REPLACE INTO "${META_TABLE}" (id, definition) VALUES (?, ?)`)
+      .run(collection.$id, JSON.stringify(collection));
+  }
+
+  /**
+   * Fulltext indexes are metadata only, search scans with LIKE instead
+   */
+  private createSqlIndex(collectionId: string, index: DatabaseIndex): void {
+    if (index.type === 'fulltext') {
+      return;
+    }
+
+    const columns = index.attributes.map((attribute, position) =>
+      `${this.fieldExpression(attribute, '')} ${index.orders?.[position] === 'DESC' ? 'DESC' : 'ASC'}`
+    );
+    this.db.run(`CREATE ${index.type === 'unique' ? 'UNIQUE ' : ''}INDEX IF NOT EXISTS "${this.indexName(collectionId, index.key)}" ON "${this.tableName(collectionId)}" (${columns.join(', ')})`);
+  }
+
+  private insertDocument(collection: string, data: Record<string, any>): Record<string, any> {
+    const table = this.ensureTable(collection);
+    const now = new Date().toISOString();
+    const $id = randomBytes(10).toString('hex');
+    const { $id: _id, $createdAt: _createdAt, $updatedAt: _updatedAt, ...fields } = data;
+
+    this.db.query(`INSERT INTO "${table}" ("$id", "$createdAt", "$updatedAt", data) VALUES (?, ?, ?, ?)`)
+      .run($id, now, now, JSON.stringify(fields));
+
+    return { ...fields, $id, $collectionId: collection, $createdAt: now, $updatedAt: now };
+  }
+
+  private updateDocument(
+    collection: string,
+    documentId: string,
+    data: Record<string, any>,
+    expectedVersion?: string
+  ): Record<string, any> {
+    const existing = this.findDocument(collection, documentId);
+    if (!existing) {
+      throw new Error('Resource not found');
+    }
+    if (expectedVersion !== undefined && expectedVersion !== existing.$updatedAt) {
+      throw new ConflictError('Document was modified since it was read', 'VERSION_CONFLICT');
+    }
+
+    // System attributes cannot be overwritten, same as Appwrite
+    const { $id, $collectionId, $createdAt, $updatedAt: previous, ...fields } = existing;
+    const { $id: _id, $createdAt: _createdAt, $updatedAt: _updatedAt, ...changes } = data;
+    const merged = { ...fields, ...changes };
+    // `$updatedAt` doubles as the document version, so it must change on every update
+    const version = new Date(Math.max(Date.now(), Date.parse(previous) + 1)).toISOString();
+
+    // Compare-and-swap on the version read above, another process may share the file
+    const result = this.db.query(`UPDATE "${this.tableName(collection)}" SET data = ?, "$updatedAt" = ? WHERE "$id" = ? AND "$updatedAt" = ?`)
+      .run(JSON.stringify(merged), version, documentId, previous);
+    if (result.changes === 0) {
+      throw new ConflictError('Document was modified since it was read', 'VERSION_CONFLICT');
+    }
+
+    return { ...merged, $id, $collectionId, $createdAt, $updatedAt: version };
+  }
+
+  private deleteDocument(collection: string, documentId: string): void {
+    const table = this.ensureTable(collection);
+    const result = this.db.query(`DELETE FROM "${table}" WHERE "$id" = ?`).run(documentId);
+    if (result.changes === 0) {
+      throw new Error('Resource not found');
+    }
+  }
+
+  private findDocument(collection: string, documentId: string): Record<string, any> | null {
+    const table = this.ensureTable(collection);
+    const row = this.db.query<Row, [string]>(`SELECT * FROM "${table}" WHERE "$id" = ?`).get(documentId);
+    return row ? this.toDocument(collection, row) : null;
+  }
+
+  private toDocument(collection: string, row: Row): Record<string, any> {
+    return {
+      ...JSON.parse(row.data),
+      $id: row.$id,
+      $collectionId: collection,
+      $createdAt: row.$createdAt,
+      $updatedAt: row.$updatedAt
+    };
+  }
+
+  private buildWhere(collection: string, queries: DatabaseQuery[]): { where: string; params: SQLQueryBindings[] } {
+    const conditions = queries.map(query => this.buildCondition(collection, query));
+    return {
+      where: conditions.length > 0 ? `WHERE ${conditions.map(condition => `(${condition.sql})`).join(' AND ')}` : '',
+      params: conditions.flatMap(condition => condition.params)
+    };
+  }
+
+  private buildCondition(collection: string, query: DatabaseQuery): { sql: string; params: SQLQueryBindings[] } {
+    const field = this.fieldExpression(query.field);
+    const values: SQLQueryBindings[] = (Array.isArray(query.value) ? query.value : [query.value]).map(value => this.toBinding(value));
+    const placeholders = values.map(() => '?').join(', ');
+    const isSystem = SYSTEM_FIELDS.has(query.field);
+    const attribute = this.collections.get(collection)?.attributes.find(candidate => candidate.key === query.field);
+    // json_each yields the items of an array, or the value itself for scalars
+    const anyItemIn = `EXISTS (SELECT 1 FROM json_each(t.data, '$.${query.field}') WHERE value IN (${placeholders}))`;
+
+    switch (query.operator) {
+      case 'equal':
+        return {
+          sql: isSystem || (attribute && !attribute.array) ? `${field} IN (${placeholders})` : anyItemIn,
+          params: values
+        };
+      case 'notEqual':
+        return {
+          sql: isSystem || (attribute && !attribute.array)
+            ? `${field} IS NULL OR ${field} NOT IN (${placeholders})`
+            : `NOT ${anyItemIn}`,
+          params: values
+        };
+      case 'less':
+        return { sql: `${field} < ?`, params: [this.toBinding(query.value)] };
+      case 'lessEqual':
+        return { sql: `${field} <= ?`, params: [this.toBinding(query.value)] };
+      case 'greater':
+        return { sql: `${field} > ?`, params: [this.toBinding(query.value)] };
+      case 'greaterEqual':
+        return { sql: `${field} >= ?`, params: [this.toBinding(query.value)] };
+      case 'between': {
+        const [min, max] = query.value as [any, any];
+        return { sql: `${field} BETWEEN ? AND ?`, params: [this.toBinding(min), this.toBinding(max)] };
+      }
+      case 'contains':
+        return {
+          sql: `CASE json_type(t.data, '$.${query.field}') WHEN 'array' THEN ${anyItemIn} `
+            + `ELSE (${values.map(() => `instr(${field}, ?) > 0`).join(' OR ') || '0'}) END`,
+          params: [...values, ...values.map(value => String(value))]
+        };
+      case 'search': {
+        // Full-text search matches when any search word starts a word in the field
+        const words = String(query.value).toLowerCase().split(/\s+/).filter(Boolean);
+        if (words.length === 0) {
+          return { sql: '0', params: [] };
+        }
+        return {
+          sql: words.map(() => `(' ' || lower(${field})) LIKE ? ESCAPE '\\'`).join(' OR '),
+          params: words.map(word => `% ${word.replace(/[\\%_]/g, char => `\\${char}`)}%`)
+        };
+      }
+      case 'isNull':
+        return { sql: `${field} IS NULL`, params: [] };
+      case 'isNotNull':
+        return { sql: `${field} IS NOT NULL`, params: [] };
+      case 'startsWith':
+        return { sql: `substr(${field}, 1, length(?)) = ?`, params: [String(query.value), String(query.value)] };
+      case 'endsWith':
+        return { sql: `substr(${field}, -length(?)) = ?`, params: [String(query.value), String(query.value)] };
+      default:
+        throw new Error(`Unsupported query operator: ${query.operator}`);
+    }
+  }
+
+  // Ties fall back to insertion order, which is also the order without any sort
+  private buildOrderBy(orderBy: DatabaseOrder[]): string {
+    return [
+      ...orderBy.map(order => `${this.fieldExpression(order.field)} ${order.direction === 'asc' ? 'ASC' : 'DESC'}`),
+      't.rowid'
+    ].join(', ');
+  }
+
+  /**
+   * Column for system attributes, JSON path for everything else
+   * Index and query expressions must be written identically for SQLite to use the index.
+   */
+  private fieldExpression(field: string, alias: string = 't.'): string {
+    if (SYSTEM_FIELDS.has(field)) {
+      return `${alias}"${field}"`;
+    }
+    if (!IDENTIFIER.test(field)) {
+      throw new Error(`Invalid field name: ${field}`);
+    }
+    return `json_extract(${alias}data, '$.${field}')`;
+  }
+
+  private toBinding(value: unknown): SQLQueryBindings {
+    if (typeof value === 'boolean') {
+      return value ? 1 : 0;
+    }
+    return (value ?? null) as SQLQueryBindings;
+  }
+
+  private tableName(collectionId: string): string {
+    if (!IDENTIFIER.test(collectionId)) {
+      throw new Error(`Invalid collection name: ${collectionId}`);
+    }
+    return collectionId;
+  }
+
+  private indexName(collectionId: string, key: string): string {
+    return `${this.tableName(collectionId)}__${key}`;
+  }
+
+  private mapSqliteError(error: unknown): Error {
+    const code = (error as { code?: string })?.code ?? '';
+    if (code.startsWith('SQLITE_CONSTRAINT')) {
+      return new Error('Resource already exists');
+    }
+    return error instanceof Error ? error : new Error('Database operation failed');
+  }
+}
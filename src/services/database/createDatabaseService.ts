@@ -0,0 +1,23 @@
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type { IDatabaseService } from '../../core/interfaces/IDatabaseService.js';
+import { AppwriteDatabaseAdapter } from './AppwriteDatabaseAdapter.js';
+import { InMemoryDatabaseAdapter } from './InMemoryDatabaseAdapter.js';
+import { SqliteDatabaseAdapter } from './SqliteDatabaseAdapter.js';
+import { AllSchemas } from '../../models/index.js';
+import { config } from '../../utils/config.js';
+
+/**
+ * Pick the database implementation configured by DATABASE_PROVIDER
+ * Shared by the service container and command line scripts.
+ */
+export function createDatabaseService(): IDatabaseService {
+  if (config.database.provider === 'memory') {
+    return new InMemoryDatabaseAdapter(AllSchemas);
+  }
+  if (config.database.provider === 'sqlite') {
+    mkdirSync(dirname(config.database.sqlitePath), { recursive: true });
+    return new SqliteDatabaseAdapter(config.database.sqlitePath, AllSchemas);
+  }
+  return new AppwriteDatabaseAdapter();
+}
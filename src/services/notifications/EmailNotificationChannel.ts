@@ -0,0 +1,21 @@
+import type { INotificationChannel, NotificationRecord } from '../../core/interfaces/INotificationService.js';
+import type { IEmailService } from '../../core/interfaces/IEmailService.js';
+import type { User } from '../../types/index.js';
+
+/**
+ * Email channel, delivers through the configured email service
+ */
+export class EmailNotificationChannel implements INotificationChannel {
+  readonly name = 'email' as const;
+
+  constructor(private emailService: IEmailService) {}
+
+  async send(notification: NotificationRecord, recipient: User): Promise<void> {
+    await this.emailService.sendNotificationEmail(
+      recipient.email,
+      recipient.name,
+      notification.title,
+      notification.body
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import type { INotificationChannel, NotificationRecord } from '../../core/interfaces/INotificationService.js';
+import type { User } from '../../types/index.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * In-app channel
+ * The notification document itself is the in-app inbox entry, so delivery
+ * only needs to happen once it has been persisted.
+ */
+export class InAppNotificationChannel implements INotificationChannel {
+  readonly name = 'in_app' as const;
+
+  async send(notification: NotificationRecord, recipient: User): Promise<void> {
+    logger.debug('In-app notification available', {
+      notificationId: notification.id,
+      userId: recipient.$id
+    });
+  }
+}
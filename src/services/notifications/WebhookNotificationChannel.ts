@@ -0,0 +1,63 @@
+import type { INotificationChannel, NotificationRecord } from '../../core/interfaces/INotificationService.js';
+import type { User } from '../../types/index.js';
+import { checkOutboundUrl, type HostLookup } from '../../utils/outboundUrls.js';
+import { logger } from '../../utils/logger.js';
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+export interface WebhookNotificationChannelOptions {
+  allowPrivateHosts: boolean;
+  lookup?: HostLookup;
+}
+
+/**
+ * Outbound HTTP webhook channel
+ * POSTs the notification as JSON to the URL configured in the user's notification preferences.
+ * The URL is user supplied, so its host is resolved and must be public before every request.
+ */
+export class WebhookNotificationChannel implements INotificationChannel {
+  readonly name = 'webhook' as const;
+
+  constructor(private options: WebhookNotificationChannelOptions = { allowPrivateHosts: false }) {}
+
+  async send(notification: NotificationRecord, recipient: User): Promise<void> {
+    const webhookUrl = recipient.preferences?.notificationSettings?.webhookUrl;
+    if (!webhookUrl) {
+      throw new Error('No webhook URL configured');
+    }
+
+    const problem = await checkOutboundUrl(webhookUrl, { requireHttps: true, ...this.options });
+    if (problem) {
+      throw new Error(problem === 'private' ? 'Webhook URL resolves to a private address' : `Webhook URL is ${problem}`);
+    }
+
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'MindSpace-Notifications/1.0'
+      },
+      body: JSON.stringify({
+        id: notification.id,
+        type: notification.type,
+        category: notification.category,
+        title: notification.title,
+        body: notification.body,
+        data: notification.data,
+        createdAt: notification.createdAt
+      }),
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with status ${response.status}`);
+    }
+
+    logger.debug('Webhook notification delivered', {
+      notificationId: notification.id,
+      userId: recipient.$id,
+      status: response.status
+    });
+  }
+}
@@ -1,5 +1,5 @@
-import { Client, Storage, AppwriteException, Compression, ImageGravity, ImageFormat } from 'node-appwrite';
-// Note: InputFile import removed due to version compatibility issue
+import { Client, Storage, AppwriteException, Compression, ImageGravity, ImageFormat, Query } from 'node-appwrite';
+import { InputFile } from 'node-appwrite/file';
 import type { 
   IStorageService,
   StorageFile,
@@ -7,13 +7,19 @@ import type {
   StorageBucket,
   StorageBucketList,
   StorageQuery,
+  StorageByteRange,
   FilePreviewOptions,
   BucketOptions,
   StorageUsage
 } from '../../core/interfaces/IStorageService.js';
+import { findRenditions, renditionFileId } from '../../utils/attachments.js';
+import { sliceStream } from '../../utils/httpRange.js';
 import { config } from '../../utils/config.js';
 import { logger } from '../../utils/logger.js';
 
+// Files summed per request when measuring a bucket, Appwrite returns 25 by default
+const USAGE_PAGE_SIZE = 100;
+
 /**
  * Appwrite implementation of the storage service
  * This adapter wraps Appwrite-specific storage operations
@@ -37,8 +43,17 @@ export class AppwriteStorageAdapter implements IStorageService {
     file: File | Buffer,
     permissions?: string[]
   ): Promise<StorageFile> {
-    // TODO: Fix InputFile import issue in node-appwrite
-    throw new Error('File upload temporarily disabled due to InputFile import issue');
+    try {
+      const input = file instanceof File ? file : InputFile.fromBuffer(file, fileId);
+      const result = await this.storage.createFile(bucketId, fileId, input, permissions);
+      return this.mapToStorageFile(result);
+    } catch (error) {
+      logger.error('Failed to upload file:', { bucketId, fileId, error });
+      if (error instanceof AppwriteException) {
+        throw new Error(this.mapAppwriteError(error));
+      }
+      throw error;
+    }
   }
 
   async uploadFileFromUrl(
@@ -53,8 +68,12 @@ export class AppwriteStorageAdapter implements IStorageService {
 
   async getFile(bucketId: string, fileId: string): Promise<StorageFile> {
     try {
-      const result = await this.storage.getFile(bucketId, fileId);
-      return this.mapToStorageFile(result);
+      const file = this.mapToStorageFile(await this.storage.getFile(bucketId, fileId));
+      // Appwrite files carry no custom metadata, so renditions are found by their derived IDs
+      const renditions = await findRenditions(file, id =>
+        this.storage.getFile(bucketId, id).then(result => this.mapToStorageFile(result), () => null)
+      );
+      return renditions ? { ...file, renditions } : file;
     } catch (error) {
       logger.error('Failed to get file:', { bucketId, fileId, error });
       if (error instanceof AppwriteException) {
@@ -70,6 +89,10 @@ export class AppwriteStorageAdapter implements IStorageService {
     options?: FilePreviewOptions
   ): Promise<Buffer> {
     try {
+      if (options?.rendition) {
+        return await this.getFileView(bucketId, renditionFileId(fileId, options.rendition));
+      }
+
       // Convert string output format to ImageFormat enum
       let outputFormat: ImageFormat | undefined;
       if (options?.output) {
@@ -144,6 +167,27 @@ export class AppwriteStorageAdapter implements IStorageService {
     }
   }
 
+  /**
+   * Stream a file straight from the Appwrite REST API, the SDK buffers whole files
+   */
+  async getFileStream(bucketId: string, fileId: string, range?: StorageByteRange): Promise<ReadableStream<Uint8Array>> {
+    const response = await fetch(`${config.appwrite.endpoint}/storage/buckets/${bucketId}/files/${fileId}/view`, {
+      headers: {
+        'X-Appwrite-Project': config.appwrite.projectId,
+        'X-Appwrite-Key': config.appwrite.apiKey,
+        ...(range && { Range: `bytes=${range.start}-${range.end}` })
+      }
+    });
+
+    if (!response.ok || !response.body) {
+      logger.error('Failed to stream file:', { bucketId, fileId, status: response.status });
+      throw new Error(response.status === 404 ? 'File or bucket not found' : 'Storage service error');
+    }
+
+    // Encrypted and compressed files are served whole, whatever the Range header says
+    return range && response.status !== 206 ? sliceStream(response.body, range) : response.body;
+  }
+
   async updateFile(
     bucketId: string,
     fileId: string,
@@ -305,6 +349,10 @@ export class AppwriteStorageAdapter implements IStorageService {
   }
 
   getFilePreviewUrl(bucketId: string, fileId: string, options?: FilePreviewOptions): string {
+    if (options?.rendition) {
+      return this.getFileUrl(bucketId, renditionFileId(fileId, options.rendition));
+    }
+
     let url = `${config.appwrite.endpoint}/storage/buckets/${bucketId}/files/${fileId}/preview?project=${config.appwrite.projectId}`;
     
     if (options) {
@@ -346,20 +394,38 @@ export class AppwriteStorageAdapter implements IStorageService {
   async getBucketUsage(bucketId: string): Promise<StorageUsage> {
     try {
       // Appwrite doesn't provide direct bucket usage stats
-      // We'll estimate by listing files and summing sizes
-      const files = await this.listFiles(bucketId);
-      
+      // We'll estimate by listing files and summing sizes, a page at a time
       let totalSize = 0;
-      for (const file of files.files) {
-        totalSize += file.sizeOriginal;
+      let totalFiles = 0;
+      let cursor: string | undefined;
+
+      for (;;) {
+        const page = await this.storage.listFiles(bucketId, [
+          Query.limit(USAGE_PAGE_SIZE),
+          ...(cursor ? [Query.cursorAfter(cursor)] : [])
+        ]);
+
+        for (const file of page.files) {
+          totalSize += file.sizeOriginal;
+        }
+        totalFiles += page.files.length;
+
+        const last = page.files[page.files.length - 1];
+        if (!last || page.files.length < USAGE_PAGE_SIZE) {
+          break;
+        }
+        cursor = last.$id;
       }
 
       return {
         total: totalSize,
-        file: files.total
+        file: totalFiles
       };
     } catch (error) {
       logger.error('Failed to get bucket usage:', { bucketId, error });
+      if (error instanceof AppwriteException) {
+        throw new Error(this.mapAppwriteError(error));
+      }
       throw error;
     }
   }
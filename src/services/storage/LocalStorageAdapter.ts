@@ -0,0 +1,512 @@
+import { createHash, randomBytes } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, readFile, readdir, rename, rm, stat, writeFile } from 'fs/promises';
+import { extname, join } from 'path';
+import { Readable } from 'stream';
+import sharp from 'sharp';
+import type {
+  IStorageService,
+  StorageFile,
+  StorageFileList,
+  StorageBucket,
+  StorageBucketList,
+  StorageQuery,
+  StorageByteRange,
+  FilePreviewOptions,
+  BucketOptions,
+  StorageUsage
+} from '../../core/interfaces/IStorageService.js';
+import { detectMimeType, findRenditions, renditionFileId } from '../../utils/attachments.js';
+import { logger } from '../../utils/logger.js';
+
+// Same rules as Appwrite IDs, which also keeps them safe to use as path segments
+const ID_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9._-]{0,63}$/;
+
+const DEFAULT_LIST_LIMIT = 25;
+
+// Largest preview side, same as Appwrite, so a request cannot make us render a huge image
+const MAX_PREVIEW_SIZE = 4000;
+
+const GRAVITY_POSITIONS: Record<NonNullable<FilePreviewOptions['gravity']>, string> = {
+  'center': 'centre',
+  'top-left': 'northwest',
+  'top': 'north',
+  'top-right': 'northeast',
+  'left': 'west',
+  'right': 'east',
+  'bottom-left': 'southwest',
+  'bottom': 'south',
+  'bottom-right': 'southeast'
+};
+
+const PREVIEW_FORMATS: Record<string, keyof sharp.FormatEnum> = {
+  jpg: 'jpeg',
+  jpeg: 'jpeg',
+  png: 'png',
+  gif: 'gif',
+  webp: 'webp'
+};
+
+export interface LocalStorageAdapterOptions {
+  // Base URL that getFileUrl and getFilePreviewUrl build on
+  publicUrl: string;
+}
+
+/**
+ * Filesystem implementation of the storage service
+ * Every bucket is a directory holding its settings in bucket.json and, per file,
+ * the content next to a JSON metadata file. Permissions, encryption, compression
+ * and antivirus settings are recorded but not enforced, so keep the directory private.
+ */
+export class LocalStorageAdapter implements IStorageService {
+  constructor(
+    private rootPath: string,
+    private options: LocalStorageAdapterOptions
+  ) {}
+
+  async uploadFile(
+    bucketId: string,
+    fileId: string,
+    file: File | Buffer,
+    permissions?: string[]
+  ): Promise<StorageFile> {
+    try {
+      const bucket = await this.getBucket(bucketId);
+      this.assertId(fileId);
+      if (!bucket.enabled) {
+        throw new Error('Forbidden storage operation');
+      }
+      if (await this.exists(this.fileMetaPath(bucketId, fileId))) {
+        throw new Error('File or bucket already exists');
+      }
+
+      const content = file instanceof File ? Buffer.from(await file.arrayBuffer()) : file;
+      const name = file instanceof File && file.name ? file.name : fileId;
+      if (bucket.maximumFileSize > 0 && content.length > bucket.maximumFileSize) {
+        throw new Error('File too large');
+      }
+      const extension = extname(name).slice(1).toLowerCase();
+      if (bucket.allowedFileExtensions.length > 0 && !bucket.allowedFileExtensions.includes(extension)) {
+        throw new Error('Unsupported file type');
+      }
+
+      const now = new Date().toISOString();
+      const storedFile: StorageFile = {
+        $id: fileId,
+        bucketId,
+        name,
+        signature: createHash('md5').update(content).digest('hex'),
+        mimeType: (file instanceof File && file.type.split(';')[0]) || detectMimeType(content.subarray(0, 16)) || 'application/octet-stream',
+        sizeOriginal: content.length,
+        chunksTotal: 1,
+        chunksUploaded: 1,
+        $permissions: permissions ?? [],
+        $createdAt: now,
+        $updatedAt: now
+      };
+
+      // Content first, a file only exists once its metadata does
+      await this.writeAtomically(this.fileContentPath(bucketId, fileId), content);
+      await this.writeAtomically(this.fileMetaPath(bucketId, fileId), JSON.stringify(storedFile));
+
+      logger.debug('File uploaded:', { bucketId, fileId, size: content.length });
+      return storedFile;
+    } catch (error) {
+      logger.error('Failed to upload file:', { bucketId, fileId, error });
+      throw error;
+    }
+  }
+
+  async uploadFileFromUrl(
+    bucketId: string,
+    fileId: string,
+    url: string,
+    permissions?: string[]
+  ): Promise<StorageFile> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to download file: ${response.status}`);
+    }
+
+    const name = decodeURIComponent(new URL(url).pathname.split('/').pop() || '') || fileId;
+    const file = new File([await response.arrayBuffer()], name, {
+      type: response.headers.get('content-type')?.split(';')[0] ?? ''
+    });
+    return await this.uploadFile(bucketId, fileId, file, permissions);
+  }
+
+  async getFile(bucketId: string, fileId: string): Promise<StorageFile> {
+    const file = await this.readFileMeta(bucketId, fileId);
+    const renditions = await findRenditions(file, id => this.readFileMeta(bucketId, id).catch(() => null));
+    return renditions ? { ...file, renditions } : file;
+  }
+
+  async getFilePreview(
+    bucketId: string,
+    fileId: string,
+    options?: FilePreviewOptions
+  ): Promise<Buffer> {
+    try {
+      if (options?.rendition) {
+        return await this.getFileView(bucketId, renditionFileId(fileId, options.rendition));
+      }
+
+      const file = await this.readFileMeta(bucketId, fileId);
+      if (!file.mimeType.startsWith('image/')) {
+        throw new Error('Unsupported file type');
+      }
+
+      const content = await readFile(this.fileContentPath(bucketId, fileId));
+      return await this.renderPreview(content, options ?? {});
+    } catch (error) {
+      logger.error('Failed to get file preview:', { bucketId, fileId, error });
+      throw error;
+    }
+  }
+
+  async getFileDownload(bucketId: string, fileId: string): Promise<Buffer> {
+    await this.readFileMeta(bucketId, fileId);
+    return await readFile(this.fileContentPath(bucketId, fileId));
+  }
+
+  async getFileView(bucketId: string, fileId: string): Promise<Buffer> {
+    return await this.getFileDownload(bucketId, fileId);
+  }
+
+  async getFileStream(bucketId: string, fileId: string, range?: StorageByteRange): Promise<ReadableStream<Uint8Array>> {
+    await this.readFileMeta(bucketId, fileId);
+    const stream = createReadStream(this.fileContentPath(bucketId, fileId), range ?? {});
+    return Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+  }
+
+  async updateFile(
+    bucketId: string,
+    fileId: string,
+    name?: string,
+    permissions?: string[]
+  ): Promise<StorageFile> {
+    const file = await this.readFileMeta(bucketId, fileId);
+    const updated: StorageFile = {
+      ...file,
+      name: name ?? file.name,
+      $permissions: permissions ?? file.$permissions,
+      $updatedAt: new Date().toISOString()
+    };
+
+    await this.writeAtomically(this.fileMetaPath(bucketId, fileId), JSON.stringify(updated));
+    logger.debug('File updated:', { bucketId, fileId });
+    return updated;
+  }
+
+  async deleteFile(bucketId: string, fileId: string): Promise<void> {
+    await this.readFileMeta(bucketId, fileId);
+
+    // Metadata first, so a half deleted file is already gone for readers
+    await rm(this.fileMetaPath(bucketId, fileId), { force: true });
+    await rm(this.fileContentPath(bucketId, fileId), { force: true });
+    logger.debug('File deleted:', { bucketId, fileId });
+  }
+
+  /**
+   * List files matching all queries
+   * Besides field filters, `limit`, `offset`, `orderAsc` and `orderDesc` queries page and sort the result;
+   * the total counts every matching file.
+   */
+  async listFiles(bucketId: string, queries: StorageQuery[] = []): Promise<StorageFileList> {
+    await this.getBucket(bucketId);
+
+    const files = await this.readAllFiles(bucketId);
+    let limit = DEFAULT_LIST_LIMIT;
+    let offset = 0;
+    const orders: Array<{ field: string; direction: 1 | -1 }> = [];
+    const filters: StorageQuery[] = [];
+
+    for (const query of queries) {
+      if (query.operator === 'limit') limit = Number(query.value);
+      else if (query.operator === 'offset') offset = Number(query.value);
+      else if (query.operator === 'orderAsc') orders.push({ field: query.field, direction: 1 });
+      else if (query.operator === 'orderDesc') orders.push({ field: query.field, direction: -1 });
+      else filters.push(query);
+    }
+
+    const matching = files.filter(file => filters.every(query => matchesQuery(file as any, query)));
+    matching.sort((a, b) => {
+      for (const { field, direction } of [...orders, { field: '$createdAt', direction: 1 as const }]) {
+        const left = (a as any)[field];
+        const right = (b as any)[field];
+        if (left !== right) {
+          return (left < right ? -1 : 1) * direction;
+        }
+      }
+      return a.$id < b.$id ? -1 : 1;
+    });
+
+    return {
+      total: matching.length,
+      files: matching.slice(offset, offset + limit)
+    };
+  }
+
+  async createBucket(
+    bucketId: string,
+    name: string,
+    permissions?: string[],
+    options?: BucketOptions
+  ): Promise<StorageBucket> {
+    this.assertId(bucketId);
+    const path = this.bucketMetaPath(bucketId);
+    if (await this.exists(path)) {
+      throw new Error('File or bucket already exists');
+    }
+
+    const now = new Date().toISOString();
+    const bucket = this.toBucket(bucketId, name, permissions, options, now, now);
+    await mkdir(this.filesPath(bucketId), { recursive: true });
+    await this.writeAtomically(path, JSON.stringify(bucket));
+
+    logger.info('Bucket created:', { bucketId, name });
+    return bucket;
+  }
+
+  async getBucket(bucketId: string): Promise<StorageBucket> {
+    this.assertId(bucketId);
+    return await this.readJson<StorageBucket>(this.bucketMetaPath(bucketId));
+  }
+
+  async updateBucket(
+    bucketId: string,
+    name: string,
+    permissions?: string[],
+    options?: BucketOptions
+  ): Promise<StorageBucket> {
+    const existing = await this.getBucket(bucketId);
+    const bucket = this.toBucket(bucketId, name, permissions, options, existing.$createdAt, new Date().toISOString());
+    await this.writeAtomically(this.bucketMetaPath(bucketId), JSON.stringify(bucket));
+
+    logger.debug('Bucket updated:', { bucketId });
+    return bucket;
+  }
+
+  async deleteBucket(bucketId: string): Promise<void> {
+    await this.getBucket(bucketId);
+    await rm(this.bucketPath(bucketId), { recursive: true, force: true });
+    logger.info('Bucket deleted:', { bucketId });
+  }
+
+  async listBuckets(): Promise<StorageBucketList> {
+    const entries = await readdir(this.rootPath, { withFileTypes: true }).catch(() => []);
+    const buckets: StorageBucket[] = [];
+
+    for (const entry of entries) {
+      if (entry.isDirectory() && ID_PATTERN.test(entry.name)) {
+        const bucket = await this.getBucket(entry.name).catch(() => null);
+        if (bucket) buckets.push(bucket);
+      }
+    }
+
+    return { total: buckets.length, buckets };
+  }
+
+  getFileUrl(bucketId: string, fileId: string): string {
+    return `${this.options.publicUrl}/buckets/${bucketId}/files/${fileId}/view`;
+  }
+
+  getFilePreviewUrl(bucketId: string, fileId: string, options?: FilePreviewOptions): string {
+    if (options?.rendition) {
+      return this.getFileUrl(bucketId, renditionFileId(fileId, options.rendition));
+    }
+
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(options ?? {})) {
+      if (value !== undefined) params.append(key, String(value));
+    }
+
+    const query = params.toString();
+    return `${this.options.publicUrl}/buckets/${bucketId}/files/${fileId}/preview${query ? `?${query}` : ''}`;
+  }
+
+  async batchDeleteFiles(bucketId: string, fileIds: string[]): Promise<void> {
+    for (const fileId of fileIds) {
+      await this.deleteFile(bucketId, fileId);
+    }
+    logger.debug('Batch delete completed:', { bucketId, count: fileIds.length });
+  }
+
+  async getBucketUsage(bucketId: string): Promise<StorageUsage> {
+    await this.getBucket(bucketId);
+    const files = await this.readAllFiles(bucketId);
+    return {
+      total: files.reduce((sum, file) => sum + file.sizeOriginal, 0),
+      file: files.length
+    };
+  }
+
+  async getTotalUsage(): Promise<StorageUsage> {
+    const { buckets } = await this.listBuckets();
+    const usage: StorageUsage = { total: 0, file: 0 };
+
+    for (const bucket of buckets) {
+      const bucketUsage = await this.getBucketUsage(bucket.$id);
+      usage.total += bucketUsage.total;
+      usage.file += bucketUsage.file;
+    }
+    return usage;
+  }
+
+  /**
+   * Resize, rotate and re-encode an image like Appwrite's preview endpoint
+   * With both width and height the image is cropped to fill them around the gravity,
+   * with one of them it keeps its aspect ratio. Borders and opacity are not supported.
+   */
+  private async renderPreview(content: Buffer, options: FilePreviewOptions): Promise<Buffer> {
+    const background = options.background
+      ? `#${options.background.replace(/^#/, '')}`
+      : { r: 0, g: 0, b: 0, alpha: 0 };
+
+    try {
+      let image = sharp(content);
+      const { format } = await image.metadata();
+
+      if (options.rotation) {
+        image = image.rotate(options.rotation, { background });
+      }
+      if (options.width || options.height) {
+        image = image.resize({
+          width: options.width ? Math.min(options.width, MAX_PREVIEW_SIZE) : undefined,
+          height: options.height ? Math.min(options.height, MAX_PREVIEW_SIZE) : undefined,
+          fit: options.width && options.height ? 'cover' : 'inside',
+          position: GRAVITY_POSITIONS[options.gravity ?? 'center']
+        });
+      }
+      if (options.background) {
+        image = image.flatten({ background });
+      }
+
+      const output = PREVIEW_FORMATS[options.output ?? format ?? ''] ?? 'jpeg';
+      const quality = output === 'jpeg' || output === 'webp' ? options.quality : undefined;
+      return await image.toFormat(output, quality ? { quality } : {}).toBuffer();
+    } catch (error) {
+      logger.warn('Failed to render preview', { error: error instanceof Error ? error.message : 'Unknown error' });
+      throw new Error('Unsupported file type');
+    }
+  }
+
+  private toBucket(
+    bucketId: string,
+    name: string,
+    permissions: string[] | undefined,
+    options: BucketOptions | undefined,
+    createdAt: string,
+    updatedAt: string
+  ): StorageBucket {
+    return {
+      $id: bucketId,
+      name,
+      enabled: options?.enabled ?? true,
+      maximumFileSize: options?.maximumFileSize ?? 0,
+      allowedFileExtensions: (options?.allowedFileExtensions ?? []).map(extension => extension.toLowerCase()),
+      compression: options?.compression ?? 'none',
+      encryption: options?.encryption ?? false,
+      antivirus: options?.antivirus ?? false,
+      $permissions: permissions ?? [],
+      fileSecurity: options?.fileSecurity ?? false,
+      $createdAt: createdAt,
+      $updatedAt: updatedAt
+    };
+  }
+
+  private async readFileMeta(bucketId: string, fileId: string): Promise<StorageFile> {
+    this.assertId(bucketId);
+    this.assertId(fileId);
+    return await this.readJson<StorageFile>(this.fileMetaPath(bucketId, fileId));
+  }
+
+  private async readAllFiles(bucketId: string): Promise<StorageFile[]> {
+    const names = await readdir(this.filesPath(bucketId));
+    const files: StorageFile[] = [];
+
+    for (const name of names.filter(name => name.endsWith('.json'))) {
+      // Skip files deleted since the directory was read
+      const file = await this.readJson<StorageFile>(join(this.filesPath(bucketId), name)).catch(() => null);
+      if (file) files.push(file);
+    }
+    return files;
+  }
+
+  private async readJson<T>(path: string): Promise<T> {
+    try {
+      return JSON.parse(await readFile(path, 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error('File or bucket not found');
+      }
+      throw error;
+    }
+  }
+
+  // Write to a temporary file and rename it, so readers never see a partial write
+  private async writeAtomically(path: string, data: string | Buffer): Promise<void> {
+    const temporaryPath = `${path}.${randomBytes(6).toString('hex')}.tmp`;
+    await writeFile(temporaryPath, data);
+    await rename(temporaryPath, path);
+  }
+
+  private async exists(path: string): Promise<boolean> {
+    return await stat(path).then(() => true, () => false);
+  }
+
+  private assertId(id: string): void {
+    if (!ID_PATTERN.test(id)) {
+      throw new Error('Invalid file or parameters');
+    }
+  }
+
+  private bucketPath(bucketId: string): string {
+    return join(this.rootPath, bucketId);
+  }
+
+  private bucketMetaPath(bucketId: string): string {
+    return join(this.bucketPath(bucketId), 'bucket.json');
+  }
+
+  private filesPath(bucketId: string): string {
+    return join(this.bucketPath(bucketId), 'files');
+  }
+
+  private fileMetaPath(bucketId: string, fileId: string): string {
+    return join(this.filesPath(bucketId), `${fileId}.json`);
+  }
+
+  private fileContentPath(bucketId: string, fileId: string): string {
+    return join(this.filesPath(bucketId), `${fileId}.bin`);
+  }
+}
+
+function matchesQuery(file: Record<string, any>, query: StorageQuery): boolean {
+  const actual = file[query.field];
+  const expected: any[] = Array.isArray(query.value) ? query.value : [query.value];
+
+  switch (query.operator) {
+    case 'equal':
+      return expected.includes(actual);
+    case 'notEqual':
+      return !expected.includes(actual);
+    case 'less':
+      return actual < query.value;
+    case 'lessEqual':
+      return actual <= query.value;
+    case 'greater':
+      return actual > query.value;
+    case 'greaterEqual':
+      return actual >= query.value;
+    case 'startsWith':
+      return typeof actual === 'string' && actual.startsWith(String(query.value));
+    case 'endsWith':
+      return typeof actual === 'string' && actual.endsWith(String(query.value));
+    case 'contains':
+    case 'search':
+      return typeof actual === 'string' && actual.toLowerCase().includes(String(query.value).toLowerCase());
+    default:
+      throw new Error(`Unsupported query operator: ${query.operator}`);
+  }
+}
@@ -0,0 +1,14 @@
+import type { IStorageService } from '../../core/interfaces/IStorageService.js';
+import { AppwriteStorageAdapter } from './AppwriteStorageAdapter.js';
+import { LocalStorageAdapter } from './LocalStorageAdapter.js';
+import { config } from '../../utils/config.js';
+
+/**
+ * Pick the storage implementation configured by STORAGE_PROVIDER
+ */
+export function createStorageService(): IStorageService {
+  if (config.storage.provider === 'local') {
+    return new LocalStorageAdapter(config.storage.localPath, { publicUrl: config.storage.publicUrl });
+  }
+  return new AppwriteStorageAdapter();
+}
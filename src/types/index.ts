@@ -43,6 +43,7 @@ export interface User {
   // Role and Company Association
   role: UserRole;
   companyId?: string; // null for INDIVIDUAL_USER and SUPER_ADMIN
+  departmentId?: string; // department within the company, if any
   permissions: Permission[];
   
   // Legacy subscription (for individual users)
@@ -54,6 +55,7 @@ export interface User {
   preferences: {
     theme: 'light' | 'dark' | 'auto';
     notifications: boolean;
+    notificationSettings?: NotificationPreferences;
     preferredAIModel: string;
     language: string;
     interests?: string[];
@@ -168,8 +170,27 @@ export interface FileUpload {
   createdAt: string;
 }
 
+export type NotificationChannelName = 'in_app' | 'email' | 'webhook';
+
+export type NotificationCategory = 'reminders' | 'insights' | 'company_announcements';
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // HH:mm, local to timezone
+  end: string; // HH:mm, local to timezone
+  timezone: string; // IANA timezone, e.g. 'Europe/Berlin'
+}
+
+export interface NotificationPreferences {
+  categories?: Partial<Record<NotificationCategory, NotificationChannelName[]>>;
+  webhookUrl?: string;
+  quietHours?: QuietHours;
+}
+
 export interface NotificationPayload {
   userId: string;
+  type?: 'info' | 'success' | 'warning' | 'error' | 'reminder';
+  category?: NotificationCategory;
   title: string;
   body: string;
   data?: Record<string, any>;
@@ -245,6 +266,31 @@ export interface Config {
     expireTime: string;
     refreshExpireTime: string;
   };
+  database: {
+    provider: DatabaseProvider;
+    sqlitePath: string;
+    cache: {
+      enabled: boolean;
+      maxEntries: number;
+      ttlMs: Record<string, number>;
+    };
+  };
+  storage: {
+    provider: StorageProvider;
+    localPath: string;
+    publicUrl: string;
+    signedUrls: {
+      secret: string;
+      baseUrl: string;
+      ttlSeconds: number;
+    };
+    quotas: {
+      user: Record<SubscriptionTier, number>;
+      company: Record<SubscriptionTier, number>;
+      warningThreshold: number;
+      companyUsageCacheSeconds: number;
+    };
+  };
   appwrite: {
     endpoint: string;
     projectId: string;
@@ -289,9 +335,51 @@ export interface Config {
   };
   app: {
     frontendUrl: string;
+    invitationExpiryHours: number;
+  };
+  notifications: {
+    schedulerEnabled: boolean;
+    pollIntervalMs: number;
+    maxAttempts: number;
+    retryBaseDelayMs: number;
+  };
+  analytics: {
+    minGroupSize: number;
+  };
+  billing: {
+    monthlyPrices: Record<'free' | 'premium' | 'enterprise', number>;
+  };
+  retention: {
+    sweeperEnabled: boolean;
+    sweepIntervalMs: number;
+    individualRetentionDays: number;
+    strategy: RetentionStrategy;
+  };
+  jobs: {
+    workerEnabled: boolean;
+    pollIntervalMs: number;
+    concurrency: number;
+    maxAttempts: number;
+    retryBaseDelayMs: number;
+    lockTimeoutMs: number;
+  };
+  webhooks: {
+    allowPrivateHosts: boolean;
+  };
+  idempotency: {
+    ttlHours: number;
   };
 }
 
+// Backing store for IDatabaseService; `memory` keeps everything in the process, `sqlite` in a local file
+export type DatabaseProvider = 'appwrite' | 'memory' | 'sqlite';
+
+// Backing store for IStorageService; `local` keeps files in a directory on this server
+export type StorageProvider = 'appwrite' | 'local';
+
+// What happens to journals and moods past their retention window; notifications are always deleted
+export type RetentionStrategy = 'delete' | 'anonymize';
+
 // Company Management Types
 export interface CreateCompanyRequest {
   name: string;
@@ -314,27 +402,56 @@ export interface UpdateCompanyRequest {
   };
 }
 
+export interface UpdateSubscriptionRequest {
+  tier: 'free' | 'premium' | 'enterprise';
+  maxUsers?: number;
+  validUntil?: string;
+}
+
 export interface CompanyUserInvite {
   email: string;
   role: 'COMPANY_ADMIN' | 'COMPANY_MANAGER' | 'COMPANY_USER';
   name?: string;
 }
 
+// Metrics drawn from fewer than `privacy.minGroupSize` people are reported as null
 export interface CompanyAnalytics {
+  period: string;
+  departmentId?: string;
   totalUsers: number;
-  activeUsers: number;
-  newUsersThisMonth: number;
-  journalEntries: number;
-  moodLogs: number;
+  activeUsers: number | null;
+  newUsersThisMonth: number | null;
+  journalEntries: number | null;
+  moodLogs: number | null;
   subscriptionTier: string;
   usageMetrics: {
-    dailyActiveUsers: number[];
-    weeklyJournalEntries: number[];
-    monthlyMoodLogs: number[];
+    dailyActiveUsers: (number | null)[];
+    weeklyJournalEntries: (number | null)[];
+    monthlyMoodLogs: (number | null)[];
   };
+  privacy: {
+    minGroupSize: number;
+    suppressed: boolean; // whole report withheld because the company is too small
+  };
+}
+
+export type SubscriptionTier = Company['subscription']['tier'];
+
+export interface TimeSeriesPoint {
+  periodStart: string;
+  value: number;
+}
+
+// Number of companies that moved into each tier during the window
+export interface TierChangePoint {
+  periodStart: string;
+  free: number;
+  premium: number;
+  enterprise: number;
 }
 
 export interface PlatformAnalytics {
+  period: string;
   totalUsers: number;
   totalCompanies: number;
   activeCompanies: number;
@@ -348,6 +465,11 @@ export interface PlatformAnalytics {
     totalRevenue: number;
     averageRevenuePerUser: number;
   };
+  timeSeries: {
+    dailySignups: TimeSeriesPoint[];
+    weeklyActiveCompanies: TimeSeriesPoint[];
+    weeklyTierChanges: TierChangePoint[];
+  };
 }
 
 // Export validation types
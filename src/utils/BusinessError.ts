@@ -48,6 +48,20 @@ export class ConflictError extends BusinessError {
   }
 }
 
+export class PayloadTooLargeError extends BusinessError {
+  constructor(message: string, code?: string) {
+    super(message, 413, code || 'PAYLOAD_TOO_LARGE');
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+export class UnsupportedMediaTypeError extends BusinessError {
+  constructor(message: string, code?: string) {
+    super(message, 415, code || 'UNSUPPORTED_MEDIA_TYPE');
+    this.name = 'UnsupportedMediaTypeError';
+  }
+}
+
 export class RateLimitError extends BusinessError {
   constructor(message: string, code?: string) {
     super(message, 429, code || 'RATE_LIMIT_EXCEEDED');
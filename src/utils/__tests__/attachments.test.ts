@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  detectMimeType,
+  findRenditions,
+  isRenditionFileId,
+  isStorageFileId,
+  ownerOnlyPermissions,
+  renditionFileId
+} from '../attachments.js';
+import type { StorageFile } from '../../core/interfaces/IStorageService.js';
+
+const bytes = (...parts: Array<string | number[]>) =>
+  new Uint8Array(parts.flatMap(part => typeof part === 'string' ? [...part].map(char => char.charCodeAt(0)) : part));
+
+describe('attachments', () => {
+  it('should detect images from their signature', () => {
+    expect(detectMimeType(bytes([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+    expect(detectMimeType(bytes([0x89], 'PNG', [0x0d, 0x0a, 0x1a, 0x0a]))).toBe('image/png');
+    expect(detectMimeType(bytes('GIF89a'))).toBe('image/gif');
+    expect(detectMimeType(bytes('RIFF', [0, 0, 0, 0], 'WEBPVP8 '))).toBe('image/webp');
+    expect(detectMimeType(bytes([0, 0, 0, 0x18], 'ftypheic'))).toBe('image/heic');
+  });
+
+  it('should detect recordings from their signature', () => {
+    expect(detectMimeType(bytes('RIFF', [0, 0, 0, 0], 'WAVEfmt '))).toBe('audio/wav');
+    expect(detectMimeType(bytes('OggS'))).toBe('audio/ogg');
+    expect(detectMimeType(bytes('ID3', [4, 0]))).toBe('audio/mpeg');
+    expect(detectMimeType(bytes([0xff, 0xfb, 0x90]))).toBe('audio/mpeg');
+    expect(detectMimeType(bytes([0x1a, 0x45, 0xdf, 0xa3]))).toBe('audio/webm');
+    expect(detectMimeType(bytes([0, 0, 0, 0x20], 'ftypM4A '))).toBe('audio/mp4');
+  });
+
+  it('should not trust anything else', () => {
+    expect(detectMimeType(bytes('<svg xmlns="http://www.w3.org/2000/svg">'))).toBeNull();
+    expect(detectMimeType(bytes('%PDF-1.7'))).toBeNull();
+    expect(detectMimeType(new Uint8Array())).toBeNull();
+  });
+
+  it('should tell file IDs from legacy URLs', () => {
+    expect(isStorageFileId('3f9a0c1b2d4e5f607182')).toBe(true);
+    expect(isStorageFileId('https://cdn.example.com/photo.jpg')).toBe(false);
+    expect(isStorageFileId('')).toBe(false);
+  });
+
+  it('should grant file access to the owner only', () => {
+    expect(ownerOnlyPermissions('user-1')).toEqual([
+      'read("user:user-1")',
+      'update("user:user-1")',
+      'delete("user:user-1")'
+    ]);
+  });
+
+  it('should find the stored renditions of images only', async () => {
+    const stored = (fileId: string, mimeType = 'image/webp') => ({ $id: fileId, mimeType, sizeOriginal: 10 } as StorageFile);
+    const lookup = async (fileId: string) => fileId === renditionFileId('photo', 'thumbnail') ? stored(fileId) : null;
+
+    expect(await findRenditions(stored('photo'), lookup)).toEqual([
+      { name: 'thumbnail', fileId: 'photo_thumbnail', mimeType: 'image/webp', sizeOriginal: 10 }
+    ]);
+    expect(await findRenditions(stored('memo', 'audio/ogg'), lookup)).toBeUndefined();
+    expect(await findRenditions(stored('photo_thumbnail'), lookup)).toBeUndefined();
+    expect(isRenditionFileId('photo_medium')).toBe(true);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  getAnalyticsRange,
+  applyMinGroupSize,
+  buildCompanyAnalytics,
+  type AnalyticsUser,
+  type AnalyticsActivity
+} from '../companyAnalytics.js';
+import { ValidationError } from '../BusinessError.js';
+
+const now = new Date('2024-03-20T12:00:00.000Z');
+
+const makeUsers = (count: number, overrides: Partial<AnalyticsUser> = {}): AnalyticsUser[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `user-${index}`,
+    createdAt: '2023-01-01T00:00:00.000Z',
+    lastLogin: '2024-03-19T08:00:00.000Z',
+    ...overrides
+  }));
+
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000 + 1000).toISOString();
+
+describe('companyAnalytics', () => {
+
+  describe('getAnalyticsRange', () => {
+    it('should resolve day, week and year periods ending now', () => {
+      expect(getAnalyticsRange('30d', now).days).toBe(30);
+      expect(getAnalyticsRange('4w', now).days).toBe(28);
+      expect(getAnalyticsRange('1y', now).days).toBe(365);
+      expect(getAnalyticsRange('7d', now).start.toISOString()).toBe('2024-03-13T12:00:00.000Z');
+    });
+
+    it('should reject malformed or oversized periods', () => {
+      expect(() => getAnalyticsRange('30', now)).toThrow(ValidationError);
+      expect(() => getAnalyticsRange('0d', now)).toThrow(ValidationError);
+      expect(() => getAnalyticsRange('2y', now)).toThrow(ValidationError);
+    });
+  });
+
+  describe('applyMinGroupSize', () => {
+    it('should hide counts drawn from too few people but keep zero', () => {
+      expect(applyMinGroupSize(12, 4, 5)).toBeNull();
+      expect(applyMinGroupSize(12, 5, 5)).toBe(12);
+      expect(applyMinGroupSize(0, 0, 5)).toBe(0);
+    });
+  });
+
+  describe('buildCompanyAnalytics', () => {
+    const range = getAnalyticsRange('14d', now);
+
+    it('should withhold the whole report for companies below the threshold', () => {
+      const analytics = buildCompanyAnalytics({
+        period: '14d',
+        range,
+        users: makeUsers(3),
+        moods: [],
+        journals: [],
+        subscriptionTier: 'free',
+        minGroupSize: 5
+      });
+
+      expect(analytics.totalUsers).toBe(3);
+      expect(analytics.activeUsers).toBeNull();
+      expect(analytics.moodLogs).toBeNull();
+      expect(analytics.usageMetrics.dailyActiveUsers).toEqual([]);
+      expect(analytics.privacy.suppressed).toBe(true);
+    });
+
+    it('should count activity from company members inside the period only', () => {
+      const users = makeUsers(6);
+      const moods: AnalyticsActivity[] = [
+        ...users.map(user => ({ userId: user.id, timestamp: daysAgo(1) })),
+        { userId: 'outsider', timestamp: daysAgo(1) },
+        { userId: 'user-0', timestamp: daysAgo(20) }
+      ];
+
+      const analytics = buildCompanyAnalytics({
+        period: '14d',
+        range,
+        users,
+        moods,
+        journals: [],
+        subscriptionTier: 'premium',
+        minGroupSize: 5
+      });
+
+      expect(analytics.moodLogs).toBe(6);
+      expect(analytics.activeUsers).toBe(6);
+      expect(analytics.journalEntries).toBe(0);
+      expect(analytics.usageMetrics.dailyActiveUsers).toHaveLength(14);
+      expect(analytics.usageMetrics.dailyActiveUsers[13]).toBe(6);
+      expect(analytics.usageMetrics.weeklyJournalEntries).toEqual([0, 0]);
+      expect(analytics.privacy.suppressed).toBe(false);
+    });
+
+    it('should suppress buckets with fewer contributors than the threshold', () => {
+      const users = makeUsers(6);
+      // Two people journal a lot in the most recent week, nobody in the week before
+      const journals: AnalyticsActivity[] = Array.from({ length: 10 }, (_, index) => ({
+        userId: `user-${index % 2}`,
+        timestamp: daysAgo(2)
+      }));
+
+      const analytics = buildCompanyAnalytics({
+        period: '14d',
+        range,
+        users,
+        moods: [],
+        journals,
+        subscriptionTier: 'free',
+        minGroupSize: 5
+      });
+
+      expect(analytics.journalEntries).toBeNull();
+      expect(analytics.usageMetrics.weeklyJournalEntries).toEqual([0, null]);
+      expect(analytics.usageMetrics.dailyActiveUsers[12]).toBeNull();
+    });
+
+    it('should hide small numbers of new or active users', () => {
+      const users = [
+        ...makeUsers(5, { lastLogin: '2023-06-01T00:00:00.000Z' }),
+        { id: 'new-user', createdAt: '2024-03-10T00:00:00.000Z', lastLogin: '2024-03-19T00:00:00.000Z' }
+      ];
+
+      const analytics = buildCompanyAnalytics({
+        period: '14d',
+        range,
+        users,
+        moods: [],
+        journals: [],
+        subscriptionTier: 'free',
+        minGroupSize: 5
+      });
+
+      expect(analytics.newUsersThisMonth).toBeNull();
+      expect(analytics.activeUsers).toBeNull();
+    });
+  });
+});
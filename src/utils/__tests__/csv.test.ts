@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'bun:test';
+import { toCsv } from '../csv.js';
+
+describe('csv', () => {
+  it('should join rows with CRLF and leave plain values unquoted', () => {
+    expect(toCsv([['metric', 'value'], ['total_users', 42]])).toBe('metric,value\r\ntotal_users,42\r\n');
+  });
+
+  it('should quote values containing separators, quotes or newlines', () => {
+    expect(toCsv([['a,b', 'say "hi"', 'line\nbreak']])).toBe('"a,b","say ""hi""","line\nbreak"\r\n');
+  });
+
+  it('should write empty cells for missing values', () => {
+    expect(toCsv([[null, undefined, 0]])).toBe(',,0\r\n');
+  });
+
+  it('should neutralise text that spreadsheets would run as a formula', () => {
+    expect(toCsv([['=SUM(A1:A2)', -5]])).toBe("'=SUM(A1:A2),-5\r\n");
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'bun:test';
+import { toListOptions, toPageInfo, listAllDocuments } from '../databasePaging.js';
+import { InMemoryDatabaseAdapter } from '../../services/database/InMemoryDatabaseAdapter.js';
+
+describe('databasePaging', () => {
+  describe('toListOptions', () => {
+    it('should turn page and sort parameters into offset and order', () => {
+      expect(toListOptions({ page: 3, limit: 10, sortBy: 'createdAt', sortOrder: 'asc' })).toEqual({
+        limit: 10,
+        offset: 20,
+        orderBy: [{ field: '$createdAt', direction: 'asc' }]
+      });
+    });
+
+    it('should cap the limit and use the cursor instead of the page', () => {
+      expect(toListOptions({ page: 4, limit: 500, sortBy: 'intensity', cursor: 'doc-1' })).toEqual({
+        limit: 100,
+        cursorAfter: 'doc-1',
+        orderBy: [{ field: 'intensity', direction: 'desc' }]
+      });
+    });
+  });
+
+  describe('toPageInfo', () => {
+    const documents = (count: number) => Array.from({ length: count }, (_, i) => ({ $id: `doc-${i + 1}` }));
+
+    it('should derive page flags from the total', () => {
+      expect(toPageInfo({ documents: documents(2), total: 5 }, { page: 2, limit: 2 })).toEqual({
+        total: 5,
+        page: 2,
+        limit: 2,
+        hasNext: true,
+        hasPrev: true,
+        nextCursor: 'doc-2'
+      });
+      expect(toPageInfo({ documents: documents(1), total: 5 }, { page: 3, limit: 2 }).hasNext).toBe(false);
+    });
+
+    it('should only offer a next cursor after a full cursor page', () => {
+      expect(toPageInfo({ documents: documents(2), total: 9 }, { limit: 2, cursor: 'x' }).nextCursor).toBe('doc-2');
+      const lastPage = toPageInfo({ documents: documents(1), total: 9 }, { limit: 2, cursor: 'x' });
+      expect(lastPage).toMatchObject({ hasNext: false, hasPrev: true });
+      expect(lastPage).not.toHaveProperty('nextCursor');
+    });
+  });
+
+  describe('listAllDocuments', () => {
+    it('should walk past the page size of the database', async () => {
+      const db = new InMemoryDatabaseAdapter();
+      await db.batchCreate('moods', Array.from({ length: 230 }, (_, i) => ({ userId: i % 2 ? 'a' : 'b' })));
+
+      const documents = await listAllDocuments(db, 'moods', [{ field: 'userId', operator: 'equal', value: 'a' }]);
+      expect(documents).toHaveLength(115);
+      expect(new Set(documents.map(document => document.$id)).size).toBe(115);
+    });
+  });
+});
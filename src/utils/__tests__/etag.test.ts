@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'bun:test';
+import { toETag, parseIfMatch } from '../etag.js';
+
+describe('etag', () => {
+  const version = '2024-03-01T10:00:00.000+00:00';
+
+  it('should round-trip a document version', () => {
+    expect(toETag(version)).toBe(`"${version}"`);
+    expect(parseIfMatch(toETag(version))).toBe(version);
+  });
+
+  it('should accept weak and unquoted tags', () => {
+    expect(parseIfMatch(`W/"${version}"`)).toBe(version);
+    expect(parseIfMatch(version)).toBe(version);
+    expect(parseIfMatch(`"${version}", "other"`)).toBe(version);
+  });
+
+  it('should not require a version for a missing header or a wildcard', () => {
+    expect(parseIfMatch(undefined)).toBeUndefined();
+    expect(parseIfMatch('  ')).toBeUndefined();
+    expect(parseIfMatch('*')).toBeUndefined();
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'bun:test';
+import { parseRangeHeader, sliceStream } from '../httpRange.js';
+
+describe('httpRange', () => {
+  it('should parse single byte ranges', () => {
+    expect(parseRangeHeader('bytes=0-99', 1000)).toEqual({ start: 0, end: 99 });
+    expect(parseRangeHeader('bytes=500-', 1000)).toEqual({ start: 500, end: 999 });
+    expect(parseRangeHeader('bytes=-100', 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseRangeHeader('bytes=900-5000', 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseRangeHeader('bytes=-5000', 1000)).toEqual({ start: 0, end: 999 });
+  });
+
+  it('should send the whole file for missing, multiple or invalid ranges', () => {
+    expect(parseRangeHeader(null, 1000)).toBeNull();
+    expect(parseRangeHeader('bytes=0-1,5-6', 1000)).toBeNull();
+    expect(parseRangeHeader('items=0-1', 1000)).toBeNull();
+    expect(parseRangeHeader('bytes=9-3', 1000)).toBeNull();
+  });
+
+  it('should refuse ranges past the end', () => {
+    expect(parseRangeHeader('bytes=1000-', 1000)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=-0', 1000)).toBe('unsatisfiable');
+  });
+
+  it('should cut a range out of a chunked stream', async () => {
+    const chunks = [[0, 1, 2, 3], [4, 5, 6], [7, 8, 9]];
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach(chunk => controller.enqueue(new Uint8Array(chunk)));
+        controller.close();
+      }
+    });
+
+    const sliced = new Uint8Array(await new Response(sliceStream(stream, { start: 2, end: 7 })).arrayBuffer());
+    expect([...sliced]).toEqual([2, 3, 4, 5, 6, 7]);
+  });
+});
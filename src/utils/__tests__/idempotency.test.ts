@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'bun:test';
+import { fingerprintRequest, isValidIdempotencyKey } from '../idempotency.js';
+
+describe('idempotency', () => {
+  const url = 'http://localhost:3000/api/v1/mood';
+
+  it('should fingerprint bodies regardless of key order', () => {
+    expect(fingerprintRequest('POST', url, { mood: 'happy', intensity: 7 }))
+      .toBe(fingerprintRequest('post', url, { intensity: 7, mood: 'happy', note: undefined }));
+  });
+
+  it('should tell different requests apart', () => {
+    const fingerprint = fingerprintRequest('POST', url, { mood: 'happy', intensity: 7 });
+
+    expect(fingerprintRequest('POST', url, { mood: 'happy', intensity: 8 })).not.toBe(fingerprint);
+    expect(fingerprintRequest('POST', 'http://localhost:3000/api/v1/journal', { mood: 'happy', intensity: 7 })).not.toBe(fingerprint);
+    expect(fingerprintRequest('POST', url, [{ mood: 'happy', intensity: 7 }])).not.toBe(fingerprint);
+  });
+
+  it('should accept printable keys up to 255 characters', () => {
+    expect(isValidIdempotencyKey('0b5c3a7e-9f1d-4c2e-8a6b-1d2e3f4a5b6c')).toBe(true);
+    expect(isValidIdempotencyKey('a'.repeat(255))).toBe(true);
+    expect(isValidIdempotencyKey('a'.repeat(256))).toBe(false);
+    expect(isValidIdempotencyKey('')).toBe(false);
+    expect(isValidIdempotencyKey('has space')).toBe(false);
+  });
+});
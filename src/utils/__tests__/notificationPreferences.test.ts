@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  resolveNotificationChannels,
+  isWithinQuietHours,
+  getQuietHoursEnd,
+  DEFAULT_CATEGORY_CHANNELS
+} from '../notificationPreferences.js';
+import type { User, QuietHours } from '../../types/index.js';
+
+const basePreferences: User['preferences'] = {
+  theme: 'auto',
+  notifications: true,
+  preferredAIModel: 'gpt-4',
+  language: 'en'
+};
+
+describe('notificationPreferences', () => {
+
+  describe('resolveNotificationChannels', () => {
+    it('should use the default channels when the category is not configured', () => {
+      expect(resolveNotificationChannels(basePreferences, 'company_announcements'))
+        .toEqual(DEFAULT_CATEGORY_CHANNELS.company_announcements);
+    });
+
+    it('should use the channels configured for the category', () => {
+      const preferences = {
+        ...basePreferences,
+        notificationSettings: { categories: { insights: ['email' as const] } }
+      };
+
+      expect(resolveNotificationChannels(preferences, 'insights')).toEqual(['email']);
+    });
+
+    it('should drop the webhook channel when no webhook URL is configured', () => {
+      const preferences = {
+        ...basePreferences,
+        notificationSettings: { categories: { reminders: ['in_app' as const, 'webhook' as const] } }
+      };
+
+      expect(resolveNotificationChannels(preferences, 'reminders')).toEqual(['in_app']);
+    });
+
+    it('should only deliver in-app when notifications are switched off or uncategorised', () => {
+      expect(resolveNotificationChannels({ ...basePreferences, notifications: false }, 'company_announcements'))
+        .toEqual(['in_app']);
+      expect(resolveNotificationChannels(basePreferences)).toEqual(['in_app']);
+    });
+  });
+
+  describe('quiet hours', () => {
+    const overnight: QuietHours = { enabled: true, start: '22:00', end: '07:00', timezone: 'UTC' };
+
+    it('should detect times inside a window that wraps past midnight', () => {
+      expect(isWithinQuietHours(overnight, new Date('2024-01-15T23:30:00.000Z'))).toBe(true);
+      expect(isWithinQuietHours(overnight, new Date('2024-01-15T06:59:00.000Z'))).toBe(true);
+      expect(isWithinQuietHours(overnight, new Date('2024-01-15T07:00:00.000Z'))).toBe(false);
+      expect(isWithinQuietHours(overnight, new Date('2024-01-15T12:00:00.000Z'))).toBe(false);
+    });
+
+    it('should evaluate the window in the configured timezone', () => {
+      const tokyo: QuietHours = { ...overnight, timezone: 'Asia/Tokyo' };
+
+      // 14:00 UTC is 23:00 in Tokyo
+      expect(isWithinQuietHours(tokyo, new Date('2024-01-15T14:00:00.000Z'))).toBe(true);
+      expect(isWithinQuietHours(tokyo, new Date('2024-01-15T23:30:00.000Z'))).toBe(false);
+    });
+
+    it('should ignore disabled or missing quiet hours', () => {
+      expect(isWithinQuietHours({ ...overnight, enabled: false }, new Date('2024-01-15T23:30:00.000Z'))).toBe(false);
+      expect(isWithinQuietHours(undefined, new Date('2024-01-15T23:30:00.000Z'))).toBe(false);
+    });
+
+    it('should compute when the current window ends', () => {
+      expect(getQuietHoursEnd(overnight, new Date('2024-01-15T23:30:00.000Z')).toISOString())
+        .toBe('2024-01-16T07:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  buildPlatformAnalytics,
+  calculateRevenueToDate,
+  platformAnalyticsToCsv,
+  type PlatformAnalyticsInput
+} from '../platformAnalytics.js';
+import { getAnalyticsRange } from '../companyAnalytics.js';
+
+const now = new Date('2024-03-20T12:00:00.000Z');
+const prices = { free: 0, premium: 50, enterprise: 200 };
+
+const baseInput = (): PlatformAnalyticsInput => ({
+  period: '14d',
+  range: getAnalyticsRange('14d', now),
+  companies: [
+    { id: 'acme', tier: 'premium', createdAt: '2024-01-01T00:00:00.000Z' },
+    { id: 'globex', tier: 'free', createdAt: '2024-01-01T00:00:00.000Z' },
+    { id: 'initech', tier: 'enterprise', createdAt: '2024-03-01T00:00:00.000Z' }
+  ],
+  users: [
+    { id: 'u1', companyId: 'acme', createdAt: '2024-03-19T13:00:00.000Z', lastLogin: '2024-03-19T13:00:00.000Z' },
+    { id: 'u2', companyId: 'globex', createdAt: '2023-12-01T00:00:00.000Z', lastLogin: '2023-12-02T00:00:00.000Z' },
+    { id: 'u3', companyId: 'initech', createdAt: '2023-12-01T00:00:00.000Z' },
+    { id: 'u4', createdAt: '2024-03-19T14:00:00.000Z' }
+  ],
+  activity: [{ userId: 'u3', timestamp: '2024-03-10T09:00:00.000Z' }],
+  tierChanges: [],
+  monthlyPrices: prices
+});
+
+describe('platformAnalytics', () => {
+
+  describe('buildPlatformAnalytics', () => {
+    it('should aggregate companies, users and subscription tiers', () => {
+      const analytics = buildPlatformAnalytics(baseInput());
+
+      expect(analytics.totalUsers).toBe(4);
+      expect(analytics.totalCompanies).toBe(3);
+      expect(analytics.subscriptionDistribution).toEqual({ free: 1, premium: 1, enterprise: 1 });
+      expect(analytics.revenueMetrics.monthlyRecurringRevenue).toBe(250);
+      expect(analytics.revenueMetrics.averageRevenuePerUser).toBe(83.33);
+    });
+
+    it('should count companies active through logins or check-ins', () => {
+      const analytics = buildPlatformAnalytics(baseInput());
+
+      // acme logged in, initech checked in, globex has been idle since December
+      expect(analytics.activeCompanies).toBe(2);
+      expect(analytics.timeSeries.weeklyActiveCompanies.map(point => point.value)).toEqual([1, 0]);
+    });
+
+    it('should break signups and tier changes down over time', () => {
+      const input = baseInput();
+      input.tierChanges = [
+        { companyId: 'acme', fromTier: 'free', toTier: 'premium', changedAt: '2024-03-18T00:00:00.000Z' }
+      ];
+
+      const analytics = buildPlatformAnalytics(input);
+
+      expect(analytics.timeSeries.dailySignups).toHaveLength(14);
+      expect(analytics.timeSeries.dailySignups[13]).toEqual({ periodStart: '2024-03-19T12:00:00.000Z', value: 2 });
+      expect(analytics.timeSeries.weeklyTierChanges[1]).toEqual({
+        periodStart: '2024-03-13T12:00:00.000Z',
+        free: 0,
+        premium: 1,
+        enterprise: 0
+      });
+    });
+  });
+
+  describe('calculateRevenueToDate', () => {
+    it('should charge each segment of the tier history at its own price', () => {
+      const monthMs = (365.25 / 12) * 24 * 60 * 60 * 1000;
+      const createdAt = new Date(now.getTime() - 3 * monthMs).toISOString();
+      const upgradedAt = new Date(now.getTime() - monthMs).toISOString();
+
+      const revenue = calculateRevenueToDate(
+        { id: 'acme', tier: 'premium', createdAt },
+        [{ companyId: 'acme', fromTier: 'free', toTier: 'premium', changedAt: upgradedAt }],
+        prices,
+        now
+      );
+
+      expect(revenue).toBeCloseTo(50);
+    });
+
+    it('should use the current tier when there is no history', () => {
+      const revenue = calculateRevenueToDate(
+        { id: 'acme', tier: 'enterprise', createdAt: now.toISOString() },
+        [],
+        prices,
+        now
+      );
+
+      expect(revenue).toBe(0);
+    });
+  });
+
+  describe('platformAnalyticsToCsv', () => {
+    it('should export headline figures and time series in long format', () => {
+      const csv = platformAnalyticsToCsv(buildPlatformAnalytics(baseInput()));
+      const lines = csv.trim().split('\r\n');
+
+      expect(lines[0]).toBe('metric,period_start,value');
+      expect(lines).toContain('total_companies,,3');
+      expect(lines).toContain('daily_signups,2024-03-19T12:00:00.000Z,2');
+      expect(lines).toContain('weekly_tier_changes_premium,2024-03-13T12:00:00.000Z,0');
+    });
+  });
+});
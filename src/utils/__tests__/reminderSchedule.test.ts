@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'bun:test';
+import { getNextOccurrence, getStartOfLocalDay, getRecurrenceDays } from '../reminderSchedule.js';
+
+describe('reminderSchedule', () => {
+
+  describe('getNextOccurrence', () => {
+    it('should schedule later today when the time has not passed yet', () => {
+      const next = getNextOccurrence(
+        { time: '20:00', timezone: 'UTC', recurrence: 'daily' },
+        new Date('2024-01-15T10:00:00.000Z')
+      );
+
+      expect(next?.toISOString()).toBe('2024-01-15T20:00:00.000Z');
+    });
+
+    it('should roll over to the next day once the time has passed', () => {
+      const next = getNextOccurrence(
+        { time: '20:00', timezone: 'UTC', recurrence: 'daily' },
+        new Date('2024-01-15T20:00:00.000Z')
+      );
+
+      expect(next?.toISOString()).toBe('2024-01-16T20:00:00.000Z');
+    });
+
+    it('should convert the local time of the reminder timezone to UTC', () => {
+      // 20:00 in New York during winter is 01:00 UTC the next day
+      const next = getNextOccurrence(
+        { time: '20:00', timezone: 'America/New_York', recurrence: 'daily' },
+        new Date('2024-01-15T10:00:00.000Z')
+      );
+
+      expect(next?.toISOString()).toBe('2024-01-16T01:00:00.000Z');
+    });
+
+    it('should follow daylight saving time changes', () => {
+      // Berlin switches to CEST (UTC+2) on 2024-03-31
+      const next = getNextOccurrence(
+        { time: '09:00', timezone: 'Europe/Berlin', recurrence: 'daily' },
+        new Date('2024-03-30T12:00:00.000Z')
+      );
+
+      expect(next?.toISOString()).toBe('2024-03-31T07:00:00.000Z');
+    });
+
+    it('should skip weekends for weekday reminders', () => {
+      // 2024-01-19 is a Friday
+      const next = getNextOccurrence(
+        { time: '08:00', timezone: 'UTC', recurrence: 'weekdays' },
+        new Date('2024-01-19T09:00:00.000Z')
+      );
+
+      expect(next?.toISOString()).toBe('2024-01-22T08:00:00.000Z');
+    });
+
+    it('should use the configured days for custom recurrence', () => {
+      // 2024-01-15 is a Monday, next Wednesday is 2024-01-17
+      const next = getNextOccurrence(
+        { time: '08:00', timezone: 'UTC', recurrence: 'custom', daysOfWeek: [3] },
+        new Date('2024-01-15T09:00:00.000Z')
+      );
+
+      expect(next?.toISOString()).toBe('2024-01-17T08:00:00.000Z');
+    });
+
+    it('should return null when a custom recurrence has no days', () => {
+      expect(getRecurrenceDays({ time: '08:00', timezone: 'UTC', recurrence: 'custom' })).toEqual([]);
+      expect(getNextOccurrence(
+        { time: '08:00', timezone: 'UTC', recurrence: 'custom', daysOfWeek: [] },
+        new Date('2024-01-15T09:00:00.000Z')
+      )).toBeNull();
+    });
+  });
+
+  describe('getStartOfLocalDay', () => {
+    it('should return local midnight as a UTC instant', () => {
+      // 03:00 UTC is still the previous evening in New York
+      expect(getStartOfLocalDay(new Date('2024-01-16T03:00:00.000Z'), 'America/New_York').toISOString())
+        .toBe('2024-01-15T05:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'bun:test';
+import { diffSchemas, isSchemaInSync } from '../schemaDiff.js';
+import type { DatabaseCollection } from '../../core/interfaces/IDatabaseService.js';
+
+const schemas = [
+  {
+    name: 'moods',
+    attributes: [
+      { key: 'userId', type: 'string', size: 36, required: true },
+      { key: 'triggers', type: 'string', size: 50, array: true, required: false },
+      { key: 'intensity', type: 'integer', required: true }
+    ],
+    indexes: [
+      { key: 'user_index', type: 'key', attributes: ['userId'] },
+      { key: 'timestamp_index', type: 'key', attributes: ['timestamp'], orders: ['DESC'] }
+    ]
+  },
+  { name: 'users' },
+  { name: 'reminders', attributes: [], indexes: [] }
+];
+
+const liveCollection = (id: string, overrides: Partial<DatabaseCollection> = {}): DatabaseCollection => ({
+  $id: id,
+  name: id,
+  enabled: true,
+  documentSecurity: false,
+  attributes: [],
+  indexes: [],
+  ...overrides
+});
+
+describe('schemaDiff', () => {
+  it('should be in sync when every declared piece exists as declared', () => {
+    const diff = diffSchemas(schemas, [
+      liveCollection('moods', {
+        attributes: [
+          { key: 'userId', type: 'string', size: 36, required: true, array: false, status: 'available' },
+          { key: 'triggers', type: 'string', size: 50, required: false, array: true, status: 'available' },
+          { key: 'intensity', type: 'integer', required: true, array: false, status: 'available' }
+        ],
+        indexes: [
+          { key: 'user_index', type: 'key', attributes: ['userId'], orders: ['ASC'], status: 'available' },
+          { key: 'timestamp_index', type: 'key', attributes: ['timestamp'], orders: ['DESC'], status: 'available' }
+        ]
+      }),
+      liveCollection('users', { attributes: [{ key: 'anything', type: 'string', required: false, status: 'available' }] }),
+      liveCollection('reminders')
+    ]);
+
+    expect(isSchemaInSync(diff)).toBe(true);
+    expect(diff.extraAttributes).toEqual([]);
+  });
+
+  it('should report missing, changed and extra pieces', () => {
+    const diff = diffSchemas(schemas, [
+      liveCollection('moods', {
+        attributes: [
+          { key: 'userId', type: 'string', size: 64, required: true, status: 'available' },
+          { key: 'legacy', type: 'boolean', required: false, status: 'available' }
+        ],
+        indexes: [
+          { key: 'timestamp_index', type: 'key', attributes: ['timestamp'], orders: ['ASC'], status: 'available' }
+        ]
+      }),
+      liveCollection('old_logs')
+    ]);
+
+    expect(isSchemaInSync(diff)).toBe(false);
+    expect(diff.missingCollections).toEqual(['users', 'reminders']);
+    expect(diff.extraCollections).toEqual(['old_logs']);
+    expect(diff.missingAttributes.map(change => change.key)).toEqual(['triggers', 'intensity']);
+    expect(diff.changedAttributes).toEqual([
+      { collection: 'moods', key: 'userId', expected: 'string(36) required', actual: 'string(64) required' }
+    ]);
+    expect(diff.extraAttributes).toEqual([{ collection: 'moods', key: 'legacy' }]);
+    expect(diff.missingIndexes).toEqual([{ collection: 'moods', key: 'user_index' }]);
+    expect(diff.changedIndexes[0]).toMatchObject({ key: 'timestamp_index', expected: 'key(timestamp DESC)' });
+  });
+});
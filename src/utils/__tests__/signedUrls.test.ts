@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'bun:test';
+import { buildSignedFileUrl, signFileAccess, verifyFileAccess } from '../signedUrls.js';
+
+describe('signedUrls', () => {
+  const secret = 'test-secret';
+  const access = { bucketId: 'user-u1', fileId: 'abc123', expires: 1_900_000_000 };
+  const before = new Date((access.expires - 60) * 1000);
+
+  it('should build links that carry bucket, expiry and signature', () => {
+    const url = new URL(buildSignedFileUrl('http://localhost:4000/api/v1/files', secret, access));
+
+    expect(url.pathname).toBe('/api/v1/files/abc123');
+    expect(url.searchParams.get('bucketId')).toBe('user-u1');
+    expect(url.searchParams.get('expires')).toBe(String(access.expires));
+    expect(url.searchParams.get('signature')).toBe(signFileAccess(secret, access));
+  });
+
+  it('should accept untouched links until they expire', () => {
+    const signature = signFileAccess(secret, access);
+
+    expect(verifyFileAccess(secret, access, signature, before)).toBe('valid');
+    expect(verifyFileAccess(secret, access, signature, new Date(access.expires * 1000))).toBe('expired');
+  });
+
+  it('should reject links with any part changed', () => {
+    const signature = signFileAccess(secret, access);
+
+    expect(verifyFileAccess(secret, { ...access, fileId: 'other' }, signature, before)).toBe('invalid');
+    expect(verifyFileAccess(secret, { ...access, bucketId: 'user-u2' }, signature, before)).toBe('invalid');
+    expect(verifyFileAccess(secret, { ...access, expires: access.expires + 3600 }, signature, before)).toBe('invalid');
+    expect(verifyFileAccess('other-secret', access, signature, before)).toBe('invalid');
+    expect(verifyFileAccess(secret, access, 'short', before)).toBe('invalid');
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  findForbiddenPayloadKeys,
+  serializeWebhookEnvelope,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  nextWeeklyReportAt
+} from '../webhooks.js';
+
+describe('webhooks', () => {
+  const secret = 'whsec_test';
+  const body = '{"event":"member.joined"}';
+
+  it('should sign the timestamp together with the body', () => {
+    const signature = signWebhookPayload(secret, 1700000000, body);
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(secret, 1700000000, body, signature)).toBe(true);
+    expect(verifyWebhookSignature(secret, 1700000001, body, signature)).toBe(false);
+    expect(verifyWebhookSignature('whsec_other', 1700000000, body, signature)).toBe(false);
+    expect(verifyWebhookSignature(secret, 1700000000, `${body} `, signature)).toBe(false);
+    expect(verifyWebhookSignature(secret, 1700000000, body, 'sha256=short')).toBe(false);
+  });
+
+  it('should find journal and mood fields at any depth', () => {
+    expect(findForbiddenPayloadKeys({ userId: 'u1', role: 'COMPANY_USER' })).toEqual([]);
+    expect(findForbiddenPayloadKeys({
+      user: { content: 'Dear diary', entries: [{ moodNotes: 'tired' }] }
+    })).toEqual(['user.content', 'user.entries[0].moodNotes']);
+  });
+
+  it('should refuse to serialize an envelope carrying personal content', () => {
+    const envelope = {
+      id: 'evt_1',
+      event: 'member.removed' as const,
+      companyId: 'c1',
+      createdAt: '2026-01-05T08:00:00.000Z',
+      data: { userId: 'u1', removedAt: '2026-01-05T08:00:00.000Z' }
+    };
+
+    expect(JSON.parse(serializeWebhookEnvelope(envelope))).toEqual(envelope);
+    expect(() => serializeWebhookEnvelope({
+      ...envelope,
+      data: { ...envelope.data, journal: { title: 'Private' } } as any
+    })).toThrow('journal, journal.title');
+  });
+
+  it('should schedule weekly reports for the next Monday morning', () => {
+    expect(nextWeeklyReportAt(new Date('2026-01-05T07:59:00.000Z')).toISOString()).toBe('2026-01-05T08:00:00.000Z');
+    expect(nextWeeklyReportAt(new Date('2026-01-05T08:00:00.000Z')).toISOString()).toBe('2026-01-12T08:00:00.000Z');
+    expect(nextWeeklyReportAt(new Date('2026-01-10T12:00:00.000Z')).toISOString()).toBe('2026-01-12T08:00:00.000Z');
+  });
+});
@@ -0,0 +1,113 @@
+import type { ImageRendition, StorageFile, StorageRendition } from '../core/interfaces/IStorageService.js';
+
+/**
+ * Helpers for journal attachments stored through IStorageService
+ */
+
+export const ATTACHMENT_KINDS = ['image', 'audio'] as const;
+
+export const IMAGE_RENDITION_NAMES: readonly ImageRendition[] = ['thumbnail', 'medium'];
+
+export type AttachmentKind = typeof ATTACHMENT_KINDS[number];
+
+// Storage file IDs follow Appwrite's rules, anything else in an entry is a legacy URL
+const FILE_ID_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9._-]{0,35}$/;
+
+// ISO media files are photos when their brand says HEIF, recordings otherwise
+const HEIF_BRANDS = new Set(['heic', 'heix', 'mif1', 'msf1']);
+
+/**
+ * Every user gets their own bucket, so one user's files can never be listed with another's
+ */
+export function userBucketId(userId: string): string {
+  return `user-${userId}`;
+}
+
+/**
+ * The user a bucket belongs to, null for buckets that are not a user's
+ */
+export function bucketOwnerId(bucketId: string): string | null {
+  return bucketId.startsWith('user-') && bucketId.length > 'user-'.length ? bucketId.slice('user-'.length) : null;
+}
+
+/**
+ * File permissions that let only the owner read, replace or delete a file
+ */
+export function ownerOnlyPermissions(userId: string): string[] {
+  return [`read("user:${userId}")`, `update("user:${userId}")`, `delete("user:${userId}")`];
+}
+
+export function isStorageFileId(value: string): boolean {
+  return FILE_ID_PATTERN.test(value);
+}
+
+/**
+ * The attachment fields of a journal document as stored, flattened for Appwrite
+ */
+export interface JournalFileFields {
+  attachmentImages?: string[] | null;
+  attachmentVoiceRecording?: string | null;
+}
+
+/**
+ * Every file an entry refers to
+ */
+export function journalFileIds(entry: JournalFileFields): string[] {
+  const files = [...(entry.attachmentImages ?? [])];
+  if (entry.attachmentVoiceRecording) {
+    files.push(entry.attachmentVoiceRecording);
+  }
+  return files;
+}
+
+/**
+ * Renditions are stored as files of their own with IDs derived from the original,
+ * so every storage adapter can find them without keeping extra metadata
+ */
+export function renditionFileId(fileId: string, rendition: ImageRendition): string {
+  return `${fileId}_${rendition}`;
+}
+
+export function isRenditionFileId(fileId: string): boolean {
+  return IMAGE_RENDITION_NAMES.some(rendition => fileId.endsWith(`_${rendition}`));
+}
+
+/**
+ * Look up the stored renditions of an image, other files have none
+ */
+export async function findRenditions(
+  file: StorageFile,
+  lookup: (fileId: string) => Promise<StorageFile | null>
+): Promise<StorageRendition[] | undefined> {
+  if (!file.mimeType.startsWith('image/') || isRenditionFileId(file.$id)) {
+    return undefined;
+  }
+
+  const renditions = await Promise.all(IMAGE_RENDITION_NAMES.map(async name => {
+    const rendition = await lookup(renditionFileId(file.$id, name));
+    return rendition && { name, fileId: rendition.$id, mimeType: rendition.mimeType, sizeOriginal: rendition.sizeOriginal };
+  }));
+  return renditions.filter((rendition): rendition is StorageRendition => rendition !== null);
+}
+
+/**
+ * Detect a file's type from its first bytes
+ * The type a client declares is easy to fake, so uploads are judged by their content.
+ */
+export function detectMimeType(bytes: Uint8Array): string | null {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+  const startsWith = (...signature: number[]) => signature.every((byte, index) => bytes[index] === byte);
+
+  if (startsWith(0xff, 0xd8, 0xff)) return 'image/jpeg';
+  if (startsWith(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)) return 'image/png';
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') return 'image/gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') return 'audio/wav';
+  if (ascii(0, 4) === 'OggS') return 'audio/ogg';
+  if (ascii(0, 3) === 'ID3' || (bytes[0] === 0xff && ((bytes[1] ?? 0) & 0xe0) === 0xe0)) return 'audio/mpeg';
+  if (startsWith(0x1a, 0x45, 0xdf, 0xa3)) return 'audio/webm';
+  if (ascii(4, 8) === 'ftyp') {
+    return HEIF_BRANDS.has(ascii(8, 12)) ? 'image/heic' : 'audio/mp4';
+  }
+  return null;
+}
@@ -0,0 +1,196 @@
+import type { CompanyAnalytics } from '../types/index.js';
+import { ValidationError } from './BusinessError.js';
+
+/**
+ * Aggregation helpers for company analytics
+ * Every metric is checked against a minimum group size (k-anonymity) so that
+ * small teams never expose what an individual did.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PERIOD_UNITS: Record<string, number> = { d: 1, w: 7, y: 365 };
+const MAX_PERIOD_DAYS = 365;
+
+export interface AnalyticsRange {
+  start: Date;
+  end: Date;
+  days: number;
+}
+
+export interface AnalyticsUser {
+  id: string;
+  createdAt: string;
+  lastLogin?: string;
+}
+
+export interface AnalyticsActivity {
+  userId: string;
+  timestamp: string;
+}
+
+export interface ActivityBucket {
+  start: Date;
+  count: number;
+  contributors: Set<string>;
+}
+
+export interface CompanyAnalyticsInput {
+  period: string;
+  range: AnalyticsRange;
+  users: AnalyticsUser[];
+  moods: AnalyticsActivity[];
+  journals: AnalyticsActivity[];
+  subscriptionTier: string;
+  minGroupSize: number;
+}
+
+/**
+ * Resolve a period such as `30d`, `4w` or `1y` to a range ending at `now`
+ */
+export function getAnalyticsRange(period: string, now: Date = new Date()): AnalyticsRange {
+  const match = /^(\d+)([dwy])$/.exec(period);
+  const days = match ? Number(match[1]) * (PERIOD_UNITS[match[2] as string] ?? 0) : 0;
+
+  if (days < 1 || days > MAX_PERIOD_DAYS) {
+    throw new ValidationError(`Invalid analytics period "${period}", use e.g. 7d, 4w or 1y (max ${MAX_PERIOD_DAYS} days)`);
+  }
+
+  return {
+    start: new Date(now.getTime() - days * DAY_MS),
+    end: now,
+    days
+  };
+}
+
+/**
+ * Report a count only when it is drawn from enough distinct people; zero is always safe
+ */
+export function applyMinGroupSize(count: number, contributors: number, minGroupSize: number): number | null {
+  if (count === 0) {
+    return 0;
+  }
+  return contributors >= minGroupSize ? count : null;
+}
+
+/**
+ * Build the company analytics report from raw users and activity
+ * Time series use rolling windows ending at the end of the range, oldest first.
+ */
+export function buildCompanyAnalytics(input: CompanyAnalyticsInput): CompanyAnalytics {
+  const { range, users, minGroupSize } = input;
+  const totalUsers = users.length;
+
+  if (totalUsers < minGroupSize) {
+    return {
+      period: input.period,
+      totalUsers,
+      activeUsers: null,
+      newUsersThisMonth: null,
+      journalEntries: null,
+      moodLogs: null,
+      subscriptionTier: input.subscriptionTier,
+      usageMetrics: {
+        dailyActiveUsers: [],
+        weeklyJournalEntries: [],
+        monthlyMoodLogs: []
+      },
+      privacy: { minGroupSize, suppressed: true }
+    };
+  }
+
+  const userIds = new Set(users.map(user => user.id));
+  const moods = filterActivity(input.moods, userIds, range);
+  const journals = filterActivity(input.journals, userIds, range);
+
+  const startMs = range.start.getTime();
+  const monthStart = Date.UTC(range.end.getUTCFullYear(), range.end.getUTCMonth(), 1);
+
+  const activeUsers = users.filter(user => user.lastLogin && Date.parse(user.lastLogin) >= startMs).length;
+  const newUsers = users.filter(user => Date.parse(user.createdAt) >= monthStart).length;
+
+  const dailyActive = bucketActivity([...moods, ...journals], range, 1);
+
+  return {
+    period: input.period,
+    totalUsers,
+    activeUsers: applyMinGroupSize(activeUsers, activeUsers, minGroupSize),
+    newUsersThisMonth: applyMinGroupSize(newUsers, newUsers, minGroupSize),
+    journalEntries: applyMinGroupSize(journals.length, countContributors(journals), minGroupSize),
+    moodLogs: applyMinGroupSize(moods.length, countContributors(moods), minGroupSize),
+    subscriptionTier: input.subscriptionTier,
+    usageMetrics: {
+      dailyActiveUsers: dailyActive.map(bucket =>
+        applyMinGroupSize(bucket.contributors.size, bucket.contributors.size, minGroupSize)
+      ),
+      weeklyJournalEntries: bucketActivity(journals, range, 7).map(bucket =>
+        applyMinGroupSize(bucket.count, bucket.contributors.size, minGroupSize)
+      ),
+      monthlyMoodLogs: bucketActivity(moods, range, 30).map(bucket =>
+        applyMinGroupSize(bucket.count, bucket.contributors.size, minGroupSize)
+      )
+    },
+    privacy: { minGroupSize, suppressed: false }
+  };
+}
+
+/**
+ * Start of every `bucketDays` window in the range, oldest first
+ * Windows are counted back from the end of the range, so the oldest one may be partial.
+ */
+export function getBucketStarts(range: AnalyticsRange, bucketDays: number): Date[] {
+  const bucketMs = bucketDays * DAY_MS;
+  const bucketCount = Math.ceil(range.days / bucketDays);
+
+  return Array.from({ length: bucketCount }, (_, index) =>
+    new Date(Math.max(range.start.getTime(), range.end.getTime() - (bucketCount - index) * bucketMs))
+  );
+}
+
+/**
+ * Index of the window a timestamp falls into, or -1 when it is outside the range
+ */
+export function getBucketIndex(timestamp: string, range: AnalyticsRange, bucketDays: number): number {
+  const at = Date.parse(timestamp);
+  if (at < range.start.getTime() || at > range.end.getTime()) {
+    return -1;
+  }
+
+  const bucketCount = Math.ceil(range.days / bucketDays);
+  const age = range.end.getTime() - at;
+  return Math.max(0, bucketCount - 1 - Math.floor(age / (bucketDays * DAY_MS)));
+}
+
+/**
+ * Split activity into windows of `bucketDays`, counted back from the end of the range
+ */
+export function bucketActivity(activity: AnalyticsActivity[], range: AnalyticsRange, bucketDays: number): ActivityBucket[] {
+  const buckets: ActivityBucket[] = getBucketStarts(range, bucketDays).map(start => ({
+    start,
+    count: 0,
+    contributors: new Set<string>()
+  }));
+
+  for (const item of activity) {
+    const bucket = buckets[getBucketIndex(item.timestamp, range, bucketDays)];
+    if (bucket) {
+      bucket.count++;
+      bucket.contributors.add(item.userId);
+    }
+  }
+
+  return buckets;
+}
+
+function filterActivity(activity: AnalyticsActivity[], userIds: Set<string>, range: AnalyticsRange): AnalyticsActivity[] {
+  const startMs = range.start.getTime();
+  const endMs = range.end.getTime();
+
+  return activity.filter(item => {
+    const at = Date.parse(item.timestamp);
+    return userIds.has(item.userId) && at >= startMs && at <= endMs;
+  });
+}
+
+function countContributors(activity: AnalyticsActivity[]): number {
+  return new Set(activity.map(item => item.userId)).size;
+}
@@ -1,4 +1,18 @@
-import type { Config } from '../types/index.js';
+import type { Config, DatabaseProvider, StorageProvider } from '../types/index.js';
+
+const MEGABYTE = 1024 * 1024;
+
+function parseCacheTtls(value: string): Record<string, number> {
+  const ttls: Record<string, number> = {};
+  for (const pair of value.split(',')) {
+    const [collection, ttl] = pair.split(':').map(part => part.trim());
+    const ttlMs = parseInt(ttl || '');
+    if (collection && ttlMs > 0) {
+      ttls[collection] = ttlMs;
+    }
+  }
+  return ttls;
+}
 
 export const config: Config = {
   port: parseInt(process.env.PORT || '4000'),
@@ -12,6 +26,45 @@ export const config: Config = {
     refreshExpireTime: process.env.JWT_REFRESH_EXPIRE_TIME || '7d',
   },
   
+  database: {
+    provider: (['memory', 'sqlite'].includes(process.env.DATABASE_PROVIDER || '')
+      ? process.env.DATABASE_PROVIDER
+      : 'appwrite') as DatabaseProvider,
+    sqlitePath: process.env.SQLITE_PATH || './data/mindspace.sqlite',
+    cache: {
+      enabled: process.env.DATABASE_CACHE_ENABLED !== 'false',
+      maxEntries: parseInt(process.env.DATABASE_CACHE_MAX_ENTRIES || '1000'),
+      // Comma separated collection:milliseconds pairs; other collections are never cached
+      ttlMs: parseCacheTtls(process.env.DATABASE_CACHE_TTLS || 'users:30000,companies:60000,departments:60000'),
+    },
+  },
+
+  storage: {
+    provider: (process.env.STORAGE_PROVIDER === 'local' ? 'local' : 'appwrite') as StorageProvider,
+    localPath: process.env.STORAGE_LOCAL_PATH || './data/storage',
+    publicUrl: process.env.STORAGE_PUBLIC_URL || `http://localhost:${process.env.PORT || '4000'}/api/v1/storage`,
+    signedUrls: {
+      secret: process.env.STORAGE_URL_SECRET || 'fallback-storage-url-secret-change-in-production',
+      baseUrl: process.env.STORAGE_SIGNED_URL_BASE || `http://localhost:${process.env.PORT || '4000'}/api/v1/files`,
+      ttlSeconds: parseInt(process.env.STORAGE_SIGNED_URL_TTL_SECONDS || '300'),
+    },
+    // Bytes of attachments allowed per subscription tier, a company's quota is shared by its members
+    quotas: {
+      user: {
+        free: parseInt(process.env.STORAGE_QUOTA_USER_FREE_MB || '100') * MEGABYTE,
+        premium: parseInt(process.env.STORAGE_QUOTA_USER_PREMIUM_MB || '2048') * MEGABYTE,
+        enterprise: parseInt(process.env.STORAGE_QUOTA_USER_ENTERPRISE_MB || '10240') * MEGABYTE,
+      },
+      company: {
+        free: parseInt(process.env.STORAGE_QUOTA_COMPANY_FREE_MB || '1024') * MEGABYTE,
+        premium: parseInt(process.env.STORAGE_QUOTA_COMPANY_PREMIUM_MB || '51200') * MEGABYTE,
+        enterprise: parseInt(process.env.STORAGE_QUOTA_COMPANY_ENTERPRISE_MB || '512000') * MEGABYTE,
+      },
+      warningThreshold: parseFloat(process.env.STORAGE_QUOTA_WARNING_THRESHOLD || '0.8'),
+      companyUsageCacheSeconds: parseInt(process.env.STORAGE_QUOTA_COMPANY_CACHE_SECONDS || '300'),
+    },
+  },
+
   appwrite: {
     endpoint: process.env.APPWRITE_ENDPOINT || 'https://cloud.appwrite.io/v1',
     projectId: process.env.APPWRITE_PROJECT_ID || '',
@@ -63,6 +116,53 @@ export const config: Config = {
 
   app: {
     frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
+    invitationExpiryHours: parseInt(process.env.INVITATION_EXPIRY_HOURS || '168'), // 7 days
+  },
+
+  notifications: {
+    schedulerEnabled: process.env.NOTIFICATION_SCHEDULER_ENABLED !== 'false',
+    pollIntervalMs: parseInt(process.env.NOTIFICATION_POLL_INTERVAL_MS || '30000'),
+    maxAttempts: parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '5'),
+    retryBaseDelayMs: parseInt(process.env.NOTIFICATION_RETRY_BASE_DELAY_MS || '60000'), // 1 minute
+  },
+
+  analytics: {
+    minGroupSize: parseInt(process.env.ANALYTICS_MIN_GROUP_SIZE || '5'),
+  },
+
+  billing: {
+    // Flat monthly price per company on each tier
+    monthlyPrices: {
+      free: 0,
+      premium: parseFloat(process.env.PLAN_PRICE_PREMIUM_MONTHLY || '0'),
+      enterprise: parseFloat(process.env.PLAN_PRICE_ENTERPRISE_MONTHLY || '0'),
+    },
+  },
+
+  retention: {
+    sweeperEnabled: process.env.RETENTION_SWEEPER_ENABLED !== 'false',
+    sweepIntervalMs: parseInt(process.env.RETENTION_SWEEP_INTERVAL_MS || '86400000'), // 24 hours
+    // Users without a company fall back to this window
+    individualRetentionDays: parseInt(process.env.RETENTION_DAYS_INDIVIDUAL || '365'),
+    strategy: process.env.RETENTION_STRATEGY === 'anonymize' ? 'anonymize' : 'delete',
+  },
+
+  jobs: {
+    workerEnabled: process.env.JOB_WORKER_ENABLED !== 'false',
+    pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '5000'),
+    concurrency: parseInt(process.env.JOB_CONCURRENCY || '4'),
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '5'),
+    retryBaseDelayMs: parseInt(process.env.JOB_RETRY_BASE_DELAY_MS || '30000'),
+    lockTimeoutMs: parseInt(process.env.JOB_LOCK_TIMEOUT_MS || '300000'), // 5 minutes
+  },
+
+  webhooks: {
+    // Only for development, lets webhooks reach localhost and the local network
+    allowPrivateHosts: process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS === 'true',
+  },
+
+  idempotency: {
+    ttlHours: parseInt(process.env.IDEMPOTENCY_TTL_HOURS || '24'),
   },
 };
 
@@ -71,9 +171,11 @@ export const validateConfig = (): void => {
   const requiredVars = [
     'JWT_SECRET',
     'JWT_REFRESH_SECRET',
+    'STORAGE_URL_SECRET',
     'APPWRITE_PROJECT_ID',
     'APPWRITE_API_KEY',
-    'APPWRITE_DATABASE_ID',
+    // Only the Appwrite database needs a database ID
+    ...(config.database.provider === 'appwrite' ? ['APPWRITE_DATABASE_ID'] : []),
   ];
   
   const missing = requiredVars.filter(varName => !process.env[varName]);
@@ -84,11 +186,16 @@ export const validateConfig = (): void => {
   }
   
   if (config.nodeEnv === 'production') {
-    const productionRequired = ['APPWRITE_PROJECT_ID', 'APPWRITE_API_KEY'];
+    // Signed file links made with the fallback secret could be forged by anyone reading the source
+    const productionRequired = ['APPWRITE_PROJECT_ID', 'APPWRITE_API_KEY', 'STORAGE_URL_SECRET'];
     const missingProd = productionRequired.filter(varName => !process.env[varName]);
     
     if (missingProd.length > 0) {
       throw new Error(`Production requires: ${missingProd.join(', ')}`);
     }
+
+    if (config.database.provider === 'memory') {
+      throw new Error('The in-memory database loses all data on restart and cannot be used in production');
+    }
   }
 };
\ No newline at end of file
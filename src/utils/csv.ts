@@ -0,0 +1,27 @@
+/**
+ * Minimal RFC 4180 CSV writer
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Serialize rows to CSV, the first row is usually the header
+ */
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map(row => row.map(formatCsvValue).join(',')).join('\r\n') + '\r\n';
+}
+
+function formatCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = String(value);
+
+  // Keep spreadsheet apps from evaluating text cells as formulas
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
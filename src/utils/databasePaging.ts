@@ -0,0 +1,111 @@
+import type { IDatabaseService, DatabaseQuery, DatabaseListOptions } from '../core/interfaces/IDatabaseService.js';
+import type { BaseModel } from '../models/BaseModel.js';
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+// Batch size used when walking a whole collection
+const LIST_ALL_PAGE_SIZE = 100;
+
+// API sort fields that name system attributes
+const SYSTEM_SORT_FIELDS: Record<string, string> = {
+  createdAt: '$createdAt',
+  updatedAt: '$updatedAt'
+};
+
+/**
+ * Paging parameters accepted by list endpoints
+ */
+export interface PageRequest {
+  page?: number;
+  limit?: number;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  cursor?: string;
+}
+
+export interface PageInfo {
+  total: number;
+  page: number;
+  limit: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+  nextCursor?: string;
+}
+
+/**
+ * Translate API paging parameters into database list options
+ * A cursor replaces the page number, so infinite scroll does not skip or repeat
+ * entries when new ones are added while the client is scrolling.
+ */
+export function toListOptions(request: PageRequest): DatabaseListOptions {
+  const limit = Math.min(request.limit || DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT);
+  const options: DatabaseListOptions = { limit };
+
+  if (request.sortBy) {
+    options.orderBy = [{
+      field: SYSTEM_SORT_FIELDS[request.sortBy] ?? request.sortBy,
+      direction: request.sortOrder === 'asc' ? 'asc' : 'desc'
+    }];
+  }
+
+  if (request.cursor) {
+    options.cursorAfter = request.cursor;
+  } else {
+    options.offset = ((request.page || 1) - 1) * limit;
+  }
+
+  return options;
+}
+
+/**
+ * Pagination block returned by list endpoints
+ * `nextCursor` is the last document of a full page; passing it back as `cursor` continues in the same order.
+ */
+export function toPageInfo(
+  result: { documents: Array<Pick<BaseModel, '$id'>>; total: number },
+  request: PageRequest
+): PageInfo {
+  const page = request.page || 1;
+  const limit = Math.min(request.limit || DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT);
+  // The total ignores the cursor, so a full page is the only hint that more follow
+  const hasNext = request.cursor
+    ? result.documents.length === limit
+    : page * limit < result.total;
+  const last = result.documents[result.documents.length - 1];
+
+  return {
+    total: result.total,
+    page,
+    limit,
+    hasNext,
+    hasPrev: request.cursor ? true : page > 1,
+    ...(hasNext && last && { nextCursor: last.$id })
+  };
+}
+
+/**
+ * Load every document matching the queries, walking the collection with a cursor
+ */
+export async function listAllDocuments<T extends Pick<BaseModel, '$id'>>(
+  databaseService: IDatabaseService,
+  collection: string,
+  queries: DatabaseQuery[]
+): Promise<T[]> {
+  const documents: T[] = [];
+  let cursor: string | undefined;
+
+  for (;;) {
+    const page = await databaseService.list<T>(collection, queries, {
+      limit: LIST_ALL_PAGE_SIZE,
+      ...(cursor && { cursorAfter: cursor })
+    });
+    documents.push(...page.documents);
+
+    const last = page.documents[page.documents.length - 1];
+    if (!last || page.documents.length < LIST_ALL_PAGE_SIZE) {
+      return documents;
+    }
+    cursor = last.$id;
+  }
+}
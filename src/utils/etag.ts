@@ -0,0 +1,22 @@
+/**
+ * Entity tags for optimistic locking
+ * A document's version is its `$updatedAt`; the tag is that value quoted, so clients
+ * can also build it from the `$updatedAt` in list responses.
+ */
+
+export function toETag(version: string): string {
+  return `"${version}"`;
+}
+
+/**
+ * Expected version from an If-Match header
+ * Returns undefined when the header is missing or `*` (any version). Weak tags are
+ * accepted; tag lists are not, only the first tag is used.
+ */
+export function parseIfMatch(header?: string | null): string | undefined {
+  const tag = header?.split(',')[0]?.trim();
+  if (!tag || tag === '*') {
+    return undefined;
+  }
+  return tag.replace(/^W\//, '').replace(/^"(.*)"$/, '$1');
+}
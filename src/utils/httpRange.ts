@@ -0,0 +1,64 @@
+export interface ByteRange {
+  start: number;
+  // Inclusive, like in Content-Range
+  end: number;
+}
+
+/**
+ * Parse a Range header for a resource of the given size
+ * Returns null when the whole resource should be sent: no header, another unit or
+ * several ranges, which servers may answer in full. 'unsatisfiable' means 416.
+ */
+export function parseRangeHeader(header: string | null | undefined, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, first = '', last = ''] = match;
+  if (first === '' && last === '') {
+    return null;
+  }
+
+  if (first === '') {
+    // Suffix range, the last N bytes
+    const length = parseInt(last, 10);
+    if (length === 0 || size === 0) {
+      return 'unsatisfiable';
+    }
+    return { start: Math.max(size - length, 0), end: size - 1 };
+  }
+
+  const start = parseInt(first, 10);
+  if (last !== '' && parseInt(last, 10) < start) {
+    // An invalid range is ignored rather than refused
+    return null;
+  }
+  if (start >= size) {
+    return 'unsatisfiable';
+  }
+  return { start, end: last === '' ? size - 1 : Math.min(parseInt(last, 10), size - 1) };
+}
+
+/**
+ * Cut a range out of a stream of the whole resource, for backends that ignore Range
+ */
+export function sliceStream(stream: ReadableStream<Uint8Array>, range: ByteRange): ReadableStream<Uint8Array> {
+  let offset = 0;
+
+  return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      const chunkStart = offset;
+      offset += chunk.length;
+
+      const from = Math.max(range.start - chunkStart, 0);
+      const to = Math.min(range.end + 1 - chunkStart, chunk.length);
+      if (from < to) {
+        controller.enqueue(chunk.subarray(from, to));
+      }
+      if (offset > range.end) {
+        controller.terminate();
+      }
+    }
+  }));
+}
@@ -0,0 +1,44 @@
+import { createHash } from 'crypto';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAY_HEADER = 'Idempotent-Replayed';
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Keys are opaque to us, but must be printable ASCII so they fit the index
+ */
+export function isValidIdempotencyKey(key: string): boolean {
+  return key.length > 0 && key.length <= MAX_KEY_LENGTH && /^[\x21-\x7e]+$/.test(key);
+}
+
+/**
+ * Hash of what a request asks for, a reused key must come with the same one
+ * Object keys are sorted so clients may serialize the body in any order.
+ */
+export function fingerprintRequest(method: string, url: string, body: unknown): string {
+  const { pathname, search } = new URL(url);
+  return createHash('sha256')
+    .update(`${method.toUpperCase()} ${pathname}${search}\n${canonicalJson(body)}`)
+    .digest('hex');
+}
+
+function canonicalJson(value: unknown): string {
+  if (value === undefined || value === null) {
+    return 'null';
+  }
+  // Uploads are compared by their metadata and size, not their bytes
+  if (typeof Blob !== 'undefined' && value instanceof Blob) {
+    return canonicalJson({ name: (value as File).name, type: value.type, size: value.size });
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, child]) => child !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, child]) => `${JSON.stringify(key)}:${canonicalJson(child)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,52 @@
+import sharp from 'sharp';
+import type { ImageRendition } from '../core/interfaces/IStorageService.js';
+
+/**
+ * Longest side of each rendition in pixels, smaller photos are never enlarged
+ */
+export const IMAGE_RENDITIONS: Record<ImageRendition, number> = {
+  thumbnail: 320,
+  medium: 1280
+};
+
+const WEBP_QUALITY = 82;
+
+// Largest photo decoded, well above phone cameras; a small file can still declare huge dimensions
+export const MAX_INPUT_PIXELS = 40_000_000;
+
+export interface ProcessedImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedUpload {
+  original: ProcessedImage;
+  renditions: Array<ProcessedImage & { name: ImageRendition }>;
+}
+
+/**
+ * Normalise an uploaded photo and create its renditions
+ * Pixels are turned upright according to the EXIF orientation, and since sharp drops
+ * metadata unless asked to keep it, camera details and GPS position are gone from every output.
+ */
+export async function processImage(input: Uint8Array): Promise<ProcessedUpload> {
+  // Every output is a clone of one pipeline, so no uncompressed copy of the photo is kept around
+  const upright = sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+  const original = await encodeWebp(upright.clone());
+
+  const renditions = [];
+  for (const [name, size] of Object.entries(IMAGE_RENDITIONS) as Array<[ImageRendition, number]>) {
+    const rendition = await encodeWebp(
+      upright.clone().resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true })
+    );
+    renditions.push({ name, ...rendition });
+  }
+
+  return { original, renditions };
+}
+
+async function encodeWebp(image: sharp.Sharp): Promise<ProcessedImage> {
+  const { data, info } = await image.webp({ quality: WEBP_QUALITY }).toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
@@ -0,0 +1,87 @@
+import type {
+  User,
+  NotificationCategory,
+  NotificationChannelName,
+  QuietHours
+} from '../types/index.js';
+
+/**
+ * Channels used for each category when the user has not configured one
+ */
+export const DEFAULT_CATEGORY_CHANNELS: Record<NotificationCategory, NotificationChannelName[]> = {
+  reminders: ['in_app'],
+  insights: ['in_app'],
+  company_announcements: ['in_app', 'email']
+};
+
+/**
+ * Resolve the channels a notification should be delivered through for a user.
+ * Uncategorised (system) notifications and users who switched notifications off
+ * only receive in-app notifications; the webhook channel needs a configured URL.
+ */
+export function resolveNotificationChannels(
+  preferences: User['preferences'] | undefined,
+  category?: NotificationCategory
+): NotificationChannelName[] {
+  if (!category || preferences?.notifications === false) {
+    return ['in_app'];
+  }
+
+  const settings = preferences?.notificationSettings;
+  const channels = settings?.categories?.[category] ?? DEFAULT_CATEGORY_CHANNELS[category];
+
+  return Array.from(new Set(channels)).filter(channel => channel !== 'webhook' || !!settings?.webhookUrl);
+}
+
+/**
+ * Check whether a point in time falls inside the user's quiet hours.
+ * Windows that wrap past midnight (e.g. 22:00-07:00) are supported.
+ */
+export function isWithinQuietHours(quietHours: QuietHours | undefined, at: Date): boolean {
+  if (!quietHours?.enabled) {
+    return false;
+  }
+
+  const start = parseTime(quietHours.start);
+  const end = parseTime(quietHours.end);
+  const now = getLocalMinutes(at, quietHours.timezone);
+
+  if (start === end) {
+    return false;
+  }
+
+  return start < end
+    ? now >= start && now < end
+    : now >= start || now < end;
+}
+
+/**
+ * Get the moment the current quiet hours window ends
+ */
+export function getQuietHoursEnd(quietHours: QuietHours, at: Date): Date {
+  const end = parseTime(quietHours.end);
+  const now = getLocalMinutes(at, quietHours.timezone);
+  const minutesUntilEnd = (end - now + 24 * 60) % (24 * 60);
+
+  const result = new Date(at.getTime() + minutesUntilEnd * 60 * 1000);
+  result.setUTCSeconds(0, 0);
+  return result;
+}
+
+function parseTime(value: string): number {
+  const [hours = 0, minutes = 0] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function getLocalMinutes(at: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(at);
+
+  const hours = Number(parts.find(part => part.type === 'hour')?.value ?? 0);
+  const minutes = Number(parts.find(part => part.type === 'minute')?.value ?? 0);
+  return hours * 60 + minutes;
+}
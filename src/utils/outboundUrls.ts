@@ -0,0 +1,134 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+/**
+ * Resolves a host name to all of its addresses
+ */
+export type HostLookup = (host: string) => Promise<string[]>;
+
+export const lookupHost: HostLookup = async host =>
+  (await lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+
+export type OutboundUrlProblem = 'invalid' | 'insecure' | 'private' | 'unresolvable';
+
+export interface OutboundUrlOptions {
+  requireHttps: boolean;
+  // Lets development setups call services on localhost or the local network
+  allowPrivateHosts: boolean;
+  lookup?: HostLookup;
+}
+
+/**
+ * Check that a URL users gave us is safe for the server to call
+ * Host names are resolved and every address must be public, so a DNS name pointing at
+ * 127.0.0.1 or the cloud metadata service is refused like the literal address would be.
+ * Call it right before each request, as the DNS answer can change after the URL was saved.
+ */
+export async function checkOutboundUrl(url: string, options: OutboundUrlOptions): Promise<OutboundUrlProblem | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'invalid';
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return 'invalid';
+  }
+  if (options.requireHttps && parsed.protocol !== 'https:') {
+    return 'insecure';
+  }
+  if (parsed.username || parsed.password) {
+    return 'invalid';
+  }
+  if (options.allowPrivateHosts) {
+    return null;
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = await (options.lookup ?? lookupHost)(host);
+    } catch {
+      return 'unresolvable';
+    }
+  }
+
+  if (addresses.length === 0) {
+    return 'unresolvable';
+  }
+  return addresses.some(isPrivateAddress) ? 'private' : null;
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  switch (isIP(address)) {
+    case 4:
+      return isPrivateIPv4(address.split('.').map(Number));
+    case 6:
+      return isPrivateIPv6(address.toLowerCase());
+    default:
+      return true;
+  }
+}
+
+function isPrivateIPv4([a = 0, b = 0]: number[]): boolean {
+  return a === 0                              // "this" network
+    || a === 10                               // private
+    || a === 127                              // loopback
+    || (a === 100 && b >= 64 && b <= 127)     // carrier-grade NAT
+    || (a === 169 && b === 254)               // link-local, cloud metadata
+    || (a === 172 && b >= 16 && b <= 31)      // private
+    || (a === 192 && b === 168)               // private
+    || (a === 198 && (b === 18 || b === 19))  // benchmarking
+    || a >= 224;                              // multicast and reserved
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const groups = expandIPv6(address);
+  if (!groups) {
+    return true;
+  }
+
+  // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible (::a.b.c.d) addresses reach the IPv4 host
+  if (groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0xffff || groups[5] === 0)) {
+    const high = groups[6]!;
+    const low = groups[7]!;
+    return isPrivateIPv4([high >> 8, high & 0xff, low >> 8, low & 0xff]);
+  }
+
+  const first = groups[0]!;
+  return (first & 0xfe00) === 0xfc00   // unique local
+    || (first & 0xffc0) === 0xfe80     // link-local
+    || (first & 0xff00) === 0xff00     // multicast
+    || (first === 0x64 && groups[1] === 0xff9b); // NAT64 to IPv4
+}
+
+/**
+ * Expand an IPv6 address into its eight 16-bit groups, with a dotted IPv4 tail turned into two groups
+ */
+function expandIPv6(address: string): number[] | null {
+  let text = address.split('%')[0]!;
+
+  const ipv4Tail = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (ipv4Tail) {
+    const [a = 0, b = 0, c = 0, d = 0] = ipv4Tail[1]!.split('.').map(Number);
+    text = text.slice(0, -ipv4Tail[1]!.length) + `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head = '', tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  if (tail === undefined ? missing !== 0 : missing < 1) {
+    return null;
+  }
+
+  return [...headGroups, ...Array(tail === undefined ? 0 : missing).fill('0'), ...tailGroups]
+    .map(group => parseInt(group, 16));
+}
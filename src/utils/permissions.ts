@@ -118,8 +118,9 @@ export function canAccessCompany(user: User, companyId: string): boolean {
 
 /**
  * Check if user can manage other users in their company
+ * Managers are limited to users in the departments they manage.
  */
-export function canManageUser(manager: User, targetUser: User): boolean {
+export function canManageUser(manager: User, targetUser: User, managedDepartmentIds: string[] = []): boolean {
   // Super admin can manage anyone
   if (manager.role === 'SUPER_ADMIN') {
     return true;
@@ -135,9 +136,9 @@ export function canManageUser(manager: User, targetUser: User): boolean {
     return true;
   }
   
-  // Company manager can manage company users (not admins or other managers)
+  // Company manager can manage company users in their departments (not admins or other managers)
   if (manager.role === 'COMPANY_MANAGER' && targetUser.role === 'COMPANY_USER') {
-    return true;
+    return isInManagedDepartment(targetUser, managedDepartmentIds);
   }
   
   return false;
@@ -146,7 +147,7 @@ export function canManageUser(manager: User, targetUser: User): boolean {
 /**
  * Check if user can view another user's data
  */
-export function canViewUserData(viewer: User, targetUser: User): boolean {
+export function canViewUserData(viewer: User, targetUser: User, managedDepartmentIds: string[] = []): boolean {
   // Users can always view their own data
   if (viewer.$id === targetUser.$id) {
     return true;
@@ -163,10 +164,21 @@ export function canViewUserData(viewer: User, targetUser: User): boolean {
       hasPermission(viewer, 'view_company_data')) {
     return true;
   }
+
+  // Company managers can view users in their departments
+  if (viewer.role === 'COMPANY_MANAGER' &&
+      viewer.companyId === targetUser.companyId &&
+      hasPermission(viewer, 'view_company_data')) {
+    return isInManagedDepartment(targetUser, managedDepartmentIds);
+  }
   
   return false;
 }
 
+function isInManagedDepartment(targetUser: User, managedDepartmentIds: string[]): boolean {
+  return !!targetUser.departmentId && managedDepartmentIds.includes(targetUser.departmentId);
+}
+
 /**
  * Get role hierarchy level (higher number = more permissions)
  */
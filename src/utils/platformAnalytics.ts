@@ -0,0 +1,193 @@
+import type { PlatformAnalytics, SubscriptionTier, TierChangePoint } from '../types/index.js';
+import {
+  bucketActivity,
+  getBucketIndex,
+  getBucketStarts,
+  type AnalyticsActivity,
+  type AnalyticsRange
+} from './companyAnalytics.js';
+import { toCsv, type CsvValue } from './csv.js';
+
+/**
+ * Aggregation helpers for platform-wide analytics (super admins only)
+ * Figures are counts of companies and signups, so no group size threshold applies.
+ */
+
+const AVERAGE_MONTH_MS = (365.25 / 12) * 24 * 60 * 60 * 1000;
+const TIERS: SubscriptionTier[] = ['free', 'premium', 'enterprise'];
+
+export interface PlatformCompany {
+  id: string;
+  tier: SubscriptionTier;
+  createdAt: string;
+}
+
+export interface PlatformUser {
+  id: string;
+  companyId?: string;
+  createdAt: string;
+  lastLogin?: string;
+}
+
+export interface TierChange {
+  companyId: string;
+  fromTier: SubscriptionTier;
+  toTier: SubscriptionTier;
+  changedAt: string;
+}
+
+export interface PlatformAnalyticsInput {
+  period: string;
+  range: AnalyticsRange;
+  companies: PlatformCompany[];
+  users: PlatformUser[];
+  activity: AnalyticsActivity[];
+  tierChanges: TierChange[];
+  monthlyPrices: Record<SubscriptionTier, number>;
+}
+
+/**
+ * Build the platform analytics report from companies, users, activity and tier history
+ * A company counts as active when any member logged in or checked in during the window.
+ */
+export function buildPlatformAnalytics(input: PlatformAnalyticsInput): PlatformAnalytics {
+  const { range, companies, users, activity, tierChanges, monthlyPrices } = input;
+  const companyIds = new Set(companies.map(company => company.id));
+  const companyOf = new Map<string, string>();
+
+  for (const user of users) {
+    if (user.companyId && companyIds.has(user.companyId)) {
+      companyOf.set(user.id, user.companyId);
+    }
+  }
+
+  const isInRange = (timestamp?: string) => {
+    const at = timestamp ? Date.parse(timestamp) : NaN;
+    return at >= range.start.getTime() && at <= range.end.getTime();
+  };
+
+  const activeCompanies = new Set<string>();
+  for (const user of users) {
+    const companyId = companyOf.get(user.id);
+    if (companyId && isInRange(user.lastLogin)) {
+      activeCompanies.add(companyId);
+    }
+  }
+  for (const item of activity) {
+    const companyId = companyOf.get(item.userId);
+    if (companyId && isInRange(item.timestamp)) {
+      activeCompanies.add(companyId);
+    }
+  }
+
+  const subscriptionDistribution = { free: 0, premium: 0, enterprise: 0 };
+  for (const company of companies) {
+    subscriptionDistribution[company.tier]++;
+  }
+
+  const monthlyRecurringRevenue = companies.reduce((sum, company) => sum + monthlyPrices[company.tier], 0);
+  const totalRevenue = companies.reduce((sum, company) => sum + calculateRevenueToDate(
+    company,
+    tierChanges.filter(change => change.companyId === company.id),
+    monthlyPrices,
+    range.end
+  ), 0);
+  // Only company members sit on a paid plan
+  const payingSeats = companyOf.size;
+
+  return {
+    period: input.period,
+    totalUsers: users.length,
+    totalCompanies: companies.length,
+    activeCompanies: activeCompanies.size,
+    subscriptionDistribution,
+    revenueMetrics: {
+      monthlyRecurringRevenue: roundCurrency(monthlyRecurringRevenue),
+      totalRevenue: roundCurrency(totalRevenue),
+      averageRevenuePerUser: payingSeats > 0 ? roundCurrency(monthlyRecurringRevenue / payingSeats) : 0
+    },
+    timeSeries: {
+      dailySignups: bucketActivity(
+        users.map(user => ({ userId: user.id, timestamp: user.createdAt })),
+        range,
+        1
+      ).map(bucket => ({ periodStart: bucket.start.toISOString(), value: bucket.count })),
+      weeklyActiveCompanies: bucketActivity(activity, range, 7).map(bucket => ({
+        periodStart: bucket.start.toISOString(),
+        value: new Set([...bucket.contributors].map(userId => companyOf.get(userId)).filter(Boolean)).size
+      })),
+      weeklyTierChanges: bucketTierChanges(tierChanges, range)
+    }
+  };
+}
+
+/**
+ * Revenue a company has generated since it was created, following its tier history
+ */
+export function calculateRevenueToDate(
+  company: PlatformCompany,
+  changes: TierChange[],
+  monthlyPrices: Record<SubscriptionTier, number>,
+  now: Date
+): number {
+  const ordered = [...changes].sort((a, b) => Date.parse(a.changedAt) - Date.parse(b.changedAt));
+
+  let tier = ordered[0]?.fromTier ?? company.tier;
+  let segmentStart = Date.parse(company.createdAt);
+  let revenue = 0;
+
+  for (const change of ordered) {
+    const changedAt = Date.parse(change.changedAt);
+    revenue += Math.max(0, changedAt - segmentStart) / AVERAGE_MONTH_MS * monthlyPrices[tier];
+    tier = change.toTier;
+    segmentStart = changedAt;
+  }
+
+  revenue += Math.max(0, now.getTime() - segmentStart) / AVERAGE_MONTH_MS * monthlyPrices[tier];
+  return revenue;
+}
+
+/**
+ * Flatten the report to CSV in long format (metric, period start, value)
+ */
+export function platformAnalyticsToCsv(analytics: PlatformAnalytics): string {
+  const rows: CsvValue[][] = [
+    ['metric', 'period_start', 'value'],
+    ['total_users', '', analytics.totalUsers],
+    ['total_companies', '', analytics.totalCompanies],
+    ['active_companies', '', analytics.activeCompanies],
+    ...TIERS.map((tier): CsvValue[] => [`companies_${tier}`, '', analytics.subscriptionDistribution[tier]]),
+    ['monthly_recurring_revenue', '', analytics.revenueMetrics.monthlyRecurringRevenue],
+    ['total_revenue', '', analytics.revenueMetrics.totalRevenue],
+    ['average_revenue_per_user', '', analytics.revenueMetrics.averageRevenuePerUser],
+    ...analytics.timeSeries.dailySignups.map((point): CsvValue[] => ['daily_signups', point.periodStart, point.value]),
+    ...analytics.timeSeries.weeklyActiveCompanies.map((point): CsvValue[] => ['weekly_active_companies', point.periodStart, point.value]),
+    ...analytics.timeSeries.weeklyTierChanges.flatMap(point =>
+      TIERS.map((tier): CsvValue[] => [`weekly_tier_changes_${tier}`, point.periodStart, point[tier]])
+    )
+  ];
+
+  return toCsv(rows);
+}
+
+function bucketTierChanges(changes: TierChange[], range: AnalyticsRange): TierChangePoint[] {
+  const points: TierChangePoint[] = getBucketStarts(range, 7).map(start => ({
+    periodStart: start.toISOString(),
+    free: 0,
+    premium: 0,
+    enterprise: 0
+  }));
+
+  for (const change of changes) {
+    const point = points[getBucketIndex(change.changedAt, range, 7)];
+    if (point) {
+      point[change.toTier]++;
+    }
+  }
+
+  return points;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
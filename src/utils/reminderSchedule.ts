@@ -0,0 +1,125 @@
+/**
+ * Timezone-aware scheduling helpers for reminders
+ * Built on Intl so no timezone database dependency is needed.
+ */
+
+export type ReminderRecurrence = 'daily' | 'weekdays' | 'weekends' | 'custom';
+
+export interface ReminderRule {
+  time: string; // HH:mm, local to timezone
+  timezone: string; // IANA timezone
+  recurrence: ReminderRecurrence;
+  daysOfWeek?: number[]; // 0 = Sunday ... 6 = Saturday, used by 'custom'
+}
+
+interface LocalDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Days of the week a rule fires on (0 = Sunday)
+ */
+export function getRecurrenceDays(rule: ReminderRule): number[] {
+  switch (rule.recurrence) {
+    case 'weekdays':
+      return [1, 2, 3, 4, 5];
+    case 'weekends':
+      return [0, 6];
+    case 'custom':
+      return rule.daysOfWeek ?? [];
+    default:
+      return [0, 1, 2, 3, 4, 5, 6];
+  }
+}
+
+/**
+ * Get the first occurrence of a rule strictly after the given instant
+ */
+export function getNextOccurrence(rule: ReminderRule, after: Date): Date | null {
+  const days = getRecurrenceDays(rule);
+  if (days.length === 0) {
+    return null;
+  }
+
+  const [hour = 0, minute = 0] = rule.time.split(':').map(Number);
+  const local = getLocalParts(after, rule.timezone);
+
+  // A week (plus today) always contains the next matching day
+  for (let offset = 0; offset <= 7; offset++) {
+    const candidateDay = new Date(Date.UTC(local.year, local.month - 1, local.day + offset));
+    if (!days.includes(candidateDay.getUTCDay())) {
+      continue;
+    }
+
+    const candidate = zonedTimeToUtc({
+      year: candidateDay.getUTCFullYear(),
+      month: candidateDay.getUTCMonth() + 1,
+      day: candidateDay.getUTCDate(),
+      hour,
+      minute,
+      second: 0
+    }, rule.timezone);
+
+    if (candidate.getTime() > after.getTime()) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the instant the local day containing `at` started in the timezone
+ */
+export function getStartOfLocalDay(at: Date, timezone: string): Date {
+  const local = getLocalParts(at, timezone);
+  return zonedTimeToUtc({ ...local, hour: 0, minute: 0, second: 0 }, timezone);
+}
+
+function getLocalParts(at: Date, timezone: string): LocalDateParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(at);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value ?? 0);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  };
+}
+
+/**
+ * Convert a wall-clock time in a timezone to a UTC instant
+ */
+function zonedTimeToUtc(local: LocalDateParts, timezone: string): Date {
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+
+  // Correct by the zone offset at that instant, then once more in case the guess crossed a DST change
+  let result = asUtc - getTimezoneOffset(new Date(asUtc), timezone);
+  result = asUtc - getTimezoneOffset(new Date(result), timezone);
+
+  return new Date(result);
+}
+
+function getTimezoneOffset(at: Date, timezone: string): number {
+  const local = getLocalParts(at, timezone);
+  const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  return localAsUtc - Math.floor(at.getTime() / 1000) * 1000;
+}
@@ -49,11 +49,15 @@ export const HTTP_STATUS = {
   OK: 200,
   CREATED: 201,
   NO_CONTENT: 204,
+  PARTIAL_CONTENT: 206,
   BAD_REQUEST: 400,
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
   NOT_FOUND: 404,
   CONFLICT: 409,
+  PAYLOAD_TOO_LARGE: 413,
+  UNSUPPORTED_MEDIA_TYPE: 415,
+  RANGE_NOT_SATISFIABLE: 416,
   UNPROCESSABLE_ENTITY: 422,
   TOO_MANY_REQUESTS: 429,
   INTERNAL_SERVER_ERROR: 500,
@@ -131,6 +135,11 @@ export const SUCCESS_MESSAGES = {
   JOURNAL_DELETED: 'Journal entry deleted successfully',
   MOOD_LOGGED: 'Mood logged successfully',
   MOOD_UPDATED: 'Mood updated successfully',
+  NOTIFICATION_READ: 'Notification marked as read',
+  NOTIFICATION_DELETED: 'Notification deleted successfully',
+  INVITATION_SENT: 'Invitation sent successfully',
+  INVITATION_ACCEPTED: 'Invitation accepted successfully',
+  INVITATION_REVOKED: 'Invitation revoked successfully',
   
   // Profile
   PROFILE_UPDATED: 'Profile updated successfully',
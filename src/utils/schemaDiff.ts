@@ -0,0 +1,133 @@
+import type { CollectionSchema } from '../models/BaseModel.js';
+import type { DatabaseCollection } from '../core/interfaces/IDatabaseService.js';
+
+type SchemaAttribute = NonNullable<CollectionSchema['attributes']>[number];
+type SchemaIndex = NonNullable<CollectionSchema['indexes']>[number];
+
+export interface SchemaChange {
+  collection: string;
+  key: string;
+}
+
+export interface SchemaMismatch extends SchemaChange {
+  expected: string;
+  actual: string;
+}
+
+/**
+ * Differences between the declared schemas and the live database
+ * `missing` entries are declared but absent, `extra` entries exist only in the database.
+ */
+export interface SchemaDiff {
+  missingCollections: string[];
+  extraCollections: string[];
+  missingAttributes: SchemaChange[];
+  changedAttributes: SchemaMismatch[];
+  extraAttributes: SchemaChange[];
+  missingIndexes: SchemaChange[];
+  changedIndexes: SchemaMismatch[];
+  extraIndexes: SchemaChange[];
+}
+
+/**
+ * Compare declared schemas with collections as reported by the database
+ * Schemas without an attribute list (e.g. users) only need their collection to exist.
+ */
+export function diffSchemas(schemas: CollectionSchema[], live: DatabaseCollection[]): SchemaDiff {
+  const diff: SchemaDiff = {
+    missingCollections: [],
+    extraCollections: [],
+    missingAttributes: [],
+    changedAttributes: [],
+    extraAttributes: [],
+    missingIndexes: [],
+    changedIndexes: [],
+    extraIndexes: []
+  };
+  const liveById = new Map(live.map(collection => [collection.$id, collection]));
+
+  for (const schema of schemas) {
+    const collection = liveById.get(schema.name);
+    if (!collection) {
+      diff.missingCollections.push(schema.name);
+      continue;
+    }
+    if (!schema.attributes) {
+      continue;
+    }
+
+    compare(
+      schema.name,
+      schema.attributes.map(attribute => [attribute.key, describeAttribute(attribute)]),
+      collection.attributes.map(attribute => [attribute.key, describeAttribute(attribute)]),
+      diff.missingAttributes,
+      diff.changedAttributes,
+      diff.extraAttributes
+    );
+    compare(
+      schema.name,
+      (schema.indexes ?? []).map(index => [index.key, describeIndex(index)]),
+      collection.indexes.map(index => [index.key, describeIndex(index)]),
+      diff.missingIndexes,
+      diff.changedIndexes,
+      diff.extraIndexes
+    );
+  }
+
+  const declared = new Set(schemas.map(schema => schema.name));
+  diff.extraCollections = live.map(collection => collection.$id).filter(id => !declared.has(id));
+
+  return diff;
+}
+
+/**
+ * Whether every declared collection, attribute and index exists as declared
+ * Extra collections and attributes are reported but do not count as drift.
+ */
+export function isSchemaInSync(diff: SchemaDiff): boolean {
+  return diff.missingCollections.length === 0
+    && diff.missingAttributes.length === 0
+    && diff.changedAttributes.length === 0
+    && diff.missingIndexes.length === 0
+    && diff.changedIndexes.length === 0;
+}
+
+function compare(
+  collection: string,
+  expected: Array<[string, string]>,
+  actual: Array<[string, string]>,
+  missing: SchemaChange[],
+  changed: SchemaMismatch[],
+  extra: SchemaChange[]
+): void {
+  const actualByKey = new Map(actual);
+  const expectedKeys = new Set(expected.map(([key]) => key));
+
+  for (const [key, description] of expected) {
+    const liveDescription = actualByKey.get(key);
+    if (liveDescription === undefined) {
+      missing.push({ collection, key });
+    } else if (liveDescription !== description) {
+      changed.push({ collection, key, expected: description, actual: liveDescription });
+    }
+  }
+
+  for (const [key] of actual) {
+    if (!expectedKeys.has(key)) {
+      extra.push({ collection, key });
+    }
+  }
+}
+
+// e.g. "string[](50) required"
+function describeAttribute(attribute: Pick<SchemaAttribute, 'type' | 'required' | 'array' | 'size'>): string {
+  return `${attribute.type}${attribute.array ? '[]' : ''}`
+    + `${attribute.size !== undefined ? `(${attribute.size})` : ''}`
+    + `${attribute.required ? ' required' : ''}`;
+}
+
+// e.g. "unique(companyId ASC, name ASC)"; Appwrite reports ASC when no order was given
+function describeIndex(index: Pick<SchemaIndex, 'type' | 'attributes' | 'orders'>): string {
+  const columns = index.attributes.map((attribute, position) => `${attribute} ${index.orders?.[position] ?? 'ASC'}`);
+  return `${index.type}(${columns.join(', ')})`;
+}
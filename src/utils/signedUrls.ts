@@ -0,0 +1,45 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface SignedFileAccess {
+  bucketId: string;
+  fileId: string;
+  // Unix time in seconds after which the link stops working
+  expires: number;
+}
+
+export type SignedFileCheck = 'valid' | 'invalid' | 'expired';
+
+/**
+ * Sign bucket, file and expiry together, so none of them can be swapped in a link
+ */
+export function signFileAccess(secret: string, access: SignedFileAccess): string {
+  return createHmac('sha256', secret)
+    .update(`${access.bucketId}\n${access.fileId}\n${access.expires}`)
+    .digest('base64url');
+}
+
+/**
+ * Link to the file route that works without authentication until it expires
+ */
+export function buildSignedFileUrl(baseUrl: string, secret: string, access: SignedFileAccess): string {
+  const params = new URLSearchParams({
+    bucketId: access.bucketId,
+    expires: String(access.expires),
+    signature: signFileAccess(secret, access)
+  });
+  return `${baseUrl}/${encodeURIComponent(access.fileId)}?${params.toString()}`;
+}
+
+export function verifyFileAccess(
+  secret: string,
+  access: SignedFileAccess,
+  signature: string,
+  now: Date = new Date()
+): SignedFileCheck {
+  const expected = Buffer.from(signFileAccess(secret, access));
+  const actual = Buffer.from(signature);
+  if (!Number.isInteger(access.expires) || expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return 'invalid';
+  }
+  return access.expires * 1000 <= now.getTime() ? 'expired' : 'valid';
+}
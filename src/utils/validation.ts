@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { WEBHOOK_EVENTS } from './webhooks.js';
 
 // Authentication schemas
 export const loginSchema = z.object({
@@ -101,6 +102,7 @@ export const moodQuerySchema = z.object({
   limit: z.coerce.number().min(1).max(100).default(20),
   sortBy: z.enum(['timestamp', 'intensity', 'current']).default('timestamp'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  cursor: z.string().min(1).max(36).optional(),
   dateFrom: z.string().optional().transform((val) => {
     if (!val) return undefined;
     try {
@@ -162,6 +164,11 @@ export const updateJournalSchema = z.object({
     .optional(),
   mood: moodStateSchema.optional(),
   tags: z.array(z.string().max(50)).max(20, 'Maximum 20 tags allowed').optional(),
+  // Replaces the entry's attachments, an empty voiceRecording removes it
+  attachments: z.object({
+    images: z.array(z.string().min(1)).max(10, 'Maximum 10 images allowed').optional(),
+    voiceRecording: z.string().optional(),
+  }).optional(),
 });
 
 export const journalQuerySchema = z.object({
@@ -169,6 +176,7 @@ export const journalQuerySchema = z.object({
   limit: z.coerce.number().min(1).max(100).default(20),
   sortBy: z.enum(['createdAt', 'updatedAt', 'title']).default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  cursor: z.string().min(1).max(36).optional(),
   search: z.string().max(100).optional(),
   tags: z.string().transform(str => str.split(',').filter(Boolean)).optional(),
   dateFrom: z.string().optional().transform((val) => {
@@ -234,9 +242,38 @@ export const updateProfileSchema = z.object({
   onboardingCompleted: z.boolean().optional(),
 });
 
+const notificationChannelsSchema = z.array(z.enum(['in_app', 'email', 'webhook'])).max(3);
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:mm format');
+
+const timezoneSchema = z.string().refine((value) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid timezone');
+
+export const notificationSettingsSchema = z.object({
+  categories: z.object({
+    reminders: notificationChannelsSchema.optional(),
+    insights: notificationChannelsSchema.optional(),
+    company_announcements: notificationChannelsSchema.optional(),
+  }).optional(),
+  webhookUrl: z.string().url().startsWith('https://', 'Webhook URL must use HTTPS').optional(),
+  quietHours: z.object({
+    enabled: z.boolean(),
+    start: timeOfDaySchema,
+    end: timeOfDaySchema,
+    timezone: timezoneSchema,
+  }).optional(),
+});
+
 export const updatePreferencesSchema = z.object({
   theme: z.enum(['light', 'dark', 'auto']).optional(),
   notifications: z.boolean().optional(),
+  notificationSettings: notificationSettingsSchema.optional(),
   preferredAIModel: z.string().max(50).optional(),
   language: z.string().max(10).optional(),
 });
@@ -246,10 +283,27 @@ export const fileUploadSchema = z.object({
   type: z.enum(['image', 'audio']),
 });
 
+export const fileIdParamSchema = z.object({
+  fileId: z.string().min(1, 'File ID is required').max(64),
+});
+
+export const fileUrlQuerySchema = z.object({
+  // Defaults to the requester's own bucket
+  bucketId: z.string().min(1).max(64).optional(),
+  rendition: z.enum(['thumbnail', 'medium']).optional(),
+});
+
+export const signedFileQuerySchema = z.object({
+  bucketId: z.string().min(1, 'Bucket ID is required').max(64),
+  expires: z.coerce.number().int(),
+  signature: z.string().min(1, 'Signature is required').max(128),
+});
+
 // Pagination schema
 export const paginationSchema = z.object({
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(100).default(20),
+  cursor: z.string().min(1).max(36).optional(),
 });
 
 // ID parameter schema
@@ -298,6 +352,109 @@ export const updateUserRoleSchema = z.object({
   role: z.enum(['COMPANY_ADMIN', 'COMPANY_MANAGER', 'COMPANY_USER']),
 });
 
+export const invitationIdParamSchema = z.object({
+  companyId: z.string().min(1, 'Company ID is required'),
+  invitationId: z.string().min(1, 'Invitation ID is required'),
+});
+
+export const companyListQuerySchema = paginationSchema.extend({
+  search: z.string().max(100).optional(),
+  sortBy: z.enum(['createdAt', 'name']).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+});
+
+export const companyUsersQuerySchema = paginationSchema.extend({
+  role: z.enum(['COMPANY_ADMIN', 'COMPANY_MANAGER', 'COMPANY_USER']).optional(),
+  search: z.string().max(100).optional(),
+  sortBy: z.enum(['createdAt', 'name', 'email']).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+});
+
+export const jobQuerySchema = paginationSchema.extend({
+  status: z.enum(['pending', 'running', 'completed', 'dead', 'cancelled']).optional(),
+  type: z.string().max(100).optional(),
+  sortBy: z.enum(['createdAt', 'runAt']).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+});
+
+export const jobIdParamSchema = z.object({
+  jobId: z.string().min(1, 'Job ID is required'),
+});
+
+// Webhook schemas
+export const createWebhookSchema = z.object({
+  url: z.string().url().max(2000),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).transform(events => [...new Set(events)]),
+  description: z.string().max(500).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const updateWebhookSchema = z.object({
+  url: z.string().url().max(2000).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).transform(events => [...new Set(events)]).optional(),
+  description: z.string().max(500).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const webhookIdParamSchema = z.object({
+  companyId: z.string().min(1, 'Company ID is required'),
+  webhookId: z.string().min(1, 'Webhook ID is required'),
+});
+
+export const webhookDeliveryQuerySchema = paginationSchema;
+
+export const retentionRunQuerySchema = paginationSchema;
+
+export const companyAnalyticsQuerySchema = z.object({
+  period: z.string().regex(/^\d+[dwy]$/, 'Period must look like 7d, 4w or 1y').default('30d'),
+  departmentId: z.string().min(1).optional(),
+});
+
+export const updateSubscriptionSchema = z.object({
+  tier: z.enum(['free', 'premium', 'enterprise']),
+  maxUsers: z.number().int().min(1).max(100000).optional(),
+  validUntil: z.string().datetime().optional(),
+});
+
+export const invitationQuerySchema = paginationSchema.extend({
+  status: z.enum(['pending', 'accepted', 'revoked', 'expired']).optional(),
+  sortBy: z.enum(['createdAt', 'expiresAt']).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+});
+
+export const membershipRequestParamSchema = z.object({
+  companyId: z.string().min(1, 'Company ID is required'),
+  requestId: z.string().min(1, 'Request ID is required'),
+});
+
+export const membershipRequestQuerySchema = paginationSchema.extend({
+  status: z.enum(['awaiting_verification', 'pending', 'approved', 'rejected']).optional(),
+  sortBy: z.enum(['createdAt']).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+});
+
+// Department schemas
+export const createDepartmentSchema = z.object({
+  name: z.string().min(1, 'Department name is required').max(100, 'Department name too long').trim(),
+  description: z.string().max(500, 'Description too long').optional(),
+  managerIds: z.array(z.string().min(1)).max(20, 'Too many managers').optional(),
+});
+
+export const updateDepartmentSchema = createDepartmentSchema.partial();
+
+export const departmentIdParamSchema = z.object({
+  companyId: z.string().min(1, 'Company ID is required'),
+  departmentId: z.string().min(1, 'Department ID is required'),
+});
+
+export const departmentMemberParamSchema = departmentIdParamSchema.extend({
+  userId: z.string().min(1, 'User ID is required'),
+});
+
+export const addDepartmentMemberSchema = z.object({
+  userId: z.string().min(1, 'User ID is required'),
+});
+
 // Notification schema
 export const notificationSchema = z.object({
   title: z.string().min(1).max(100),
@@ -315,6 +472,31 @@ export const notificationSchema = z.object({
   }),
 });
 
+export const notificationQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(100).default(50),
+});
+
+// Reminder schemas
+const reminderFields = {
+  kind: z.enum(['mood', 'journal']),
+  time: timeOfDaySchema,
+  timezone: timezoneSchema,
+  recurrence: z.enum(['daily', 'weekdays', 'weekends', 'custom']),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1).max(7).optional(),
+  message: z.string().max(200).optional(),
+  isActive: z.boolean().optional(),
+};
+
+export const createReminderSchema = z.object(reminderFields).refine(
+  (data) => data.recurrence !== 'custom' || (data.daysOfWeek && data.daysOfWeek.length > 0),
+  { message: 'daysOfWeek is required for custom recurrence', path: ['daysOfWeek'] }
+);
+
+export const updateReminderSchema = z.object(reminderFields).partial().refine(
+  (data) => data.recurrence !== 'custom' || (data.daysOfWeek && data.daysOfWeek.length > 0),
+  { message: 'daysOfWeek is required for custom recurrence', path: ['daysOfWeek'] }
+);
+
 // Type inference helpers
 export type LoginInput = z.infer<typeof loginSchema>;
 export type RegisterInput = z.infer<typeof registerSchema>;
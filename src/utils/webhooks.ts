@@ -0,0 +1,123 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Events a company webhook can subscribe to
+ */
+export const WEBHOOK_EVENTS = ['member.joined', 'member.removed', 'invitation.accepted', 'report.weekly_ready'] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// Sent by the "send test event" endpoint, regardless of what the webhook subscribes to
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+/**
+ * Data sent for each event
+ * Only membership facts; nothing a member wrote or logged ever leaves the platform.
+ */
+export interface WebhookEventData {
+  'member.joined': { userId: string; email: string; role: string; joinedAt: string };
+  'member.removed': { userId: string; removedAt: string };
+  'invitation.accepted': { invitationId: string; userId: string; email: string; role: string; acceptedAt: string };
+  // Same counts as company analytics, so groups below the minimum size come through as null
+  'report.weekly_ready': {
+    period: string;
+    periodStart: string;
+    periodEnd: string;
+    totalUsers: number;
+    activeUsers: number | null;
+    journalEntries: number | null;
+    moodLogs: number | null;
+    suppressed: boolean;
+  };
+  'webhook.test': { message: string };
+}
+
+export interface WebhookEnvelope<K extends keyof WebhookEventData = keyof WebhookEventData> {
+  id: string;
+  event: K;
+  companyId: string;
+  createdAt: string;
+  data: WebhookEventData[K];
+}
+
+// Keys of journal and mood documents, rejected anywhere in a payload as a last line of defence
+const FORBIDDEN_PAYLOAD_KEYS = new Set([
+  'content',
+  'title',
+  'tags',
+  'mood',
+  'moods',
+  'journal',
+  'journals',
+  'notes',
+  'triggers',
+  'aiInsights',
+  'moodCurrent',
+  'moodIntensity',
+  'moodTriggers',
+  'moodNotes',
+  'intensity',
+  'stressLevel',
+  'energyLevel',
+  'socialInteraction'
+]);
+
+/**
+ * Paths of keys in `value` that could carry journal or mood content
+ */
+export function findForbiddenPayloadKeys(value: unknown, path = ''): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => findForbiddenPayloadKeys(item, `${path}[${index}]`));
+  }
+  if (value === null || typeof value !== 'object') {
+    return [];
+  }
+
+  return Object.entries(value).flatMap(([key, child]) => {
+    const childPath = path ? `${path}.${key}` : key;
+    return [
+      ...(FORBIDDEN_PAYLOAD_KEYS.has(key) ? [childPath] : []),
+      ...findForbiddenPayloadKeys(child, childPath)
+    ];
+  });
+}
+
+/**
+ * Serialize a webhook envelope, refusing anything that looks like journal or mood content
+ */
+export function serializeWebhookEnvelope(envelope: WebhookEnvelope): string {
+  const forbidden = findForbiddenPayloadKeys(envelope.data);
+  if (forbidden.length > 0) {
+    throw new Error(`Webhook payload contains forbidden fields: ${forbidden.join(', ')}`);
+  }
+  return JSON.stringify(envelope);
+}
+
+/**
+ * When the next weekly report goes out, Mondays at 08:00 UTC
+ */
+export function nextWeeklyReportAt(now: Date): Date {
+  const next = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), 8));
+  next.setUTCDate(next.getUTCDate() + ((8 - next.getUTCDay()) % 7));
+  if (next.getTime() <= now.getTime()) {
+    next.setUTCDate(next.getUTCDate() + 7);
+  }
+  return next;
+}
+
+/**
+ * HMAC-SHA256 signature header value for a delivery
+ * The timestamp is signed with the body so receivers can reject replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Check a signature header, for receivers and tests
+ */
+export function verifyWebhookSignature(secret: string, timestamp: number, body: string, signature: string): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}